@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadAgentModule } from "./AgentModuleLoader.js";
+import { AgentRegistry } from "./AgentRegistry.js";
+
+const dir = mkdtempSync(join(tmpdir(), "wingsim-agent-module-"));
+let moduleCount = 0;
+
+/**
+ * Write an agent module to a fresh file (modules are cached by URL) and
+ * return its path.
+ */
+function writeModule(source: string): string {
+  const path = join(dir, `agent${++moduleCount}.mjs`);
+  writeFileSync(path, source);
+  return path;
+}
+
+const AGENT_METHODS = `
+  chooseStartingHand() { throw new Error("unused"); }
+  chooseTurnAction() { throw new Error("unused"); }
+  chooseOption() { throw new Error("unused"); }
+`;
+
+describe("loadAgentModule()", () => {
+  beforeEach(() => {
+    AgentRegistry.clear();
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Named exports use the export name; default exports use the class name
+  it("registers every exported agent class", async () => {
+    const path = writeModule(`
+      export class FirstBot {
+        static description = "The first bot";
+        constructor(playerId, seed) { this.playerId = playerId; this.seed = seed; }
+        ${AGENT_METHODS}
+      }
+      export default class SecondBot {
+        constructor(playerId) { this.playerId = playerId; }
+        ${AGENT_METHODS}
+      }
+    `);
+
+    const names = await loadAgentModule(path);
+
+    expect(names).toEqual(["FirstBot", "SecondBot"]);
+    expect(AgentRegistry.get("FirstBot").description).toBe("The first bot");
+    expect(AgentRegistry.get("SecondBot").description).toBe(
+      `Loaded from ${path}`
+    );
+    const agent = AgentRegistry.create("FirstBot", "player2", 42);
+    expect(agent.playerId).toBe("player2");
+    expect((agent as unknown as { seed: number }).seed).toBe(42);
+  });
+
+  it("registers static options and passes them to the constructor", async () => {
+    const path = writeModule(`
+      export class TunedBot {
+        static options = [
+          { name: "depth", type: "integer", default: 2, description: "Search depth" },
+        ];
+        constructor(playerId, seed, options) {
+          this.playerId = playerId;
+          this.depth = options.depth;
+          this.chooseStartingHand = async () => { throw new Error("unused"); };
+          this.chooseTurnAction = async () => { throw new Error("unused"); };
+          this.chooseOption = async () => { throw new Error("unused"); };
+        }
+      }
+    `);
+
+    await loadAgentModule(path);
+
+    const agent = AgentRegistry.create("TunedBot", "player1", 1, { depth: 5 });
+    expect((agent as unknown as { depth: number }).depth).toBe(5);
+    expect(AgentRegistry.get("TunedBot").options[0].name).toBe("depth");
+  });
+
+  it("rejects exports that are not classes", async () => {
+    const path = writeModule(`export const VERSION = "1.0";`);
+
+    await expect(loadAgentModule(path)).rejects.toThrow(
+      `Export "VERSION" of agent module "${path}" is not a PlayerAgent class (got string)`
+    );
+  });
+
+  it("rejects classes missing PlayerAgent methods", async () => {
+    const path = writeModule(`
+      export class HalfBot {
+        constructor(playerId) { this.playerId = playerId; }
+        chooseStartingHand() {}
+      }
+    `);
+
+    await expect(loadAgentModule(path)).rejects.toThrow(
+      `Agent "HalfBot" from agent module "${path}" does not implement PlayerAgent: missing chooseTurnAction(), chooseOption()`
+    );
+  });
+
+  // A bad export anywhere in the module means none of its agents are registered
+  it("registers nothing when any export is invalid", async () => {
+    const path = writeModule(`
+      export class GoodBot {
+        constructor(playerId) { this.playerId = playerId; }
+        ${AGENT_METHODS}
+      }
+      export class BrokenBot {
+        constructor() { throw new Error("needs a config file"); }
+      }
+    `);
+
+    await expect(loadAgentModule(path)).rejects.toThrow(
+      `Agent "BrokenBot" from agent module "${path}" could not be constructed: needs a config file`
+    );
+    expect(AgentRegistry.has("GoodBot")).toBe(false);
+  });
+
+  it("rejects agent names that are already registered", async () => {
+    const source = `
+      export class SameBot {
+        constructor(playerId) { this.playerId = playerId; }
+        ${AGENT_METHODS}
+      }
+    `;
+    await loadAgentModule(writeModule(source));
+    const path = writeModule(source);
+
+    await expect(loadAgentModule(path)).rejects.toThrow(
+      `Agent module "${path}" exports "SameBot", but an agent with that name is already registered`
+    );
+  });
+
+  it("reports modules that fail to import", async () => {
+    const path = join(dir, "missing.mjs");
+
+    await expect(loadAgentModule(path)).rejects.toThrow(
+      `Failed to import agent module "${path}"`
+    );
+  });
+});
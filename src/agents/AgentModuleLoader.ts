@@ -0,0 +1,171 @@
+/**
+ * AgentModuleLoader - Registers agents exported by an ES module on disk.
+ *
+ * Lets bots that live outside this repo be used by the simulator without
+ * editing it (see --agent-module in src/sim/cli.ts). Every export of the
+ * module must be a PlayerAgent class whose constructor takes
+ * (playerId, seed, options) like the built-in agents. Each class is
+ * registered under its export name, or under its class name for a default
+ * export. Optional static members customize the registration:
+ *
+ *   export class GreedyBot implements PlayerAgent {
+ *     static description = "Takes the biggest reward";
+ *     static options: AgentOptionSpec[] = [...];
+ *     constructor(playerId: PlayerId, seed: number, options: AgentOptions) {...}
+ *   }
+ */
+
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { PlayerId } from "../types/core.js";
+import type { PlayerAgent } from "./PlayerAgent.js";
+import {
+  AgentRegistry,
+  type AgentOptions,
+  type AgentOptionSpec,
+} from "./AgentRegistry.js";
+
+/**
+ * Shape of an agent class exported by an agent module.
+ */
+export interface AgentModuleExport {
+  new (playerId: PlayerId, seed: number, options: AgentOptions): PlayerAgent;
+  description?: string;
+  options?: AgentOptionSpec[];
+}
+
+const REQUIRED_METHODS = [
+  "chooseStartingHand",
+  "chooseTurnAction",
+  "chooseOption",
+] as const;
+
+/**
+ * Player ID and seed used to construct a probe instance of each exported
+ * class (see checkAgentInstance()).
+ */
+const PROBE_PLAYER_ID: PlayerId = "player1";
+const PROBE_SEED = 0;
+
+/**
+ * Import an agent module and register every agent it exports.
+ * @param path - Path to the module, relative to the working directory
+ * @returns Names of the registered agents
+ * @throws Error if the module can't be imported, exports no agents, an
+ *   export doesn't implement PlayerAgent, or an agent name is taken
+ */
+export async function loadAgentModule(path: string): Promise<string[]> {
+  let module: Record<string, unknown>;
+  try {
+    module = await import(pathToFileURL(resolve(path)).href);
+  } catch (error) {
+    throw new Error(
+      `Failed to import agent module "${path}": ${(error as Error).message}`
+    );
+  }
+
+  const agents = Object.entries(module).map(([exportName, value]) => {
+    const agentClass = checkAgentExport(path, exportName, value);
+    const name = exportName === "default" ? agentClass.name : exportName;
+    if (name === "") {
+      throw new Error(
+        `Default export of agent module "${path}" is an anonymous class; give it a name`
+      );
+    }
+    return { name, agentClass };
+  });
+  if (agents.length === 0) {
+    throw new Error(`Agent module "${path}" exports no agents`);
+  }
+
+  // Check every agent before registering any, so a bad module registers nothing
+  const names = new Set<string>();
+  for (const { name, agentClass } of agents) {
+    if (names.has(name)) {
+      throw new Error(`Agent module "${path}" exports "${name}" twice`);
+    }
+    names.add(name);
+    if (AgentRegistry.has(name)) {
+      throw new Error(
+        `Agent module "${path}" exports "${name}", but an agent with that name is already registered`
+      );
+    }
+    checkAgentInstance(path, name, agentClass);
+  }
+  for (const { name, agentClass } of agents) {
+    AgentRegistry.register(
+      name,
+      agentClass.description ?? `Loaded from ${path}`,
+      (playerId, seed, options) => new agentClass(playerId, seed, options),
+      agentClass.options ?? []
+    );
+  }
+
+  return agents.map(({ name }) => name);
+}
+
+/**
+ * Check that a module export looks like an agent class.
+ * @throws Error describing what's wrong with the export
+ */
+function checkAgentExport(
+  path: string,
+  exportName: string,
+  value: unknown
+): AgentModuleExport {
+  const where = `Export "${exportName}" of agent module "${path}"`;
+  if (typeof value !== "function" || value.prototype === undefined) {
+    throw new Error(
+      `${where} is not a PlayerAgent class (got ${value === null ? "null" : typeof value})`
+    );
+  }
+  const agentClass = value as AgentModuleExport;
+  if (
+    agentClass.description !== undefined &&
+    typeof agentClass.description !== "string"
+  ) {
+    throw new Error(`${where} has a non-string static description`);
+  }
+  if (agentClass.options !== undefined && !Array.isArray(agentClass.options)) {
+    throw new Error(`${where} has static options that are not an array`);
+  }
+  return agentClass;
+}
+
+/**
+ * Check that instances of an agent class implement PlayerAgent, by
+ * constructing one with the default options. Methods may live on the
+ * prototype or be assigned in the constructor, so this can only be checked
+ * on an instance.
+ * @throws Error if the constructor throws or the instance is missing a member
+ */
+function checkAgentInstance(
+  path: string,
+  name: string,
+  agentClass: AgentModuleExport
+): void {
+  const where = `Agent "${name}" from agent module "${path}"`;
+  const defaults = Object.fromEntries(
+    (agentClass.options ?? []).map((option) => [option.name, option.default])
+  );
+  let agent: PlayerAgent;
+  try {
+    agent = new agentClass(PROBE_PLAYER_ID, PROBE_SEED, defaults);
+  } catch (error) {
+    throw new Error(
+      `${where} could not be constructed: ${(error as Error).message}`
+    );
+  }
+
+  const missing: string[] = REQUIRED_METHODS.filter(
+    (method) => typeof agent[method] !== "function"
+  ).map((method) => `${method}()`);
+  if (agent.playerId !== PROBE_PLAYER_ID) {
+    missing.push("a playerId matching its constructor argument");
+  }
+  if (missing.length > 0) {
+    throw new Error(
+      `${where} does not implement PlayerAgent: missing ${missing.join(", ")}`
+    );
+  }
+}
@@ -1,5 +1,10 @@
 import { describe, it, expect, beforeEach } from "vitest";
-import { AgentRegistry } from "./AgentRegistry.js";
+import {
+  AgentRegistry,
+  formatAgentSpec,
+  parseAgentSpec,
+  type AgentOptionSpec,
+} from "./AgentRegistry.js";
 import type { PlayerAgent } from "./PlayerAgent.js";
 import type { PlayerId } from "../types/core.js";
 import type {
@@ -28,6 +33,58 @@ class MockAgent implements PlayerAgent {
   }
 }
 
+const OPTIONS: AgentOptionSpec[] = [
+  { name: "depth", type: "integer", default: 1, description: "Search depth" },
+  { name: "greedy", type: "boolean", default: false, description: "Be greedy" },
+  { name: "style", type: "string", default: "calm", description: "Play style" },
+];
+
+function registerWithOptions(): void {
+  AgentRegistry.register(
+    "TestAgent",
+    "A test agent",
+    (playerId, seed) => new MockAgent(playerId, seed),
+    OPTIONS
+  );
+}
+
+describe("parseAgentSpec()", () => {
+  it("parses a bare agent name", () => {
+    expect(parseAgentSpec("SmartRandomAgent")).toEqual({
+      name: "SmartRandomAgent",
+      options: {},
+    });
+  });
+
+  // Bare option names are flags
+  it("parses options after the name", () => {
+    expect(parseAgentSpec("Heuristic:eggWeight=1.5, lookahead=2,greedy")).toEqual({
+      name: "Heuristic",
+      options: { eggWeight: "1.5", lookahead: "2", greedy: "true" },
+    });
+  });
+
+  it("throws on a missing agent or option name", () => {
+    expect(() => parseAgentSpec(":depth=2")).toThrow(
+      'Invalid agent spec ":depth=2": missing agent name'
+    );
+    expect(() => parseAgentSpec("Agent:=2")).toThrow(
+      'Invalid agent spec "Agent:=2": option without a name'
+    );
+  });
+
+  it("round-trips through formatAgentSpec()", () => {
+    expect(formatAgentSpec("Agent")).toBe("Agent");
+    expect(formatAgentSpec("Agent", { depth: 2, greedy: true })).toBe(
+      "Agent:depth=2,greedy=true"
+    );
+    expect(parseAgentSpec(formatAgentSpec("Agent", { depth: 2 }))).toEqual({
+      name: "Agent",
+      options: { depth: "2" },
+    });
+  });
+});
+
 describe("AgentRegistry", () => {
   // Reset registry state before each test to prevent cross-test pollution
   beforeEach(() => {
@@ -63,6 +120,20 @@ describe("AgentRegistry", () => {
       ).toThrow('Agent "TestAgent" is already registered');
     });
 
+    // Schema mistakes are caught when the agent is registered, not when it is used
+    it("throws when an option default does not match its type", () => {
+      expect(() =>
+        AgentRegistry.register(
+          "TestAgent",
+          "A test agent",
+          (playerId, seed) => new MockAgent(playerId, seed),
+          [{ name: "depth", type: "integer", default: "deep", description: "" }]
+        )
+      ).toThrow(
+        'Default for option "depth" of agent "TestAgent" must be an integer, got "deep"'
+      );
+    });
+
     // Agent names are case-sensitive to avoid ambiguity in CLI usage
     it("allows registering agents with different casing", () => {
       AgentRegistry.register(
@@ -97,6 +168,58 @@ describe("AgentRegistry", () => {
       expect((agent as MockAgent).seed).toBe(12345);
     });
 
+    // Options are checked and completed with defaults before reaching the factory
+    it("passes resolved options to the factory", () => {
+      const received: unknown[] = [];
+      AgentRegistry.register(
+        "TestAgent",
+        "A test agent",
+        (playerId, seed, options) => {
+          received.push(options);
+          return new MockAgent(playerId, seed);
+        },
+        OPTIONS
+      );
+
+      AgentRegistry.create("TestAgent", "player1", 1, { depth: 2, greedy: true });
+      AgentRegistry.create("TestAgent", "player1", 1);
+
+      expect(received).toEqual([
+        { depth: 2, greedy: true, style: "calm" },
+        { depth: 1, greedy: false, style: "calm" },
+      ]);
+    });
+
+    // A typo in an option name should not silently fall back to the default
+    it("throws on unknown options", () => {
+      registerWithOptions();
+      AgentRegistry.register(
+        "PlainAgent",
+        "No options",
+        (playerId, seed) => new MockAgent(playerId, seed)
+      );
+
+      expect(() =>
+        AgentRegistry.create("TestAgent", "player1", 1, { dpeth: 2 })
+      ).toThrow(
+        'Unknown option "dpeth" for agent "TestAgent". Available options: depth, greedy, style'
+      );
+      expect(() =>
+        AgentRegistry.create("PlainAgent", "player1", 1, { depth: 2 })
+      ).toThrow('Unknown option "depth" for agent "PlainAgent". It takes no options');
+    });
+
+    it("throws on options of the wrong type", () => {
+      registerWithOptions();
+
+      expect(() =>
+        AgentRegistry.create("TestAgent", "player1", 1, { depth: 1.5 })
+      ).toThrow('Option "depth" for agent "TestAgent" must be an integer, got 1.5');
+      expect(() =>
+        AgentRegistry.create("TestAgent", "player1", 1, { greedy: "yes" })
+      ).toThrow('Option "greedy" for agent "TestAgent" must be a boolean, got "yes"');
+    });
+
     // Clear error message helps users identify typos in agent names
     it("throws with helpful message when agent not found", () => {
       AgentRegistry.register(
@@ -118,7 +241,59 @@ describe("AgentRegistry", () => {
     });
   });
 
+  describe("parseOptions()", () => {
+    // Only the options that were given are returned; defaults are left to create()
+    it("converts option text to each option's type", () => {
+      registerWithOptions();
+
+      expect(
+        AgentRegistry.parseOptions("TestAgent", {
+          depth: "3",
+          greedy: "true",
+          style: "wild",
+        })
+      ).toEqual({ depth: 3, greedy: true, style: "wild" });
+      expect(AgentRegistry.parseOptions("TestAgent", {})).toEqual({});
+    });
+
+    it("throws on text that is not a valid value", () => {
+      registerWithOptions();
+
+      expect(() => AgentRegistry.parseOptions("TestAgent", { depth: "two" })).toThrow(
+        'Option "depth" for agent "TestAgent" must be an integer, got "two"'
+      );
+      expect(() => AgentRegistry.parseOptions("TestAgent", { greedy: "1" })).toThrow(
+        'Option "greedy" for agent "TestAgent" must be a boolean, got "1"'
+      );
+      expect(() => AgentRegistry.parseOptions("TestAgent", { deep: "1" })).toThrow(
+        'Unknown option "deep" for agent "TestAgent"'
+      );
+    });
+  });
+
+  describe("formatSpec()", () => {
+    it("labels equivalent options the same way", () => {
+      registerWithOptions();
+
+      expect(AgentRegistry.formatSpec("TestAgent")).toBe("TestAgent");
+      expect(
+        AgentRegistry.formatSpec("TestAgent", { style: "wild", depth: 1, greedy: true })
+      ).toBe("TestAgent:greedy=true,style=wild");
+      expect(
+        AgentRegistry.formatSpec("TestAgent", { greedy: true, style: "wild" })
+      ).toBe("TestAgent:greedy=true,style=wild");
+    });
+  });
+
   describe("list()", () => {
+    // --list-agents prints each agent's options
+    it("includes each agent's options", () => {
+      registerWithOptions();
+
+      expect(AgentRegistry.list()[0].options).toEqual(OPTIONS);
+    });
+
+
     // Returns registration data needed for CLI --list-agents output
     it("returns all registered agents", () => {
       AgentRegistry.register(
@@ -1,11 +1,43 @@
 import type { PlayerId } from "../types/core.js";
 import type { PlayerAgent } from "./PlayerAgent.js";
 
+/**
+ * Value of a single agent option.
+ */
+export type AgentOptionValue = string | number | boolean;
+
+/**
+ * Options used to configure an agent, keyed by option name.
+ */
+export type AgentOptions = Readonly<Record<string, AgentOptionValue>>;
+
+/**
+ * Type of an agent option. "integer" options are numbers without a
+ * fractional part.
+ */
+export type AgentOptionType = "number" | "integer" | "boolean" | "string";
+
+/**
+ * Schema entry describing one option an agent accepts.
+ */
+export interface AgentOptionSpec {
+  name: string;
+  type: AgentOptionType;
+  /** Value used when the option is not set */
+  default: AgentOptionValue;
+  description: string;
+}
+
 /**
  * Factory function type for creating PlayerAgent instances.
- * Each factory receives the player ID and a seed for reproducible behavior.
+ * Each factory receives the player ID, a seed for reproducible behavior, and
+ * the agent's options: every option in its schema, set or defaulted.
  */
-export type AgentFactory = (playerId: PlayerId, seed: number) => PlayerAgent;
+export type AgentFactory = (
+  playerId: PlayerId,
+  seed: number,
+  options: AgentOptions
+) => PlayerAgent;
 
 /**
  * Registration record for an agent type.
@@ -14,38 +46,169 @@ export interface AgentRegistration {
   name: string;
   description: string;
   factory: AgentFactory;
+  /** Options the agent accepts (empty if it takes none) */
+  options: AgentOptionSpec[];
+}
+
+/**
+ * An agent type name plus the option values to create it with, as written
+ * on the command line (e.g. "HeuristicAgent:eggWeight=1.5,cardWeight=0").
+ */
+export interface AgentSpec {
+  name: string;
+  /** Raw option values, not yet checked against the agent's schema */
+  options: Record<string, string>;
 }
 
 /**
- * Registry for agent types that can participate in simulations.
- * Maps agent type names (used in CLI) to factory functions that create agent instances.
+ * Parse an agent spec of the form "Name" or "Name:key=value,key=value".
+ * An option without "=value" is shorthand for "=true".
+ * @throws Error if the spec has no name or an option has no name
  */
+export function parseAgentSpec(spec: string): AgentSpec {
+  const separator = spec.indexOf(":");
+  const name = (separator === -1 ? spec : spec.slice(0, separator)).trim();
+  if (name === "") {
+    throw new Error(`Invalid agent spec "${spec}": missing agent name`);
+  }
+
+  const options: Record<string, string> = {};
+  if (separator !== -1) {
+    for (const pair of spec.slice(separator + 1).split(",")) {
+      if (pair.trim() === "") continue;
+      const equals = pair.indexOf("=");
+      const key = (equals === -1 ? pair : pair.slice(0, equals)).trim();
+      if (key === "") {
+        throw new Error(`Invalid agent spec "${spec}": option without a name`);
+      }
+      options[key] = equals === -1 ? "true" : pair.slice(equals + 1).trim();
+    }
+  }
+
+  return { name, options };
+}
+
+/**
+ * Format an agent type and options back into spec form.
+ */
+export function formatAgentSpec(name: string, options: AgentOptions = {}): string {
+  const pairs = Object.entries(options).map(([key, value]) => `${key}=${value}`);
+  return pairs.length > 0 ? `${name}:${pairs.join(",")}` : name;
+}
+
 class AgentRegistryImpl {
   private readonly agents: Map<string, AgentRegistration> = new Map();
 
   /**
    * Register a new agent type.
-   * @throws Error if an agent with the same name is already registered
+   * @param options Schema of the options the agent accepts
+   * @throws Error if an agent with the same name is already registered, or
+   *   if an option's default doesn't match its type
    */
-  register(name: string, description: string, factory: AgentFactory): void {
+  register(
+    name: string,
+    description: string,
+    factory: AgentFactory,
+    options: AgentOptionSpec[] = []
+  ): void {
     if (this.agents.has(name)) {
       throw new Error(`Agent "${name}" is already registered`);
     }
-    this.agents.set(name, { name, description, factory });
+    for (const option of options) {
+      const error = checkOptionValue(option, option.default);
+      if (error) {
+        throw new Error(`Default for option "${option.name}" of agent "${name}" ${error}`);
+      }
+    }
+    this.agents.set(name, { name, description, factory, options });
   }
 
   /**
    * Create an agent instance by type name.
-   * @throws Error if the agent type is not registered
+   * Options are checked against the agent's schema, and unset options take
+   * their defaults.
+   * @throws Error if the agent type is not registered or an option is
+   *   unknown or has the wrong type
    */
-  create(name: string, playerId: PlayerId, seed: number): PlayerAgent {
-    const registration = this.agents.get(name);
-    if (!registration) {
-      throw new Error(
-        `Agent "${name}" not found. Available agents: ${this.listNames().join(", ")}`
-      );
+  create(
+    name: string,
+    playerId: PlayerId,
+    seed: number,
+    options: AgentOptions = {}
+  ): PlayerAgent {
+    const registration = this.get(name);
+    return registration.factory(
+      playerId,
+      seed,
+      this.resolveOptions(name, options)
+    );
+  }
+
+  /**
+   * Check options against an agent's schema and fill in defaults.
+   * @throws Error if the agent type is not registered or an option is
+   *   unknown or has the wrong type
+   */
+  resolveOptions(name: string, options: AgentOptions): AgentOptions {
+    const registration = this.get(name);
+    const specs = new Map(registration.options.map((spec) => [spec.name, spec]));
+    for (const key of Object.keys(options)) {
+      if (!specs.has(key)) {
+        throw new Error(
+          `Unknown option "${key}" for agent "${name}". ${describeAvailableOptions(registration)}`
+        );
+      }
+    }
+
+    const resolved: Record<string, AgentOptionValue> = {};
+    for (const spec of registration.options) {
+      const value = options[spec.name] ?? spec.default;
+      const error = checkOptionValue(spec, value);
+      if (error) {
+        throw new Error(`Option "${spec.name}" for agent "${name}" ${error}`);
+      }
+      resolved[spec.name] = value;
+    }
+    return resolved;
+  }
+
+  /**
+   * Convert raw option strings (e.g. from an AgentSpec) to typed values
+   * using the agent's schema, then check them like create() would.
+   * @throws Error if the agent type is not registered, or an option is
+   *   unknown or can't be parsed as its type
+   */
+  parseOptions(name: string, raw: Readonly<Record<string, string>>): AgentOptions {
+    const registration = this.get(name);
+    const options: Record<string, AgentOptionValue> = {};
+    for (const [key, text] of Object.entries(raw)) {
+      const spec = registration.options.find((option) => option.name === key);
+      if (!spec) {
+        throw new Error(
+          `Unknown option "${key}" for agent "${name}". ${describeAvailableOptions(registration)}`
+        );
+      }
+      options[key] = parseOptionValue(spec, text, name);
     }
-    return registration.factory(playerId, seed);
+    this.resolveOptions(name, options);
+    return options;
+  }
+
+  /**
+   * Format an agent type and options in spec form, the same way however the
+   * options were written: in the order of the agent's schema, leaving out
+   * those set to their default. Use it to label agent variants.
+   * @throws Error if the agent type is not registered or an option is
+   *   unknown or has the wrong type
+   */
+  formatSpec(name: string, options: AgentOptions = {}): string {
+    const resolved = this.resolveOptions(name, options);
+    const changed = Object.fromEntries(
+      this.get(name).options
+        .filter((spec) => resolved[spec.name] !== spec.default)
+        .map((spec) => [spec.name, resolved[spec.name]])
+    );
+    return formatAgentSpec(name, changed);
   }
 
   /**
@@ -62,6 +225,20 @@ class AgentRegistryImpl {
     return Array.from(this.agents.keys());
   }
 
+  /**
+   * Get an agent type's registration.
+   * @throws Error if the agent type is not registered
+   */
+  get(name: string): AgentRegistration {
+    const registration = this.agents.get(name);
+    if (!registration) {
+      throw new Error(
+        `Agent "${name}" not found. Available agents: ${this.listNames().join(", ")}`
+      );
+    }
+    return registration;
+  }
+
   /**
    * Check if an agent type is registered.
    */
@@ -77,6 +254,71 @@ class AgentRegistryImpl {
   }
 }
 
+/**
+ * Check that a value has an option's type.
+ * @returns Why the value is invalid, or null if it is valid
+ */
+function checkOptionValue(
+  spec: AgentOptionSpec,
+  value: AgentOptionValue
+): string | null {
+  switch (spec.type) {
+    case "number":
+      return typeof value === "number" && !Number.isNaN(value)
+        ? null
+        : `must be a number, got ${JSON.stringify(value)}`;
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value)
+        ? null
+        : `must be an integer, got ${JSON.stringify(value)}`;
+    case "boolean":
+      return typeof value === "boolean"
+        ? null
+        : `must be a boolean, got ${JSON.stringify(value)}`;
+    case "string":
+      return typeof value === "string"
+        ? null
+        : `must be a string, got ${JSON.stringify(value)}`;
+  }
+}
+
+/**
+ * Parse an option's value from text.
+ * @throws Error if the text isn't a valid value of the option's type
+ */
+function parseOptionValue(
+  spec: AgentOptionSpec,
+  text: string,
+  agentName: string
+): AgentOptionValue {
+  const invalid = () =>
+    new Error(
+      `Option "${spec.name}" for agent "${agentName}" must be ${spec.type === "integer" ? "an" : "a"} ${spec.type}, got "${text}"`
+    );
+  switch (spec.type) {
+    case "number":
+    case "integer": {
+      const value = text.trim() === "" ? NaN : Number(text);
+      if (Number.isNaN(value) || (spec.type === "integer" && !Number.isInteger(value))) {
+        throw invalid();
+      }
+      return value;
+    }
+    case "boolean":
+      if (text === "true") return true;
+      if (text === "false") return false;
+      throw invalid();
+    case "string":
+      return text;
+  }
+}
+
+function describeAvailableOptions(registration: AgentRegistration): string {
+  return registration.options.length > 0
+    ? `Available options: ${registration.options.map((option) => option.name).join(", ")}`
+    : "It takes no options";
+}
+
 /**
  * Singleton instance of the agent registry.
  */
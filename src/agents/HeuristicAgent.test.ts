@@ -0,0 +1,410 @@
+import { describe, it, expect } from "vitest";
+import {
+  HeuristicAgent,
+  DEFAULT_HEURISTIC_WEIGHTS,
+} from "./HeuristicAgent.js";
+import { SmartRandomAgent } from "./SmartRandomAgent.js";
+import { AgentRegistry } from "./AgentRegistry.js";
+import { GameEngine } from "../engine/GameEngine.js";
+import { DataRegistry } from "../data/DataRegistry.js";
+import type {
+  ActivatePowerPrompt,
+  DrawCardsPrompt,
+  PlaceEggsPrompt,
+  PlayBirdPrompt,
+  PlayerView,
+  PromptContext,
+  SelectCardsPrompt,
+  SelectFoodFromSupplyPrompt,
+  TurnActionPrompt,
+} from "../types/prompts.js";
+import type { BirdCard, BirdInstance, PowerSpec } from "../types/core.js";
+
+function createView(overrides: Partial<PlayerView> = {}): PlayerView {
+  return {
+    playerId: "player1",
+    hand: [],
+    bonusCards: [],
+    food: {},
+    board: { FOREST: [], GRASSLAND: [], WETLAND: [] },
+    actionCubes: 8,
+    round: 1,
+    turn: 1,
+    activePlayerId: "player1",
+    birdfeeder: [],
+    birdTray: [],
+    deckSize: 50,
+    roundGoals: [],
+    opponents: [],
+    ...overrides,
+  };
+}
+
+const context: PromptContext = {
+  round: 1,
+  activePlayerId: "player1",
+  trigger: {
+    type: "WHEN_ACTIVATED",
+    habitat: "FOREST",
+    sourceBirdId: "test_bird",
+  },
+};
+
+function createBird(id: string, overrides: Partial<BirdCard> = {}): BirdCard {
+  return {
+    id,
+    name: `Test Bird ${id}`,
+    scientificName: "Testus birdus",
+    habitats: ["FOREST"],
+    power: null,
+    victoryPoints: 1,
+    nestType: "BOWL",
+    eggCapacity: 2,
+    foodCost: {},
+    foodCostMode: "NONE",
+    wingspanCentimeters: 20,
+    bonusCards: [],
+    flavorText: "",
+    countries: [],
+    categorization: null,
+    ...overrides,
+  };
+}
+
+function createInstance(card: BirdCard, eggs = 0): BirdInstance {
+  return {
+    id: `player1_${card.id}`,
+    card,
+    cachedFood: {},
+    tuckedCards: [],
+    eggs,
+  };
+}
+
+describe("HeuristicAgent", () => {
+  describe("options", () => {
+    // Every weight is an option, defaulting to the built-in weights
+    it("registers one number option per weight", () => {
+      const { options } = AgentRegistry.get("HeuristicAgent");
+
+      expect(
+        Object.fromEntries(options.map((option) => [option.name, option.default]))
+      ).toEqual(DEFAULT_HEURISTIC_WEIGHTS);
+      expect(options.every((option) => option.type === "number")).toBe(true);
+    });
+
+    it("is created from the AgentRegistry with weights", async () => {
+      const prompt: TurnActionPrompt = {
+        promptId: "turn-1",
+        playerId: "player1",
+        kind: "turnAction",
+        view: createView({ hand: [createBird("a")] }),
+        context,
+        eligibleActions: ["GAIN_FOOD", "DRAW_CARDS"],
+        rewardsByAction: {
+          PLAY_BIRD: { reward: { type: "CARDS", count: 0 } },
+          GAIN_FOOD: { reward: { type: "FOOD", count: 1 } },
+          LAY_EGGS: { reward: { type: "EGGS", count: 0 } },
+          DRAW_CARDS: { reward: { type: "CARDS", count: 1 } },
+        },
+      };
+      const create = (foodWeight: number) =>
+        AgentRegistry.create("HeuristicAgent", "player1", 1, { foodWeight });
+
+      expect(create(10)).toBeInstanceOf(HeuristicAgent);
+      expect((await create(10).chooseTurnAction(prompt)).action).toBe(
+        "GAIN_FOOD"
+      );
+      expect((await create(0).chooseTurnAction(prompt)).action).toBe(
+        "DRAW_CARDS"
+      );
+    });
+
+    // Typos in sweep parameters should fail loudly, not be ignored
+    it("rejects unknown options", () => {
+      expect(() =>
+        AgentRegistry.create("HeuristicAgent", "player1", 1, { egWeight: 1 })
+      ).toThrow(
+        `Unknown option "egWeight" for agent "HeuristicAgent". Available options: ${Object.keys(DEFAULT_HEURISTIC_WEIGHTS).join(", ")}`
+      );
+    });
+  });
+
+  describe("chooseTurnAction()", () => {
+    const nest = createBird("nest", { eggCapacity: 4, habitats: ["GRASSLAND"] });
+    const prompt: TurnActionPrompt = {
+      promptId: "turn-1",
+      playerId: "player1",
+      kind: "turnAction",
+      view: createView({
+        hand: [createBird("a"), createBird("b"), createBird("c")],
+        board: {
+          FOREST: [null, null, null, null, null],
+          GRASSLAND: [createInstance(nest), null, null, null, null],
+          WETLAND: [null, null, null, null, null],
+        },
+      }),
+      context,
+      eligibleActions: ["GAIN_FOOD", "LAY_EGGS", "DRAW_CARDS"],
+      rewardsByAction: {
+        PLAY_BIRD: { reward: { type: "CARDS", count: 0 } },
+        GAIN_FOOD: { reward: { type: "FOOD", count: 2 } },
+        LAY_EGGS: { reward: { type: "EGGS", count: 2 } },
+        DRAW_CARDS: { reward: { type: "CARDS", count: 2 } },
+      },
+    };
+
+    // The weights decide which resource a turn is spent on
+    it("takes the action whose resource is weighted highest", async () => {
+      const eggs = new HeuristicAgent("player1", 1);
+      const food = new HeuristicAgent("player1", 1, { foodWeight: 5 });
+      const cards = new HeuristicAgent("player1", 1, { cardWeight: 5 });
+
+      expect((await eggs.chooseTurnAction(prompt)).action).toBe("LAY_EGGS");
+      expect((await food.chooseTurnAction(prompt)).action).toBe("GAIN_FOOD");
+      expect((await cards.chooseTurnAction(prompt)).action).toBe("DRAW_CARDS");
+    });
+
+    // Eggs have no value without room to lay them
+    it("does not lay eggs when no bird has room for them", async () => {
+      const full = createInstance(nest, 4);
+      const agent = new HeuristicAgent("player1", 1);
+
+      const choice = await agent.chooseTurnAction({
+        ...prompt,
+        view: createView({
+          ...prompt.view,
+          board: {
+            FOREST: [null, null, null, null, null],
+            GRASSLAND: [full, null, null, null, null],
+            WETLAND: [null, null, null, null, null],
+          },
+        }),
+      });
+
+      expect(choice.action).not.toBe("LAY_EGGS");
+    });
+
+    // A bonus trade is only taken when its reward outweighs its cost
+    it("takes habitat bonus trades that pay off", async () => {
+      const withBonus: TurnActionPrompt = {
+        ...prompt,
+        eligibleActions: ["LAY_EGGS"],
+        rewardsByAction: {
+          ...prompt.rewardsByAction,
+          LAY_EGGS: {
+            reward: { type: "EGGS", count: 2 },
+            bonus: {
+              cost: { type: "FOOD", count: 1 },
+              reward: { type: "EGGS", count: 1 },
+            },
+          },
+        },
+      };
+
+      const cheapFood = new HeuristicAgent("player1", 1);
+      const dearFood = new HeuristicAgent("player1", 1, { foodWeight: 3 });
+
+      expect((await cheapFood.chooseTurnAction(withBonus)).takeBonus).toBe(true);
+      expect((await dearFood.chooseTurnAction(withBonus)).takeBonus).toBe(false);
+    });
+  });
+
+  describe("chooseOption()", () => {
+    // The most valuable placement wins, including bonus card matches
+    it("plays the bird worth the most", async () => {
+      const plain = createBird("plain", { victoryPoints: 3 });
+      const matching = createBird("matching", {
+        victoryPoints: 2,
+        bonusCards: ["bird_counter"],
+      });
+      const prompt: PlayBirdPrompt = {
+        promptId: "play-1",
+        playerId: "player1",
+        kind: "playBird",
+        view: createView({
+          hand: [plain, matching],
+          bonusCards: [
+            {
+              id: "bird_counter",
+              name: "Bird Counter",
+              condition: "",
+              scoringType: "PER_BIRD",
+              scoring: [{ points: 2 }],
+              explanatoryText: null,
+              percentageOfEligibleBirds: 20,
+            },
+          ],
+        }),
+        context,
+        eligibleBirds: [plain, matching],
+        eggCostByEligibleHabitat: { FOREST: 0 },
+      };
+
+      const choice = await new HeuristicAgent("player1", 1).chooseOption(prompt);
+
+      expect(choice).toMatchObject({ bird: "matching", habitat: "FOREST" });
+    });
+
+    // Eggs go where they count toward the current round goal
+    it("places eggs toward the current round goal", async () => {
+      const forest = createInstance(createBird("forest"));
+      const wetland = createInstance(
+        createBird("wetland", { habitats: ["WETLAND"], eggCapacity: 5 })
+      );
+      const prompt: PlaceEggsPrompt = {
+        promptId: "eggs-1",
+        playerId: "player1",
+        kind: "placeEggs",
+        view: createView({
+          roundGoals: ["eggs_in_forest", "birds_in_wetland"],
+          board: {
+            FOREST: [forest, null, null, null, null],
+            GRASSLAND: [null, null, null, null, null],
+            WETLAND: [wetland, null, null, null, null],
+          },
+        }),
+        context,
+        count: 3,
+        remainingCapacitiesByEligibleBird: {
+          [forest.id]: 2,
+          [wetland.id]: 5,
+        },
+      };
+
+      const choice = await new HeuristicAgent("player1", 1).chooseOption(prompt);
+
+      expect(choice).toMatchObject({
+        placements: { [forest.id]: 2, [wetland.id]: 1 },
+      });
+    });
+
+    // Food is taken toward birds in hand that can't be paid for yet
+    it("gains the food birds in hand still need", async () => {
+      const prompt: SelectFoodFromSupplyPrompt = {
+        promptId: "food-1",
+        playerId: "player1",
+        kind: "selectFoodFromSupply",
+        view: createView({
+          hand: [
+            createBird("fisher", {
+              foodCost: { FISH: 2, SEED: 1 },
+              foodCostMode: "AND",
+            }),
+          ],
+          food: { SEED: 1 },
+        }),
+        context,
+        count: 2,
+        allowedFoods: ["SEED", "FISH", "FRUIT"],
+      };
+
+      const choice = await new HeuristicAgent("player1", 1).chooseOption(prompt);
+
+      expect(choice).toMatchObject({ food: { FISH: 2 } });
+    });
+
+    // Tray birds are only taken when better than a blind draw
+    it("draws strong tray birds and otherwise draws from the deck", async () => {
+      const strong = createBird("strong", { victoryPoints: 9 });
+      const weak = createBird("weak", { victoryPoints: 0 });
+      const prompt: DrawCardsPrompt = {
+        promptId: "draw-1",
+        playerId: "player1",
+        kind: "drawCards",
+        view: createView(),
+        context,
+        remaining: 2,
+        trayCards: [weak, strong],
+      };
+
+      const choice = await new HeuristicAgent("player1", 1).chooseOption(prompt);
+
+      expect(choice).toMatchObject({ trayCards: ["strong"], numDeckCards: 1 });
+    });
+
+    // Keep the best cards, give up the worst
+    it("keeps the most valuable cards and tucks the least valuable", async () => {
+      const cards = [0, 5, 2].map((vp) =>
+        createBird(`vp${vp}`, { victoryPoints: vp })
+      );
+      const prompt = (mode: SelectCardsPrompt["mode"]): SelectCardsPrompt => ({
+        promptId: "cards-1",
+        playerId: "player1",
+        kind: "selectCards",
+        view: createView({ hand: cards }),
+        context,
+        mode,
+        source: "HAND",
+        count: 1,
+        eligibleCards: cards,
+      });
+      const agent = new HeuristicAgent("player1", 1);
+
+      expect(await agent.chooseOption(prompt("KEEP"))).toMatchObject({
+        cards: ["vp5"],
+      });
+      expect(await agent.chooseOption(prompt("TUCK"))).toMatchObject({
+        cards: ["vp0"],
+      });
+    });
+
+    // Trading an egg (a point) for cards is declined when cards are cheap
+    it("declines power trades that cost more than they return", async () => {
+      const power: PowerSpec = {
+        handlerId: "discardEggToDrawCards",
+        trigger: "WHEN_ACTIVATED",
+        params: { drawCount: 2, eggCount: 1 },
+        text: "Discard 1 [egg] to draw 2 [card].",
+      };
+      const prompt: ActivatePowerPrompt = {
+        promptId: "power-1",
+        playerId: "player1",
+        kind: "activatePower",
+        view: createView({
+          hand: Array.from({ length: 6 }, (_, i) => createBird(`hand${i}`)),
+        }),
+        context,
+        birdInstanceId: "player1_trader",
+        power,
+      };
+
+      const stingy = new HeuristicAgent("player1", 1);
+      const cardHungry = new HeuristicAgent("player1", 1, { cardWeight: 10 });
+
+      expect(await stingy.chooseOption(prompt)).toMatchObject({
+        activate: false,
+      });
+      expect(await cardHungry.chooseOption(prompt)).toMatchObject({
+        activate: true,
+      });
+    });
+  });
+
+  describe("full games", () => {
+    const registry = new DataRegistry();
+
+    const play = (seed: number) =>
+      new GameEngine({
+        agents: [
+          new HeuristicAgent("player1", seed),
+          new SmartRandomAgent("player2", seed + 1),
+        ],
+        seed,
+        registry,
+      }).playGame();
+
+    // Every choice must pass validation, or the agent would forfeit
+    it("completes games against SmartRandomAgent without forfeiting", async () => {
+      for (const seed of [1, 2, 3, 4, 5]) {
+        const result = await play(seed);
+        expect(result.forfeitedPlayers).toBeUndefined();
+        expect(result.roundsPlayed).toBe(4);
+      }
+    }, 30000);
+
+    it("plays the same game for the same seed", async () => {
+      expect(await play(7)).toEqual(await play(7));
+    }, 30000);
+  });
+});
@@ -0,0 +1,1053 @@
+/**
+ * HeuristicAgent - Greedy agent that scores every option it is offered.
+ *
+ * Each decision is made by estimating what every legal option is worth from
+ * the agent's PlayerView and picking the best one. Estimates are a weighted
+ * sum of immediate points, the engine value of brown powers over the turns
+ * left in the game, food/egg/card resources, progress toward held bonus
+ * cards and the current round goal, and how much a habitat row's action
+ * improves when a bird is placed in it (from PlayerBoardConfig). The weights
+ * are tunable through AgentRegistry options so parameter sweeps can be run
+ * from the simulator.
+ *
+ * Where a prompt leaves details the heuristics have no opinion on (e.g. the
+ * exact food paid for a bird), the agent defers to SmartRandomAgent with the
+ * same seed.
+ */
+
+import type {
+  PlayerId,
+  BirdCard,
+  BirdInstance,
+  BonusCard,
+  DieFace,
+  FoodByDice,
+  FoodByType,
+  FoodType,
+  Habitat,
+  PlayerBoardConfig,
+} from "../types/core.js";
+import type {
+  PlayerView,
+  StartingHandPrompt,
+  StartingHandChoice,
+  TurnActionPrompt,
+  TurnActionChoice,
+  TurnActionKind,
+  Resource,
+  OptionPrompt,
+  OptionChoice,
+  ActivatePowerPrompt,
+  ActivatePowerChoice,
+  SelectFoodFromFeederPrompt,
+  SelectFoodFromFeederChoice,
+  SelectFoodFromSupplyPrompt,
+  SelectFoodFromSupplyChoice,
+  SelectFoodDestinationPrompt,
+  SelectFoodDestinationChoice,
+  DiscardEggsPrompt,
+  DiscardEggsChoice,
+  PlaceEggsPrompt,
+  PlaceEggsChoice,
+  SelectCardsPrompt,
+  SelectCardsChoice,
+  DrawCardsPrompt,
+  DrawCardsChoice,
+  SelectBonusCardsPrompt,
+  SelectBonusCardsChoice,
+  SelectPlayerPrompt,
+  SelectPlayerChoice,
+  RepeatPowerPrompt,
+  RepeatPowerChoice,
+  PlayBirdPrompt,
+  PlayBirdChoice,
+  DiscardFoodPrompt,
+  DiscardFoodChoice,
+  SelectHabitatPrompt,
+  SelectHabitatChoice,
+} from "../types/prompts.js";
+import type { PlayerAgent } from "./PlayerAgent.js";
+import { SmartRandomAgent } from "./SmartRandomAgent.js";
+import {
+  AgentRegistry,
+  type AgentOptions,
+  type AgentOptionSpec,
+} from "./AgentRegistry.js";
+import { DataRegistry } from "../data/DataRegistry.js";
+import { PlayerBoard } from "../engine/PlayerBoard.js";
+import { countRoundGoal } from "../engine/RoundGoalScorer.js";
+import { getRequiredFoodExchanges } from "../engine/FoodPayment.js";
+import { TURNS_BY_ROUND } from "../engine/GameEngine.js";
+
+/**
+ * Weights HeuristicAgent multiplies each part of an option's value by.
+ * All values are in (roughly) victory points.
+ */
+export interface HeuristicWeights {
+  /** Value of 1 point scored right away (printed bird points, cached food, tucked cards) */
+  pointWeight: number;
+  /** Value of 1 egg on a bird (each egg scores 1 point) */
+  eggWeight: number;
+  /** Value of 1 food token in the player's supply */
+  foodWeight: number;
+  /** Value of a bird in hand, as a fraction of what playing it is worth */
+  cardWeight: number;
+  /** Value of each expected future activation of a brown power */
+  brownPowerWeight: number;
+  /** Value of a bird qualifying for one of the player's bonus cards */
+  bonusCardWeight: number;
+  /** Value of 1 more item toward the current round goal */
+  roundGoalWeight: number;
+  /** Value of 1 more resource from a habitat row's action after placing a bird */
+  habitatBonusWeight: number;
+}
+
+export const DEFAULT_HEURISTIC_WEIGHTS: Readonly<HeuristicWeights> =
+  Object.freeze({
+    pointWeight: 1,
+    eggWeight: 1,
+    foodWeight: 0.6,
+    cardWeight: 0.3,
+    brownPowerWeight: 0.5,
+    bonusCardWeight: 1.5,
+    roundGoalWeight: 1,
+    habitatBonusWeight: 0.5,
+  });
+
+/**
+ * AgentRegistry options for HeuristicAgent: one number option per weight.
+ */
+export const HEURISTIC_AGENT_OPTIONS: AgentOptionSpec[] = [
+  {
+    name: "pointWeight",
+    description: "Value of 1 point scored right away",
+  },
+  {
+    name: "eggWeight",
+    description: "Value of 1 egg on a bird",
+  },
+  {
+    name: "foodWeight",
+    description: "Value of 1 food token in the supply",
+  },
+  {
+    name: "cardWeight",
+    description: "Value of a bird in hand, as a fraction of its play value",
+  },
+  {
+    name: "brownPowerWeight",
+    description: "Value of each expected future brown power activation",
+  },
+  {
+    name: "bonusCardWeight",
+    description: "Value of a bird qualifying for a held bonus card",
+  },
+  {
+    name: "roundGoalWeight",
+    description: "Value of 1 more item toward the current round goal",
+  },
+  {
+    name: "habitatBonusWeight",
+    description: "Value of 1 more resource from a habitat row's action",
+  },
+].map(({ name, description }) => ({
+  name,
+  type: "number",
+  default: DEFAULT_HEURISTIC_WEIGHTS[name as keyof HeuristicWeights],
+  description,
+}));
+
+const HABITATS: Habitat[] = ["FOREST", "GRASSLAND", "WETLAND"];
+const FOOD_TYPES: Exclude<FoodType, "WILD">[] = [
+  "INVERTEBRATE",
+  "SEED",
+  "FISH",
+  "FRUIT",
+  "RODENT",
+];
+
+/** Habitat whose row is activated by each turn action */
+const ACTION_HABITATS: Partial<Record<TurnActionKind, Habitat>> = {
+  GAIN_FOOD: "FOREST",
+  LAY_EGGS: "GRASSLAND",
+  DRAW_CARDS: "WETLAND",
+};
+
+/** Turn actions a player chooses between, used to spread turns over rows */
+const TURN_ACTION_COUNT = 4;
+
+/** Printed points of an average bird, used to value unseen deck cards */
+const AVERAGE_VICTORY_POINTS = 4;
+
+/**
+ * Each extra bird in hand, or food token no bird needs, is worth this much
+ * less than the one before, since there are only so many turns to use them
+ */
+const DIMINISHING_RETURNS = 0.7;
+
+/** How many of the best birds in hand the agent collects food for */
+const FOOD_TARGET_BIRDS = 3;
+
+/** Birds an average player gets onto their board in a game */
+const EXPECTED_BIRDS_PLAYED = 12;
+
+/** Id of the placeholder bird used to evaluate a placement */
+const CANDIDATE_BIRD_ID = "__heuristic_candidate__";
+
+/**
+ * Agent that greedily picks the option with the highest heuristic value.
+ */
+export class HeuristicAgent implements PlayerAgent {
+  readonly playerId: PlayerId;
+  private readonly weights: HeuristicWeights;
+  private readonly playerBoard: Readonly<PlayerBoardConfig>;
+  private readonly policy: SmartRandomAgent;
+
+  constructor(
+    playerId: PlayerId,
+    seed: number,
+    weights: Partial<HeuristicWeights> = {},
+    playerBoard: Readonly<PlayerBoardConfig> = getDefaultPlayerBoard()
+  ) {
+    this.playerId = playerId;
+    this.weights = { ...DEFAULT_HEURISTIC_WEIGHTS, ...weights };
+    this.playerBoard = playerBoard;
+    this.policy = new SmartRandomAgent(playerId, seed);
+  }
+
+  async chooseStartingHand(
+    prompt: StartingHandPrompt
+  ): Promise<StartingHandChoice> {
+    const { view } = prompt;
+    const birds = prompt.eligibleBirds;
+
+    // Try every subset of birds (at most 2^5) with every bonus card
+    let best: { value: number; kept: BirdCard[]; bonus: BonusCard } | null =
+      null;
+    for (let mask = 0; mask < 1 << birds.length; mask++) {
+      const kept = birds.filter((_, i) => mask & (1 << i));
+      const food = this.discardForStartingHand(view.food, kept);
+      const birdValue = kept
+        .map((bird) =>
+          getRequiredFoodExchanges(bird, food) === 0
+            ? this.handValue(bird, view)
+            : this.handValue(bird, view) / 2
+        )
+        .sort((a, b) => b - a)
+        .reduce(
+          (sum, value, i) =>
+            sum + value * DIMINISHING_RETURNS ** i,
+          0
+        );
+      const foodValue = totalFood(food) * this.weights.foodWeight;
+
+      for (const bonus of prompt.eligibleBonusCards) {
+        const value =
+          birdValue + foodValue + this.bonusCardValue(bonus, kept, view);
+        if (!best || value > best.value) {
+          best = { value, kept, bonus };
+        }
+      }
+    }
+
+    const kept = best!.kept;
+    const remaining = this.discardForStartingHand(view.food, kept);
+    const foodToDiscard = new Set<FoodType>(
+      FOOD_TYPES.filter(
+        (foodType) => (view.food[foodType] ?? 0) > (remaining[foodType] ?? 0)
+      )
+    );
+
+    return {
+      promptId: prompt.promptId,
+      kind: "startingHand",
+      birds: new Set(kept.map((bird) => bird.id)),
+      bonusCard: best!.bonus.id,
+      foodToDiscard,
+    };
+  }
+
+  async chooseTurnAction(prompt: TurnActionPrompt): Promise<TurnActionChoice> {
+    let best: { value: number; action: TurnActionKind; takeBonus: boolean } =
+      { value: -Infinity, action: prompt.eligibleActions[0], takeBonus: false };
+
+    for (const action of prompt.eligibleActions) {
+      const rewards = prompt.rewardsByAction[action];
+      const value = this.actionValue(action, rewards.reward.count, prompt.view);
+      if (value > best.value) {
+        best = { value, action, takeBonus: false };
+      }
+
+      if (rewards.bonus) {
+        const { cost, reward } = rewards.bonus;
+        const bonusValue =
+          value +
+          this.resourceValue(reward.type, reward.count, prompt.view) -
+          this.resourceValue(cost.type, cost.count, prompt.view);
+        if (bonusValue > best.value) {
+          best = { value: bonusValue, action, takeBonus: true };
+        }
+      }
+    }
+
+    return {
+      promptId: prompt.promptId,
+      kind: "turnAction",
+      action: best.action,
+      takeBonus: best.takeBonus,
+    };
+  }
+
+  async chooseOption(prompt: OptionPrompt): Promise<OptionChoice> {
+    switch (prompt.kind) {
+      case "activatePower":
+        return this.handleActivatePower(prompt);
+      case "selectFoodFromFeeder":
+        return this.handleSelectFoodFromFeeder(prompt);
+      case "selectFoodFromSupply":
+        return this.handleSelectFoodFromSupply(prompt);
+      case "selectFoodDestination":
+        return this.handleSelectFoodDestination(prompt);
+      case "discardEggs":
+        return this.handleDiscardEggs(prompt);
+      case "placeEggs":
+        return this.handlePlaceEggs(prompt);
+      case "selectCards":
+        return this.handleSelectCards(prompt);
+      case "drawCards":
+        return this.handleDrawCards(prompt);
+      case "selectBonusCards":
+        return this.handleSelectBonusCards(prompt);
+      case "selectPlayer":
+        return this.handleSelectPlayer(prompt);
+      case "repeatPower":
+        return this.handleRepeatPower(prompt);
+      case "playBird":
+        return this.handlePlayBird(prompt);
+      case "discardFood":
+        return this.handleDiscardFood(prompt);
+      case "selectHabitat":
+        return this.handleSelectHabitat(prompt);
+      default:
+        throw new Error(`Unknown prompt kind: ${(prompt as OptionPrompt).kind}`);
+    }
+  }
+
+  // Option prompt handlers
+
+  private handleActivatePower(
+    prompt: ActivatePowerPrompt
+  ): ActivatePowerChoice {
+    // Powers that trade one resource for another are used only when the
+    // trade is worth it; every other power is free upside
+    const { handlerId, params } = prompt.power;
+    const count = (name: string) => (params[name] as number | undefined) ?? 1;
+    const { view } = prompt;
+    let value = 0;
+    switch (handlerId) {
+      case "discardEggToDrawCards":
+        value =
+          this.resourceValue("CARDS", count("drawCount"), view) -
+          count("eggCount") * this.weights.eggWeight;
+        break;
+      case "discardEggToGainFood":
+        value =
+          this.resourceValue("FOOD", count("foodCount"), view) -
+          count("eggCount") * this.weights.eggWeight;
+        break;
+      case "discardFoodToTuckFromDeck":
+        value =
+          count("tuckCount") * this.weights.pointWeight -
+          this.weights.foodWeight;
+        break;
+    }
+    return {
+      promptId: prompt.promptId,
+      kind: "activatePower",
+      activate: value >= 0,
+    };
+  }
+
+  private async handleSelectFoodFromFeeder(
+    prompt: SelectFoodFromFeederPrompt
+  ): Promise<SelectFoodFromFeederChoice> {
+    const need = this.foodNeed(prompt.view);
+    const options: Array<{ die: DieFace; asFoodType?: "SEED" | "INVERTEBRATE" }> =
+      [];
+    for (const [die, count] of Object.entries(prompt.availableDice)) {
+      if (!count) continue;
+      if (die === "SEED_INVERTEBRATE") {
+        options.push({ die, asFoodType: "SEED" });
+        options.push({ die, asFoodType: "INVERTEBRATE" });
+      } else {
+        options.push({ die: die as DieFace });
+      }
+    }
+
+    if (options.length === 0) {
+      return this.policy.chooseOption(
+        prompt
+      ) as Promise<SelectFoodFromFeederChoice>;
+    }
+
+    const foodOf = (option: (typeof options)[number]) =>
+      (option.asFoodType ?? option.die) as FoodType;
+    const best = maxBy(options, (option) => need[foodOf(option)]);
+
+    // Reroll a feeder of several identical dice when nothing in it is needed
+    // but something else is. A single die is taken as is, since rerolling it
+    // is as likely to repeat as to help.
+    const faces = new Set(options.map((option) => option.die));
+    const diceCount = totalFood(prompt.availableDice);
+    const anyNeed = FOOD_TYPES.some((foodType) => need[foodType] > 0);
+    if (
+      faces.size === 1 &&
+      diceCount > 1 &&
+      need[foodOf(best)] === 0 &&
+      anyNeed
+    ) {
+      return {
+        promptId: prompt.promptId,
+        kind: "selectFoodFromFeeder",
+        diceOrReroll: "reroll",
+      };
+    }
+
+    return {
+      promptId: prompt.promptId,
+      kind: "selectFoodFromFeeder",
+      diceOrReroll: [best],
+    };
+  }
+
+  private handleSelectFoodFromSupply(
+    prompt: SelectFoodFromSupplyPrompt
+  ): SelectFoodFromSupplyChoice {
+    // Take one food at a time, each time the type still needed most
+    const need = this.foodNeed(prompt.view);
+    const food: FoodByType = {};
+    for (let i = 0; i < prompt.count; i++) {
+      const foodType = maxBy(prompt.allowedFoods, (f) => need[f] ?? 0);
+      food[foodType] = (food[foodType] ?? 0) + 1;
+      if (foodType !== "WILD") {
+        need[foodType] -= 1;
+      }
+    }
+    return {
+      promptId: prompt.promptId,
+      kind: "selectFoodFromSupply",
+      food,
+    };
+  }
+
+  private handleSelectFoodDestination(
+    prompt: SelectFoodDestinationPrompt
+  ): SelectFoodDestinationChoice {
+    // Cached food scores a point; food in the supply pays for birds
+    const cacheValue = this.weights.pointWeight;
+    const supplyValue = this.weights.foodWeight;
+    const destination =
+      prompt.destinationOptions.includes("CACHE_ON_SOURCE_BIRD") &&
+      (cacheValue >= supplyValue ||
+        !prompt.destinationOptions.includes("PLAYER_SUPPLY"))
+        ? "CACHE_ON_SOURCE_BIRD"
+        : "PLAYER_SUPPLY";
+    return {
+      promptId: prompt.promptId,
+      kind: "selectFoodDestination",
+      destination,
+    };
+  }
+
+  private handleDiscardEggs(prompt: DiscardEggsPrompt): DiscardEggsChoice {
+    // Remove eggs one at a time where they cost the least round goal progress,
+    // preferring birds with the most eggs left
+    const remaining = { ...prompt.eggsByEligibleBird };
+    const sources: Record<string, number> = {};
+    for (let i = 0; i < prompt.count; i++) {
+      const candidates = Object.keys(remaining).filter(
+        (birdId) => (remaining[birdId] ?? 0) > 0
+      );
+      if (candidates.length === 0) break;
+      const board = withEggs(prompt.view.board, sources, -1);
+      const birdId = maxBy(
+        candidates,
+        (id) =>
+          this.roundGoalDelta(prompt.view, withEggs(board, { [id]: 1 }, -1), board) *
+            this.weights.roundGoalWeight +
+          (remaining[id] ?? 0) / 100
+      );
+      sources[birdId] = (sources[birdId] ?? 0) + 1;
+      remaining[birdId] = (remaining[birdId] ?? 0) - 1;
+    }
+    return {
+      promptId: prompt.promptId,
+      kind: "discardEggs",
+      sources,
+    };
+  }
+
+  private handlePlaceEggs(prompt: PlaceEggsPrompt): PlaceEggsChoice {
+    // Place eggs one at a time where they add the most round goal progress,
+    // preferring birds with the most room left
+    const remaining = { ...prompt.remainingCapacitiesByEligibleBird };
+    const placements: Record<string, number> = {};
+    for (let i = 0; i < prompt.count; i++) {
+      const candidates = Object.keys(remaining).filter(
+        (birdId) => (remaining[birdId] ?? 0) > 0
+      );
+      if (candidates.length === 0) break;
+      const board = withEggs(prompt.view.board, placements, 1);
+      const birdId = maxBy(
+        candidates,
+        (id) =>
+          this.roundGoalDelta(prompt.view, withEggs(board, { [id]: 1 }, 1), board) *
+            this.weights.roundGoalWeight +
+          (remaining[id] ?? 0) / 100
+      );
+      placements[birdId] = (placements[birdId] ?? 0) + 1;
+      remaining[birdId] = (remaining[birdId] ?? 0) - 1;
+    }
+    return {
+      promptId: prompt.promptId,
+      kind: "placeEggs",
+      placements,
+    };
+  }
+
+  private handleSelectCards(prompt: SelectCardsPrompt): SelectCardsChoice {
+    // Keep the best cards; tuck or discard the worst
+    const byValue = [...prompt.eligibleCards].sort(
+      (a, b) => this.handValue(b, prompt.view) - this.handValue(a, prompt.view)
+    );
+    const cards =
+      prompt.mode === "KEEP"
+        ? byValue.slice(0, prompt.count)
+        : byValue.slice(byValue.length - prompt.count);
+    return {
+      promptId: prompt.promptId,
+      kind: "selectCards",
+      cards: cards.map((card) => card.id),
+    };
+  }
+
+  private handleDrawCards(prompt: DrawCardsPrompt): DrawCardsChoice {
+    // Take tray birds worth more than a blind draw; draw the rest from the deck
+    const deckValue = this.unknownCardValue();
+    const trayCards = [...prompt.trayCards]
+      .filter((card) => this.handValue(card, prompt.view) > deckValue)
+      .sort(
+        (a, b) =>
+          this.handValue(b, prompt.view) - this.handValue(a, prompt.view)
+      )
+      .slice(0, prompt.remaining);
+    const numDeckCards =
+      prompt.view.deckSize > 0 || trayCards.length === 0
+        ? prompt.remaining - trayCards.length
+        : 0;
+    return {
+      promptId: prompt.promptId,
+      kind: "drawCards",
+      trayCards: trayCards.map((card) => card.id),
+      numDeckCards,
+    };
+  }
+
+  private handleSelectBonusCards(
+    prompt: SelectBonusCardsPrompt
+  ): SelectBonusCardsChoice {
+    const cards = [...prompt.eligibleCards]
+      .sort(
+        (a, b) =>
+          this.bonusCardValue(b, [], prompt.view) -
+          this.bonusCardValue(a, [], prompt.view)
+      )
+      .slice(0, prompt.count);
+    return {
+      promptId: prompt.promptId,
+      kind: "selectBonusCards",
+      cards: cards.map((card) => card.id),
+    };
+  }
+
+  private handleSelectPlayer(prompt: SelectPlayerPrompt): SelectPlayerChoice {
+    // Player selection decides who goes first in a shared reward; go first
+    const player = prompt.eligiblePlayers.includes(this.playerId)
+      ? this.playerId
+      : prompt.eligiblePlayers[0];
+    return {
+      promptId: prompt.promptId,
+      kind: "selectPlayer",
+      player,
+    };
+  }
+
+  private handleRepeatPower(
+    prompt: RepeatPowerPrompt
+  ): Promise<RepeatPowerChoice> {
+    // Power effects aren't modelled, so any repeat is as good as another
+    return this.policy.chooseOption(prompt) as Promise<RepeatPowerChoice>;
+  }
+
+  private async handlePlayBird(prompt: PlayBirdPrompt): Promise<PlayBirdChoice> {
+    const { view } = prompt;
+    let best: { value: number; bird: BirdCard; habitat: Habitat } | null =
+      null;
+    for (const bird of prompt.eligibleBirds) {
+      for (const habitat of bird.habitats) {
+        const eggCost = prompt.eggCostByEligibleHabitat[habitat];
+        if (eggCost === undefined) continue;
+        const value =
+          this.playValue(bird, habitat, view) -
+          this.foodSpent(bird, view.food) * this.weights.foodWeight -
+          eggCost * this.weights.eggWeight;
+        if (!best || value > best.value) {
+          best = { value, bird, habitat };
+        }
+      }
+    }
+
+    if (!best) {
+      return this.policy.chooseOption(prompt) as Promise<PlayBirdChoice>;
+    }
+
+    // Let the default policy work out a payment for the chosen placement
+    const eggCost = prompt.eggCostByEligibleHabitat[best.habitat];
+    return this.policy.chooseOption({
+      ...prompt,
+      eligibleBirds: [best.bird],
+      eggCostByEligibleHabitat: { [best.habitat]: eggCost },
+    }) as Promise<PlayBirdChoice>;
+  }
+
+  private handleDiscardFood(prompt: DiscardFoodPrompt): DiscardFoodChoice {
+    // Specific costs are fixed; pay WILD costs with the least needed food
+    const need = this.foodNeed(prompt.view);
+    const food: FoodByType = {};
+    const left: FoodByType = { ...prompt.view.food };
+    for (const [foodType, count] of Object.entries(prompt.foodCost)) {
+      if (foodType !== "WILD" && count) {
+        food[foodType as FoodType] = count;
+        left[foodType as FoodType] = (left[foodType as FoodType] ?? 0) - count;
+      }
+    }
+    for (let i = 0; i < (prompt.foodCost.WILD ?? 0); i++) {
+      const available = FOOD_TYPES.filter((f) => (left[f] ?? 0) > 0);
+      if (available.length === 0) break;
+      const foodType = maxBy(available, (f) => -need[f]);
+      food[foodType] = (food[foodType] ?? 0) + 1;
+      left[foodType] = (left[foodType] ?? 0) - 1;
+    }
+    return {
+      promptId: prompt.promptId,
+      kind: "discardFood",
+      food,
+    };
+  }
+
+  private handleSelectHabitat(
+    prompt: SelectHabitatPrompt
+  ): SelectHabitatChoice {
+    // Moving a bird: prefer the row that gains the most from another bird
+    const habitat = maxBy(prompt.eligibleHabitats, (h) =>
+      this.habitatBonus(h, prompt.view)
+    );
+    return {
+      promptId: prompt.promptId,
+      kind: "selectHabitat",
+      habitat,
+    };
+  }
+
+  // Valuation
+
+  /**
+   * Value of taking a turn action, not counting its habitat bonus trade.
+   */
+  private actionValue(
+    action: TurnActionKind,
+    count: number,
+    view: PlayerView
+  ): number {
+    if (action === "PLAY_BIRD") {
+      return this.bestPlayableBirdValue(view);
+    }
+    const habitat = ACTION_HABITATS[action]!;
+    const brownPowers = view.board[habitat].filter(
+      (bird) => bird?.card.power?.trigger === "WHEN_ACTIVATED"
+    ).length;
+    const resource: Resource =
+      action === "GAIN_FOOD" ? "FOOD" : action === "LAY_EGGS" ? "EGGS" : "CARDS";
+    return (
+      this.resourceValue(resource, count, view) +
+      brownPowers * this.weights.brownPowerWeight
+    );
+  }
+
+  /**
+   * Value of gaining (or, negated, paying) some amount of a resource.
+   */
+  private resourceValue(
+    resource: Resource,
+    count: number,
+    view: PlayerView
+  ): number {
+    switch (resource) {
+      case "FOOD": {
+        // Food a bird in hand still needs counts double; food nobody needs
+        // is worth less the more of it the player already has
+        const need = Object.values(this.foodNeed(view)).reduce(
+          (sum, n) => sum + n,
+          0
+        );
+        const needed = Math.min(count, need);
+        const surplus =
+          (count - needed) * DIMINISHING_RETURNS ** totalFood(view.food);
+        return (2 * needed + surplus) * this.weights.foodWeight;
+      }
+      case "CARDS":
+        return (
+          count *
+          this.unknownCardValue() *
+          DIMINISHING_RETURNS ** view.hand.length
+        );
+      case "EGGS": {
+        const capacity = HABITATS.flatMap((h) => view.board[h])
+          .filter((bird): bird is BirdInstance => bird !== null)
+          .reduce((sum, bird) => sum + bird.card.eggCapacity - bird.eggs, 0);
+        return Math.min(count, capacity) * this.weights.eggWeight;
+      }
+    }
+  }
+
+  /**
+   * Net value of the best bird in hand that can be paid for and placed.
+   */
+  private bestPlayableBirdValue(view: PlayerView): number {
+    let best = -Infinity;
+    for (const bird of view.hand) {
+      if (getRequiredFoodExchanges(bird, view.food) === null) continue;
+      for (const habitat of bird.habitats) {
+        const column = openColumn(view, habitat);
+        if (column >= this.playerBoard.playBirdCosts.length) continue;
+        const eggCost = this.playerBoard.playBirdCosts[column];
+        if (eggCost > totalEggs(view)) continue;
+        best = Math.max(
+          best,
+          this.playValue(bird, habitat, view) -
+            this.foodSpent(bird, view.food) * this.weights.foodWeight -
+            eggCost * this.weights.eggWeight -
+            this.handValue(bird, view)
+        );
+      }
+    }
+    return best;
+  }
+
+  /**
+   * What a bird is worth once played into a habitat, before paying for it.
+   */
+  private playValue(bird: BirdCard, habitat: Habitat, view: PlayerView): number {
+    const { weights } = this;
+    const brownValue =
+      bird.power?.trigger === "WHEN_ACTIVATED"
+        ? weights.brownPowerWeight * (remainingTurns(view) / TURN_ACTION_COUNT)
+        : 0;
+    const bonusMatches = view.bonusCards.filter((card) =>
+      bird.bonusCards.includes(card.id)
+    ).length;
+    const goalDelta = this.roundGoalDelta(
+      view,
+      withBird(view.board, bird, habitat),
+      view.board
+    );
+    return (
+      weights.pointWeight * bird.victoryPoints +
+      brownValue +
+      weights.bonusCardWeight * bonusMatches +
+      weights.roundGoalWeight * goalDelta +
+      this.habitatBonus(habitat, view)
+    );
+  }
+
+  /**
+   * What a bird in hand is worth: a fraction of its best play value.
+   */
+  private handValue(bird: BirdCard, view: PlayerView): number {
+    const playValue = Math.max(
+      ...bird.habitats.map((habitat) => this.playValue(bird, habitat, view))
+    );
+    return this.weights.cardWeight * playValue;
+  }
+
+  /**
+   * What an unseen card from the deck is expected to be worth in hand.
+   */
+  private unknownCardValue(): number {
+    return (
+      this.weights.cardWeight *
+      this.weights.pointWeight *
+      AVERAGE_VICTORY_POINTS
+    );
+  }
+
+  /**
+   * Value of a bonus card given birds about to be kept, the birds already
+   * in hand and on the board, and the chance of drawing more that qualify.
+   */
+  private bonusCardValue(
+    card: BonusCard,
+    keptBirds: BirdCard[],
+    view: PlayerView
+  ): number {
+    const boardBirds = HABITATS.flatMap((h) => view.board[h])
+      .filter((bird): bird is BirdInstance => bird !== null)
+      .map((bird) => bird.card);
+    const matches = [...keptBirds, ...view.hand, ...boardBirds].filter(
+      (bird) => bird.bonusCards.includes(card.id)
+    ).length;
+    const expected =
+      (card.percentageOfEligibleBirds / 100) * EXPECTED_BIRDS_PLAYED;
+    return this.weights.bonusCardWeight * (matches + expected);
+  }
+
+  /**
+   * How much more a habitat row's action yields once its next slot is filled.
+   */
+  private habitatBonus(habitat: Habitat, view: PlayerView): number {
+    const config = this.habitatConfig(habitat);
+    const column = openColumn(view, habitat);
+    const current = config.baseRewards[column] ?? 0;
+    const next = config.baseRewards[column + 1] ?? current;
+    const bonusTrade = config.bonusRewards[column + 1] ? 1 : 0;
+    return this.weights.habitatBonusWeight * (next - current + bonusTrade);
+  }
+
+  private habitatConfig(habitat: Habitat) {
+    switch (habitat) {
+      case "FOREST":
+        return this.playerBoard.forest;
+      case "GRASSLAND":
+        return this.playerBoard.grassland;
+      case "WETLAND":
+        return this.playerBoard.wetland;
+    }
+  }
+
+  /**
+   * Change in the current round goal's count between two boards.
+   */
+  private roundGoalDelta(
+    view: PlayerView,
+    after: PlayerView["board"],
+    before: PlayerView["board"]
+  ): number {
+    const goalId = view.roundGoals[view.round - 1];
+    if (!goalId) {
+      return 0;
+    }
+    return (
+      countRoundGoal(goalId, PlayerBoard.from(after)) -
+      countRoundGoal(goalId, PlayerBoard.from(before))
+    );
+  }
+
+  /**
+   * Food tokens a bird costs from the supply, including 2-for-1 exchanges.
+   */
+  private foodSpent(bird: BirdCard, supply: FoodByType): number {
+    const exchanges = getRequiredFoodExchanges(bird, supply) ?? 0;
+    if (bird.foodCostMode === "NONE") {
+      return 0;
+    }
+    const costs = Object.values(bird.foodCost).filter(
+      (count): count is number => (count ?? 0) > 0
+    );
+    const tokens =
+      bird.foodCostMode === "OR"
+        ? Math.min(...costs)
+        : costs.reduce((sum, count) => sum + count, 0);
+    return tokens + exchanges;
+  }
+
+  /**
+   * How much of each food type the most valuable birds in hand that can't be
+   * paid for yet still need, beyond what the supply already covers. WILD
+   * costs count a little toward every type.
+   */
+  private foodNeed(view: PlayerView): Record<FoodType, number> {
+    const need: Record<FoodType, number> = {
+      INVERTEBRATE: 0,
+      SEED: 0,
+      FISH: 0,
+      FRUIT: 0,
+      RODENT: 0,
+      WILD: 0,
+    };
+    const targets = view.hand
+      .filter((bird) => getRequiredFoodExchanges(bird, view.food) === null)
+      .sort((a, b) => this.handValue(b, view) - this.handValue(a, view))
+      .slice(0, FOOD_TARGET_BIRDS);
+    for (const bird of targets) {
+      const costs = Object.entries(bird.foodCost).filter(
+        ([, count]) => (count ?? 0) > 0
+      ) as Array<[FoodType, number]>;
+      const share = bird.foodCostMode === "OR" ? 1 / costs.length : 1;
+      for (const [foodType, count] of costs) {
+        if (foodType === "WILD") {
+          for (const f of FOOD_TYPES) {
+            need[f] += (share * count) / FOOD_TYPES.length;
+          }
+        } else {
+          need[foodType] += share * count;
+        }
+      }
+    }
+    for (const foodType of FOOD_TYPES) {
+      need[foodType] = Math.max(0, need[foodType] - (view.food[foodType] ?? 0));
+    }
+    return need;
+  }
+
+  /**
+   * Food left after discarding one token per kept bird, giving up the food
+   * the kept birds need least first.
+   */
+  private discardForStartingHand(
+    food: FoodByType,
+    kept: BirdCard[]
+  ): FoodByType {
+    const needed = new Set<FoodType>(
+      kept.flatMap((bird) =>
+        Object.keys(bird.foodCost).flatMap((f) =>
+          f === "WILD" ? FOOD_TYPES : [f as FoodType]
+        )
+      )
+    );
+    const order = [
+      ...FOOD_TYPES.filter((f) => !needed.has(f)),
+      ...FOOD_TYPES.filter((f) => needed.has(f)),
+    ];
+    const remaining: FoodByType = { ...food };
+    let toDiscard = kept.length;
+    for (const foodType of order) {
+      while (toDiscard > 0 && (remaining[foodType] ?? 0) > 0) {
+        remaining[foodType]! -= 1;
+        toDiscard--;
+      }
+    }
+    return remaining;
+  }
+}
+
+/**
+ * Build HeuristicAgent weights from its (resolved) agent options.
+ */
+function weightsFromOptions(options: AgentOptions): HeuristicWeights {
+  const weights = { ...DEFAULT_HEURISTIC_WEIGHTS };
+  for (const name of Object.keys(weights) as Array<keyof HeuristicWeights>) {
+    const value = options[name];
+    if (typeof value === "number") {
+      weights[name] = value;
+    }
+  }
+  return weights;
+}
+
+let defaultPlayerBoard: Readonly<PlayerBoardConfig> | null = null;
+
+function getDefaultPlayerBoard(): Readonly<PlayerBoardConfig> {
+  defaultPlayerBoard ??= new DataRegistry().getPlayerBoard();
+  return defaultPlayerBoard;
+}
+
+/**
+ * Turns the player has left in the game after the current one.
+ */
+function remainingTurns(view: PlayerView): number {
+  const laterRounds = TURNS_BY_ROUND.slice(view.round).reduce(
+    (sum, turns) => sum + turns,
+    0
+  );
+  return Math.max(0, view.actionCubes - 1) + laterRounds;
+}
+
+function openColumn(view: PlayerView, habitat: Habitat): number {
+  return view.board[habitat].filter((bird) => bird !== null).length;
+}
+
+function totalFood(food: FoodByType | FoodByDice): number {
+  return Object.values(food).reduce((sum, count) => sum + (count ?? 0), 0);
+}
+
+function totalEggs(view: PlayerView): number {
+  return HABITATS.flatMap((h) => view.board[h]).reduce(
+    (sum, bird) => sum + (bird?.eggs ?? 0),
+    0
+  );
+}
+
+/**
+ * Copy of a board with a bird placed in the habitat's leftmost open slot.
+ */
+function withBird(
+  board: PlayerView["board"],
+  card: BirdCard,
+  habitat: Habitat
+): PlayerView["board"] {
+  const row = [...board[habitat]];
+  const column = row.filter((bird) => bird !== null).length;
+  row[column] = {
+    id: CANDIDATE_BIRD_ID,
+    card,
+    cachedFood: {},
+    tuckedCards: [],
+    eggs: 0,
+  };
+  return { ...board, [habitat]: row };
+}
+
+/**
+ * Copy of a board with eggs added to (sign 1) or removed from (sign -1)
+ * the given birds.
+ */
+function withEggs(
+  board: PlayerView["board"],
+  eggs: Record<string, number | undefined>,
+  sign: 1 | -1
+): PlayerView["board"] {
+  const result = { ...board };
+  for (const habitat of HABITATS) {
+    result[habitat] = board[habitat].map((bird) =>
+      bird && eggs[bird.id]
+        ? { ...bird, eggs: bird.eggs + sign * eggs[bird.id]! }
+        : bird
+    );
+  }
+  return result;
+}
+
+/**
+ * First item with the highest score.
+ */
+function maxBy<T>(items: readonly T[], score: (item: T) => number): T {
+  let best = items[0];
+  let bestScore = score(best);
+  for (const item of items.slice(1)) {
+    const itemScore = score(item);
+    if (itemScore > bestScore) {
+      best = item;
+      bestScore = itemScore;
+    }
+  }
+  return best;
+}
+
+// Register HeuristicAgent in the agent registry
+AgentRegistry.register(
+  "HeuristicAgent",
+  "Greedy agent that scores options with tunable weights",
+  (playerId, seed, options) =>
+    new HeuristicAgent(playerId, seed, weightsFromOptions(options)),
+  HEURISTIC_AGENT_OPTIONS
+);
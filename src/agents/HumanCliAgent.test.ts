@@ -0,0 +1,336 @@
+import { describe, it, expect } from "vitest";
+import { PassThrough, Writable } from "node:stream";
+import { HumanCliAgent } from "./HumanCliAgent.js";
+import type {
+  DrawCardsPrompt,
+  PlaceEggsPrompt,
+  PlayBirdPrompt,
+  PlayerView,
+  PromptContext,
+  SelectFoodFromFeederPrompt,
+  StartingHandPrompt,
+  TurnActionPrompt,
+} from "../types/prompts.js";
+import type { BirdCard, BirdInstance, BonusCard } from "../types/core.js";
+
+function createView(overrides: Partial<PlayerView> = {}): PlayerView {
+  return {
+    playerId: "player1",
+    hand: [],
+    bonusCards: [],
+    food: {},
+    board: { FOREST: [], GRASSLAND: [], WETLAND: [] },
+    actionCubes: 8,
+    round: 1,
+    turn: 1,
+    activePlayerId: "player1",
+    birdfeeder: [],
+    birdTray: [],
+    deckSize: 50,
+    roundGoals: [],
+    opponents: [],
+    ...overrides,
+  };
+}
+
+const context: PromptContext = {
+  round: 1,
+  activePlayerId: "player1",
+  trigger: {
+    type: "WHEN_ACTIVATED",
+    habitat: "FOREST",
+    sourceBirdId: "test_bird",
+  },
+};
+
+function createBird(id: string, overrides: Partial<BirdCard> = {}): BirdCard {
+  return {
+    id,
+    name: `Bird ${id}`,
+    scientificName: "Testus birdus",
+    habitats: ["FOREST"],
+    power: null,
+    victoryPoints: 1,
+    nestType: "BOWL",
+    eggCapacity: 2,
+    foodCost: {},
+    foodCostMode: "NONE",
+    wingspanCentimeters: 20,
+    bonusCards: [],
+    flavorText: "",
+    countries: [],
+    categorization: null,
+    ...overrides,
+  };
+}
+
+function createInstance(card: BirdCard, eggs = 0): BirdInstance {
+  return {
+    id: `player1_${card.id}`,
+    card,
+    cachedFood: {},
+    tuckedCards: [],
+    eggs,
+  };
+}
+
+function createBonusCard(id: string): BonusCard {
+  return {
+    id,
+    name: `Bonus ${id}`,
+    condition: "Birds with tests",
+    scoringType: "PER_BIRD",
+    scoring: [],
+    explanatoryText: null,
+    percentageOfEligibleBirds: 10,
+  };
+}
+
+/**
+ * Create an agent that reads the given answers, one per line, and collects
+ * everything it writes.
+ */
+function createAgent(answers: string[]) {
+  const input = new PassThrough();
+  input.end(answers.map((answer) => `${answer}\n`).join(""));
+  let written = "";
+  const output = new Writable({
+    write(chunk, _encoding, callback) {
+      written += chunk;
+      callback();
+    },
+  });
+  return {
+    agent: new HumanCliAgent("player1", { input, output }),
+    output: () => written,
+  };
+}
+
+describe("HumanCliAgent", () => {
+  const turnPrompt: TurnActionPrompt = {
+    promptId: "turn_1",
+    playerId: "player1",
+    kind: "turnAction",
+    view: createView({
+      hand: [createBird("hawk", { name: "Red Hawk", victoryPoints: 5 })],
+      food: { SEED: 2, FISH: 1 },
+      birdfeeder: ["SEED", "RODENT"],
+      birdTray: [createBird("owl", { name: "Barn Owl" })],
+    }),
+    context,
+    eligibleActions: ["GAIN_FOOD", "DRAW_CARDS"],
+    rewardsByAction: {
+      PLAY_BIRD: { reward: { type: "CARDS", count: 0 } },
+      GAIN_FOOD: { reward: { type: "FOOD", count: 1 } },
+      LAY_EGGS: { reward: { type: "EGGS", count: 2 } },
+      DRAW_CARDS: {
+        reward: { type: "CARDS", count: 1 },
+        bonus: {
+          cost: { type: "EGGS", count: 1 },
+          reward: { type: "CARDS", count: 1 },
+        },
+      },
+    },
+  };
+
+  describe("chooseTurnAction()", () => {
+    it("shows the game and the eligible actions with their rewards", async () => {
+      const { agent, output } = createAgent(["2", "y"]);
+
+      const choice = await agent.chooseTurnAction(turnPrompt);
+
+      expect(choice).toEqual({
+        promptId: "turn_1",
+        kind: "turnAction",
+        action: "DRAW_CARDS",
+        takeBonus: true,
+      });
+      expect(output()).toContain("Red Hawk [5 pts, FOREST, food free");
+      expect(output()).toContain("Food: 2 SEED, FISH");
+      expect(output()).toContain("Birdfeeder: SEED, RODENT");
+      expect(output()).toContain("Bird tray: Barn Owl");
+      expect(output()).toContain("1. Gain food (forest): 1 food");
+      expect(output()).toContain(
+        "2. Draw cards (wetland): 1 card (bonus: pay 1 egg for 1 card)"
+      );
+    });
+
+    // Help, the game view and bad answers never end the question
+    it("answers help and view, and asks again after a bad answer", async () => {
+      const { agent, output } = createAgent(["?", "view", "3", "one", "1"]);
+
+      const choice = await agent.chooseTurnAction(turnPrompt);
+
+      expect(choice.action).toBe("GAIN_FOOD");
+      expect(choice.takeBonus).toBe(false);
+      expect(output()).toContain("Each action activates a habitat row");
+      expect(output()).toContain('"3" is not an option number from 1 to 2');
+      expect(output()).toContain('"one" is not an option number from 1 to 2');
+      expect(output().match(/Bird tray: Barn Owl/g)).toHaveLength(2);
+    });
+
+    it("shows why the previous choice was rejected", async () => {
+      const { agent, output } = createAgent(["1"]);
+
+      await agent.chooseTurnAction({
+        ...turnPrompt,
+        previousError: { code: "NOPE", message: "That was not allowed" },
+      });
+
+      expect(output()).toContain(
+        "Your last choice was rejected: That was not allowed"
+      );
+    });
+
+    it("fails when the input ends", async () => {
+      const { agent } = createAgent([]);
+
+      await expect(agent.chooseTurnAction(turnPrompt)).rejects.toThrow(
+        "Input ended before a choice was made"
+      );
+    });
+  });
+
+  it("chooses a starting hand", async () => {
+    const prompt: StartingHandPrompt = {
+      promptId: "start_1",
+      playerId: "player1",
+      kind: "startingHand",
+      view: createView({
+        food: { INVERTEBRATE: 1, SEED: 1, FISH: 1, FRUIT: 1, RODENT: 1 },
+      }),
+      context,
+      eligibleBirds: ["a", "b", "c", "d", "e"].map((id) => createBird(id)),
+      eligibleBonusCards: [createBonusCard("x"), createBonusCard("y")],
+    };
+    // Food names may be shortened, but each food can only go once
+    const { agent, output } = createAgent(["1 3", "2", "seed seed", "s fi"]);
+
+    const choice = await agent.chooseStartingHand(prompt);
+
+    expect(choice).toEqual({
+      promptId: "start_1",
+      kind: "startingHand",
+      birds: new Set(["a", "c"]),
+      bonusCard: "y",
+      foodToDiscard: new Set(["SEED", "FISH"]),
+    });
+    expect(output()).toContain("You only have 1 SEED");
+  });
+
+  it("places eggs with one bird number per egg", async () => {
+    const nest = createInstance(createBird("nest"));
+    const cup = createInstance(createBird("cup"));
+    const prompt: PlaceEggsPrompt = {
+      promptId: "eggs_1",
+      playerId: "player1",
+      kind: "placeEggs",
+      view: createView({
+        board: { FOREST: [nest, cup], GRASSLAND: [], WETLAND: [] },
+      }),
+      context,
+      count: 3,
+      remainingCapacitiesByEligibleBird: { [nest.id]: 2, [cup.id]: 1 },
+    };
+    const { agent, output } = createAgent(["2 2 1", "1 1 2"]);
+
+    const choice = await agent.chooseOption(prompt);
+
+    expect(choice).toEqual({
+      promptId: "eggs_1",
+      kind: "placeEggs",
+      placements: { [nest.id]: 2, [cup.id]: 1 },
+    });
+    expect(output()).toContain("1. Bird nest (room for 2 egg(s))");
+    expect(output()).toContain("Bird cup only has room for 1 egg(s)");
+  });
+
+  it("takes a SEED_INVERTEBRATE die as either food", async () => {
+    const prompt: SelectFoodFromFeederPrompt = {
+      promptId: "feeder_1",
+      playerId: "player1",
+      kind: "selectFoodFromFeeder",
+      view: createView({ birdfeeder: ["SEED_INVERTEBRATE", "FISH"] }),
+      context,
+      availableDice: { SEED_INVERTEBRATE: 1, FISH: 1 },
+    };
+    const { agent, output } = createAgent(["reroll", "inv fish"]);
+
+    const choice = await agent.chooseOption(prompt);
+
+    expect(choice).toEqual({
+      promptId: "feeder_1",
+      kind: "selectFoodFromFeeder",
+      diceOrReroll: [
+        { die: "SEED_INVERTEBRATE", asFoodType: "INVERTEBRATE" },
+        { die: "FISH" },
+      ],
+    });
+    expect(output()).toContain(
+      "You can only reroll when every die shows the same face"
+    );
+  });
+
+  it("plays a bird, paying with food and 2-for-1 exchanges", async () => {
+    const heron = createBird("heron", {
+      name: "Great Heron",
+      habitats: ["FOREST", "WETLAND"],
+      foodCost: { FISH: 1, FRUIT: 1 },
+      foodCostMode: "AND",
+    });
+    const nest = createInstance(createBird("nest"), 1);
+    const prompt: PlayBirdPrompt = {
+      promptId: "play_1",
+      playerId: "player1",
+      kind: "playBird",
+      view: createView({
+        hand: [heron],
+        food: { SEED: 2, FRUIT: 1 },
+        board: { FOREST: [nest], GRASSLAND: [], WETLAND: [] },
+      }),
+      context,
+      eligibleBirds: [heron],
+      eggCostByEligibleHabitat: { FOREST: 1, WETLAND: 0 },
+      foodExchangesRequired: { heron: 1 },
+    };
+    const { agent, output } = createAgent(["1", "1", "seed+seed>fish fruit", "1"]);
+
+    const choice = await agent.chooseOption(prompt);
+
+    expect(choice).toEqual({
+      promptId: "play_1",
+      kind: "playBird",
+      bird: "heron",
+      habitat: "FOREST",
+      foodToSpend: { FRUIT: 1 },
+      foodExchanges: [{ give: { SEED: 2 }, receive: "FISH" }],
+      eggsToSpend: { [nest.id]: 1 },
+    });
+    expect(output()).toContain(
+      "Pay FISH + FRUIT from your supply (2 SEED, FRUIT); you need 1 exchange(s)"
+    );
+  });
+
+  it("draws cards from the tray and the deck", async () => {
+    const prompt: DrawCardsPrompt = {
+      promptId: "draw_1",
+      playerId: "player1",
+      kind: "drawCards",
+      view: createView(),
+      context,
+      remaining: 2,
+      trayCards: [createBird("a"), createBird("b"), createBird("c")],
+    };
+    const { agent, output } = createAgent(["1 2 deck", "2 deck"]);
+
+    const choice = await agent.chooseOption(prompt);
+
+    expect(choice).toEqual({
+      promptId: "draw_1",
+      kind: "drawCards",
+      trayCards: ["b"],
+      numDeckCards: 1,
+    });
+    expect(output()).toContain("Draw between 1 and 2 card(s)");
+  });
+});
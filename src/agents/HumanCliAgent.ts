@@ -0,0 +1,948 @@
+/**
+ * HumanCliAgent - Lets a person play through the terminal.
+ *
+ * Each prompt is rendered as plain text. Before every turn the player sees
+ * their view of the game: hand, board, birdfeeder, tray and opponents. Then
+ * the decision is shown with numbered options. Answers are read a line at a
+ * time and checked before they are returned, and a malformed answer is
+ * explained and asked again. "?" shows help for the current question and
+ * "view" shows the game again. The engine still validates every choice; a
+ * rejected one comes back as a reprompt showing the engine's error.
+ */
+
+import { createInterface, type Interface } from "node:readline";
+import type { Readable, Writable } from "node:stream";
+import type {
+  BirdCard,
+  BirdInstance,
+  BirdInstanceId,
+  BonusCard,
+  DieFace,
+  DieSelection,
+  EggsByBird,
+  FoodByType,
+  FoodType,
+  Habitat,
+  PlayerId,
+} from "../types/core.js";
+import type {
+  DecisionPrompt,
+  PlayerView,
+  StartingHandPrompt,
+  StartingHandChoice,
+  TurnActionPrompt,
+  TurnActionChoice,
+  TurnActionKind,
+  Resource,
+  OptionPrompt,
+  OptionChoice,
+  ActivatePowerPrompt,
+  SelectFoodFromFeederPrompt,
+  SelectFoodFromSupplyPrompt,
+  SelectFoodDestinationPrompt,
+  DiscardEggsPrompt,
+  PlaceEggsPrompt,
+  SelectCardsPrompt,
+  DrawCardsPrompt,
+  SelectBonusCardsPrompt,
+  SelectPlayerPrompt,
+  RepeatPowerPrompt,
+  PlayBirdPrompt,
+  FoodExchange,
+  DiscardFoodPrompt,
+  SelectHabitatPrompt,
+  FoodDestination,
+} from "../types/prompts.js";
+import type { GameResult } from "../engine/GameEngine.js";
+import type { PlayerAgent } from "./PlayerAgent.js";
+
+/**
+ * Where the agent reads answers and writes prompts (stdin/stdout by default).
+ */
+export interface HumanCliAgentOptions {
+  input?: Readable;
+  output?: Writable;
+}
+
+const HABITATS: Habitat[] = ["FOREST", "GRASSLAND", "WETLAND"];
+
+const ACTION_LABELS: Record<TurnActionKind, string> = {
+  PLAY_BIRD: "Play a bird",
+  GAIN_FOOD: "Gain food (forest)",
+  LAY_EGGS: "Lay eggs (grassland)",
+  DRAW_CARDS: "Draw cards (wetland)",
+};
+
+const COMMON_HELP = [
+  "  Type ? for help with the current question, or view to see the game again.",
+  "  Numbers refer to the numbered options; separate several with spaces.",
+  "  Food names can be shortened (e.g. inv for INVERTEBRATE) and are not case-sensitive.",
+].join("\n");
+
+export class HumanCliAgent implements PlayerAgent {
+  readonly playerId: PlayerId;
+  private readonly output: Writable;
+  private readonly readline: Interface;
+  private readonly lines: AsyncIterator<string>;
+
+  constructor(playerId: PlayerId, options: HumanCliAgentOptions = {}) {
+    this.playerId = playerId;
+    this.output = options.output ?? process.stdout;
+    this.readline = createInterface({
+      input: options.input ?? process.stdin,
+      crlfDelay: Infinity,
+    });
+    this.lines = this.readline[Symbol.asyncIterator]();
+  }
+
+  async chooseStartingHand(
+    prompt: StartingHandPrompt
+  ): Promise<StartingHandChoice> {
+    this.announce(prompt, "Choose your starting hand");
+    this.print("Birds:");
+    this.printOptions(prompt.eligibleBirds.map((bird) => describeBird(bird)));
+    this.print("Bonus cards:");
+    this.printOptions(prompt.eligibleBonusCards.map(describeBonusCard));
+    this.print(`Your food: ${formatFood(prompt.view.food)}`);
+
+    const supply = countFood(prompt.view.food);
+    const birds = await this.ask(
+      prompt,
+      "Which birds will you keep? Each one costs 1 food. (numbers, or none)",
+      "  Keep any number of birds; you discard 1 food for each bird you keep.",
+      (answer) =>
+        parseNumbers(answer, prompt.eligibleBirds.length, {
+          min: 0,
+          max: Math.min(prompt.eligibleBirds.length, supply),
+        })
+    );
+    const [bonusCard] = await this.ask(
+      prompt,
+      "Which bonus card will you keep? (number)",
+      "  Keep 1 bonus card; it scores at the end of the game.",
+      (answer) => parseNumbers(answer, prompt.eligibleBonusCards.length, { min: 1, max: 1 })
+    );
+    const foodToDiscard =
+      birds.length === 0
+        ? []
+        : await this.ask(
+            prompt,
+            `Which ${birds.length} food will you discard? (${formatFood(prompt.view.food)})`,
+            "  Name one food per bird kept; you can't discard the same food twice.",
+            (answer) => parseFoodFromSupply(answer, prompt.view.food, birds.length)
+          );
+
+    return {
+      promptId: prompt.promptId,
+      kind: "startingHand",
+      birds: new Set(birds.map((i) => prompt.eligibleBirds[i].id)),
+      bonusCard: prompt.eligibleBonusCards[bonusCard].id,
+      foodToDiscard: new Set(foodToDiscard),
+    };
+  }
+
+  async chooseTurnAction(prompt: TurnActionPrompt): Promise<TurnActionChoice> {
+    this.print("");
+    this.print(renderView(prompt.view));
+    this.announce(prompt, `Your turn (round ${prompt.view.round})`);
+    this.printOptions(
+      prompt.eligibleActions.map((action) => {
+        const { reward, bonus } = prompt.rewardsByAction[action];
+        const parts = [ACTION_LABELS[action]];
+        if (reward.count > 0) parts.push(`: ${formatResource(reward)}`);
+        if (bonus) {
+          parts.push(
+            ` (bonus: pay ${formatResource(bonus.cost)} for ${formatResource(bonus.reward)})`
+          );
+        }
+        return parts.join("");
+      })
+    );
+
+    const [index] = await this.ask(
+      prompt,
+      "Which action will you take? (number)",
+      "  Each action activates a habitat row; birds with brown powers in that row activate too.",
+      (answer) => parseNumbers(answer, prompt.eligibleActions.length, { min: 1, max: 1 })
+    );
+    const action = prompt.eligibleActions[index];
+    const bonus = prompt.rewardsByAction[action].bonus;
+    const takeBonus = bonus
+      ? await this.ask(
+          prompt,
+          `Pay ${formatResource(bonus.cost)} for ${formatResource(bonus.reward)}? (y/n)`,
+          "  The bonus comes from the leftmost open space in the habitat row.",
+          parseYesNo
+        )
+      : false;
+
+    return { promptId: prompt.promptId, kind: "turnAction", action, takeBonus };
+  }
+
+  async chooseOption(prompt: OptionPrompt): Promise<OptionChoice> {
+    switch (prompt.kind) {
+      case "activatePower":
+        return this.chooseActivatePower(prompt);
+      case "selectFoodFromFeeder":
+        return this.chooseFoodFromFeeder(prompt);
+      case "selectFoodFromSupply":
+        return this.chooseFoodFromSupply(prompt);
+      case "selectFoodDestination":
+        return this.chooseFoodDestination(prompt);
+      case "discardEggs":
+        return this.chooseDiscardEggs(prompt);
+      case "placeEggs":
+        return this.choosePlaceEggs(prompt);
+      case "selectCards":
+        return this.chooseCards(prompt);
+      case "drawCards":
+        return this.chooseDrawCards(prompt);
+      case "selectBonusCards":
+        return this.chooseBonusCards(prompt);
+      case "selectPlayer":
+        return this.choosePlayer(prompt);
+      case "repeatPower":
+        return this.chooseRepeatPower(prompt);
+      case "playBird":
+        return this.choosePlayBird(prompt);
+      case "discardFood":
+        return this.chooseDiscardFood(prompt);
+      case "selectHabitat":
+        return this.chooseHabitat(prompt);
+      default:
+        throw new Error(`Unknown prompt kind: ${(prompt as OptionPrompt).kind}`);
+    }
+  }
+
+  /**
+   * Stop reading input so the process can exit.
+   */
+  async onGameEnd(_result: GameResult | null): Promise<void> {
+    this.readline.close();
+  }
+
+  private async chooseActivatePower(
+    prompt: ActivatePowerPrompt
+  ): Promise<OptionChoice> {
+    this.announce(prompt, `Power of ${birdName(prompt.view, prompt.birdInstanceId)}`);
+    this.print(`  ${prompt.power.text}`);
+    const activate = await this.ask(
+      prompt,
+      "Use this power? (y/n)",
+      "  Powers are optional.",
+      parseYesNo
+    );
+    return { promptId: prompt.promptId, kind: "activatePower", activate };
+  }
+
+  private async chooseFoodFromFeeder(
+    prompt: SelectFoodFromFeederPrompt
+  ): Promise<OptionChoice> {
+    this.announce(prompt, "Take food from the birdfeeder");
+    this.print(`  Birdfeeder: ${prompt.view.birdfeeder.join(", ") || "empty"}`);
+    this.print(`  You may take: ${formatCounts(prompt.availableDice) || "nothing"}`);
+    const canReroll = new Set(prompt.view.birdfeeder).size <= 1;
+
+    const diceOrReroll = await this.ask(
+      prompt,
+      `Which dice will you take? (food names${canReroll ? ", or reroll" : ""})`,
+      [
+        "  Name the food on each die you take.",
+        "  A SEED_INVERTEBRATE die can be taken as either SEED or INVERTEBRATE.",
+        "  If every die shows the same face, you may reroll the birdfeeder instead.",
+      ].join("\n"),
+      (answer): DieSelection[] | "reroll" => {
+        if (answer.toLowerCase() === "reroll") {
+          if (!canReroll) {
+            throw new Error("You can only reroll when every die shows the same face");
+          }
+          return "reroll";
+        }
+        return takeDice(answer, prompt.availableDice);
+      }
+    );
+    return { promptId: prompt.promptId, kind: "selectFoodFromFeeder", diceOrReroll };
+  }
+
+  private async chooseFoodFromSupply(
+    prompt: SelectFoodFromSupplyPrompt
+  ): Promise<OptionChoice> {
+    this.announce(prompt, "Take food from the supply");
+    const food = await this.ask(
+      prompt,
+      `Which ${prompt.count} food will you take? (from ${prompt.allowedFoods.join(", ")})`,
+      "  Name one food per token; the same food can be named more than once.",
+      (answer) => parseFoods(answer, prompt.allowedFoods, prompt.count)
+    );
+    return {
+      promptId: prompt.promptId,
+      kind: "selectFoodFromSupply",
+      food: toCounts(food),
+    };
+  }
+
+  private async chooseFoodDestination(
+    prompt: SelectFoodDestinationPrompt
+  ): Promise<OptionChoice> {
+    this.announce(prompt, `Where will the ${prompt.food} go?`);
+    const bird = birdName(prompt.view, prompt.sourceBirdId);
+    const labels: Record<FoodDestination, string> = {
+      PLAYER_SUPPLY: "Your supply",
+      CACHE_ON_SOURCE_BIRD: `Cache it on ${bird} (1 point at game end)`,
+    };
+    const destination = await this.chooseOne(
+      prompt,
+      prompt.destinationOptions,
+      (option) => labels[option],
+      "Choose a destination"
+    );
+    return { promptId: prompt.promptId, kind: "selectFoodDestination", destination };
+  }
+
+  private async chooseDiscardEggs(
+    prompt: DiscardEggsPrompt
+  ): Promise<OptionChoice> {
+    this.announce(prompt, `Discard ${prompt.count} egg(s)`);
+    const sources = await this.askEggs(
+      prompt,
+      prompt.eggsByEligibleBird,
+      prompt.count,
+      "eggs"
+    );
+    return { promptId: prompt.promptId, kind: "discardEggs", sources };
+  }
+
+  private async choosePlaceEggs(prompt: PlaceEggsPrompt): Promise<OptionChoice> {
+    this.announce(prompt, `Lay ${prompt.count} egg(s)`);
+    const placements = await this.askEggs(
+      prompt,
+      prompt.remainingCapacitiesByEligibleBird,
+      prompt.count,
+      "room"
+    );
+    return { promptId: prompt.promptId, kind: "placeEggs", placements };
+  }
+
+  private async chooseCards(prompt: SelectCardsPrompt): Promise<OptionChoice> {
+    const from = prompt.source === "HAND" ? "your hand" : "the revealed cards";
+    this.announce(
+      prompt,
+      `${capitalize(prompt.mode.toLowerCase())} ${prompt.count} card(s) from ${from}`
+    );
+    this.printOptions(prompt.eligibleCards.map((bird) => describeBird(bird)));
+    const indices = await this.ask(
+      prompt,
+      `Which ${prompt.count} card(s)? (numbers)`,
+      "  Choose different cards by number.",
+      (answer) =>
+        parseNumbers(answer, prompt.eligibleCards.length, {
+          min: prompt.count,
+          max: prompt.count,
+        })
+    );
+    return {
+      promptId: prompt.promptId,
+      kind: "selectCards",
+      cards: indices.map((i) => prompt.eligibleCards[i].id),
+    };
+  }
+
+  private async chooseDrawCards(prompt: DrawCardsPrompt): Promise<OptionChoice> {
+    this.announce(prompt, `Draw ${prompt.remaining} card(s)`);
+    if (prompt.trayCards.length > 0) {
+      this.print("Bird tray:");
+      this.printOptions(prompt.trayCards.map((bird) => describeBird(bird)));
+    }
+    const { trayCards, numDeckCards } = await this.ask(
+      prompt,
+      prompt.trayCards.length > 0
+        ? "Which cards will you draw? (tray numbers and/or deck, e.g. 1 deck)"
+        : "How many cards will you draw from the deck? (number)",
+      [
+        "  Write a tray card's number to take it, and deck once per card from the deck.",
+        `  Draw between 1 and ${prompt.remaining} card(s) now; you'll be asked again for the rest.`,
+      ].join("\n"),
+      (answer) => parseDraw(answer, prompt)
+    );
+    return {
+      promptId: prompt.promptId,
+      kind: "drawCards",
+      trayCards: trayCards.map((i) => prompt.trayCards[i].id),
+      numDeckCards,
+    };
+  }
+
+  private async chooseBonusCards(
+    prompt: SelectBonusCardsPrompt
+  ): Promise<OptionChoice> {
+    this.announce(prompt, `Keep ${prompt.count} bonus card(s)`);
+    this.printOptions(prompt.eligibleCards.map(describeBonusCard));
+    const indices = await this.ask(
+      prompt,
+      `Which ${prompt.count} bonus card(s)? (numbers)`,
+      "  Choose different cards by number.",
+      (answer) =>
+        parseNumbers(answer, prompt.eligibleCards.length, {
+          min: prompt.count,
+          max: prompt.count,
+        })
+    );
+    return {
+      promptId: prompt.promptId,
+      kind: "selectBonusCards",
+      cards: indices.map((i) => prompt.eligibleCards[i].id),
+    };
+  }
+
+  private async choosePlayer(prompt: SelectPlayerPrompt): Promise<OptionChoice> {
+    this.announce(prompt, "Choose a player");
+    const player = await this.chooseOne(
+      prompt,
+      prompt.eligiblePlayers,
+      (playerId) => playerId,
+      "Which player?"
+    );
+    return { promptId: prompt.promptId, kind: "selectPlayer", player };
+  }
+
+  private async chooseRepeatPower(
+    prompt: RepeatPowerPrompt
+  ): Promise<OptionChoice> {
+    this.announce(prompt, "Repeat a brown power in this habitat");
+    const bird = await this.chooseOne(
+      prompt,
+      prompt.eligibleBirds,
+      (id) => {
+        const instance = findBird(prompt.view, id);
+        return instance
+          ? `${instance.card.name}: ${instance.card.power?.text ?? ""}`
+          : id;
+      },
+      "Which bird's power?"
+    );
+    return { promptId: prompt.promptId, kind: "repeatPower", bird };
+  }
+
+  private async choosePlayBird(prompt: PlayBirdPrompt): Promise<OptionChoice> {
+    this.announce(prompt, "Play a bird");
+    this.printOptions(prompt.eligibleBirds.map((bird) => describeBird(bird)));
+    const [index] = await this.ask(
+      prompt,
+      "Which bird will you play? (number)",
+      "  Only birds you can pay for (possibly with 2-for-1 food exchanges) are listed.",
+      (answer) => parseNumbers(answer, prompt.eligibleBirds.length, { min: 1, max: 1 })
+    );
+    const bird = prompt.eligibleBirds[index];
+
+    const habitats = HABITATS.filter(
+      (habitat) =>
+        bird.habitats.includes(habitat) &&
+        prompt.eggCostByEligibleHabitat[habitat] !== undefined
+    );
+    const habitat =
+      habitats.length === 1
+        ? habitats[0]
+        : await this.chooseOne(
+            prompt,
+            habitats,
+            (h) => `${h} (${prompt.eggCostByEligibleHabitat[h]} egg(s))`,
+            "Which habitat?"
+          );
+    if (habitats.length === 1) {
+      this.print(`  ${bird.name} goes in the ${habitat}.`);
+    }
+
+    let foodToSpend: FoodByType = {};
+    let foodExchanges: FoodExchange[] = [];
+    if (bird.foodCostMode !== "NONE") {
+      const exchanges = prompt.foodExchangesRequired?.[bird.id];
+      ({ foodToSpend, foodExchanges } = await this.ask(
+        prompt,
+        `Pay ${formatFoodCost(bird)} from your supply (${formatFood(prompt.view.food)})` +
+          (exchanges ? `; you need ${exchanges} exchange(s)` : ""),
+        [
+          "  Name each food you pay, e.g. SEED FISH.",
+          "  Pay WILD with any food. For an OR cost, pay one of the listed foods.",
+          "  A 2-for-1 exchange pays 2 food as 1 of another type: write SEED+FRUIT>FISH.",
+        ].join("\n"),
+        (answer) => parsePayment(answer, prompt.view.food)
+      ));
+    }
+
+    const eggCost = prompt.eggCostByEligibleHabitat[habitat] ?? 0;
+    const eggsToSpend =
+      eggCost === 0
+        ? {}
+        : await this.askEggs(prompt, eggsOnBoard(prompt.view), eggCost, "eggs");
+
+    return {
+      promptId: prompt.promptId,
+      kind: "playBird",
+      bird: bird.id,
+      habitat,
+      foodToSpend,
+      ...(foodExchanges.length > 0 && { foodExchanges }),
+      eggsToSpend,
+    };
+  }
+
+  private async chooseDiscardFood(
+    prompt: DiscardFoodPrompt
+  ): Promise<OptionChoice> {
+    this.announce(prompt, `Discard ${formatFood(prompt.foodCost)}`);
+    if (prompt.tuckedCardsReward) {
+      this.print(`  Reward: tuck ${prompt.tuckedCardsReward} card(s)`);
+    }
+    const total = countFood(prompt.foodCost);
+    if (!prompt.foodCost.WILD) {
+      this.print(`  Discarding ${formatFood(prompt.foodCost)}.`);
+      return { promptId: prompt.promptId, kind: "discardFood", food: prompt.foodCost };
+    }
+    const food = await this.ask(
+      prompt,
+      `Which ${total} food will you discard? (${formatFood(prompt.view.food)})`,
+      "  WILD can be paid with any food.",
+      (answer) => parseFoodFromSupply(answer, prompt.view.food, total)
+    );
+    return { promptId: prompt.promptId, kind: "discardFood", food: toCounts(food) };
+  }
+
+  private async chooseHabitat(prompt: SelectHabitatPrompt): Promise<OptionChoice> {
+    this.announce(prompt, "Choose a habitat");
+    const habitat = await this.chooseOne(
+      prompt,
+      prompt.eligibleHabitats,
+      (h) => h,
+      "Which habitat?"
+    );
+    return { promptId: prompt.promptId, kind: "selectHabitat", habitat };
+  }
+
+  /**
+   * Ask for eggs to take from or give to birds on the board, one bird
+   * number per egg.
+   * @param limits - Most eggs each bird can give or take
+   * @param what - What the limit is, for the option list ("eggs" or "room")
+   */
+  private async askEggs(
+    prompt: DecisionPrompt,
+    limits: EggsByBird,
+    count: number,
+    what: "eggs" | "room"
+  ): Promise<EggsByBird> {
+    const birds = Object.keys(limits) as BirdInstanceId[];
+    this.printOptions(
+      birds.map(
+        (id) =>
+          `${birdName(prompt.view, id)} (${what === "eggs" ? "" : "room for "}${limits[id]} egg(s))`
+      )
+    );
+    return this.ask(
+      prompt,
+      `Which birds? Write a bird's number once per egg (${count} in all, e.g. 1 1 2)`,
+      "  Repeat a bird's number to use more than one egg on it.",
+      (answer) => {
+        const chosen = parseNumbers(answer, birds.length, {
+          min: count,
+          max: count,
+          unique: false,
+        });
+        const counts = toCounts(chosen.map((i) => birds[i]));
+        for (const [id, eggs] of Object.entries(counts)) {
+          if ((eggs ?? 0) > (limits[id] ?? 0)) {
+            throw new Error(
+              `${birdName(prompt.view, id)} only has ${what === "eggs" ? "" : "room for "}${limits[id]} egg(s)`
+            );
+          }
+        }
+        return counts;
+      }
+    );
+  }
+
+  /**
+   * Ask the player to pick one of a list of options by number.
+   */
+  private async chooseOne<T>(
+    prompt: DecisionPrompt,
+    options: T[],
+    label: (option: T) => string,
+    question: string
+  ): Promise<T> {
+    this.printOptions(options.map(label));
+    const [index] = await this.ask(
+      prompt,
+      `${question} (number)`,
+      "  Choose one of the numbered options.",
+      (answer) => parseNumbers(answer, options.length, { min: 1, max: 1 })
+    );
+    return options[index];
+  }
+
+  /**
+   * Ask a question until the answer parses.
+   * @param help - Shown for "?"
+   * @param parse - Turns the answer into a value; throws to reject it
+   * @throws Error if the input ends first
+   */
+  private async ask<T>(
+    prompt: DecisionPrompt,
+    question: string,
+    help: string,
+    parse: (answer: string) => T
+  ): Promise<T> {
+    for (;;) {
+      this.output.write(`${question}\n> `);
+      const line = await this.lines.next();
+      if (line.done) {
+        throw new Error("Input ended before a choice was made");
+      }
+      const answer = line.value.trim();
+      if (answer === "?" || answer.toLowerCase() === "help") {
+        this.print(`${help}\n${COMMON_HELP}`);
+      } else if (answer.toLowerCase() === "view") {
+        this.print(renderView(prompt.view));
+      } else {
+        try {
+          return parse(answer);
+        } catch (error) {
+          this.print(`  ${(error as Error).message}`);
+        }
+      }
+    }
+  }
+
+  private announce(prompt: DecisionPrompt, title: string): void {
+    this.print("");
+    this.print(`== ${title} ==`);
+    if (prompt.previousError) {
+      this.print(`  Your last choice was rejected: ${prompt.previousError.message}`);
+    }
+  }
+
+  private printOptions(options: string[]): void {
+    options.forEach((option, i) => this.print(`  ${i + 1}. ${option}`));
+  }
+
+  private print(text: string): void {
+    this.output.write(`${text}\n`);
+  }
+}
+
+/**
+ * Render a player's view of the game as text.
+ */
+export function renderView(view: PlayerView): string {
+  const lines = [
+    `Round ${view.round}, turn ${view.turn} - you are ${view.playerId}, ${view.actionCubes} action cube(s) left`,
+    `Round goals: ${view.roundGoals.map((goal, i) => `${i + 1}. ${goal}`).join("  ") || "none"}`,
+    `Food: ${formatFood(view.food)}`,
+    `Hand (${view.hand.length}):`,
+    ...view.hand.map((bird) => `  ${describeBird(bird)}`),
+    `Bonus cards: ${view.bonusCards.map((card) => `${card.name} (${card.condition})`).join("; ") || "none"}`,
+    "Board:",
+    ...renderBoard(view.board),
+    `Birdfeeder: ${view.birdfeeder.join(", ") || "empty"}`,
+    `Bird tray: ${view.birdTray.map((bird) => bird.name).join(", ") || "empty"}`,
+    `Deck: ${view.deckSize} card(s)`,
+  ];
+  for (const opponent of view.opponents) {
+    lines.push(
+      `${opponent.playerId}: ${opponent.handSize} card(s) in hand, food: ${formatFood(opponent.food)}, ${opponent.actionCubes} action cube(s) left`,
+      ...renderBoard(opponent.board)
+    );
+  }
+  return lines.join("\n");
+}
+
+function renderBoard(board: Record<Habitat, Array<BirdInstance | null>>): string[] {
+  return HABITATS.map((habitat) => {
+    const birds = board[habitat].filter((bird): bird is BirdInstance => bird !== null);
+    return `  ${habitat.padEnd(9)} ${birds.map(describeInstance).join(" | ") || "-"}`;
+  });
+}
+
+function describeInstance(bird: BirdInstance): string {
+  const details = [`${bird.eggs}/${bird.card.eggCapacity} eggs`];
+  if (countFood(bird.cachedFood) > 0) {
+    details.push(`cached ${formatFood(bird.cachedFood)}`);
+  }
+  if (bird.tuckedCards.length > 0) {
+    details.push(`${bird.tuckedCards.length} tucked`);
+  }
+  return `${bird.card.name} (${details.join(", ")})`;
+}
+
+function describeBird(bird: BirdCard): string {
+  const power = bird.power ? ` - ${bird.power.text}` : "";
+  return (
+    `${bird.name} [${bird.victoryPoints} pts, ${bird.habitats.join("/")}, ` +
+    `food ${formatFoodCost(bird)}, ${bird.nestType.toLowerCase()} nest, ` +
+    `${bird.eggCapacity} eggs]${power}`
+  );
+}
+
+function describeBonusCard(card: BonusCard): string {
+  return `${card.name}: ${card.condition}`;
+}
+
+function formatFoodCost(bird: BirdCard): string {
+  if (bird.foodCostMode === "NONE") {
+    return "free";
+  }
+  const foods = Object.entries(bird.foodCost).flatMap(([food, count]) =>
+    Array<string>(count ?? 0).fill(food)
+  );
+  return foods.join(bird.foodCostMode === "OR" ? " / " : " + ");
+}
+
+function formatFood(food: FoodByType): string {
+  return formatCounts(food) || "none";
+}
+
+function formatCounts(counts: Partial<Record<string, number>>): string {
+  return Object.entries(counts)
+    .filter(([, count]) => (count ?? 0) > 0)
+    .map(([item, count]) => (count === 1 ? item : `${count} ${item}`))
+    .join(", ");
+}
+
+function formatResource({ type, count }: { type: Resource; count: number }): string {
+  const noun = { FOOD: "food", EGGS: "egg", CARDS: "card" }[type];
+  return `${count} ${noun}${count === 1 || type === "FOOD" ? "" : "s"}`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function findBird(view: PlayerView, id: BirdInstanceId): BirdInstance | undefined {
+  for (const habitat of HABITATS) {
+    const bird = view.board[habitat].find((b) => b?.id === id);
+    if (bird) return bird;
+  }
+  return undefined;
+}
+
+function birdName(view: PlayerView, id: BirdInstanceId): string {
+  return findBird(view, id)?.card.name ?? id;
+}
+
+function eggsOnBoard(view: PlayerView): EggsByBird {
+  const eggs: EggsByBird = {};
+  for (const habitat of HABITATS) {
+    for (const bird of view.board[habitat]) {
+      if (bird && bird.eggs > 0) eggs[bird.id] = bird.eggs;
+    }
+  }
+  return eggs;
+}
+
+function countFood(food: FoodByType): number {
+  return Object.values(food).reduce((sum, count) => sum + (count ?? 0), 0);
+}
+
+function toCounts<K extends string>(items: K[]): Partial<Record<K, number>> {
+  const counts: Partial<Record<K, number>> = {};
+  for (const item of items) {
+    counts[item] = (counts[item] ?? 0) + 1;
+  }
+  return counts;
+}
+
+function tokens(answer: string): string[] {
+  return answer.split(/[\s,]+/).filter((token) => token !== "");
+}
+
+/**
+ * Parse option numbers (1-based, as shown) into indices.
+ * "none" or an empty answer chooses nothing.
+ * @throws Error if a number is out of range, repeated (unless allowed), or
+ *   the count is outside [min, max]
+ */
+function parseNumbers(
+  answer: string,
+  optionCount: number,
+  { min, max, unique = true }: { min: number; max: number; unique?: boolean }
+): number[] {
+  const words = answer.toLowerCase() === "none" ? [] : tokens(answer);
+  const indices = words.map((word) => {
+    const number = Number(word);
+    if (!Number.isInteger(number) || number < 1 || number > optionCount) {
+      throw new Error(`"${word}" is not an option number from 1 to ${optionCount}`);
+    }
+    return number - 1;
+  });
+  if (unique && new Set(indices).size !== indices.length) {
+    throw new Error("Each option can only be chosen once");
+  }
+  if (indices.length < min || indices.length > max) {
+    throw new Error(
+      min === max
+        ? `Choose exactly ${min}`
+        : `Choose between ${min} and ${max}`
+    );
+  }
+  return indices;
+}
+
+/**
+ * Parse a food name, accepting any unambiguous prefix in any case.
+ * @throws Error if the name matches none or several of the allowed foods
+ */
+function parseFood(word: string, allowed: readonly FoodType[]): FoodType {
+  const upper = word.toUpperCase();
+  const exact = allowed.find((food) => food === upper);
+  const matches = exact ? [exact] : allowed.filter((food) => food.startsWith(upper));
+  if (matches.length !== 1) {
+    throw new Error(
+      `"${word}" is ${matches.length === 0 ? "not" : "more than one"} of: ${allowed.join(", ")}`
+    );
+  }
+  return matches[0];
+}
+
+/**
+ * Parse exactly `count` food names from the allowed foods.
+ */
+function parseFoods(
+  answer: string,
+  allowed: readonly FoodType[],
+  count: number
+): FoodType[] {
+  const foods = tokens(answer).map((word) => parseFood(word, allowed));
+  if (foods.length !== count) {
+    throw new Error(`Name exactly ${count} food`);
+  }
+  return foods;
+}
+
+/**
+ * Parse exactly `count` food names, no more of each than the supply holds.
+ */
+function parseFoodFromSupply(
+  answer: string,
+  supply: FoodByType,
+  count: number
+): FoodType[] {
+  const available = (Object.keys(supply) as FoodType[]).filter(
+    (food) => (supply[food] ?? 0) > 0
+  );
+  const foods = parseFoods(answer, available, count);
+  checkSupply(toCounts(foods), supply);
+  return foods;
+}
+
+function checkSupply(spent: FoodByType, supply: FoodByType): void {
+  for (const [food, count] of Object.entries(spent)) {
+    const have = supply[food as FoodType] ?? 0;
+    if ((count ?? 0) > have) {
+      throw new Error(`You only have ${have} ${food}`);
+    }
+  }
+}
+
+/**
+ * Parse a bird payment: food names paid directly, and 2-for-1 exchanges
+ * written as GIVE+GIVE>RECEIVE.
+ */
+function parsePayment(
+  answer: string,
+  supply: FoodByType
+): { foodToSpend: FoodByType; foodExchanges: FoodExchange[] } {
+  const foodTypes: FoodType[] = ["INVERTEBRATE", "SEED", "FISH", "FRUIT", "RODENT"];
+  const spent: FoodType[] = [];
+  const given: FoodType[] = [];
+  const foodExchanges: FoodExchange[] = [];
+  for (const word of tokens(answer)) {
+    const exchange = word.match(/^([^+>]+)\+([^+>]+)>([^+>]+)$/);
+    if (exchange) {
+      const give = [parseFood(exchange[1], foodTypes), parseFood(exchange[2], foodTypes)];
+      given.push(...give);
+      foodExchanges.push({
+        give: toCounts(give),
+        receive: parseFood(exchange[3], foodTypes),
+      });
+    } else if (word.includes("+") || word.includes(">")) {
+      throw new Error(`"${word}" is not an exchange; write it as SEED+FRUIT>FISH`);
+    } else {
+      spent.push(parseFood(word, foodTypes));
+    }
+  }
+  if (spent.length === 0 && foodExchanges.length === 0) {
+    throw new Error("Name the food you pay");
+  }
+  checkSupply(toCounts([...spent, ...given]), supply);
+  return { foodToSpend: toCounts(spent), foodExchanges };
+}
+
+/**
+ * Pick birdfeeder dice by the food on them. A SEED or INVERTEBRATE comes
+ * from a plain die if there is one, and otherwise from a SEED_INVERTEBRATE
+ * die.
+ */
+function takeDice(
+  answer: string,
+  available: Partial<Record<DieFace, number>>
+): DieSelection[] {
+  const remaining = { ...available };
+  const allowed = (Object.keys(available) as DieFace[]).flatMap(
+    (face): FoodType[] =>
+      face === "SEED_INVERTEBRATE" ? ["SEED", "INVERTEBRATE"] : [face]
+  );
+  const selections = tokens(answer).map((word): DieSelection => {
+    const food = parseFood(word, [...new Set(allowed)]);
+    if ((remaining[food as DieFace] ?? 0) > 0) {
+      remaining[food as DieFace]! -= 1;
+      return { die: food as DieFace };
+    }
+    if (
+      (food === "SEED" || food === "INVERTEBRATE") &&
+      (remaining.SEED_INVERTEBRATE ?? 0) > 0
+    ) {
+      remaining.SEED_INVERTEBRATE! -= 1;
+      return { die: "SEED_INVERTEBRATE", asFoodType: food };
+    }
+    throw new Error(`There are not that many ${food} dice in the birdfeeder`);
+  });
+  if (selections.length === 0) {
+    throw new Error("Take at least one die");
+  }
+  return selections;
+}
+
+/**
+ * Parse a card draw: tray card numbers plus "deck" once per deck card (or
+ * a plain count when only the deck is allowed).
+ */
+function parseDraw(
+  answer: string,
+  prompt: DrawCardsPrompt
+): { trayCards: number[]; numDeckCards: number } {
+  if (prompt.trayCards.length === 0) {
+    const count = Number(answer);
+    if (!Number.isInteger(count) || count < 1 || count > prompt.remaining) {
+      throw new Error(`Draw between 1 and ${prompt.remaining} card(s)`);
+    }
+    return { trayCards: [], numDeckCards: count };
+  }
+  const words = tokens(answer);
+  const deckWords = words.filter((word) => "deck".startsWith(word.toLowerCase()));
+  const trayCards = parseNumbers(
+    words.filter((word) => !deckWords.includes(word)).join(" "),
+    prompt.trayCards.length,
+    { min: 0, max: prompt.trayCards.length }
+  );
+  const total = trayCards.length + deckWords.length;
+  if (total < 1 || total > prompt.remaining) {
+    throw new Error(`Draw between 1 and ${prompt.remaining} card(s)`);
+  }
+  return { trayCards, numDeckCards: deckWords.length };
+}
+
+function parseYesNo(answer: string): boolean {
+  const word = answer.toLowerCase();
+  if (word === "y" || word === "yes") return true;
+  if (word === "n" || word === "no") return false;
+  throw new Error("Answer y or n");
+}
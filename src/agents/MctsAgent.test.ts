@@ -0,0 +1,159 @@
+import { describe, it, expect } from "vitest";
+import { MctsAgent } from "./MctsAgent.js";
+import { SmartRandomAgent } from "./SmartRandomAgent.js";
+import { AgentRegistry } from "./AgentRegistry.js";
+import type { PlayerAgent } from "./PlayerAgent.js";
+import { GameEngine, type GameStep } from "../engine/GameEngine.js";
+import { validateChoice } from "../engine/ChoiceValidators.js";
+import { DataRegistry } from "../data/DataRegistry.js";
+import type {
+  DecisionChoice,
+  DecisionPrompt,
+  OptionChoice,
+  OptionPrompt,
+} from "../types/prompts.js";
+
+const registry = new DataRegistry();
+
+function ask(agent: PlayerAgent, prompt: DecisionPrompt): Promise<DecisionChoice> {
+  switch (prompt.kind) {
+    case "startingHand":
+      return agent.chooseStartingHand(prompt);
+    case "turnAction":
+      return agent.chooseTurnAction(prompt);
+    default:
+      return agent.chooseOption(prompt);
+  }
+}
+
+/**
+ * Start a game between an MctsAgent (p1) and a SmartRandomAgent (p2), and
+ * step it with SmartRandomAgents until p1 is asked a prompt matching `until`.
+ */
+async function stepUntil(
+  seed: number,
+  mcts: MctsAgent,
+  until: (prompt: DecisionPrompt) => boolean
+) {
+  const engine = new GameEngine({
+    agents: [mcts, new SmartRandomAgent("p2", seed + 1)],
+    seed,
+    registry,
+  });
+  const standIns = {
+    p1: new SmartRandomAgent("p1", seed + 2),
+    p2: new SmartRandomAgent("p2", seed + 1),
+  };
+  let step: GameStep = await engine.start();
+  while (step.kind === "decision") {
+    const { prompt } = step;
+    if (prompt.playerId === "p1" && until(prompt)) {
+      return { engine, prompt };
+    }
+    const agent = standIns[prompt.playerId as "p1" | "p2"];
+    step = await engine.submit(await ask(agent, prompt));
+  }
+  throw new Error("Game ended before the prompt was reached");
+}
+
+describe("MctsAgent", () => {
+  it("is registered in the AgentRegistry", () => {
+    expect(AgentRegistry.create("MctsAgent", "p1", 1)).toBeInstanceOf(
+      MctsAgent
+    );
+    expect(
+      AgentRegistry.parseOptions("MctsAgent", {
+        iterations: "64",
+        timeLimitMs: "Infinity",
+      })
+    ).toEqual({ iterations: 64, timeLimitMs: Infinity });
+  });
+
+  it("plays like its default policy when it cannot fork the game", async () => {
+    const { prompt } = await stepUntil(
+      3,
+      new MctsAgent("p1", 3),
+      (p) => p.kind === "turnAction"
+    );
+    if (prompt.kind !== "turnAction") throw new Error("expected turnAction");
+
+    const detached = new MctsAgent("p1", 9);
+    const policy = new SmartRandomAgent("p1", 9);
+
+    expect(await detached.chooseTurnAction(prompt)).toEqual(
+      await policy.chooseTurnAction(prompt)
+    );
+  });
+
+  it("searches a turn action on forks without touching the game", async () => {
+    const mcts = new MctsAgent("p1", 5, { iterations: 6 });
+    const { engine, prompt } = await stepUntil(
+      5,
+      mcts,
+      (p) => p.kind === "turnAction"
+    );
+    if (prompt.kind !== "turnAction") throw new Error("expected turnAction");
+    const before = engine.getGameState().toJSON();
+
+    const choice = await mcts.chooseTurnAction(prompt);
+
+    expect(choice.promptId).toBe(prompt.promptId);
+    expect(prompt.eligibleActions).toContain(choice.action);
+    expect(engine.getGameState().toJSON()).toEqual(before);
+    expect(engine.getPendingPrompts()).toEqual([prompt]);
+  });
+
+  it("answers option prompts with valid choices", async () => {
+    const mcts = new MctsAgent("p1", 11, { iterations: 4 });
+    const { engine, prompt } = await stepUntil(
+      11,
+      mcts,
+      (p) => p.kind !== "startingHand" && p.kind !== "turnAction"
+    );
+
+    const choice = await mcts.chooseOption(prompt as OptionPrompt);
+
+    expect(
+      validateChoice(
+        prompt as OptionPrompt,
+        choice as OptionChoice,
+        engine.getGameState()
+      )
+    ).toBeNull();
+  });
+
+  it("stops searching at the time limit", async () => {
+    const mcts = new MctsAgent("p1", 13, {
+      iterations: Number.MAX_SAFE_INTEGER,
+      timeLimitMs: 50,
+    });
+    const { prompt } = await stepUntil(
+      13,
+      mcts,
+      (p) => p.kind === "turnAction"
+    );
+    if (prompt.kind !== "turnAction") throw new Error("expected turnAction");
+
+    const started = Date.now();
+    await mcts.chooseTurnAction(prompt);
+
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+
+  it("plays the same game for the same seeds with an iteration budget", async () => {
+    const play = () =>
+      new GameEngine({
+        agents: [
+          new MctsAgent("p1", 17, { iterations: 2, maxCandidates: 2 }),
+          new SmartRandomAgent("p2", 18),
+        ],
+        seed: 17,
+        registry,
+      }).playGame();
+
+    const first = await play();
+
+    expect(first.forfeitedPlayers).toBeUndefined();
+    expect(await play()).toEqual(first);
+  });
+});
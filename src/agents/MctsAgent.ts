@@ -0,0 +1,256 @@
+/**
+ * MctsAgent - Monte Carlo tree search over determinized rollouts.
+ *
+ * For each turn action and option prompt, the agent samples a handful of
+ * distinct legal choices from its default policy (SmartRandomAgent), then
+ * spends its budget on rollouts: each rollout forks the real game at the
+ * current prompt with hidden information re-randomized (a determinization),
+ * plays one candidate, and finishes the game with SmartRandomAgents. The
+ * candidates are treated as a UCB1 bandit at the root of the search, and the
+ * most visited one is played.
+ *
+ * Searching needs a GameForker, which the GameEngine attaches before the
+ * game starts. Without one (e.g. when driven by ScenarioRunner), and for
+ * starting hands, the agent plays like its default policy.
+ */
+
+import type { PlayerId } from "../types/core.js";
+import type {
+  DecisionChoice,
+  DecisionPrompt,
+  StartingHandPrompt,
+  StartingHandChoice,
+  TurnActionPrompt,
+  TurnActionChoice,
+  OptionPrompt,
+  OptionChoice,
+} from "../types/prompts.js";
+import type { GameResult } from "../engine/GameEngine.js";
+import type { GameForker, PlayerAgent } from "./PlayerAgent.js";
+import { SmartRandomAgent } from "./SmartRandomAgent.js";
+import { AgentRegistry, type AgentOptionSpec } from "./AgentRegistry.js";
+import { choiceToWire } from "../util/WireCodec.js";
+
+/**
+ * Search budget and tuning for MctsAgent.
+ */
+export interface MctsAgentOptions {
+  /** Rollouts per decision (default 32) */
+  iterations?: number;
+  /**
+   * Stop searching a decision after this many milliseconds, even if
+   * iterations remain. Unlimited by default; results then depend on timing.
+   */
+  timeLimitMs?: number;
+  /** Most distinct candidate choices searched per decision (default 6) */
+  maxCandidates?: number;
+  /** UCB1 exploration constant (default √2) */
+  exploration?: number;
+}
+
+const DEFAULT_ITERATIONS = 32;
+const DEFAULT_MAX_CANDIDATES = 6;
+const DEFAULT_EXPLORATION = Math.SQRT2;
+
+/**
+ * How many policy samples to draw per candidate slot when collecting
+ * distinct candidates. Prompts with few legal choices stop early.
+ */
+const CANDIDATE_SAMPLES_PER_SLOT = 4;
+
+/**
+ * Magic constant for deriving rollout seeds from the agent seed.
+ */
+const ROLLOUT_SEED_MULTIPLIER = 0x9e3779b9;
+
+interface CandidateStats<C> {
+  choice: C;
+  visits: number;
+  totalReward: number;
+}
+
+export class MctsAgent implements PlayerAgent {
+  readonly playerId: PlayerId;
+  private readonly seed: number;
+  private readonly policy: SmartRandomAgent;
+  private readonly iterations: number;
+  private readonly timeLimitMs: number;
+  private readonly maxCandidates: number;
+  private readonly exploration: number;
+  private forker: GameForker | null = null;
+  private rolloutCount = 0;
+
+  constructor(
+    playerId: PlayerId,
+    seed: number,
+    options: MctsAgentOptions = {}
+  ) {
+    this.playerId = playerId;
+    this.seed = seed;
+    this.policy = new SmartRandomAgent(playerId, seed);
+    this.iterations = options.iterations ?? DEFAULT_ITERATIONS;
+    this.timeLimitMs = options.timeLimitMs ?? Infinity;
+    this.maxCandidates = options.maxCandidates ?? DEFAULT_MAX_CANDIDATES;
+    this.exploration = options.exploration ?? DEFAULT_EXPLORATION;
+  }
+
+  attachForker(fork: GameForker): void {
+    this.forker = fork;
+  }
+
+  async chooseStartingHand(
+    prompt: StartingHandPrompt
+  ): Promise<StartingHandChoice> {
+    return this.policy.chooseStartingHand(prompt);
+  }
+
+  async chooseTurnAction(prompt: TurnActionPrompt): Promise<TurnActionChoice> {
+    return this.search(prompt, (p) => this.policy.chooseTurnAction(p));
+  }
+
+  async chooseOption(prompt: OptionPrompt): Promise<OptionChoice> {
+    return this.search(prompt, (p) => this.policy.chooseOption(p));
+  }
+
+  /**
+   * Pick a choice for the prompt by running rollouts for each candidate.
+   */
+  private async search<P extends DecisionPrompt, C extends DecisionChoice>(
+    prompt: P,
+    sample: (prompt: P) => Promise<C>
+  ): Promise<C> {
+    if (!this.forker) {
+      return sample(prompt);
+    }
+    const candidates = await this.sampleCandidates(prompt, sample);
+    if (candidates.length === 1) {
+      return candidates[0].choice;
+    }
+
+    const deadline = Date.now() + this.timeLimitMs;
+    for (let i = 0; i < this.iterations && Date.now() < deadline; i++) {
+      const candidate = this.selectCandidate(candidates, i);
+      candidate.totalReward += await this.rollout(candidate.choice);
+      candidate.visits++;
+    }
+
+    return candidates.reduce((best, candidate) =>
+      candidate.visits > best.visits ||
+      (candidate.visits === best.visits &&
+        meanReward(candidate) > meanReward(best))
+        ? candidate
+        : best
+    ).choice;
+  }
+
+  /**
+   * Collect up to maxCandidates distinct choices from the default policy.
+   */
+  private async sampleCandidates<
+    P extends DecisionPrompt,
+    C extends DecisionChoice,
+  >(
+    prompt: P,
+    sample: (prompt: P) => Promise<C>
+  ): Promise<CandidateStats<C>[]> {
+    const candidates = new Map<string, CandidateStats<C>>();
+    const attempts = this.maxCandidates * CANDIDATE_SAMPLES_PER_SLOT;
+    for (let i = 0; i < attempts && candidates.size < this.maxCandidates; i++) {
+      const choice = await sample(prompt);
+      const key = JSON.stringify(choiceToWire(choice));
+      if (!candidates.has(key)) {
+        candidates.set(key, { choice, visits: 0, totalReward: 0 });
+      }
+    }
+    return [...candidates.values()];
+  }
+
+  /**
+   * UCB1: try every candidate once, then balance mean reward against how
+   * rarely a candidate has been tried.
+   */
+  private selectCandidate<C>(
+    candidates: CandidateStats<C>[],
+    totalVisits: number
+  ): CandidateStats<C> {
+    const unvisited = candidates.find((c) => c.visits === 0);
+    if (unvisited) {
+      return unvisited;
+    }
+    const ucb = (c: CandidateStats<C>) =>
+      meanReward(c) +
+      this.exploration * Math.sqrt(Math.log(totalVisits) / c.visits);
+    return candidates.reduce((best, c) => (ucb(c) > ucb(best) ? c : best));
+  }
+
+  /**
+   * Play the choice on a fresh determinization of the game and finish it
+   * with the default policy.
+   * @returns This player's share of the win (1 for an outright win, 0 for a loss)
+   */
+  private async rollout(choice: DecisionChoice): Promise<number> {
+    const seed =
+      (this.seed ^ (++this.rolloutCount * ROLLOUT_SEED_MULTIPLIER)) >>> 0;
+    let agentSeed = seed;
+    const fork = await this.forker!(
+      (playerId) => new SmartRandomAgent(playerId, ++agentSeed),
+      seed
+    );
+    await fork.submit(choice);
+    return this.winShare(await fork.finishGame());
+  }
+
+  private winShare(result: GameResult): number {
+    return result.winnerIds.includes(this.playerId)
+      ? 1 / result.winnerIds.length
+      : 0;
+  }
+}
+
+function meanReward<C>(candidate: CandidateStats<C>): number {
+  return candidate.visits === 0 ? 0 : candidate.totalReward / candidate.visits;
+}
+
+/**
+ * MctsAgentOptions as AgentRegistry options.
+ */
+export const MCTS_AGENT_OPTIONS: AgentOptionSpec[] = [
+  {
+    name: "iterations",
+    type: "integer",
+    default: DEFAULT_ITERATIONS,
+    description: "Rollouts per decision",
+  },
+  {
+    name: "timeLimitMs",
+    type: "number",
+    default: Infinity,
+    description: "Milliseconds to search each decision",
+  },
+  {
+    name: "maxCandidates",
+    type: "integer",
+    default: DEFAULT_MAX_CANDIDATES,
+    description: "Most candidate choices searched per decision",
+  },
+  {
+    name: "exploration",
+    type: "number",
+    default: DEFAULT_EXPLORATION,
+    description: "UCB1 exploration constant",
+  },
+];
+
+// Register MctsAgent in the agent registry
+AgentRegistry.register(
+  "MctsAgent",
+  "Monte Carlo tree search over determinized SmartRandomAgent rollouts",
+  (playerId, seed, options) =>
+    new MctsAgent(playerId, seed, {
+      iterations: options.iterations as number,
+      timeLimitMs: options.timeLimitMs as number,
+      maxCandidates: options.maxCandidates as number,
+      exploration: options.exploration as number,
+    }),
+  MCTS_AGENT_OPTIONS
+);
@@ -7,6 +7,18 @@ import type {
   OptionPrompt,
   OptionChoice,
 } from "../types/prompts.js";
+import type { GameEngine, GameResult } from "../engine/GameEngine.js";
+
+/**
+ * Forks the game an agent is playing in at the decision the agent is being
+ * asked about, with everything the agent cannot see re-randomized from
+ * `seed`. The fork is paused at the same prompt (see GameEngine.fork()).
+ * @param createAgent - Creates the fork's agent for each player
+ */
+export type GameForker = (
+  createAgent: (playerId: PlayerId) => PlayerAgent,
+  seed: number
+) => Promise<GameEngine>;
 
 /**
  * Interface for player agents that can participate in a Wingspan game.
@@ -28,4 +40,17 @@ export interface PlayerAgent {
 
   /** Handle all other decision prompts (food selection, egg placement, card draw, play bird, etc.) */
   chooseOption(prompt: OptionPrompt): Promise<OptionChoice>;
+
+  /**
+   * Optional: receive a forker for this player's game before it starts.
+   * Used by agents that search by playing ahead (e.g. MctsAgent).
+   */
+  attachForker?(fork: GameForker): void;
+
+  /**
+   * Optional: told that a game played with GameEngine.playGame() or
+   * resumeGame() is over, with its result, or null if the game failed.
+   * Used by agents that hold resources for the game (e.g. SubprocessAgent).
+   */
+  onGameEnd?(result: GameResult | null): Promise<void>;
 }
@@ -0,0 +1,213 @@
+import { describe, it, expect } from "vitest";
+import {
+  ReplayAgent,
+  ReplayCursor,
+  ReplayDivergenceError,
+  replayGame,
+} from "./ReplayAgent.js";
+import { SmartRandomAgent } from "./SmartRandomAgent.js";
+import { GameEngine } from "../engine/GameEngine.js";
+import { DataRegistry } from "../data/DataRegistry.js";
+import {
+  GameRecorder,
+  parseGameRecord,
+  serializeGameRecord,
+  type GameRecord,
+  type GameRecordConfig,
+} from "../sim/GameRecord.js";
+import type { PlayerAgent } from "./PlayerAgent.js";
+import type { DieFace } from "../types/core.js";
+import type { TurnActionPrompt } from "../types/prompts.js";
+
+const registry = new DataRegistry();
+
+/**
+ * Record a game whose agent seeds are never stored in the record, standing in
+ * for non-deterministic or external agents.
+ */
+async function recordGame(
+  seed: number,
+  config: Omit<GameRecordConfig, "playerIds"> = {},
+  createAgent: (playerId: string, seed: number) => PlayerAgent = (
+    playerId,
+    agentSeed
+  ) => new SmartRandomAgent(playerId, agentSeed)
+): Promise<GameRecord> {
+  const playerIds = ["alice", "bob", "carol"];
+  const recorder = new GameRecorder(seed, { playerIds, ...config });
+  const agents = playerIds.map((playerId, index) =>
+    createAgent(playerId, seed * 31 + index)
+  );
+  const engine = new GameEngine({
+    ...config,
+    agents,
+    seed,
+    registry,
+    createFallbackAgent: (playerId) => new SmartRandomAgent(playerId, seed),
+  });
+  engine.addObserver(recorder);
+  recorder.setResult(await engine.playGame());
+  // Go through JSON lines, as a saved record would
+  return parseGameRecord(serializeGameRecord(recorder.getRecord()));
+}
+
+describe("ReplayAgent", () => {
+  it("reproduces a recorded game exactly", async () => {
+    const record = await recordGame(2024);
+
+    const result = await replayGame(record, registry);
+
+    expect(result).toEqual(record.result);
+  });
+
+  // The fallback agent's seed is not in the record either
+  it("reproduces choices a fallback agent made after invalid choices", async () => {
+    const record = await recordGame(
+      31,
+      { onInvalidChoice: "fallback", maxAttempts: 2 },
+      (playerId, seed) => {
+        const agent = new SmartRandomAgent(playerId, seed);
+        if (playerId !== "bob") {
+          return agent;
+        }
+        return {
+          playerId,
+          chooseStartingHand: (prompt) => agent.chooseStartingHand(prompt),
+          chooseTurnAction: (prompt) => agent.chooseTurnAction(prompt),
+          // Asks for a die that isn't in the feeder
+          chooseOption: async (prompt) =>
+            prompt.kind === "selectFoodFromFeeder"
+              ? {
+                  promptId: prompt.promptId,
+                  kind: "selectFoodFromFeeder",
+                  diceOrReroll: [{ die: "NONEXISTENT_DIE" as DieFace }],
+                }
+              : agent.chooseOption(prompt),
+        };
+      }
+    );
+    expect(record.result!.substitutions?.bob).toBeGreaterThan(0);
+    expect(record.header.config).toMatchObject({
+      onInvalidChoice: "fallback",
+      maxAttempts: 2,
+    });
+
+    await expect(replayGame(record, registry)).resolves.toEqual(record.result);
+  });
+
+  it("reproduces a player running out of time", async () => {
+    const record = await recordGame(
+      37,
+      { timeBudget: { perDecisionMs: 50 } },
+      (playerId, seed) => {
+        const agent = new SmartRandomAgent(playerId, seed);
+        if (playerId !== "carol") {
+          return agent;
+        }
+        return {
+          playerId,
+          chooseStartingHand: (prompt) => agent.chooseStartingHand(prompt),
+          chooseTurnAction: () => new Promise(() => {}),
+          chooseOption: (prompt) => agent.chooseOption(prompt),
+        };
+      }
+    );
+    expect(record.result!.forfeitedPlayers).toEqual(["carol"]);
+    expect(record.decisions.filter((d) => d.choice === null)).toHaveLength(1);
+
+    const result = await replayGame(record, registry);
+
+    expect(result.forfeitedPlayers).toEqual(["carol"]);
+    expect(result.scores).toEqual(record.result!.scores);
+  });
+
+  it("fails on the first prompt that differs from the record", async () => {
+    const record = await recordGame(77);
+    const tampered: GameRecord = {
+      ...record,
+      header: { ...record.header, seed: 78 },
+    };
+
+    await expect(replayGame(tampered, registry)).rejects.toThrow(
+      /Replay diverged at decision 0: startingHand prompt "prompt_1" for alice differs from the record in "view"/
+    );
+  });
+
+  it("fails when a recorded choice changes the rest of the game", async () => {
+    const record = await recordGame(5);
+    const index = record.decisions.findIndex(
+      (d) => d.choice?.kind === "turnAction" && d.choice.action !== "DRAW_CARDS"
+    );
+    const decisions = record.decisions.map((d, i) =>
+      i === index && d.choice?.kind === "turnAction"
+        ? {
+            ...d,
+            choice: { ...d.choice, action: "DRAW_CARDS" as const, takeBonus: false },
+          }
+        : d
+    );
+    expect(index).toBeGreaterThan(0);
+
+    await expect(
+      replayGame({ ...record, decisions }, registry)
+    ).rejects.toBeInstanceOf(ReplayDivergenceError);
+  });
+
+  it("ignores timings but names a result field that differs", async () => {
+    const record = await recordGame(11);
+    const timings = {
+      alice: { decisions: 1, totalMs: 5, maxMs: 5, timeouts: 0 },
+    };
+
+    await expect(
+      replayGame({ ...record, result: { ...record.result!, timings } }, registry)
+    ).resolves.toEqual(record.result);
+    await expect(
+      replayGame(
+        { ...record, result: { ...record.result!, totalTurns: 0 } },
+        registry
+      )
+    ).rejects.toThrow(
+      `replayed result differs from the record in "totalTurns": ${record.result!.totalTurns} instead of 0`
+    );
+  });
+
+  it("fails when recorded decisions are left over", async () => {
+    const record = await recordGame(9);
+    const extra = { ...record.decisions[0], index: record.decisions.length };
+
+    const padded = { ...record, decisions: [...record.decisions, extra] };
+
+    await expect(replayGame(padded, registry)).rejects.toThrow(
+      "Replay diverged at decision " +
+        record.decisions.length +
+        ": game ended with 1 recorded decisions left"
+    );
+  });
+
+  it("fails when the record has run out", async () => {
+    const agent = new ReplayAgent("alice", new ReplayCursor([]));
+
+    await expect(
+      agent.chooseTurnAction({
+        promptId: "prompt_9",
+        playerId: "alice",
+        kind: "turnAction",
+      } as TurnActionPrompt)
+    ).rejects.toThrow(
+      'Replay diverged at decision 0: engine issued turnAction prompt "prompt_9" to alice, but the record has no decisions left'
+    );
+  });
+
+  it("fails when the prompt goes to a different player", async () => {
+    const record = await recordGame(3);
+    const cursor = new ReplayCursor(record.decisions);
+    const agent = new ReplayAgent("bob", cursor);
+
+    await expect(
+      agent.chooseStartingHand(record.decisions[0].prompt as never)
+    ).rejects.toThrow(
+      "Replay diverged at decision 0: expected chooseStartingHand for alice, got chooseStartingHand for bob"
+    );
+  });
+});
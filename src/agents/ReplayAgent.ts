@@ -0,0 +1,255 @@
+/**
+ * ReplayAgent - Plays back the choices stored in a game record.
+ *
+ * All ReplayAgents in a game share one ReplayCursor over the record's
+ * decisions. Each prompt the engine issues must match the next recorded
+ * prompt exactly; the first mismatch throws ReplayDivergenceError rather than
+ * letting the game silently drift from the recording. Decisions settled by
+ * a fallback agent are replayed through the replay's own fallback agents,
+ * and a recorded timeout forfeits the player again.
+ */
+
+import { GameEngine, type GameResult } from "../engine/GameEngine.js";
+import { AgentTimeoutError } from "../engine/errors.js";
+import type { DataRegistry } from "../data/DataRegistry.js";
+import type { PlayerId } from "../types/core.js";
+import type {
+  DecisionChoice,
+  DecisionPrompt,
+  StartingHandPrompt,
+  StartingHandChoice,
+  TurnActionPrompt,
+  TurnActionChoice,
+  OptionPrompt,
+  OptionChoice,
+} from "../types/prompts.js";
+import type { PlayerAgent } from "./PlayerAgent.js";
+import type {
+  AgentDecisionMethod,
+  GameRecord,
+  GameRecordDecision,
+} from "../sim/GameRecord.js";
+import {
+  choiceFromWire,
+  promptToWire,
+  type WirePrompt,
+} from "../util/WireCodec.js";
+
+/**
+ * Thrown when a replayed game diverges from its record.
+ */
+export class ReplayDivergenceError extends Error {
+  constructor(
+    /** Index of the recorded decision where the replay diverged */
+    public readonly decisionIndex: number,
+    /** What differed */
+    public readonly detail: string
+  ) {
+    super(`Replay diverged at decision ${decisionIndex}: ${detail}`);
+    this.name = "ReplayDivergenceError";
+  }
+}
+
+/**
+ * Shared position in a record's decision sequence.
+ */
+export class ReplayCursor {
+  private readonly decisions: readonly GameRecordDecision[];
+  private position = 0;
+
+  constructor(decisions: readonly GameRecordDecision[]) {
+    this.decisions = decisions;
+  }
+
+  /**
+   * Consume the next recorded decision and return its choice.
+   * @throws ReplayDivergenceError if the prompt does not match the record
+   * @throws AgentTimeoutError if the player ran out of time on the prompt
+   */
+  next(
+    playerId: PlayerId,
+    method: AgentDecisionMethod,
+    prompt: DecisionPrompt
+  ): DecisionChoice {
+    const index = this.position;
+    const decision = this.decisions[index];
+    if (!decision) {
+      throw new ReplayDivergenceError(
+        index,
+        `engine issued ${prompt.kind} prompt "${prompt.promptId}" to ${playerId}, but the record has no decisions left`
+      );
+    }
+
+    if (decision.playerId !== playerId || decision.method !== method) {
+      throw new ReplayDivergenceError(
+        index,
+        `expected ${decision.method} for ${decision.playerId}, got ${method} for ${playerId}`
+      );
+    }
+
+    const field = findDifferingField(decision.prompt, prompt);
+    if (field !== null) {
+      throw new ReplayDivergenceError(
+        index,
+        `${prompt.kind} prompt "${prompt.promptId}" for ${playerId} differs from the record in "${field}"`
+      );
+    }
+
+    this.position++;
+    if (decision.choice === null) {
+      throw new AgentTimeoutError(
+        playerId,
+        prompt.promptId,
+        decision.timeoutMs ?? 0
+      );
+    }
+    return choiceFromWire(decision.choice);
+  }
+
+  /**
+   * Check that every recorded decision was replayed.
+   * @throws ReplayDivergenceError if decisions are left over
+   */
+  assertFinished(): void {
+    if (this.position < this.decisions.length) {
+      throw new ReplayDivergenceError(
+        this.position,
+        `game ended with ${this.decisions.length - this.position} recorded decisions left`
+      );
+    }
+  }
+}
+
+/**
+ * Compare a recorded prompt with a live one by their wire form.
+ * @returns The first top-level field that differs, or null if they match
+ */
+function findDifferingField(
+  recorded: WirePrompt,
+  actual: DecisionPrompt
+): string | null {
+  const toJson = (prompt: WirePrompt) =>
+    JSON.parse(JSON.stringify(prompt)) as Record<string, unknown>;
+  const a = toJson(recorded);
+  const b = toJson(promptToWire(actual));
+  for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    if (JSON.stringify(a[key]) !== JSON.stringify(b[key])) {
+      return key;
+    }
+  }
+  return null;
+}
+
+/**
+ * Agent that answers each prompt with the next recorded choice.
+ */
+export class ReplayAgent implements PlayerAgent {
+  readonly playerId: PlayerId;
+  private readonly cursor: ReplayCursor;
+
+  constructor(playerId: PlayerId, cursor: ReplayCursor) {
+    this.playerId = playerId;
+    this.cursor = cursor;
+  }
+
+  async chooseStartingHand(
+    prompt: StartingHandPrompt
+  ): Promise<StartingHandChoice> {
+    return this.cursor.next(
+      this.playerId,
+      "chooseStartingHand",
+      prompt
+    ) as StartingHandChoice;
+  }
+
+  async chooseTurnAction(prompt: TurnActionPrompt): Promise<TurnActionChoice> {
+    return this.cursor.next(
+      this.playerId,
+      "chooseTurnAction",
+      prompt
+    ) as TurnActionChoice;
+  }
+
+  async chooseOption(prompt: OptionPrompt): Promise<OptionChoice> {
+    return this.cursor.next(
+      this.playerId,
+      "chooseOption",
+      prompt
+    ) as OptionChoice;
+  }
+}
+
+/**
+ * GameResult fields a replay must reproduce. Timings and timeout
+ * substitutions depend on the wall clock, not on the recorded choices.
+ */
+const DETERMINISTIC_RESULT_FIELDS = [
+  "scores",
+  "winnerIds",
+  "tiebreak",
+  "scoreBreakdowns",
+  "roundsPlayed",
+  "totalTurns",
+  "forfeitedPlayers",
+] as const satisfies readonly (keyof GameResult)[];
+
+/**
+ * Compare a recorded result with a replayed one.
+ * @returns The first deterministic field that differs, or null if they match
+ */
+function findDifferingResultField(
+  recorded: GameResult,
+  actual: GameResult
+): (typeof DETERMINISTIC_RESULT_FIELDS)[number] | null {
+  for (const field of DETERMINISTIC_RESULT_FIELDS) {
+    if (JSON.stringify(recorded[field]) !== JSON.stringify(actual[field])) {
+      return field;
+    }
+  }
+  return null;
+}
+
+/**
+ * Replay a recorded game by feeding its choices back into a new GameEngine.
+ *
+ * Throws ReplayDivergenceError as soon as the engine issues a prompt that
+ * differs from the recorded one, if recorded decisions are left over at the
+ * end, or if the final result differs from the recorded result (timings
+ * aside, which vary from run to run).
+ */
+export async function replayGame(
+  record: GameRecord,
+  registry: DataRegistry
+): Promise<GameResult> {
+  const { config } = record.header;
+  const cursor = new ReplayCursor(record.decisions);
+  const agents = config.playerIds.map(
+    (playerId) => new ReplayAgent(playerId, cursor)
+  );
+
+  const engine = new GameEngine({
+    agents,
+    seed: record.header.seed,
+    registry,
+    goalBoardSide: config.goalBoardSide,
+    maxAttempts: config.maxAttempts,
+    onInvalidChoice: config.onInvalidChoice,
+    timeBudget: config.timeBudget,
+    // Fallback agents' choices are in the record like everyone else's
+    createFallbackAgent: (playerId) => new ReplayAgent(playerId, cursor),
+  });
+  const result = await engine.playGame();
+
+  cursor.assertFinished();
+  if (record.result) {
+    const field = findDifferingResultField(record.result, result);
+    if (field !== null) {
+      throw new ReplayDivergenceError(
+        record.decisions.length,
+        `replayed result differs from the record in "${field}": ${JSON.stringify(result[field])} instead of ${JSON.stringify(record.result[field])}`
+      );
+    }
+  }
+
+  return result;
+}
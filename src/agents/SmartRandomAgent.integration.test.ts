@@ -32,7 +32,7 @@ describe("SmartRandomAgent Integration", () => {
 
     // Verify game completed successfully
     expect(result).toBeDefined();
-    expect(result.winnerId).toBeDefined();
+    expect(result.winnerIds.length).toBeGreaterThan(0);
     expect(Object.keys(result.scores).length).toBe(2);
     expect(result.roundsPlayed).toBe(4);
   }, 30000); // 30 second timeout for full game
@@ -60,7 +60,7 @@ describe("SmartRandomAgent Integration", () => {
     }
 
     // Both runs should produce identical results
-    expect(results[0].winnerId).toBe(results[1].winnerId);
+    expect(results[0].winnerIds).toEqual(results[1].winnerIds);
     expect(results[0].scores).toEqual(results[1].scores);
     expect(results[0].roundsPlayed).toBe(results[1].roundsPlayed);
     expect(results[0].totalTurns).toBe(results[1].totalTurns);
@@ -89,7 +89,7 @@ describe("SmartRandomAgent Integration", () => {
   }, 45000); // 45 second timeout for 3-player game
 
   // Verifies multiple games with different seeds all complete
-  it.only("completes multiple games with different seeds", async () => {
+  it("completes multiple games with different seeds", async () => {
     const registry = new DataRegistry();
     const baseSeed = 1000;
 
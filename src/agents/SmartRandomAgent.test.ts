@@ -19,6 +19,7 @@ import type {
   PlayerView,
   PromptContext,
   PlayBirdPrompt,
+  PlayBirdChoice,
   StartingHandPrompt,
 } from "../types/prompts.js";
 import type { BirdCard, BonusCard, PowerSpec, FoodByDice, FoodType } from "../types/core.js";
@@ -38,6 +39,7 @@ function createMinimalPlayerView(playerId: string): PlayerView {
     birdfeeder: [],
     birdTray: [],
     deckSize: 50,
+    roundGoals: [],
     opponents: [],
   };
 }
@@ -1234,6 +1236,81 @@ describe("SmartRandomAgent", () => {
       expect(totalFood).toBe(0);
     });
 
+    // Verifies missing AND-mode food is paid with 2-for-1 exchanges
+    it("exchanges 2 food for each missing food in AND mode", async () => {
+      const view = createMinimalPlayerView("player1");
+      view.food = { SEED: 1, RODENT: 2, FRUIT: 1 };
+
+      const bird = createBirdWithFoodCost(
+        "exchange_bird",
+        { SEED: 1, FISH: 1, WILD: 1 },
+        "AND"
+      );
+
+      const prompt: PlayBirdPrompt = {
+        promptId: "test-1",
+        playerId: "player1",
+        kind: "playBird",
+        view,
+        context: createMinimalContext("player1"),
+        eligibleBirds: [bird],
+        eggCostByEligibleHabitat: { FOREST: 0 },
+        foodExchangesRequired: { exchange_bird: 1 },
+      };
+
+      for (let seed = 0; seed < 10; seed++) {
+        const agent = new SmartRandomAgent("player1", seed);
+        const choice = (await agent.chooseOption(prompt)) as PlayBirdChoice;
+
+        // SEED paid directly, one leftover token for WILD, two exchanged for FISH
+        expect(choice.foodToSpend.SEED).toBeGreaterThanOrEqual(1);
+        expect(choice.foodExchanges).toHaveLength(1);
+        expect(choice.foodExchanges![0].receive).toBe("FISH");
+
+        const spent: Record<string, number> = { ...choice.foodToSpend };
+        for (const [foodType, count] of Object.entries(
+          choice.foodExchanges![0].give
+        )) {
+          spent[foodType] = (spent[foodType] ?? 0) + (count ?? 0);
+        }
+        expect(spent).toEqual({ SEED: 1, RODENT: 2, FRUIT: 1 });
+      }
+    });
+
+    // Verifies an OR-mode cost with no listed food is paid with an exchange
+    it("exchanges 2 food for a listed type in OR mode", async () => {
+      const agent = new SmartRandomAgent("player1", 12345);
+
+      const view = createMinimalPlayerView("player1");
+      view.food = { SEED: 2 };
+
+      const bird = createBirdWithFoodCost(
+        "or_bird",
+        { INVERTEBRATE: 1, FRUIT: 1 },
+        "OR"
+      );
+
+      const prompt: PlayBirdPrompt = {
+        promptId: "test-1",
+        playerId: "player1",
+        kind: "playBird",
+        view,
+        context: createMinimalContext("player1"),
+        eligibleBirds: [bird],
+        eggCostByEligibleHabitat: { FOREST: 0 },
+        foodExchangesRequired: { or_bird: 1 },
+      };
+
+      const choice = (await agent.chooseOption(prompt)) as PlayBirdChoice;
+
+      expect(choice.foodToSpend).toEqual({});
+      expect(choice.foodExchanges).toHaveLength(1);
+      expect(choice.foodExchanges![0].give).toEqual({ SEED: 2 });
+      expect(["INVERTEBRATE", "FRUIT"]).toContain(
+        choice.foodExchanges![0].receive
+      );
+    });
+
     // Verifies egg cost is paid correctly from birds on board
     it("generates correct egg payment when habitat has egg cost", async () => {
       const agent = new SmartRandomAgent("player1", 12345);
@@ -40,6 +40,7 @@ import type {
   RepeatPowerChoice,
   PlayBirdPrompt,
   PlayBirdChoice,
+  FoodExchange,
   DiscardFoodPrompt,
   DiscardFoodChoice,
   SelectHabitatPrompt,
@@ -47,6 +48,7 @@ import type {
 } from "../types/prompts.js";
 import type { PlayerAgent } from "./PlayerAgent.js";
 import { Rng } from "../util/Rng.js";
+import { FOOD_EXCHANGE_RATE } from "../engine/FoodPayment.js";
 import { AgentRegistry } from "./AgentRegistry.js";
 
 /**
@@ -497,7 +499,10 @@ export class SmartRandomAgent implements PlayerAgent {
     const habitat = this.rng.pickMany(eligibleHabitats, 1)[0];
 
     // Generate food payment using helper
-    const foodToSpend = this.generateFoodPayment(bird, prompt.view.food);
+    const { foodToSpend, foodExchanges } = this.generateFoodPayment(
+      bird,
+      prompt.view.food
+    );
 
     // Generate egg payment using helper
     const eggCost = prompt.eggCostByEligibleHabitat[habitat] || 0;
@@ -509,6 +514,7 @@ export class SmartRandomAgent implements PlayerAgent {
       bird: bird.id,
       habitat,
       foodToSpend,
+      ...(foodExchanges.length > 0 && { foodExchanges }),
       eggsToSpend,
     };
   }
@@ -517,17 +523,20 @@ export class SmartRandomAgent implements PlayerAgent {
    * Generates a valid food payment for a bird's food cost.
    * Handles AND mode (pay all foods, resolve WILD to actual types),
    * OR mode (pick one food type from options), and NONE mode (no cost).
+   * Food the player lacks is paid for with 2-for-1 exchanges using random
+   * leftover food.
    */
   private generateFoodPayment(
     bird: BirdCard,
     playerFood: FoodByType
-  ): FoodByType {
+  ): { foodToSpend: FoodByType; foodExchanges: FoodExchange[] } {
+    const foodToSpend: FoodByType = {};
+    const foodExchanges: FoodExchange[] = [];
+
     if (bird.foodCostMode === "NONE") {
-      return {};
+      return { foodToSpend, foodExchanges };
     }
 
-    const foodToSpend: FoodByType = {};
-
     if (bird.foodCostMode === "OR") {
       // OR mode: pick one random food type from options the player can actually afford
       const foodOptions = Object.entries(bird.foodCost)
@@ -542,44 +551,91 @@ export class SmartRandomAgent implements PlayerAgent {
       if (foodOptions.length > 0) {
         const chosenFood = this.rng.pickMany(foodOptions, 1)[0];
         foodToSpend[chosenFood] = bird.foodCost[chosenFood]!;
+      } else {
+        // Nothing affordable directly: exchange for a random listed food type
+        const exchangeOptions = Object.entries(bird.foodCost)
+          .filter(([foodType, count]) => foodType !== "WILD" && count && count > 0)
+          .map(([foodType]) => foodType as FoodType);
+        const chosenFood = this.rng.pickMany(exchangeOptions, 1)[0];
+        const pool = this.rng.shuffle(this.expandFood(playerFood));
+        for (let i = 0; i < bird.foodCost[chosenFood]!; i++) {
+          foodExchanges.push(this.takeExchange(pool, chosenFood));
+        }
       }
     } else {
       // AND mode: pay all specific foods, resolve WILD to actual food types
       // Build pool of available food for WILD costs (after paying specific costs)
-      const availableForWild: FoodType[] = [];
       const usedFood: FoodByType = {};
+      const missingFood: FoodType[] = [];
 
-      // First, handle specific food types (non-WILD)
+      // First, handle specific food types (non-WILD), noting any shortfall
       for (const [foodType, count] of Object.entries(bird.foodCost)) {
         if (foodType !== "WILD" && count && count > 0) {
-          foodToSpend[foodType as FoodType] = count;
-          usedFood[foodType as FoodType] = count;
+          const available = playerFood[foodType as FoodType] ?? 0;
+          const paid = Math.min(count, available);
+          if (paid > 0) {
+            foodToSpend[foodType as FoodType] = paid;
+            usedFood[foodType as FoodType] = paid;
+          }
+          for (let i = paid; i < count; i++) {
+            missingFood.push(foodType as FoodType);
+          }
         }
       }
 
       // Build available pool for WILD (player's food minus what we're already paying)
+      const remainingFood: FoodByType = {};
       for (const [foodType, count] of Object.entries(playerFood)) {
         if (count && count > 0) {
           const alreadyUsed = usedFood[foodType as FoodType] || 0;
-          const remaining = count - alreadyUsed;
-          for (let i = 0; i < remaining; i++) {
-            availableForWild.push(foodType as FoodType);
-          }
+          remainingFood[foodType as FoodType] = count - alreadyUsed;
         }
       }
+      const availableForWild = this.expandFood(remainingFood);
 
-      // Resolve WILD costs to actual food types
+      // Resolve WILD costs to actual food types, then exchange leftover food
+      // for anything still missing
       const wildCount = bird.foodCost.WILD || 0;
-      if (wildCount > 0 && availableForWild.length > 0) {
+      if (
+        (wildCount > 0 || missingFood.length > 0) &&
+        availableForWild.length > 0
+      ) {
         const shuffled = this.rng.shuffle(availableForWild);
-        const wildFood = shuffled.slice(0, wildCount);
+        const wildFood = shuffled.splice(0, wildCount);
         for (const foodType of wildFood) {
           foodToSpend[foodType] = (foodToSpend[foodType] || 0) + 1;
         }
+        for (const foodType of missingFood) {
+          foodExchanges.push(this.takeExchange(shuffled, foodType));
+        }
       }
     }
 
-    return foodToSpend;
+    return { foodToSpend, foodExchanges };
+  }
+
+  /**
+   * Expands a food supply into one entry per food token.
+   */
+  private expandFood(food: FoodByType): FoodType[] {
+    const tokens: FoodType[] = [];
+    for (const [foodType, count] of Object.entries(food)) {
+      for (let i = 0; i < (count ?? 0); i++) {
+        tokens.push(foodType as FoodType);
+      }
+    }
+    return tokens;
+  }
+
+  /**
+   * Builds a 2-for-1 exchange by taking tokens from the front of the pool.
+   */
+  private takeExchange(pool: FoodType[], receive: FoodType): FoodExchange {
+    const give: FoodByType = {};
+    for (const foodType of pool.splice(0, FOOD_EXCHANGE_RATE)) {
+      give[foodType] = (give[foodType] ?? 0) + 1;
+    }
+    return { give, receive };
   }
 
   /**
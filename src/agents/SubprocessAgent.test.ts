@@ -0,0 +1,179 @@
+import { describe, it, expect } from "vitest";
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SubprocessAgent } from "./SubprocessAgent.js";
+import { SmartRandomAgent } from "./SmartRandomAgent.js";
+import { AgentRegistry } from "./AgentRegistry.js";
+import { GameEngine } from "../engine/GameEngine.js";
+import { DataRegistry } from "../data/DataRegistry.js";
+import type { TurnActionPrompt } from "../types/prompts.js";
+
+const registry = new DataRegistry();
+
+/** Runs the reference bot from source */
+const REFERENCE_BOT = {
+  command: process.execPath,
+  args: ["--import", "tsx", "src/agents/referenceBot.ts"],
+};
+
+/**
+ * A SubprocessAgent whose bot is a Node script, for testing how misbehaving
+ * bots are handled.
+ */
+function scriptAgent(script: string, timeoutMs = 5000): SubprocessAgent {
+  return new SubprocessAgent("player1", 1, {
+    command: process.execPath,
+    args: ["-e", script],
+    timeoutMs,
+  });
+}
+
+/** Replies "ready" to the hello message, then runs `onPrompt` for each prompt */
+function botScript(onPrompt: string): string {
+  return `
+    const rl = require("node:readline").createInterface({ input: process.stdin });
+    rl.on("line", (line) => {
+      const message = JSON.parse(line);
+      if (message.type === "hello") {
+        console.log(JSON.stringify({ type: "ready", protocolVersion: 1 }));
+      } else if (message.type === "prompt") {
+        ${onPrompt}
+      }
+    });
+  `;
+}
+
+const prompt = {
+  promptId: "prompt_1",
+  playerId: "player1",
+  kind: "turnAction",
+} as TurnActionPrompt;
+
+describe("SubprocessAgent", () => {
+  // The reference bot is SmartRandomAgent in another process, so the game
+  // must be identical to one played in-process
+  it("plays a full game through the reference bot", async () => {
+    const play = (player1: SubprocessAgent | SmartRandomAgent) =>
+      new GameEngine({
+        agents: [player1, new SmartRandomAgent("player2", 8)],
+        seed: 7,
+        registry,
+      }).playGame();
+
+    const result = await play(
+      new SubprocessAgent("player1", 6, { ...REFERENCE_BOT, timeoutMs: 30_000 })
+    );
+
+    expect(result).toEqual(await play(new SmartRandomAgent("player1", 6)));
+  }, 60_000);
+
+  it("is registered as Subprocess with cmd and args options", async () => {
+    // The command is run as given, even with a space in its path
+    const dir = mkdtempSync(join(tmpdir(), "wingsim subprocess "));
+    const command = join(dir, "bot.cjs");
+    writeFileSync(
+      command,
+      `#!${process.execPath}\n` +
+        botScript('console.log(process.argv.slice(2).join("|"));')
+    );
+    chmodSync(command, 0o755);
+    try {
+      const agent = AgentRegistry.create("Subprocess", "player1", 1, {
+        cmd: command,
+        args: "--fast  --depth=2",
+      });
+
+      await expect(agent.chooseTurnAction(prompt)).rejects.toThrow(
+        "sent a line that is not JSON: --fast|--depth=2"
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+    expect(() => AgentRegistry.create("Subprocess", "player1", 1)).toThrow(
+      'Subprocess needs a command: use "Subprocess:cmd=<command>"'
+    );
+  });
+
+  it("fails a request the bot does not answer in time", async () => {
+    const agent = scriptAgent(botScript(""), 300);
+
+    await expect(agent.chooseTurnAction(prompt)).rejects.toThrow(
+      'timed out after 300ms waiting for a choice for prompt "prompt_1"'
+    );
+    // The bot has been stopped, so later requests fail the same way
+    await expect(agent.chooseTurnAction(prompt)).rejects.toThrow("timed out");
+    await agent.onGameEnd(null);
+  });
+
+  it("rejects a bot speaking another protocol version", async () => {
+    const agent = scriptAgent(
+      `console.log(JSON.stringify({ type: "ready", protocolVersion: 99 }));
+       setInterval(() => {}, 1000);`
+    );
+
+    await expect(agent.chooseTurnAction(prompt)).rejects.toThrow(
+      "speaks protocol version 99, expected 1"
+    );
+    await agent.onGameEnd(null);
+  });
+
+  it("reports a bot that exits", async () => {
+    const agent = scriptAgent("process.exit(3)");
+
+    await expect(agent.chooseTurnAction(prompt)).rejects.toThrow(
+      "exited (code 3)"
+    );
+  });
+
+  it("rejects replies that are not choices for the prompt", async () => {
+    const notJson = scriptAgent(botScript(`console.log("pass");`));
+    const wrongPrompt = scriptAgent(
+      botScript(
+        `console.log(JSON.stringify({ type: "choice", version: 1,
+           choice: { kind: "turnAction", promptId: "prompt_0", action: "GAIN_FOOD" } }));`
+      )
+    );
+
+    await expect(notJson.chooseTurnAction(prompt)).rejects.toThrow(
+      "sent a line that is not JSON: pass"
+    );
+    await expect(wrongPrompt.chooseTurnAction(prompt)).rejects.toThrow(
+      'answered prompt "prompt_0" instead of "prompt_1"'
+    );
+    await notJson.onGameEnd(null);
+    await wrongPrompt.onGameEnd(null);
+  });
+
+  it("reports a command that cannot be run", async () => {
+    const agent = new SubprocessAgent("player1", 1, {
+      command: "./no-such-bot",
+    });
+
+    await expect(agent.chooseTurnAction(prompt)).rejects.toThrow(
+      'Bot "./no-such-bot" could not be run'
+    );
+    await agent.onGameEnd(null);
+  });
+
+  // The bot is told the result and then exits on its own
+  it("sends the game over message and waits for the bot to exit", async () => {
+    const agent = scriptAgent(
+      botScript(
+        `console.log(JSON.stringify({ type: "choice", version: 1,
+           choice: { kind: "turnAction", promptId: message.prompt.promptId, action: "GAIN_FOOD" } }));`
+      ).replace(
+        '} else if (message.type === "prompt") {',
+        `} else if (message.type === "gameOver") {
+           process.exit(message.result === null ? 0 : 1);
+         } else if (message.type === "prompt") {`
+      )
+    );
+
+    expect((await agent.chooseTurnAction(prompt)).action).toBe("GAIN_FOOD");
+    await agent.onGameEnd(null);
+    await expect(agent.chooseTurnAction(prompt)).rejects.toThrow(
+      "The game is over"
+    );
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * SubprocessAgent - Plays through a bot running as a separate process.
+ *
+ * Lets agents be written in any language without re-implementing the rules:
+ * the bot is launched when the agent is first asked for a decision and is
+ * sent each prompt over stdin, replying with its choice on stdout (see
+ * SubprocessProtocol.ts for the messages). Each request is limited by a
+ * timeout; a bot that times out, exits, or sends something malformed is
+ * stopped, and this and every later request fail with an error the engine
+ * handles like any other agent error.
+ */
+
+import { spawn, type ChildProcess } from "node:child_process";
+import { createInterface } from "node:readline";
+import type { PlayerId } from "../types/core.js";
+import type {
+  DecisionChoice,
+  DecisionPrompt,
+  StartingHandPrompt,
+  StartingHandChoice,
+  TurnActionPrompt,
+  TurnActionChoice,
+  OptionPrompt,
+  OptionChoice,
+} from "../types/prompts.js";
+import type { GameResult } from "../engine/GameEngine.js";
+import type { PlayerAgent } from "./PlayerAgent.js";
+import { AgentRegistry, type AgentOptionSpec } from "./AgentRegistry.js";
+import { decodeChoice, encodePrompt } from "../util/WireCodec.js";
+import {
+  SUBPROCESS_PROTOCOL_VERSION,
+  helloMessage,
+  type BotMessage,
+  type EngineMessage,
+} from "./SubprocessProtocol.js";
+
+/**
+ * How to launch the bot and how long to wait for it.
+ */
+export interface SubprocessAgentOptions {
+  /** Executable to run */
+  command: string;
+  args?: string[];
+  /** Most milliseconds to wait for each reply, including the handshake (default 10000) */
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+export class SubprocessAgent implements PlayerAgent {
+  readonly playerId: PlayerId;
+  private readonly seed: number;
+  private readonly command: string;
+  private readonly args: string[];
+  private readonly timeoutMs: number;
+  private child: ChildProcess | null = null;
+  /** Lines from the bot's stdout that no request has read yet */
+  private readonly lines: string[] = [];
+  private waiting: ((line: string | null) => void) | null = null;
+  /** Why the bot can't be used any more, once it can't */
+  private failure: Error | null = null;
+  private exited: Promise<void> = Promise.resolve();
+  /** Requests are answered one at a time, in order */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    playerId: PlayerId,
+    seed: number,
+    options: SubprocessAgentOptions
+  ) {
+    this.playerId = playerId;
+    this.seed = seed;
+    this.command = options.command;
+    this.args = options.args ?? [];
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  async chooseStartingHand(
+    prompt: StartingHandPrompt
+  ): Promise<StartingHandChoice> {
+    return (await this.request(prompt)) as StartingHandChoice;
+  }
+
+  async chooseTurnAction(prompt: TurnActionPrompt): Promise<TurnActionChoice> {
+    return (await this.request(prompt)) as TurnActionChoice;
+  }
+
+  async chooseOption(prompt: OptionPrompt): Promise<OptionChoice> {
+    return (await this.request(prompt)) as OptionChoice;
+  }
+
+  /**
+   * Send the result to the bot and wait for it to exit, stopping it if it
+   * doesn't exit within the timeout.
+   */
+  async onGameEnd(result: GameResult | null): Promise<void> {
+    await this.queue.catch(() => {});
+    const child = this.child;
+    if (!child) {
+      return;
+    }
+    if (!this.failure) {
+      this.send({ type: "gameOver", result });
+      child.stdin?.end();
+      this.failure = new Error("The game is over");
+    }
+    const timer = setTimeout(() => child.kill("SIGKILL"), this.timeoutMs);
+    await this.exited;
+    clearTimeout(timer);
+  }
+
+  private request(prompt: DecisionPrompt): Promise<DecisionChoice> {
+    const answer = this.queue.then(() => this.exchange(prompt));
+    this.queue = answer.catch(() => {});
+    return answer;
+  }
+
+  private async exchange(prompt: DecisionPrompt): Promise<DecisionChoice> {
+    if (!this.child) {
+      await this.launch();
+    }
+    this.send({ type: "prompt", ...encodePrompt(prompt) });
+    const message = await this.receive(`a choice for prompt "${prompt.promptId}"`);
+    if (message.type !== "choice") {
+      throw this.fail(`sent a "${message.type}" message instead of a choice`);
+    }
+    let choice: DecisionChoice;
+    try {
+      choice = decodeChoice(message);
+    } catch (error) {
+      throw this.fail(`sent an invalid choice: ${(error as Error).message}`);
+    }
+    if (choice.promptId !== prompt.promptId) {
+      throw this.fail(
+        `answered prompt "${choice.promptId}" instead of "${prompt.promptId}"`
+      );
+    }
+    return choice;
+  }
+
+  /**
+   * Start the bot and complete the handshake.
+   */
+  private async launch(): Promise<void> {
+    const child = spawn(this.command, this.args, {
+      stdio: ["pipe", "pipe", "inherit"],
+    });
+    this.child = child;
+    // A bot that could not be started emits "error" without "close"
+    this.exited = new Promise((resolve) => {
+      child.once("close", () => resolve());
+      child.once("error", () => resolve());
+    });
+
+    child.once("error", (error) => {
+      this.fail(`could not be run: ${error.message}`);
+      this.deliver(null);
+    });
+    child.once("exit", (code, signal) => {
+      this.fail(`exited (${signal ?? `code ${code}`})`);
+      this.deliver(null);
+    });
+    // Writes to a bot that has exited fail; the exit is reported instead
+    child.stdin!.on("error", () => {});
+    createInterface({ input: child.stdout!, crlfDelay: Infinity }).on(
+      "line",
+      (line) => {
+        if (line.trim() !== "") this.deliver(line);
+      }
+    );
+
+    this.send(helloMessage(this.playerId, this.seed));
+    const message = await this.receive("the handshake");
+    if (message.type !== "ready") {
+      throw this.fail(`sent a "${message.type}" message instead of "ready"`);
+    }
+    if (message.protocolVersion !== SUBPROCESS_PROTOCOL_VERSION) {
+      throw this.fail(
+        `speaks protocol version ${message.protocolVersion}, expected ${SUBPROCESS_PROTOCOL_VERSION}`
+      );
+    }
+  }
+
+  private send(message: EngineMessage): void {
+    if (!this.failure) {
+      this.child!.stdin!.write(`${JSON.stringify(message)}\n`);
+    }
+  }
+
+  /**
+   * Read the bot's next message, waiting at most the timeout.
+   * @param expecting - What the message should be, for error messages
+   */
+  private async receive(expecting: string): Promise<BotMessage> {
+    const line = await new Promise<string | null>((resolve) => {
+      if (this.lines.length > 0 || this.failure) {
+        resolve(this.lines.shift() ?? null);
+        return;
+      }
+      const timer = setTimeout(() => {
+        this.fail(`timed out after ${this.timeoutMs}ms waiting for ${expecting}`);
+        this.deliver(null);
+      }, this.timeoutMs);
+      this.waiting = (line) => {
+        clearTimeout(timer);
+        resolve(line);
+      };
+    });
+    if (line === null) {
+      throw this.failure!;
+    }
+
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      throw this.fail(`sent a line that is not JSON: ${line}`);
+    }
+    if (typeof message !== "object" || message === null || !("type" in message)) {
+      throw this.fail(`sent a message without a type: ${line}`);
+    }
+    return message as BotMessage;
+  }
+
+  /**
+   * Hand a line (or null if the bot failed) to the waiting request, or keep
+   * it for the next one.
+   */
+  private deliver(line: string | null): void {
+    const waiting = this.waiting;
+    this.waiting = null;
+    if (waiting) {
+      waiting(line);
+    } else if (line !== null) {
+      this.lines.push(line);
+    }
+  }
+
+  /**
+   * Mark the bot as failed and stop it. The first failure wins, so later
+   * requests report the root cause.
+   * @returns The error to throw
+   */
+  private fail(reason: string): Error {
+    if (!this.failure) {
+      this.failure = new Error(`Bot "${this.describeCommand()}" ${reason}`);
+      this.child?.kill();
+    }
+    return this.failure;
+  }
+
+  private describeCommand(): string {
+    return [this.command, ...this.args].join(" ");
+  }
+}
+
+/**
+ * SubprocessAgentOptions as AgentRegistry options.
+ */
+export const SUBPROCESS_AGENT_OPTIONS: AgentOptionSpec[] = [
+  {
+    name: "cmd",
+    type: "string",
+    default: "",
+    description: "Executable that starts the bot, taken as is",
+  },
+  {
+    name: "args",
+    type: "string",
+    default: "",
+    description: "Arguments to pass to the bot, separated by spaces",
+  },
+  {
+    name: "timeoutMs",
+    type: "number",
+    default: DEFAULT_TIMEOUT_MS,
+    description: "Milliseconds to wait for each reply from the bot",
+  },
+];
+
+// Register SubprocessAgent in the agent registry, as e.g.
+// --player1 "Subprocess:cmd=./mybot,args=--fast"
+AgentRegistry.register(
+  "Subprocess",
+  "Runs a bot in another process, speaking JSON lines over stdio",
+  (playerId, seed, options) => {
+    const command = String(options.cmd);
+    if (command === "") {
+      throw new Error('Subprocess needs a command: use "Subprocess:cmd=<command>"');
+    }
+    const args = String(options.args).split(" ").filter((arg) => arg !== "");
+    return new SubprocessAgent(playerId, seed, {
+      command,
+      args,
+      timeoutMs: options.timeoutMs as number,
+    });
+  },
+  SUBPROCESS_AGENT_OPTIONS
+);
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { PassThrough } from "node:stream";
+import { serveAgent, helloMessage } from "./SubprocessProtocol.js";
+import type { PlayerAgent } from "./PlayerAgent.js";
+import type { PlayerId } from "../types/core.js";
+import type {
+  StartingHandChoice,
+  StartingHandPrompt,
+} from "../types/prompts.js";
+
+function createStubAgent(playerId: PlayerId): PlayerAgent {
+  return {
+    playerId,
+    chooseStartingHand: async (prompt: StartingHandPrompt) =>
+      ({
+        kind: "startingHand",
+        promptId: prompt.promptId,
+        birds: new Set(["bird_a"]),
+        bonusCard: "bonus_a",
+        foodToDiscard: new Set(["SEED"]),
+      }) satisfies StartingHandChoice,
+    chooseTurnAction: async () => {
+      throw new Error("unused");
+    },
+    chooseOption: async () => {
+      throw new Error("unused");
+    },
+  };
+}
+
+describe("serveAgent()", () => {
+  it("answers prompts until the game is over", async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const created: [PlayerId, number][] = [];
+    const served = serveAgent(
+      (playerId, seed) => {
+        created.push([playerId, seed]);
+        return createStubAgent(playerId);
+      },
+      input,
+      output
+    );
+
+    input.write(`${JSON.stringify(helloMessage("player2", 42))}\n`);
+    input.write(
+      `${JSON.stringify({
+        type: "prompt",
+        version: 1,
+        prompt: { kind: "startingHand", promptId: "prompt_1", playerId: "player2" },
+      })}\n`
+    );
+    input.write(`${JSON.stringify({ type: "gameOver", result: null })}\n`);
+    await served;
+
+    const replies = output
+      .read()
+      .toString()
+      .trim()
+      .split("\n")
+      .map((line: string) => JSON.parse(line));
+    expect(created).toEqual([["player2", 42]]);
+    // Sets in the choice are sent as arrays
+    expect(replies).toEqual([
+      { type: "ready", protocolVersion: 1 },
+      {
+        type: "choice",
+        version: 1,
+        choice: {
+          kind: "startingHand",
+          promptId: "prompt_1",
+          birds: ["bird_a"],
+          bonusCard: "bonus_a",
+          foodToDiscard: ["SEED"],
+        },
+      },
+    ]);
+  });
+
+  it("rejects other protocol versions", async () => {
+    const input = new PassThrough();
+    const served = serveAgent(createStubAgent, input, new PassThrough());
+
+    input.end(`${JSON.stringify({ ...helloMessage("player1", 1), protocolVersion: 2 })}\n`);
+
+    await expect(served).rejects.toThrow(
+      "Unsupported protocol version: 2 (expected 1)"
+    );
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * SubprocessProtocol - Messages between SubprocessAgent and an agent running
+ * in another process.
+ *
+ * Messages are JSON objects, one per line (newline-delimited JSON), on the
+ * bot's stdin (engine to bot) and stdout (bot to engine). Anything the bot
+ * writes to stderr is passed through for debugging. A game goes:
+ *
+ *   engine: {"type":"hello","protocolVersion":1,"wireFormatVersion":1,"playerId":"player1","seed":42}
+ *   bot:    {"type":"ready","protocolVersion":1}
+ *   engine: {"type":"prompt","version":1,"prompt":{...}}     (repeated)
+ *   bot:    {"type":"choice","version":1,"choice":{...}}     (one per prompt)
+ *   engine: {"type":"gameOver","result":{...}}               (null if the game failed)
+ *
+ * after which the engine closes the bot's stdin and the bot should exit.
+ * Prompts and choices use the WireCodec format. The bot answers prompts in
+ * order; an invalid choice comes back as a new prompt with previousError set.
+ */
+
+import { createInterface } from "node:readline";
+import type { Readable, Writable } from "node:stream";
+import type { PlayerId } from "../types/core.js";
+import type { DecisionChoice, DecisionPrompt } from "../types/prompts.js";
+import type { GameResult } from "../engine/GameEngine.js";
+import type { PlayerAgent } from "./PlayerAgent.js";
+import {
+  WIRE_FORMAT_VERSION,
+  decodePrompt,
+  encodeChoice,
+  type WireChoiceMessage,
+  type WirePromptMessage,
+} from "../util/WireCodec.js";
+
+/**
+ * Version of the subprocess protocol. Both sides must speak the same one.
+ */
+export const SUBPROCESS_PROTOCOL_VERSION = 1;
+
+/**
+ * First message of a game, sent to the bot as soon as it starts.
+ */
+export interface HelloMessage {
+  type: "hello";
+  protocolVersion: number;
+  /** Version of the WireCodec format used for prompts and choices */
+  wireFormatVersion: number;
+  playerId: PlayerId;
+  /** Seed for the bot's own randomness, so games are reproducible */
+  seed: number;
+}
+
+export type PromptMessage = { type: "prompt" } & WirePromptMessage;
+
+export interface GameOverMessage {
+  type: "gameOver";
+  result: GameResult | null;
+}
+
+/**
+ * Messages the engine sends to a bot.
+ */
+export type EngineMessage = HelloMessage | PromptMessage | GameOverMessage;
+
+/**
+ * The bot's reply to the hello message.
+ */
+export interface ReadyMessage {
+  type: "ready";
+  protocolVersion: number;
+}
+
+export type ChoiceMessage = { type: "choice" } & WireChoiceMessage;
+
+/**
+ * Messages a bot sends to the engine.
+ */
+export type BotMessage = ReadyMessage | ChoiceMessage;
+
+/**
+ * Run the bot side of the protocol for an in-process agent: answer every
+ * prompt read from `input` with the agent's choice on `output`, until the
+ * game is over or the input ends. Bots written in TypeScript can use this
+ * as their whole main loop (see referenceBot.ts).
+ * @param createAgent - Creates the agent once the hello message arrives
+ * @throws Error if the engine sends a malformed or unexpected message
+ */
+export async function serveAgent(
+  createAgent: (playerId: PlayerId, seed: number) => PlayerAgent,
+  input: Readable = process.stdin,
+  output: Writable = process.stdout
+): Promise<void> {
+  const send = (message: BotMessage) =>
+    output.write(`${JSON.stringify(message)}\n`);
+  let agent: PlayerAgent | null = null;
+
+  for await (const line of createInterface({ input, crlfDelay: Infinity })) {
+    if (line.trim() === "") continue;
+    const message = JSON.parse(line) as EngineMessage;
+    switch (message.type) {
+      case "hello":
+        if (message.protocolVersion !== SUBPROCESS_PROTOCOL_VERSION) {
+          throw new Error(
+            `Unsupported protocol version: ${message.protocolVersion} (expected ${SUBPROCESS_PROTOCOL_VERSION})`
+          );
+        }
+        agent = createAgent(message.playerId, message.seed);
+        send({ type: "ready", protocolVersion: SUBPROCESS_PROTOCOL_VERSION });
+        break;
+      case "prompt": {
+        if (!agent) {
+          throw new Error("Received a prompt before the hello message");
+        }
+        const choice = await askAgent(agent, decodePrompt(message));
+        send({ type: "choice", ...encodeChoice(choice) });
+        break;
+      }
+      case "gameOver":
+        return;
+      default:
+        throw new Error(
+          `Unknown message type: "${String((message as { type: unknown }).type)}"`
+        );
+    }
+  }
+}
+
+/**
+ * Build the hello message for a player.
+ */
+export function helloMessage(playerId: PlayerId, seed: number): HelloMessage {
+  return {
+    type: "hello",
+    protocolVersion: SUBPROCESS_PROTOCOL_VERSION,
+    wireFormatVersion: WIRE_FORMAT_VERSION,
+    playerId,
+    seed,
+  };
+}
+
+function askAgent(
+  agent: PlayerAgent,
+  prompt: DecisionPrompt
+): Promise<DecisionChoice> {
+  switch (prompt.kind) {
+    case "startingHand":
+      return agent.chooseStartingHand(prompt);
+    case "turnAction":
+      return agent.chooseTurnAction(prompt);
+    default:
+      return agent.chooseOption(prompt);
+  }
+}
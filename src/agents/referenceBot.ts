@@ -0,0 +1,16 @@
+#!/usr/bin/env node
+
+/**
+ * Reference bot for SubprocessAgent.
+ *
+ * Plays exactly like SmartRandomAgent, but in its own process, speaking the
+ * stdio protocol in SubprocessProtocol.ts. Use it to test SubprocessAgent
+ * and as a starting point for bots in other languages:
+ *
+ *   yarn sim --player1 "Subprocess:cmd=node,args=dist/agents/referenceBot.js"
+ */
+
+import { serveAgent } from "./SubprocessProtocol.js";
+import { SmartRandomAgent } from "./SmartRandomAgent.js";
+
+await serveAgent((playerId, seed) => new SmartRandomAgent(playerId, seed));
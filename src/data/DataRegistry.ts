@@ -1,6 +1,7 @@
 import birdsData from "./base_game/birds.json" with { type: "json" };
 import bonusCardsData from "./base_game/bonus_cards.json" with { type: "json" };
 import roundGoalsData from "./base_game/round_goals.json" with { type: "json" };
+import roundGoalScoringData from "./base_game/round_goal_scoring.json" with { type: "json" };
 import playerBoardData from "./base_game/player_board.json" with { type: "json" };
 import type {
   BirdCard,
@@ -9,6 +10,7 @@ import type {
   BonusCardId,
   RoundGoal,
   RoundGoalId,
+  RoundGoalScoring,
   PlayerBoardConfig,
 } from "../types/core.js";
 
@@ -28,6 +30,10 @@ export class DataRegistry {
     RoundGoalId,
     Readonly<RoundGoal>
   >;
+  private readonly roundGoalScoringByRound: ReadonlyMap<
+    number,
+    Readonly<RoundGoalScoring>
+  >;
   private readonly playerBoard: Readonly<PlayerBoardConfig>;
 
   constructor() {
@@ -49,6 +55,13 @@ export class DataRegistry {
       ])
     );
 
+    this.roundGoalScoringByRound = new Map(
+      (roundGoalScoringData.rounds as RoundGoalScoring[]).map((entry) => [
+        entry.round,
+        Object.freeze(entry),
+      ])
+    );
+
     this.playerBoard = Object.freeze(playerBoardData as PlayerBoardConfig);
   }
 
@@ -100,6 +113,14 @@ export class DataRegistry {
     return Array.from(this.roundGoalsById.values());
   }
 
+  getRoundGoalScoring(round: number): Readonly<RoundGoalScoring> {
+    const scoring = this.roundGoalScoringByRound.get(round);
+    if (!scoring) {
+      throw new Error(`Round goal scoring for round ${round} not found in registry`);
+    }
+    return scoring;
+  }
+
   getPlayerBoard(): Readonly<PlayerBoardConfig> {
     return this.playerBoard;
   }
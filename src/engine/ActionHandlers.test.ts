@@ -6,6 +6,7 @@ import { PlayerBoard } from "./PlayerBoard.js";
 import type {
   PowerExecutionContext,
   PowerYield,
+  DeferredContinuationDescriptor,
   PowerReceive,
 } from "../types/power.js";
 import type { PlayerAgent } from "../agents/PlayerAgent.js";
@@ -133,6 +134,7 @@ function createMockPlayerView(
     birdfeeder: [],
     birdTray: [],
     deckSize: 100,
+    roundGoals: [],
     opponents: [],
     ...overrides,
   };
@@ -3763,6 +3765,69 @@ describe("PowerHandlers", () => {
       expect(discardEffect?.cards).toHaveLength(1);
     });
 
+    it("records a descriptor that restores the deferred discard", async () => {
+      const tern = createBirdInstance("tern", "black_tern");
+      const player = createPlayerState("player1", {
+        WETLAND: [tern, null, null, null, null],
+      });
+      const state = createGameState([player]);
+      state.birdCardSupply = createMockBirdCardSupply(["american_goldfinch"]);
+
+      const mockAgent = createMockAgent("player1");
+      (mockAgent.chooseOption as ReturnType<typeof vi.fn>).mockImplementation(
+        (prompt) => {
+          if (prompt.kind === "activatePower") {
+            return Promise.resolve({
+              kind: "activatePower",
+              promptId: prompt.promptId,
+              activate: true,
+            } as ActivatePowerChoice);
+          } else if (prompt.kind === "selectCards") {
+            return Promise.resolve({
+              kind: "selectCards",
+              promptId: prompt.promptId,
+              cards: [prompt.eligibleCards[0].id],
+            } as SelectCardsChoice);
+          }
+          throw new Error(`Unexpected prompt kind: ${prompt.kind}`);
+        }
+      );
+
+      const agents = new Map([["player1", mockAgent]]);
+      const descriptors: DeferredContinuationDescriptor[] = [];
+      const execCtx = createMockExecutionContext(state, registry, agents, {
+        hand: [testRegistry.getBirdById("acorn_woodpecker")],
+      });
+      execCtx.deferContinuation = (_playerId, _continuation, descriptor) => {
+        if (descriptor) descriptors.push(descriptor);
+      };
+
+      await processor.executeSinglePower("tern", "player1", execCtx);
+
+      expect(descriptors).toEqual([
+        {
+          handlerId: "discardCardsAtEndOfTurn",
+          birdInstanceId: "tern",
+          params: { discardCount: 1 },
+        },
+      ]);
+
+      // Rebuild the continuation from its descriptor alone
+      const continuation = processor.restoreContinuation(
+        JSON.parse(JSON.stringify(descriptors[0])),
+        "player1",
+        execCtx
+      );
+      const { effects } = await processor.executeContinuation(
+        continuation,
+        "player1",
+        execCtx
+      );
+
+      const discardEffect = effects.find((e) => e.type === "DISCARD_CARDS");
+      expect(discardEffect?.cards).toHaveLength(1);
+    });
+
     it("skips when deck is empty", async () => {
       const tern = createBirdInstance("tern", "black_tern");
       const player = createPlayerState("player1", {
@@ -6641,7 +6706,7 @@ describe("PowerHandlers", () => {
           GRASSLAND: [null, null, null, null, null],
           WETLAND: [null, null, null, null, null],
         }),
-        // Red-Eyed Vireo is a FOREST bird that costs 1 invertebrate + 1 fruit
+        // Red-Eyed Vireo is a FOREST bird that costs 1 invertebrate or 1 fruit
         hand: [testRegistry.getBirdById("red_eyed_vireo")],
         bonusCards: [],
         food: { INVERTEBRATE: 2, FRUIT: 2 },
@@ -6665,8 +6730,8 @@ describe("PowerHandlers", () => {
               promptId: prompt.promptId,
               bird: "red_eyed_vireo",
               habitat: "FOREST",
-              foodToSpend: { INVERTEBRATE: 1, FRUIT: 1 },
-              eggsToSpend: {},
+              foodToSpend: { INVERTEBRATE: 1 },
+              eggsToSpend: { downy_test: 1 },
             } as PlayBirdChoice);
           }
           throw new Error(`Unexpected prompt kind: ${prompt.kind}`);
@@ -6953,7 +7018,7 @@ describe("PowerHandlers", () => {
               bird: "carolina_chickadee",
               habitat: "FOREST",
               foodToSpend: { INVERTEBRATE: 1 },
-              eggsToSpend: {},
+              eggsToSpend: { downy_test: 1 },
             } as PlayBirdChoice);
           }
           throw new Error(`Unexpected prompt kind: ${prompt.kind}`);
@@ -7015,7 +7080,7 @@ describe("PowerHandlers", () => {
               bird: "mountain_bluebird",
               habitat: "GRASSLAND",
               foodToSpend: { INVERTEBRATE: 1, FRUIT: 1 },
-              eggsToSpend: {},
+              eggsToSpend: { bluebird_test: 1 },
             } as PlayBirdChoice);
           }
           throw new Error(`Unexpected prompt kind: ${prompt.kind}`);
@@ -7077,8 +7142,8 @@ describe("PowerHandlers", () => {
               promptId: prompt.promptId,
               bird: "red_eyed_vireo",
               habitat: "FOREST",
-              foodToSpend: { INVERTEBRATE: 1, FRUIT: 1 },
-              eggsToSpend: { bird0: 2 },
+              foodToSpend: { INVERTEBRATE: 1 },
+              eggsToSpend: { bird0: 1 },
             } as PlayBirdChoice);
           }
           throw new Error(`Unexpected prompt kind: ${prompt.kind}`);
@@ -7139,8 +7204,8 @@ describe("PowerHandlers", () => {
               promptId: prompt.promptId,
               bird: "red_eyed_vireo",
               habitat: "FOREST",
-              foodToSpend: { INVERTEBRATE: 1, FRUIT: 1 },
-              eggsToSpend: {},
+              foodToSpend: { INVERTEBRATE: 1 },
+              eggsToSpend: { downy_test: 1 },
             } as PlayBirdChoice);
           }
           throw new Error(`Unexpected prompt kind: ${prompt.kind}`);
@@ -7205,7 +7270,7 @@ describe("PowerHandlers", () => {
               promptId: prompt.promptId,
               bird: "red_eyed_vireo",
               habitat: "FOREST",
-              foodToSpend: { INVERTEBRATE: 1, FRUIT: 1 },
+              foodToSpend: { INVERTEBRATE: 1 },
               eggsToSpend: { bird0: 1 },
             } as PlayBirdChoice);
           }
@@ -7266,8 +7331,8 @@ describe("PowerHandlers", () => {
               promptId: prompt.promptId,
               bird: "red_eyed_vireo",
               habitat: "FOREST",
-              foodToSpend: { INVERTEBRATE: 1, FRUIT: 1 },
-              eggsToSpend: {},
+              foodToSpend: { INVERTEBRATE: 1 },
+              eggsToSpend: { downy_test: 1 },
             } as PlayBirdChoice);
           }
           throw new Error(`Unexpected prompt kind: ${prompt.kind}`);
@@ -7287,7 +7352,7 @@ describe("PowerHandlers", () => {
       expect(playBirdEffect).toBeDefined();
       expect(
         playBirdEffect?.type === "PLAY_BIRD" && playBirdEffect.foodPaid
-      ).toEqual({ INVERTEBRATE: 1, FRUIT: 1 });
+      ).toEqual({ INVERTEBRATE: 1 });
     });
 
     // Tests that when player has empty hand, power is skipped without prompting.
@@ -7365,8 +7430,8 @@ describe("PowerHandlers", () => {
               promptId: prompt.promptId,
               bird: "red_eyed_vireo",
               habitat: "FOREST",
-              foodToSpend: { INVERTEBRATE: 1, FRUIT: 1 },
-              eggsToSpend: {},
+              foodToSpend: { INVERTEBRATE: 1 },
+              eggsToSpend: { downy_test: 1 },
             } as PlayBirdChoice);
           }
           throw new Error(`Unexpected prompt kind: ${prompt.kind}`);
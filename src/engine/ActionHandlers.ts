@@ -1,5 +1,6 @@
 import {
   BirdCard,
+  BirdCardId,
   DieFace,
   DieSelection,
   FoodByDice,
@@ -14,6 +15,8 @@ import {
   ActionReceive,
   ActionYield,
   DeferredContinuation,
+  DeferredContinuationHandler,
+  DeferredContinuationHandlerRegistry,
   EventYield,
   PowerContext,
   PowerHandler,
@@ -31,12 +34,14 @@ import {
   OptionPrompt,
   PlaceEggsPrompt,
   PlayerView,
+  PlayBirdChoice,
   PlayBirdPrompt,
   SelectCardsPrompt,
   SelectFoodFromFeederPrompt,
 } from "../types/prompts.js";
 import { Event } from "../types/events.js";
 import { Effect } from "../types/effects.js";
+import type { PlayerState } from "./PlayerState.js";
 
 const HABITATS: Habitat[] = ["FOREST", "GRASSLAND", "WETLAND"];
 const HABITAT_SIZE = 5;
@@ -2137,30 +2142,51 @@ export const drawCardsWithDelayedDiscard: PowerHandler = function* (
   });
 
   // Defer discard to end of turn
-  // ctx methods read live state, so the continuation will see the updated hand
-  yield* deferToEndOfTurn(function* () {
-    const view = ctx.buildOwnerView();
-    if (view.hand.length === 0) return;
+  yield* deferToEndOfTurn(ctx, "discardCardsAtEndOfTurn", { discardCount });
+};
 
-    const discardChoice = yield* prompt(ctx, {
-      kind: "selectCards",
-      view,
-      mode: "DISCARD",
-      source: "HAND",
-      count: Math.min(discardCount, view.hand.length),
-      eligibleCards: view.hand,
-    });
+/**
+ * Deferred continuation: discard cards from hand at end of turn.
+ *
+ * Handler params:
+ * - discardCount: Number of cards to discard
+ *
+ * Scheduled by drawCardsWithDelayedDiscard (Black Tern).
+ * ctx methods read live state, so this sees the hand as of end of turn.
+ */
+export const discardCardsAtEndOfTurn: DeferredContinuationHandler = function* (
+  ctx: PowerContext,
+  params: Record<string, unknown>
+): Generator<PowerYield, void, OptionChoice | Effect | undefined> {
+  const discardCount = (params.discardCount as number) || 1;
+  const view = ctx.buildOwnerView();
+  if (view.hand.length === 0) return;
 
-    if (discardChoice.cards.length > 0) {
-      yield* effect({
-        type: "DISCARD_CARDS",
-        playerId: ctx.ownerId,
-        cards: discardChoice.cards,
-      });
-    }
+  const discardChoice = yield* prompt(ctx, {
+    kind: "selectCards",
+    view,
+    mode: "DISCARD",
+    source: "HAND",
+    count: Math.min(discardCount, view.hand.length),
+    eligibleCards: view.hand,
   });
+
+  if (discardChoice.cards.length > 0) {
+    yield* effect({
+      type: "DISCARD_CARDS",
+      playerId: ctx.ownerId,
+      cards: discardChoice.cards,
+    });
+  }
 };
 
+/**
+ * Deferred continuation handlers by ID, for continuations scheduled with
+ * deferToEndOfTurn.
+ */
+export const deferredContinuationHandlers: DeferredContinuationHandlerRegistry =
+  new Map([["discardCardsAtEndOfTurn", discardCardsAtEndOfTurn]]);
+
 /**
  * Draw cards from deck or tray.
  *
@@ -2503,40 +2529,8 @@ export const playAdditionalBirdInHabitat: PowerHandler = function* (
       return false;
     }
 
-    // Check food cost affordability
-    if (card.foodCostMode === "NONE") {
-      return true;
-    }
-
-    if (card.foodCostMode === "AND") {
-      for (const [foodType, required] of Object.entries(card.foodCost)) {
-        if (required && required > 0) {
-          const available = player.food[foodType as FoodType] ?? 0;
-          if (available < required) {
-            return false;
-          }
-        }
-      }
-      return true;
-    }
-
-    if (card.foodCostMode === "OR") {
-      const totalRequired = Object.values(card.foodCost).reduce(
-        (sum, v) => sum + (v ?? 0),
-        0
-      );
-      if (totalRequired === 0) return true;
-
-      let totalAvailable = 0;
-      for (const [foodType, required] of Object.entries(card.foodCost)) {
-        if (required && required > 0) {
-          totalAvailable += player.food[foodType as FoodType] ?? 0;
-        }
-      }
-      return totalAvailable >= 1;
-    }
-
-    return false;
+    // Check food cost affordability (2-for-1 exchanges allowed)
+    return player.canAffordBirdFood(card);
   });
 
   // Also check that player has enough eggs to pay the egg cost
@@ -2567,6 +2561,7 @@ export const playAdditionalBirdInHabitat: PowerHandler = function* (
     kind: "playBird",
     eligibleBirds: birdsAffordableWithEggs,
     eggCostByEligibleHabitat: eggCostByHabitat,
+    ...buildFoodExchangesRequired(player, birdsAffordableWithEggs),
   });
 
   // Find the chosen bird card
@@ -2578,13 +2573,7 @@ export const playAdditionalBirdInHabitat: PowerHandler = function* (
   // Create bird instance ID
   const birdInstanceId = `${ctx.ownerId}_${chosenBird.id}`;
 
-  // Build food paid (filter undefined values)
-  const foodPaid: FoodByType = {};
-  for (const [foodType, count] of Object.entries(playChoice.foodToSpend)) {
-    if (count !== undefined && count > 0) {
-      foodPaid[foodType as FoodType] = count;
-    }
-  }
+  const foodPaid = buildFoodPaid(playChoice);
 
   // Build eggs paid (filter undefined values)
   const eggsPaid: Record<string, number> = {};
@@ -3059,27 +3048,32 @@ export function* event(evt: Event): Generator<EventYield, void, unknown> {
 }
 
 /**
- * Defer a continuation to be executed at end of turn.
- * The continuation can yield effects and prompts just like a normal power handler.
+ * Defer a registered continuation handler to be executed at end of turn.
+ * The handler can yield effects and prompts just like a normal power handler.
  *
  * Use this for powers that need to "do X now, do Y at end of turn" semantics.
- * The continuation is safe to capture ctx because all context methods read live state.
+ * The continuation reuses ctx, which is safe because all context methods read
+ * live state. The handler ID and params are also recorded as a descriptor so
+ * the continuation can be rebuilt when a saved game is restored.
  *
  * @example
  * ```typescript
- * yield* deferToEndOfTurn(function* () {
- *   const view = ctx.buildOwnerView();
- *   const choice = yield* prompt(ctx, { kind: "selectCards", ... });
- *   yield* effect({ type: "DISCARD_CARDS", cards: choice.cards });
- * });
+ * yield* deferToEndOfTurn(ctx, "discardCardsAtEndOfTurn", { discardCount: 1 });
  * ```
  */
 function* deferToEndOfTurn(
-  continuation: () => Generator<PowerYield, void, PowerReceive>
+  ctx: PowerContext,
+  handlerId: string,
+  params: Record<string, unknown>
 ): Generator<DeferredContinuation, void, OptionChoice | Effect | undefined> {
+  const handler = deferredContinuationHandlers.get(handlerId);
+  if (!handler) {
+    throw new Error(`No deferred continuation handler registered: ${handlerId}`);
+  }
   yield {
     type: "DEFER_TO_END_OF_TURN",
-    continuation,
+    continuation: () => handler(ctx, params),
+    descriptor: { handlerId, birdInstanceId: ctx.birdInstanceId, params },
   };
 }
 
@@ -3362,6 +3356,48 @@ function convertDieSelectionsToFood(selections: DieSelection[]): FoodByType {
   return food;
 }
 
+/**
+ * Build the foodExchangesRequired field of a playBird prompt, listing eligible
+ * birds that can only be paid for with 2-for-1 food exchanges.
+ * Returns an empty object if every bird can be paid for directly.
+ */
+function buildFoodExchangesRequired(
+  player: PlayerState,
+  eligibleBirds: BirdCard[]
+): Pick<PlayBirdPrompt, "foodExchangesRequired"> {
+  const foodExchangesRequired: Partial<Record<BirdCardId, number>> = {};
+  for (const card of eligibleBirds) {
+    const exchanges = player.getRequiredFoodExchanges(card);
+    if (exchanges) {
+      foodExchangesRequired[card.id] = exchanges;
+    }
+  }
+  return Object.keys(foodExchangesRequired).length > 0
+    ? { foodExchangesRequired }
+    : {};
+}
+
+/**
+ * Total food leaving the player's supply for a playBird choice: food paid
+ * directly plus the food given up in any 2-for-1 exchanges.
+ */
+function buildFoodPaid(choice: PlayBirdChoice): FoodByType {
+  const foodPaid: FoodByType = {};
+  const payments = [
+    choice.foodToSpend,
+    ...(choice.foodExchanges ?? []).map((exchange) => exchange.give),
+  ];
+  for (const payment of payments) {
+    for (const [foodType, count] of Object.entries(payment)) {
+      if (count !== undefined && count > 0) {
+        foodPaid[foodType as FoodType] =
+          (foodPaid[foodType as FoodType] ?? 0) + count;
+      }
+    }
+  }
+  return foodPaid;
+}
+
 /**
  * GAIN_FOOD action handler.
  * Player selects food from the birdfeeder.
@@ -3758,6 +3794,7 @@ export const playBirdHandler: TurnActionHandler = function* (ctx, _params) {
     context: ctx.buildPromptContext(),
     eligibleBirds,
     eggCostByEligibleHabitat: eggCostByHabitat,
+    ...buildFoodExchangesRequired(player, eligibleBirds),
   };
 
   const choice = yield* turnActionPrompt(ctx, playBirdPrompt);
@@ -3775,13 +3812,7 @@ export const playBirdHandler: TurnActionHandler = function* (ctx, _params) {
   // Create bird instance ID
   const birdInstanceId = `${ctx.playerId}_${birdCard.id}`;
 
-  // Build food paid (filter undefined values)
-  const foodPaid: FoodByType = {};
-  for (const [foodType, count] of Object.entries(choice.foodToSpend)) {
-    if (count !== undefined && count > 0) {
-      foodPaid[foodType as FoodType] = count;
-    }
-  }
+  const foodPaid = buildFoodPaid(choice);
 
   // Build eggs paid (filter undefined values)
   const eggsPaid: Record<string, number> = {};
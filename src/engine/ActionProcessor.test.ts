@@ -24,8 +24,10 @@ import type {
   PlayerView,
   PromptContext,
   SelectFoodFromSupplyChoice,
+  SelectFoodFromSupplyPrompt,
   OptionPrompt,
   OptionChoice,
+  ValidationError,
   SelectFoodFromFeederChoice,
   PlaceEggsChoice,
   DrawCardsChoice,
@@ -126,6 +128,7 @@ function createMockPlayerView(playerId: string): PlayerView {
     birdfeeder: [],
     birdTray: [],
     deckSize: 100,
+    roundGoals: [],
     opponents: [],
   };
 }
@@ -1924,5 +1927,116 @@ describe("ActionProcessor", () => {
       expect(result.activated).toBe(true);
       expect(selectFoodCallCount).toBe(3);
     });
+
+    describe("with configured attempts and substitutes", () => {
+      const birdWithPower = new DataRegistry()
+        .getAllBirds()
+        .find((b) => b.power?.handlerId === "gainFoodFromSupply")!;
+      const foodType = (birdWithPower.power?.params.foodType as string) || "SEED";
+
+      /**
+       * An execution context whose player activates the power, then always
+       * asks for 999 food.
+       */
+      function createInvalidChoiceContext() {
+        const player = createPlayerState("player1", {
+          FOREST: [
+            createBirdInstance("test_instance_1", birdWithPower.id),
+            null,
+            null,
+            null,
+            null,
+          ],
+        });
+        const mockAgent = createMockAgent("player1");
+        const selectFoodCalls = vi.fn();
+        (mockAgent.chooseOption as ReturnType<typeof vi.fn>).mockImplementation(
+          (prompt) => {
+            if (prompt.kind === "activatePower") {
+              return Promise.resolve({
+                kind: "activatePower",
+                promptId: prompt.promptId,
+                activate: true,
+              } as ActivatePowerChoice);
+            }
+            selectFoodCalls();
+            return Promise.resolve({
+              kind: "selectFoodFromSupply",
+              promptId: prompt.promptId,
+              food: { [foodType]: 999 },
+            } as SelectFoodFromSupplyChoice);
+          }
+        );
+        const execCtx = createMockExecutionContext(
+          createGameState([player]),
+          registry,
+          new Map([["player1", mockAgent]])
+        );
+        return { execCtx, selectFoodCalls };
+      }
+
+      it("gives up after maxAttempts invalid choices", async () => {
+        const { execCtx, selectFoodCalls } = createInvalidChoiceContext();
+
+        const error = await new ActionProcessor({ maxAttempts: 1 })
+          .executeSinglePower("test_instance_1", "player1", execCtx)
+          .catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(AgentForfeitError);
+        expect((error as AgentForfeitError).attempts).toBe(1);
+        expect(selectFoodCalls).toHaveBeenCalledTimes(1);
+      });
+
+      it("rejects a maxAttempts that is not a positive integer", () => {
+        expect(() => new ActionProcessor({ maxAttempts: 0 })).toThrow(
+          "maxAttempts must be a positive integer, got 0"
+        );
+      });
+
+      it("uses a valid substitute choice once the attempts are used up", async () => {
+        const { execCtx, selectFoodCalls } = createInvalidChoiceContext();
+        const substituteChoice = vi.fn(
+          async (prompt: OptionPrompt, _lastError: ValidationError) => ({
+            kind: "selectFoodFromSupply" as const,
+            promptId: prompt.promptId,
+            food: { [foodType]: (prompt as SelectFoodFromSupplyPrompt).count },
+          })
+        );
+        const processor = new ActionProcessor({ substituteChoice });
+
+        const result = await processor.executeSinglePower(
+          "test_instance_1",
+          "player1",
+          execCtx
+        );
+
+        expect(result.activated).toBe(true);
+        expect(selectFoodCalls).toHaveBeenCalledTimes(3);
+        // The substitute answers the original prompt, not the last reprompt
+        const [prompt, lastError] = substituteChoice.mock.calls[0];
+        expect(prompt.previousError).toBeUndefined();
+        expect(lastError.code).toBe("INVALID_FOOD_COUNT");
+      });
+
+      it("forfeits when there is no substitute or it is invalid too", async () => {
+        const invalid = createInvalidChoiceContext();
+        const none = createInvalidChoiceContext();
+
+        await expect(
+          new ActionProcessor({
+            substituteChoice: async (prompt) => ({
+              kind: "selectFoodFromSupply",
+              promptId: prompt.promptId,
+              food: { [foodType]: 999 },
+            }),
+          }).executeSinglePower("test_instance_1", "player1", invalid.execCtx)
+        ).rejects.toThrow(AgentForfeitError);
+        await expect(
+          new ActionProcessor({
+            substituteChoice: async () => null,
+          }).executeSinglePower("test_instance_1", "player1", none.execCtx)
+        ).rejects.toThrow(AgentForfeitError);
+      });
+    });
   });
 });
@@ -15,12 +15,14 @@
 import type { Event, PinkPowerTriggerEvent } from "../types/events.js";
 import type { Effect } from "../types/effects.js";
 import type {
+  BirdInstance,
   Habitat,
   PlayerId,
 } from "../types/core.js";
 import type { GameState } from "./GameState.js";
 import type {
   ActionExecutionContext,
+  DeferredContinuationDescriptor,
   PowerActivationResult,
   PowerContext,
   PowerHandlerRegistry,
@@ -30,7 +32,12 @@ import type {
   TurnActionHandlerRegistry,
 } from "../types/power.js";
 import { isPromptRequest, isDeferredContinuation, isEventYield } from "../types/power.js";
-import type { TurnActionKind, OptionPrompt, OptionChoice } from "../types/prompts.js";
+import type {
+  TurnActionKind,
+  OptionPrompt,
+  OptionChoice,
+  ValidationError,
+} from "../types/prompts.js";
 import { validateChoice } from "./ChoiceValidators.js";
 import { AgentForfeitError } from "./errors.js";
 import type { HandlerType } from "../sim/HandlerCoverageTracker.js";
@@ -74,6 +81,8 @@ import {
   repeatBrownPowerInHabitat,
   repeatPredatorPowerInHabitat,
   gainFoodFromFeederIfAvailable,
+  // Deferred continuation handlers
+  deferredContinuationHandlers,
   // Turn action handlers
   gainFoodHandler,
   layEggsHandler,
@@ -124,15 +133,47 @@ export interface ActionProcessorOptions {
    * Used by the Simulator for coverage tracking.
    */
   onHandlerInvoked?: (handlerId: string, type: HandlerType) => void;
+  /**
+   * Invalid choices a player may make on one prompt before giving up on them.
+   * Defaults to DEFAULT_MAX_ATTEMPTS.
+   */
+  maxAttempts?: number;
+  /**
+   * Optional callback invoked when a player has made maxAttempts invalid
+   * choices on a prompt. It may return a choice to use instead (e.g. from a
+   * fallback agent), which is validated like any other; without one, or if
+   * it returns null or an invalid choice, the player forfeits.
+   */
+  substituteChoice?: (
+    prompt: OptionPrompt,
+    lastError: ValidationError
+  ) => Promise<OptionChoice | null>;
 }
 
+/**
+ * Invalid choices a player may make on one prompt unless configured otherwise.
+ */
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
 export class ActionProcessor {
   private readonly handlers: PowerHandlerRegistry = new Map();
   private readonly turnActionHandlers: TurnActionHandlerRegistry = new Map();
   private readonly onHandlerInvoked?: (handlerId: string, type: HandlerType) => void;
+  private readonly maxAttempts: number;
+  private readonly substituteChoice?: ActionProcessorOptions["substituteChoice"];
 
+  /**
+   * @throws Error if maxAttempts is not a positive integer
+   */
   constructor(options?: ActionProcessorOptions) {
     this.onHandlerInvoked = options?.onHandlerInvoked;
+    this.maxAttempts = options?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    if (!Number.isInteger(this.maxAttempts) || this.maxAttempts < 1) {
+      throw new Error(
+        `maxAttempts must be a positive integer, got ${this.maxAttempts}`
+      );
+    }
+    this.substituteChoice = options?.substituteChoice;
     // Register all power handlers
     this.handlers.set("gainFoodFromSupply", gainFoodFromSupply);
     this.handlers.set("cacheFoodFromSupply", cacheFoodFromSupply);
@@ -331,37 +372,7 @@ export class ActionProcessor {
       throw new Error(`No handler registered for power ${power.handlerId}`);
     }
 
-    // Build the power context
-    const ctx: PowerContext = {
-      ownerId,
-      birdInstanceId: bird.id,
-      birdCardId: bird.card.id,
-      getHabitat: () => {
-        // Look up bird's current habitat from live state (safe for continuations)
-        const currentState = execCtx.getState();
-        for (const player of currentState.players) {
-          const habitat = player.board.getBirdHabitat(bird.id);
-          if (habitat) {
-            return habitat;
-          }
-        }
-        throw new Error(`Bird ${bird.id} not found on any board`);
-      },
-      activePlayerId: state.players[state.activePlayerIndex].id,
-      round: state.round,
-      getState: () => execCtx.getState(),
-      getRegistry: () => execCtx.getRegistry(),
-      generatePromptId: () => execCtx.generatePromptId(),
-      buildOwnerView: () => execCtx.buildPlayerView(ownerId),
-      buildPlayerView: (playerId) => execCtx.buildPlayerView(playerId),
-      buildPromptContext: () =>
-        execCtx.buildPromptContext({
-          type: power.trigger,
-          sourceBirdId: bird.id,
-          habitat: ctx.getHabitat(),
-        }),
-      getTriggeringEvent: () => execCtx.triggeringEvent,
-    };
+    const ctx = this.createPowerContext(bird, ownerId, execCtx);
 
     // Execute the generator
     const gen = handler(ctx, power.params);
@@ -393,6 +404,78 @@ export class ActionProcessor {
     };
   }
 
+  /**
+   * Rebuild a deferred continuation from its serialized descriptor.
+   * The continuation gets a fresh PowerContext for the bird that scheduled it,
+   * equivalent to the one captured when the continuation was first deferred.
+   * @throws Error if the bird or continuation handler cannot be found
+   */
+  restoreContinuation(
+    descriptor: DeferredContinuationDescriptor,
+    ownerId: PlayerId,
+    execCtx: ActionExecutionContext
+  ): () => Generator<PowerYield, void, PowerReceive> {
+    const handler = deferredContinuationHandlers.get(descriptor.handlerId);
+    if (!handler) {
+      throw new Error(
+        `No deferred continuation handler registered: ${descriptor.handlerId}`
+      );
+    }
+    const bird = execCtx.getState().findBirdInstance(descriptor.birdInstanceId);
+    if (!bird) {
+      throw new Error(
+        `Bird instance ${descriptor.birdInstanceId} not found on any player's board`
+      );
+    }
+    const ctx = this.createPowerContext(bird, ownerId, execCtx);
+    return () => handler(ctx, descriptor.params);
+  }
+
+  /**
+   * Build the PowerContext passed to a bird's power handler.
+   * Context methods read live state, so the context stays valid for
+   * continuations deferred to the end of the turn.
+   */
+  private createPowerContext(
+    bird: BirdInstance,
+    ownerId: PlayerId,
+    execCtx: ActionExecutionContext
+  ): PowerContext {
+    const state = execCtx.getState();
+    const power = bird.card.power;
+    const ctx: PowerContext = {
+      ownerId,
+      birdInstanceId: bird.id,
+      birdCardId: bird.card.id,
+      getHabitat: () => {
+        // Look up bird's current habitat from live state (safe for continuations)
+        const currentState = execCtx.getState();
+        for (const player of currentState.players) {
+          const habitat = player.board.getBirdHabitat(bird.id);
+          if (habitat) {
+            return habitat;
+          }
+        }
+        throw new Error(`Bird ${bird.id} not found on any board`);
+      },
+      activePlayerId: state.players[state.activePlayerIndex].id,
+      round: state.round,
+      getState: () => execCtx.getState(),
+      getRegistry: () => execCtx.getRegistry(),
+      generatePromptId: () => execCtx.generatePromptId(),
+      buildOwnerView: () => execCtx.buildPlayerView(ownerId),
+      buildPlayerView: (playerId) => execCtx.buildPlayerView(playerId),
+      buildPromptContext: () =>
+        execCtx.buildPromptContext({
+          type: power?.trigger ?? "WHEN_ACTIVATED",
+          sourceBirdId: bird.id,
+          habitat: ctx.getHabitat(),
+        }),
+      getTriggeringEvent: () => execCtx.triggeringEvent,
+    };
+    return ctx;
+  }
+
   /**
    * Execute a deferred continuation at end of turn.
    * Uses the same generator-driving logic as power execution.
@@ -427,7 +510,6 @@ export class ActionProcessor {
 
       if (isPromptRequest(yielded)) {
         // Pause and get agent decision with validation loop
-        const MAX_ATTEMPTS = 3;
         let attempts = 0;
         let currentPrompt = yielded.prompt as OptionPrompt;
 
@@ -445,9 +527,18 @@ export class ActionProcessor {
             break;
           }
 
-          // Invalid choice - reprompt or forfeit
+          // Invalid choice - reprompt, substitute or forfeit
           attempts++;
-          if (attempts >= MAX_ATTEMPTS) {
+          if (attempts >= this.maxAttempts) {
+            const prompt = yielded.prompt as OptionPrompt;
+            const substitute = await this.substituteChoice?.(prompt, error);
+            if (
+              substitute &&
+              !validateChoice(prompt, substitute, execCtx.getState() as GameState)
+            ) {
+              iterResult = gen.next(substitute);
+              break;
+            }
             throw new AgentForfeitError(
               promptPlayerId,
               currentPrompt.promptId,
@@ -461,7 +552,11 @@ export class ActionProcessor {
         }
       } else if (isDeferredContinuation(yielded)) {
         // Store continuation for end-of-turn execution
-        execCtx.deferContinuation(playerId, yielded.continuation);
+        execCtx.deferContinuation(
+          playerId,
+          yielded.continuation,
+          yielded.descriptor
+        );
         iterResult = gen.next();
       } else if (isEventYield(yielded)) {
         // Collect event for later processing
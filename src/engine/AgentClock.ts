@@ -0,0 +1,221 @@
+/**
+ * AgentClock - Times every decision the engine asks of an agent.
+ *
+ * The engine puts each prompt to its agent through the clock, which measures
+ * how long the agent takes and, given a time budget, stops waiting once the
+ * agent has had its share. An agent that runs out of time either forfeits
+ * (AgentTimeoutError) or has its decision made by a fallback agent, so one
+ * slow or hung bot cannot stall a batch of games.
+ */
+
+import type { PlayerId } from "../types/core.js";
+import type { DecisionChoice, DecisionPrompt } from "../types/prompts.js";
+import type { PlayerAgent } from "../agents/PlayerAgent.js";
+import { AgentTimeoutError } from "./errors.js";
+
+/**
+ * What happens when an agent runs out of time:
+ * - "forfeit": the player forfeits, as after repeated invalid choices
+ * - "fallback": the player's fallback agent answers the prompt instead
+ */
+export type TimeoutPolicy = "forfeit" | "fallback";
+
+/**
+ * How long agents may take to decide. Both limits are optional; an agent
+ * must stay within whichever runs out first.
+ */
+export interface AgentTimeBudget {
+  /** Longest a single decision may take, in milliseconds */
+  perDecisionMs?: number;
+  /** Total time a player's agent may spend deciding over the game, in milliseconds */
+  perGameMs?: number;
+  /** What happens when an agent runs out of time (default "forfeit") */
+  onTimeout?: TimeoutPolicy;
+}
+
+/**
+ * Creates the agent that stands in for a player's own agent, e.g.
+ * `(playerId) => new SmartRandomAgent(playerId, seed)`.
+ */
+export type FallbackAgentFactory = (playerId: PlayerId) => PlayerAgent;
+
+/**
+ * Gets the agent to answer a prompt in place of a player's agent that ran
+ * out of time.
+ * @param message - How the agent ran out of time
+ */
+export type TimeoutSubstitute = (
+  prompt: DecisionPrompt,
+  message: string
+) => Promise<PlayerAgent>;
+
+/**
+ * How long one player's agent spent deciding during a game.
+ */
+export interface AgentTiming {
+  /** Prompts put to the agent */
+  decisions: number;
+  /** Time spent on those prompts, in milliseconds */
+  totalMs: number;
+  /** Longest single decision, in milliseconds */
+  maxMs: number;
+  /**
+   * Prompts the agent did not answer in time, including any that were never
+   * put to it because its game budget was already spent
+   */
+  timeouts: number;
+}
+
+/**
+ * Check that a time budget's limits are positive and its policy is known.
+ * @throws Error describing the first problem found
+ */
+export function validateTimeBudget(budget: AgentTimeBudget): void {
+  for (const limit of ["perDecisionMs", "perGameMs"] as const) {
+    const value = budget[limit];
+    if (value !== undefined && !(value > 0)) {
+      throw new Error(`Time budget ${limit} must be a positive number, got ${value}`);
+    }
+  }
+  const { onTimeout } = budget;
+  if (onTimeout !== undefined && onTimeout !== "forfeit" && onTimeout !== "fallback") {
+    throw new Error(`Timeout policy must be "forfeit" or "fallback", got "${onTimeout}"`);
+  }
+}
+
+/**
+ * Measures agent decisions and enforces an optional AgentTimeBudget.
+ */
+export class AgentClock {
+  private readonly timings = new Map<PlayerId, AgentTiming>();
+
+  /**
+   * @throws Error if the budget is invalid (see validateTimeBudget()), or its
+   *   policy is "fallback" but there is no substitute
+   */
+  constructor(
+    private readonly budget: AgentTimeBudget = {},
+    private readonly substitute?: TimeoutSubstitute
+  ) {
+    validateTimeBudget(budget);
+    if (budget.onTimeout === "fallback" && !substitute) {
+      throw new Error(
+        'The "fallback" timeout policy needs a fallback agent (createFallbackAgent)'
+      );
+    }
+  }
+
+  /**
+   * Put a prompt to an agent, timing the call.
+   *
+   * If the agent runs out of time the clock stops waiting for it, and any
+   * late answer is ignored. Agents are not interrupted, so a timed-out agent
+   * may still be busy when it is next asked, and one that computes without
+   * yielding is only caught once it answers.
+   * @param ask - Calls the agent method matching the prompt's kind
+   * @throws AgentTimeoutError if the agent runs out of time and the policy
+   *   is "forfeit"
+   */
+  async decide<C extends DecisionChoice>(
+    agent: PlayerAgent,
+    prompt: DecisionPrompt,
+    ask: (agent: PlayerAgent) => Promise<C>
+  ): Promise<C> {
+    const timing = this.timingFor(prompt.playerId);
+    const limitMs = this.remainingMs(timing);
+    if (limitMs <= 0) {
+      timing.timeouts++;
+      return this.handleTimeout(prompt, 0, ask);
+    }
+
+    timing.decisions++;
+    const startTime = performance.now();
+    let answered: { choice: C } | null;
+    let elapsedMs = 0;
+    try {
+      answered = await withTimeLimit(ask(agent), limitMs);
+    } finally {
+      elapsedMs = performance.now() - startTime;
+      timing.totalMs += elapsedMs;
+      timing.maxMs = Math.max(timing.maxMs, elapsedMs);
+    }
+    // An agent that blocks the event loop can answer after its time is up
+    // without the timer firing first; that answer is too late all the same
+    if (answered && elapsedMs <= limitMs) {
+      return answered.choice;
+    }
+
+    timing.timeouts++;
+    return this.handleTimeout(prompt, limitMs, ask);
+  }
+
+  /**
+   * Get the timing of each given player, in the order given. Players who
+   * were never asked anything get zeroed timings.
+   */
+  getTimings(playerIds: readonly PlayerId[]): Record<PlayerId, AgentTiming> {
+    const timings: Record<PlayerId, AgentTiming> = {};
+    for (const playerId of playerIds) {
+      timings[playerId] = { ...this.timingFor(playerId) };
+    }
+    return timings;
+  }
+
+  private timingFor(playerId: PlayerId): AgentTiming {
+    let timing = this.timings.get(playerId);
+    if (!timing) {
+      timing = { decisions: 0, totalMs: 0, maxMs: 0, timeouts: 0 };
+      this.timings.set(playerId, timing);
+    }
+    return timing;
+  }
+
+  /**
+   * How long the agent may take over its next decision.
+   */
+  private remainingMs(timing: AgentTiming): number {
+    const { perDecisionMs = Infinity, perGameMs = Infinity } = this.budget;
+    return Math.min(perDecisionMs, perGameMs - timing.totalMs);
+  }
+
+  private async handleTimeout<C extends DecisionChoice>(
+    prompt: DecisionPrompt,
+    limitMs: number,
+    ask: (agent: PlayerAgent) => Promise<C>
+  ): Promise<C> {
+    const timeout = new AgentTimeoutError(
+      prompt.playerId,
+      prompt.promptId,
+      limitMs
+    );
+    if (this.budget.onTimeout !== "fallback") {
+      throw timeout;
+    }
+    return ask(await this.substitute!(prompt, timeout.lastError.message));
+  }
+}
+
+/** Longest delay setTimeout supports; longer limits never run out */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * Wait for an answer for at most limitMs.
+ * @returns The answer, or null if the time ran out first
+ */
+function withTimeLimit<T>(
+  answer: Promise<T>,
+  limitMs: number
+): Promise<{ choice: T } | null> {
+  if (limitMs > MAX_TIMER_MS) {
+    return answer.then((choice) => ({ choice }));
+  }
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), limitMs);
+  });
+  // A late failure has nobody left to report to
+  answer.catch(() => {});
+  return Promise.race([answer.then((choice) => ({ choice })), timeout]).finally(
+    () => clearTimeout(timer)
+  );
+}
@@ -183,6 +183,31 @@ describe("BirdCardSupply", () => {
     });
   });
 
+  describe("clearTray()", () => {
+    it("discards every tray card and empties all slots", () => {
+      const supply = new BirdCardSupply(createTestCards(10), new Rng(42));
+      supply.refillTray();
+      const trayIds = supply.getTray().map((c) => c!.id);
+
+      const discarded = supply.clearTray();
+
+      expect(discarded.map((c) => c.id)).toEqual(trayIds);
+      expect(supply.getTray()).toEqual([null, null, null]);
+      expect(supply.getDiscardSize()).toBe(3);
+    });
+
+    it("skips empty slots", () => {
+      const supply = new BirdCardSupply(createTestCards(10), new Rng(42));
+      supply.refillTray();
+      supply.takeFromTray(1);
+
+      const discarded = supply.clearTray();
+
+      expect(discarded).toHaveLength(2);
+      expect(supply.getDiscardSize()).toBe(2);
+    });
+  });
+
   describe("discardCards()", () => {
     it("adds cards to discard pile", () => {
       const cards = createTestCards(5);
@@ -203,6 +228,32 @@ describe("BirdCardSupply", () => {
     });
   });
 
+  describe("fromPiles()", () => {
+    it("restores deck, discard, and tray in order", () => {
+      const [a, b, c, d, e] = createTestCards(5);
+      const supply = BirdCardSupply.fromPiles(
+        { deck: [c, a], discard: [e], tray: [b, null, d] },
+        new Rng(42)
+      );
+
+      expect(supply.getDeckCards()).toEqual([c, a]);
+      expect(supply.getDiscardCards()).toEqual([e]);
+      expect(supply.getTray()).toEqual([b, null, d]);
+
+      supply.refillTray();
+      expect(supply.getTray()).toEqual([b, c, d]);
+    });
+
+    it("throws for a tray without 3 slots", () => {
+      expect(() =>
+        BirdCardSupply.fromPiles(
+          { deck: [], discard: [], tray: [null] },
+          new Rng(42)
+        )
+      ).toThrow("Tray must have 3 slots, got 1");
+    });
+  });
+
   describe("getDeckSize() and getDiscardSize()", () => {
     it("tracks sizes correctly through operations", () => {
       const supply = new BirdCardSupply(createTestCards(10), new Rng(42));
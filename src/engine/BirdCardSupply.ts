@@ -17,6 +17,30 @@ export class BirdCardSupply {
     this.tray = [null, null, null];
   }
 
+  /**
+   * Create a supply with the given deck, discard pile, and tray, in order,
+   * without shuffling. Used to restore a saved game.
+   */
+  static fromPiles(
+    piles: {
+      deck: readonly BirdCard[];
+      discard: readonly BirdCard[];
+      tray: readonly (BirdCard | null)[];
+    },
+    rng: Rng
+  ): BirdCardSupply {
+    if (piles.tray.length !== TRAY_SIZE) {
+      throw new Error(
+        `Tray must have ${TRAY_SIZE} slots, got ${piles.tray.length}`
+      );
+    }
+    const supply = new BirdCardSupply([], rng);
+    const supplyRecord = supply as unknown as Record<string, unknown>;
+    supplyRecord.deck = DiscardableDeck.fromPiles(piles.deck, piles.discard, rng);
+    supply.tray = [...piles.tray];
+    return supply;
+  }
+
   /**
    * Draw cards from the deck. If deck is empty, shuffles discard pile to create new deck.
    * Throws if both deck and discard are empty and cards are needed.
@@ -61,6 +85,17 @@ export class BirdCardSupply {
     }
   }
 
+  /**
+   * Discard every face-up card from the tray, leaving all slots empty.
+   * Returns the discarded cards.
+   */
+  clearTray(): BirdCard[] {
+    const discarded = this.tray.filter((c): c is BirdCard => c !== null);
+    this.deck.discardItems(discarded);
+    this.tray = [null, null, null];
+    return discarded;
+  }
+
   /**
    * Add cards to the discard pile.
    */
@@ -75,6 +110,20 @@ export class BirdCardSupply {
     return this.tray;
   }
 
+  /**
+   * Get the cards in the deck, in draw order.
+   */
+  getDeckCards(): readonly BirdCard[] {
+    return this.deck.getDeckItems();
+  }
+
+  /**
+   * Get the cards in the discard pile, oldest first.
+   */
+  getDiscardCards(): readonly BirdCard[] {
+    return this.deck.getDiscardItems();
+  }
+
   /**
    * Get the number of cards remaining in the deck.
    */
@@ -282,6 +282,26 @@ describe("Birdfeeder", () => {
     });
   });
 
+  describe("withDice()", () => {
+    it("holds the given dice without rolling", () => {
+      const rng = new Rng(42);
+      const feeder = Birdfeeder.withDice(["FISH", "SEED_INVERTEBRATE"], rng);
+
+      expect(feeder.getDiceInFeeder()).toEqual(["FISH", "SEED_INVERTEBRATE"]);
+      // The rng has not been advanced
+      expect(rng.shuffle([1, 2, 3, 4, 5, 6])).toEqual(
+        new Rng(42).shuffle([1, 2, 3, 4, 5, 6])
+      );
+    });
+
+    it("rolls with the given rng once emptied", () => {
+      const feeder = Birdfeeder.withDice(["FISH"], new Rng(42));
+      feeder.takeDie("FISH");
+
+      expect(feeder.getCount()).toBe(5);
+    });
+  });
+
   describe("getCount()", () => {
     it("returns correct count", () => {
       const feeder = new Birdfeeder(new Rng(42));
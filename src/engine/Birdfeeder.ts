@@ -25,6 +25,18 @@ export class Birdfeeder {
     this.rollAll();
   }
 
+  /**
+   * Create a birdfeeder holding the given dice, without rolling.
+   * Used to restore a saved game.
+   */
+  static withDice(dice: readonly DieFace[], rng: Rng): Birdfeeder {
+    const feeder = Object.create(Birdfeeder.prototype) as Birdfeeder;
+    const feederRecord = feeder as unknown as Record<string, unknown>;
+    feederRecord.rng = rng;
+    feederRecord.diceInFeeder = [...dice];
+    return feeder;
+  }
+
   /**
    * Take a die showing the specified face from the feeder.
    * Throws if no die with that face is present.
@@ -4,13 +4,21 @@
  * Pure validation functions that check if an agent's choice is valid
  * before the generator is resumed. This prevents invalid choices from
  * corrupting game state and allows for reprompting with error context.
+ *
+ * Turn action and starting hand choices can be checked the same way, though
+ * the engine does not reprompt for them. LegalChoices.ts enumerates exactly
+ * the choices these validators accept.
  */
 
 import type { GameState } from "./GameState.js";
 import type {
-  OptionPrompt,
-  OptionChoice,
+  DecisionPrompt,
+  DecisionChoice,
   ValidationError,
+  StartingHandPrompt,
+  StartingHandChoice,
+  TurnActionPrompt,
+  TurnActionChoice,
   PlaceEggsPrompt,
   PlaceEggsChoice,
   DiscardEggsPrompt,
@@ -37,19 +45,118 @@ import type {
   DiscardFoodChoice,
   SelectFoodDestinationPrompt,
   SelectFoodDestinationChoice,
+  RepeatPowerPrompt,
+  RepeatPowerChoice,
 } from "../types/prompts.js";
 import type { FoodType, DieFace } from "../types/core.js";
+import { validateFoodPayment } from "./FoodPayment.js";
 
 /**
  * Type for a choice validator function.
  * Returns null if valid, or a ValidationError if invalid.
  */
-export type ChoiceValidator<K extends OptionChoice["kind"]> = (
-  prompt: Extract<OptionPrompt, { kind: K }>,
-  choice: Extract<OptionChoice, { kind: K }>,
+export type ChoiceValidator<K extends DecisionChoice["kind"]> = (
+  prompt: Extract<DecisionPrompt, { kind: K }>,
+  choice: Extract<DecisionChoice, { kind: K }>,
   state: GameState
 ) => ValidationError | null;
 
+/**
+ * Find an entry with a negative count, if any.
+ */
+function findNegativeCount(
+  counts: Partial<Record<string, number>>
+): [string, number] | null {
+  for (const [key, count] of Object.entries(counts)) {
+    if (count !== undefined && count < 0) {
+      return [key, count];
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate startingHand choice.
+ */
+export const validateStartingHandChoice: ChoiceValidator<"startingHand"> = (
+  prompt: StartingHandPrompt,
+  choice: StartingHandChoice,
+  state: GameState
+): ValidationError | null => {
+  // Validate kept birds are in the starting hand
+  const eligibleBirdIds = new Set(prompt.eligibleBirds.map((b) => b.id));
+  for (const birdId of choice.birds) {
+    if (!eligibleBirdIds.has(birdId)) {
+      return {
+        code: "INVALID_BIRD",
+        message: `Bird "${birdId}" is not in your starting hand`,
+      };
+    }
+  }
+
+  // Validate the kept bonus card is in the starting hand
+  if (!prompt.eligibleBonusCards.some((c) => c.id === choice.bonusCard)) {
+    return {
+      code: "INVALID_CARD",
+      message: `Bonus card "${choice.bonusCard}" is not in your starting hand`,
+    };
+  }
+
+  // Validate 1 food is discarded per bird kept, from food the player has
+  if (choice.foodToDiscard.size !== choice.birds.size) {
+    return {
+      code: "INVALID_FOOD_COUNT",
+      message: `Expected to discard ${choice.birds.size} food (1 per bird kept), but you discarded ${choice.foodToDiscard.size}`,
+    };
+  }
+  const player = state.players.find((p) => p.id === prompt.playerId);
+  if (player) {
+    for (const foodType of choice.foodToDiscard) {
+      if ((player.food[foodType] ?? 0) <= 0) {
+        return {
+          code: "INSUFFICIENT_FOOD",
+          message: `Cannot discard ${foodType}; none in supply`,
+        };
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Validate turnAction choice.
+ */
+export const validateTurnActionChoice: ChoiceValidator<"turnAction"> = (
+  prompt: TurnActionPrompt,
+  choice: TurnActionChoice,
+  _state: GameState
+): ValidationError | null => {
+  // Validate action is in eligible set
+  if (!prompt.eligibleActions.includes(choice.action)) {
+    return {
+      code: "INVALID_ACTION",
+      message: `Action "${choice.action}" is not eligible; eligible actions: ${prompt.eligibleActions.join(", ")}`,
+    };
+  }
+
+  // Validate a bonus is only taken where the action offers one
+  if (typeof choice.takeBonus !== "boolean") {
+    return {
+      code: "INVALID_TAKE_BONUS",
+      message: "takeBonus must be a boolean value",
+    };
+  }
+  if (choice.takeBonus && !prompt.rewardsByAction[choice.action]?.bonus) {
+    return {
+      code: "NO_BONUS",
+      message: `Action "${choice.action}" has no bonus to take`,
+    };
+  }
+
+  return null;
+};
+
 /**
  * Validate placeEggs choice.
  */
@@ -58,6 +165,14 @@ export const validatePlaceEggsChoice: ChoiceValidator<"placeEggs"> = (
   choice: PlaceEggsChoice,
   _state: GameState
 ): ValidationError | null => {
+  const negative = findNegativeCount(choice.placements);
+  if (negative) {
+    return {
+      code: "NEGATIVE_EGGS",
+      message: `Cannot place ${negative[1]} egg(s) on bird "${negative[0]}"`,
+    };
+  }
+
   // Validate total eggs match expected count
   const totalEggs = Object.values(choice.placements).reduce(
     (sum: number, count) => sum + (count || 0),
@@ -101,6 +216,14 @@ export const validateDiscardEggsChoice: ChoiceValidator<"discardEggs"> = (
   choice: DiscardEggsChoice,
   _state: GameState
 ): ValidationError | null => {
+  const negative = findNegativeCount(choice.sources);
+  if (negative) {
+    return {
+      code: "NEGATIVE_EGGS",
+      message: `Cannot discard ${negative[1]} egg(s) from bird "${negative[0]}"`,
+    };
+  }
+
   // Validate total eggs match expected count
   const totalEggs = Object.values(choice.sources).reduce(
     (sum: number, count) => sum + (count || 0),
@@ -183,6 +306,13 @@ export const validateDrawCardsChoice: ChoiceValidator<"drawCards"> = (
   choice: DrawCardsChoice,
   _state: GameState
 ): ValidationError | null => {
+  if (!Number.isInteger(choice.numDeckCards) || choice.numDeckCards < 0) {
+    return {
+      code: "INVALID_DECK_CARD_COUNT",
+      message: `Cannot draw ${choice.numDeckCards} card(s) from the deck`,
+    };
+  }
+
   const totalCards = choice.trayCards.length + choice.numDeckCards;
 
   // Validate total doesn't exceed remaining
@@ -293,6 +423,14 @@ export const validateSelectFoodFromSupplyChoice: ChoiceValidator<"selectFoodFrom
   choice: SelectFoodFromSupplyChoice,
   _state: GameState
 ): ValidationError | null => {
+  const negative = findNegativeCount(choice.food);
+  if (negative) {
+    return {
+      code: "NEGATIVE_FOOD",
+      message: `Cannot select negative amount of ${negative[0]}`,
+    };
+  }
+
   // Validate total count matches
   const totalFood = Object.values(choice.food).reduce(
     (sum, count) => sum + (count || 0),
@@ -326,7 +464,7 @@ export const validateSelectFoodFromSupplyChoice: ChoiceValidator<"selectFoodFrom
 export const validatePlayBirdChoice: ChoiceValidator<"playBird"> = (
   prompt: PlayBirdPrompt,
   choice: PlayBirdChoice,
-  _state: GameState
+  state: GameState
 ): ValidationError | null => {
   // Validate bird is in eligible set
   const eligibleBirdIds = new Set(prompt.eligibleBirds.map((b) => b.id));
@@ -354,13 +492,60 @@ export const validatePlayBirdChoice: ChoiceValidator<"playBird"> = (
   }
 
   // Validate habitat has space
-  if (prompt.eggCostByEligibleHabitat[choice.habitat] === undefined) {
+  const eggCost = prompt.eggCostByEligibleHabitat[choice.habitat];
+  if (eggCost === undefined) {
     return {
       code: "HABITAT_FULL",
       message: `Habitat ${choice.habitat} is full`,
     };
   }
 
+  // Validate egg payment matches the habitat's egg cost
+  const negativeEggs = findNegativeCount(choice.eggsToSpend);
+  if (negativeEggs) {
+    return {
+      code: "NEGATIVE_EGGS",
+      message: `Cannot spend ${negativeEggs[1]} egg(s) from bird "${negativeEggs[0]}"`,
+    };
+  }
+  const totalEggs = Object.values(choice.eggsToSpend).reduce(
+    (sum: number, count) => sum + (count || 0),
+    0
+  );
+  if (totalEggs !== eggCost) {
+    return {
+      code: "INVALID_EGG_COUNT",
+      message: `Playing a bird in ${choice.habitat} costs ${eggCost} egg(s), but you spent ${totalEggs}`,
+    };
+  }
+
+  const player = state.players.find((p) => p.id === prompt.playerId);
+  if (player) {
+    // Validate each bird has the eggs spent from it
+    const eggsOnBirds = player.board.getEggsOnBirds();
+    for (const [birdId, eggCount] of Object.entries(choice.eggsToSpend)) {
+      const available = eggsOnBirds[birdId] ?? 0;
+      if (eggCount && eggCount > available) {
+        return {
+          code: "EXCEEDS_AVAILABLE",
+          message: `Bird "${birdId}" only has ${available} egg(s), but you tried to spend ${eggCount}`,
+        };
+      }
+    }
+
+    // Validate food payment (including any 2-for-1 exchanges) against the
+    // player's supply and the bird's cost
+    const foodError = validateFoodPayment(
+      birdCard,
+      player.food,
+      choice.foodToSpend,
+      choice.foodExchanges
+    );
+    if (foodError) {
+      return foodError;
+    }
+  }
+
   return null;
 };
 
@@ -409,6 +594,14 @@ export const validateSelectBonusCardsChoice: ChoiceValidator<"selectBonusCards">
     }
   }
 
+  // Check for duplicates
+  if (new Set(choice.cards).size !== choice.cards.length) {
+    return {
+      code: "DUPLICATE_CARD",
+      message: "Cannot select the same bonus card multiple times",
+    };
+  }
+
   return null;
 };
 
@@ -430,6 +623,24 @@ export const validateSelectPlayerChoice: ChoiceValidator<"selectPlayer"> = (
   return null;
 };
 
+/**
+ * Validate repeatPower choice.
+ */
+export const validateRepeatPowerChoice: ChoiceValidator<"repeatPower"> = (
+  prompt: RepeatPowerPrompt,
+  choice: RepeatPowerChoice,
+  _state: GameState
+): ValidationError | null => {
+  // Validate bird is in eligible set
+  if (!prompt.eligibleBirds.includes(choice.bird)) {
+    return {
+      code: "INVALID_BIRD",
+      message: `Bird "${choice.bird}" has no power that can be repeated`,
+    };
+  }
+  return null;
+};
+
 /**
  * Validate selectHabitat choice.
  */
@@ -454,10 +665,8 @@ export const validateSelectHabitatChoice: ChoiceValidator<"selectHabitat"> = (
 export const validateDiscardFoodChoice: ChoiceValidator<"discardFood"> = (
   prompt: DiscardFoodPrompt,
   choice: DiscardFoodChoice,
-  _state: GameState
+  state: GameState
 ): ValidationError | null => {
-  // For now, just validate that food amounts are non-negative
-  // The actual cost validation depends on whether WILD is in the cost
   for (const [foodType, count] of Object.entries(choice.food)) {
     if (count !== undefined && count < 0) {
       return {
@@ -486,6 +695,34 @@ export const validateDiscardFoodChoice: ChoiceValidator<"discardFood"> = (
     };
   }
 
+  // Specific food in the cost must be discarded as is; WILD takes any food
+  for (const [foodType, count] of Object.entries(prompt.foodCost)) {
+    if (
+      foodType !== "WILD" &&
+      count &&
+      (choice.food[foodType as FoodType] ?? 0) < count
+    ) {
+      return {
+        code: "INVALID_FOOD_TYPE",
+        message: `Must discard ${count} ${foodType}`,
+      };
+    }
+  }
+
+  // Validate the player has the food being discarded
+  const player = state.players.find((p) => p.id === prompt.playerId);
+  if (player) {
+    for (const [foodType, count] of Object.entries(choice.food)) {
+      const available = player.food[foodType as FoodType] ?? 0;
+      if (count && count > available) {
+        return {
+          code: "INSUFFICIENT_FOOD",
+          message: `Cannot discard ${count} ${foodType}; only ${available} in supply`,
+        };
+      }
+    }
+  }
+
   return null;
 };
 
@@ -511,21 +748,24 @@ export const validateSelectFoodDestinationChoice: ChoiceValidator<"selectFoodDes
  * Registry of all validators by prompt kind.
  */
 export const validators: Partial<
-  Record<OptionChoice["kind"], ChoiceValidator<OptionChoice["kind"]>>
+  Record<DecisionChoice["kind"], ChoiceValidator<DecisionChoice["kind"]>>
 > = {
-  placeEggs: validatePlaceEggsChoice as ChoiceValidator<OptionChoice["kind"]>,
-  discardEggs: validateDiscardEggsChoice as ChoiceValidator<OptionChoice["kind"]>,
-  selectCards: validateSelectCardsChoice as ChoiceValidator<OptionChoice["kind"]>,
-  drawCards: validateDrawCardsChoice as ChoiceValidator<OptionChoice["kind"]>,
-  selectFoodFromFeeder: validateSelectFoodFromFeederChoice as ChoiceValidator<OptionChoice["kind"]>,
-  selectFoodFromSupply: validateSelectFoodFromSupplyChoice as ChoiceValidator<OptionChoice["kind"]>,
-  playBird: validatePlayBirdChoice as ChoiceValidator<OptionChoice["kind"]>,
-  activatePower: validateActivatePowerChoice as ChoiceValidator<OptionChoice["kind"]>,
-  selectBonusCards: validateSelectBonusCardsChoice as ChoiceValidator<OptionChoice["kind"]>,
-  selectPlayer: validateSelectPlayerChoice as ChoiceValidator<OptionChoice["kind"]>,
-  selectHabitat: validateSelectHabitatChoice as ChoiceValidator<OptionChoice["kind"]>,
-  discardFood: validateDiscardFoodChoice as ChoiceValidator<OptionChoice["kind"]>,
-  selectFoodDestination: validateSelectFoodDestinationChoice as ChoiceValidator<OptionChoice["kind"]>,
+  startingHand: validateStartingHandChoice as ChoiceValidator<DecisionChoice["kind"]>,
+  turnAction: validateTurnActionChoice as ChoiceValidator<DecisionChoice["kind"]>,
+  placeEggs: validatePlaceEggsChoice as ChoiceValidator<DecisionChoice["kind"]>,
+  discardEggs: validateDiscardEggsChoice as ChoiceValidator<DecisionChoice["kind"]>,
+  selectCards: validateSelectCardsChoice as ChoiceValidator<DecisionChoice["kind"]>,
+  drawCards: validateDrawCardsChoice as ChoiceValidator<DecisionChoice["kind"]>,
+  selectFoodFromFeeder: validateSelectFoodFromFeederChoice as ChoiceValidator<DecisionChoice["kind"]>,
+  selectFoodFromSupply: validateSelectFoodFromSupplyChoice as ChoiceValidator<DecisionChoice["kind"]>,
+  playBird: validatePlayBirdChoice as ChoiceValidator<DecisionChoice["kind"]>,
+  activatePower: validateActivatePowerChoice as ChoiceValidator<DecisionChoice["kind"]>,
+  selectBonusCards: validateSelectBonusCardsChoice as ChoiceValidator<DecisionChoice["kind"]>,
+  selectPlayer: validateSelectPlayerChoice as ChoiceValidator<DecisionChoice["kind"]>,
+  repeatPower: validateRepeatPowerChoice as ChoiceValidator<DecisionChoice["kind"]>,
+  selectHabitat: validateSelectHabitatChoice as ChoiceValidator<DecisionChoice["kind"]>,
+  discardFood: validateDiscardFoodChoice as ChoiceValidator<DecisionChoice["kind"]>,
+  selectFoodDestination: validateSelectFoodDestinationChoice as ChoiceValidator<DecisionChoice["kind"]>,
 };
 
 /**
@@ -533,14 +773,14 @@ export const validators: Partial<
  * Returns null if valid, or a ValidationError if invalid.
  */
 export function validateChoice(
-  prompt: OptionPrompt,
-  choice: OptionChoice,
+  prompt: DecisionPrompt,
+  choice: DecisionChoice,
   state: GameState
 ): ValidationError | null {
-  const validator = validators[prompt.kind as OptionChoice["kind"]];
+  const validator = validators[prompt.kind];
   if (!validator) {
     // No validator registered - assume valid
     return null;
   }
-  return validator(prompt as Extract<OptionPrompt, { kind: typeof prompt.kind }>, choice, state);
+  return validator(prompt as Extract<DecisionPrompt, { kind: typeof prompt.kind }>, choice, state);
 }
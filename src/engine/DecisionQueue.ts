@@ -0,0 +1,158 @@
+/**
+ * DecisionQueue - Parks engine prompts until an outside caller answers them.
+ *
+ * The engine's rules code awaits every decision as a promise. When a game is
+ * stepped with GameEngine.start()/submit(), those promises are parked here
+ * instead of being handed to a PlayerAgent, so the caller can pull one prompt
+ * at a time and push the choice back. Reprompts after an invalid choice (with
+ * previousError set) simply arrive as the next pending prompt.
+ */
+
+import type { PlayerId } from "../types/core.js";
+import type {
+  DecisionChoice,
+  DecisionPrompt,
+  OptionChoice,
+  StartingHandChoice,
+  TurnActionChoice,
+} from "../types/prompts.js";
+import type { PlayerAgent } from "../agents/PlayerAgent.js";
+import type { GameResult } from "./GameEngine.js";
+
+/**
+ * What a stepped game is waiting for: a decision, or nothing because the game
+ * is over.
+ */
+export type GameStep =
+  | { kind: "decision"; prompt: DecisionPrompt }
+  | { kind: "gameOver"; result: GameResult };
+
+interface PendingDecision {
+  prompt: DecisionPrompt;
+  resolve: (choice: DecisionChoice) => void;
+  reject: (error: unknown) => void;
+}
+
+type GameOutcome = { result: GameResult } | { error: unknown };
+
+/**
+ * Decisions a stepped game is waiting on, plus the game's eventual outcome.
+ */
+export class DecisionQueue {
+  private readonly pending: PendingDecision[] = [];
+  private outcome: GameOutcome | null = null;
+  private wake: (() => void) | null = null;
+
+  /**
+   * Park a prompt until the caller answers it.
+   * Called by the engine wherever it would otherwise ask an agent.
+   */
+  request(prompt: DecisionPrompt): Promise<DecisionChoice> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ prompt, resolve, reject });
+      this.notify();
+    });
+  }
+
+  /**
+   * Get a PlayerAgent that parks every prompt it receives in this queue,
+   * for engine code that expects an agent (e.g. ActionProcessor).
+   */
+  agentFor(playerId: PlayerId): PlayerAgent {
+    return {
+      playerId,
+      chooseStartingHand: (prompt) =>
+        this.request(prompt) as Promise<StartingHandChoice>,
+      chooseTurnAction: (prompt) =>
+        this.request(prompt) as Promise<TurnActionChoice>,
+      chooseOption: (prompt) => this.request(prompt) as Promise<OptionChoice>,
+    };
+  }
+
+  /**
+   * Follow the game run; once it settles, its result (or error) is the final
+   * step.
+   */
+  track(run: Promise<GameResult>): void {
+    run.then(
+      (result) => {
+        this.outcome = { result };
+        this.notify();
+      },
+      (error: unknown) => {
+        this.outcome = { error };
+        this.notify();
+      }
+    );
+  }
+
+  /**
+   * Get all prompts waiting for a choice, oldest first. More than one prompt
+   * is pending only while decisions are made simultaneously (starting hands).
+   */
+  getPendingPrompts(): DecisionPrompt[] {
+    return this.pending.map((decision) => decision.prompt);
+  }
+
+  /**
+   * Answer the oldest pending prompt.
+   * @returns The prompt answered
+   * @throws Error if no prompt is pending or the choice is for another prompt
+   */
+  resolve(choice: DecisionChoice): DecisionPrompt {
+    const decision = this.take(choice.promptId);
+    decision.resolve(choice);
+    return decision.prompt;
+  }
+
+  /**
+   * Fail the oldest pending prompt, as if the agent answering it had thrown.
+   * @throws Error if no prompt is pending or promptId names another prompt
+   */
+  reject(promptId: string, error: unknown): void {
+    this.take(promptId).reject(error);
+  }
+
+  /**
+   * Wait until a prompt is pending or the game has ended.
+   * Rejects with the engine's error if the game run failed.
+   */
+  next(): Promise<GameStep> {
+    return new Promise((resolve, reject) => {
+      const check = () => {
+        if (this.pending.length > 0) {
+          resolve({ kind: "decision", prompt: this.pending[0].prompt });
+        } else if (this.outcome && "result" in this.outcome) {
+          resolve({ kind: "gameOver", result: this.outcome.result });
+        } else if (this.outcome) {
+          reject(this.outcome.error);
+        } else {
+          this.wake = check;
+        }
+      };
+      check();
+    });
+  }
+
+  private take(promptId: string): PendingDecision {
+    const decision = this.pending[0];
+    if (!decision) {
+      throw new Error(
+        this.outcome ? "The game is over" : "No decision is pending"
+      );
+    }
+    if (decision.prompt.promptId !== promptId) {
+      throw new Error(
+        `Choice is for prompt "${promptId}", but the pending prompt is "${decision.prompt.promptId}"`
+      );
+    }
+    this.pending.shift();
+    return decision;
+  }
+
+  private notify(): void {
+    const wake = this.wake;
+    this.wake = null;
+    wake?.();
+  }
+}
@@ -148,6 +148,24 @@ describe("DiscardableDeck", () => {
     });
   });
 
+  describe("fromPiles()", () => {
+    it("restores deck and discard order without shuffling", () => {
+      const rng = new Rng(42);
+      const deck = DiscardableDeck.fromPiles([3, 1, 2], [5, 4], rng);
+
+      expect(deck.getDeckItems()).toEqual([3, 1, 2]);
+      expect(deck.getDiscardItems()).toEqual([5, 4]);
+      expect(deck.draw(3)).toEqual([3, 1, 2]);
+    });
+
+    it("reshuffles the restored discard pile with the given rng", () => {
+      const expected = new Rng(7).shuffle([5, 4]);
+      const deck = DiscardableDeck.fromPiles([], [5, 4], new Rng(7));
+
+      expect(deck.draw(2)).toEqual(expected);
+    });
+  });
+
   describe("generic type support", () => {
     it("works with string items", () => {
       const deck = new DiscardableDeck(["a", "b", "c"], new Rng(42));
@@ -15,6 +15,21 @@ export class DiscardableDeck<T> {
     this.discard = [];
   }
 
+  /**
+   * Create a deck with the given draw and discard piles, in order, without
+   * shuffling. Used to restore a saved game.
+   */
+  static fromPiles<T>(
+    deck: readonly T[],
+    discard: readonly T[],
+    rng: Rng
+  ): DiscardableDeck<T> {
+    const restored = new DiscardableDeck<T>([], rng);
+    restored.deck = [...deck];
+    restored.discard = [...discard];
+    return restored;
+  }
+
   /**
    * Draw items from the deck. If deck is empty, shuffles discard pile to create new deck.
    * Throws if both deck and discard are empty and items are needed.
@@ -63,4 +78,18 @@ export class DiscardableDeck<T> {
   getDiscardSize(): number {
     return this.discard.length;
   }
+
+  /**
+   * Get the items in the deck, in draw order.
+   */
+  getDeckItems(): readonly T[] {
+    return this.deck;
+  }
+
+  /**
+   * Get the items in the discard pile, oldest first.
+   */
+  getDiscardItems(): readonly T[] {
+    return this.discard;
+  }
 }
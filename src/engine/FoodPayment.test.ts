@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import {
+  FOOD_EXCHANGE_RATE,
+  getRequiredFoodExchanges,
+  validateFoodPayment,
+} from "./FoodPayment.js";
+import type { BirdCard } from "../types/core.js";
+
+// Helper to create a mock bird card
+function createMockBirdCard(overrides: Partial<BirdCard> = {}): BirdCard {
+  return {
+    id: "test_bird",
+    name: "Test Bird",
+    scientificName: "Testus birdus",
+    habitats: ["FOREST", "GRASSLAND", "WETLAND"],
+    power: null,
+    victoryPoints: 3,
+    nestType: "BOWL",
+    eggCapacity: 4,
+    foodCost: {},
+    foodCostMode: "NONE",
+    wingspanCentimeters: 30,
+    bonusCards: [],
+    flavorText: "",
+    countries: [],
+    categorization: null,
+    ...overrides,
+  };
+}
+
+const AND_BIRD = createMockBirdCard({
+  foodCost: { FISH: 1, WILD: 1 },
+  foodCostMode: "AND",
+});
+const OR_BIRD = createMockBirdCard({
+  foodCost: { INVERTEBRATE: 1, FRUIT: 1 },
+  foodCostMode: "OR",
+});
+
+describe("FoodPayment", () => {
+  it("exchanges 2 food for 1", () => {
+    expect(FOOD_EXCHANGE_RATE).toBe(2);
+  });
+
+  describe("getRequiredFoodExchanges()", () => {
+    it("returns 0 for birds without a food cost", () => {
+      expect(getRequiredFoodExchanges(createMockBirdCard(), {})).toBe(0);
+    });
+
+    it("returns 0 when the cost can be paid directly", () => {
+      expect(getRequiredFoodExchanges(AND_BIRD, { FISH: 1, SEED: 1 })).toBe(0);
+      expect(getRequiredFoodExchanges(OR_BIRD, { FRUIT: 1 })).toBe(0);
+    });
+
+    it("counts one exchange per missing specific food", () => {
+      const bird = createMockBirdCard({
+        foodCost: { FISH: 2, RODENT: 1 },
+        foodCostMode: "AND",
+      });
+      expect(
+        getRequiredFoodExchanges(bird, { FISH: 1, RODENT: 1, SEED: 2 })
+      ).toBe(1);
+      expect(getRequiredFoodExchanges(bird, { SEED: 6 })).toBe(3);
+    });
+
+    it("keeps enough leftover food for WILD costs", () => {
+      // 1 SEED pays WILD, leaving 2 to exchange for FISH
+      expect(getRequiredFoodExchanges(AND_BIRD, { SEED: 3 })).toBe(1);
+      expect(getRequiredFoodExchanges(AND_BIRD, { SEED: 2 })).toBeNull();
+    });
+
+    it("needs one exchange for an OR cost without any listed food", () => {
+      expect(getRequiredFoodExchanges(OR_BIRD, { SEED: 1, FISH: 1 })).toBe(1);
+      expect(getRequiredFoodExchanges(OR_BIRD, { SEED: 1 })).toBeNull();
+    });
+  });
+
+  describe("validateFoodPayment()", () => {
+    it("accepts a direct payment", () => {
+      expect(
+        validateFoodPayment(AND_BIRD, { FISH: 1, SEED: 1 }, { FISH: 1, SEED: 1 })
+      ).toBeNull();
+    });
+
+    it("accepts a payment using exchanges", () => {
+      expect(
+        validateFoodPayment(AND_BIRD, { SEED: 2, RODENT: 1 }, { RODENT: 1 }, [
+          { give: { SEED: 2 }, receive: "FISH" },
+        ])
+      ).toBeNull();
+    });
+
+    it("rejects a payment that does not cover the cost", () => {
+      expect(
+        validateFoodPayment(AND_BIRD, { FISH: 1, SEED: 1 }, { SEED: 1 })
+      ).toMatchObject({ code: "INVALID_FOOD_PAYMENT" });
+      expect(
+        validateFoodPayment(OR_BIRD, { SEED: 1 }, { SEED: 1 })
+      ).toMatchObject({ code: "INVALID_FOOD_PAYMENT" });
+    });
+
+    it("rejects paying more than the cost", () => {
+      expect(
+        validateFoodPayment(AND_BIRD, { FISH: 1, SEED: 2 }, { FISH: 1, SEED: 2 })
+      ).toMatchObject({ code: "INVALID_FOOD_PAYMENT" });
+      expect(
+        validateFoodPayment(OR_BIRD, { FRUIT: 1, INVERTEBRATE: 1 }, {
+          FRUIT: 1,
+          INVERTEBRATE: 1,
+        })
+      ).toMatchObject({ code: "INVALID_FOOD_PAYMENT" });
+    });
+
+    it("rejects spending more food than the supply holds", () => {
+      expect(
+        validateFoodPayment(OR_BIRD, { SEED: 1, FRUIT: 1 }, { FRUIT: 1 }, [
+          { give: { SEED: 2 }, receive: "INVERTEBRATE" },
+        ])
+      ).toMatchObject({ code: "INSUFFICIENT_FOOD" });
+    });
+
+    it("rejects exchanges that do not give exactly 2 food", () => {
+      expect(
+        validateFoodPayment(OR_BIRD, { SEED: 3 }, {}, [
+          { give: { SEED: 3 }, receive: "FRUIT" },
+        ])
+      ).toMatchObject({ code: "INVALID_FOOD_EXCHANGE" });
+    });
+
+    it("rejects exchanges for WILD", () => {
+      expect(
+        validateFoodPayment(AND_BIRD, { FISH: 1, SEED: 2 }, { FISH: 1 }, [
+          { give: { SEED: 2 }, receive: "WILD" },
+        ])
+      ).toMatchObject({ code: "INVALID_FOOD_EXCHANGE" });
+    });
+
+    it("rejects negative amounts", () => {
+      expect(
+        validateFoodPayment(OR_BIRD, { FRUIT: 1 }, { FRUIT: 2, SEED: -1 })
+      ).toMatchObject({ code: "NEGATIVE_FOOD" });
+    });
+  });
+});
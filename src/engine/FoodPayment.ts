@@ -0,0 +1,201 @@
+/**
+ * FoodPayment - Food cost checks for playing a bird.
+ *
+ * When playing a bird, a player may pay any 2 food tokens from their supply as
+ * 1 food of a type they need (the 2-for-1 exchange, see
+ * rules/base_game/07_food_system.md). These helpers decide whether a supply can
+ * cover a bird's cost and whether a proposed payment is valid.
+ */
+
+import type { BirdCard, FoodByType, FoodType } from "../types/core.js";
+import type { FoodExchange, ValidationError } from "../types/prompts.js";
+
+/**
+ * Number of food tokens given up for 1 food of a needed type.
+ */
+export const FOOD_EXCHANGE_RATE = 2;
+
+function sumFood(food: FoodByType): number {
+  return Object.values(food).reduce((sum, count) => sum + (count ?? 0), 0);
+}
+
+function addFood(target: FoodByType, food: FoodByType): void {
+  for (const [foodType, count] of Object.entries(food)) {
+    if (count) {
+      target[foodType as FoodType] = (target[foodType as FoodType] ?? 0) + count;
+    }
+  }
+}
+
+/**
+ * Food types listed in a bird's cost (excluding WILD), with their amounts.
+ */
+function getSpecificCosts(card: BirdCard): Array<[FoodType, number]> {
+  return Object.entries(card.foodCost)
+    .filter(([foodType, count]) => foodType !== "WILD" && (count ?? 0) > 0)
+    .map(([foodType, count]) => [foodType as FoodType, count!]);
+}
+
+/**
+ * Get the minimum number of 2-for-1 exchanges needed to pay a bird's food
+ * cost from the given supply.
+ * Returns 0 if the cost can be paid directly, or null if it can't be paid
+ * even with exchanges.
+ */
+export function getRequiredFoodExchanges(
+  card: BirdCard,
+  supply: FoodByType
+): number | null {
+  const totalFood = sumFood(supply);
+
+  if (card.foodCostMode === "NONE") {
+    return 0;
+  }
+
+  if (card.foodCostMode === "AND") {
+    // Pay as much of each specific cost as possible directly; every missing
+    // token must come from an exchange. WILD costs take any leftover token.
+    let paidDirectly = 0;
+    let shortfall = 0;
+    for (const [foodType, required] of getSpecificCosts(card)) {
+      const available = supply[foodType] ?? 0;
+      paidDirectly += Math.min(available, required);
+      shortfall += Math.max(0, required - available);
+    }
+    const wildRequired = card.foodCost.WILD ?? 0;
+    const leftover = totalFood - paidDirectly;
+    return leftover >= shortfall * FOOD_EXCHANGE_RATE + wildRequired
+      ? shortfall
+      : null;
+  }
+
+  if (card.foodCostMode === "OR") {
+    if (sumFood(card.foodCost) === 0) return 0;
+
+    // If WILD is in the cost, any food works
+    const wildRequired = card.foodCost.WILD ?? 0;
+    if (wildRequired > 0) {
+      return totalFood >= wildRequired ? 0 : null;
+    }
+
+    // Pick whichever listed food type needs the fewest exchanges
+    let best: number | null = null;
+    for (const [foodType, required] of getSpecificCosts(card)) {
+      const available = Math.min(supply[foodType] ?? 0, required);
+      const shortfall = required - available;
+      if (totalFood - available >= shortfall * FOOD_EXCHANGE_RATE) {
+        best = best === null ? shortfall : Math.min(best, shortfall);
+      }
+    }
+    return best;
+  }
+
+  return null;
+}
+
+/**
+ * Validate a bird's food payment against the player's supply.
+ *
+ * foodToSpend is paid toward the cost directly. Each exchange gives up
+ * exactly 2 tokens from the supply and pays 1 food of its receive type toward
+ * the cost. Together they must pay the cost exactly, without overpaying, and
+ * the supply must hold every token spent or given up.
+ */
+export function validateFoodPayment(
+  card: BirdCard,
+  supply: FoodByType,
+  foodToSpend: FoodByType,
+  foodExchanges: readonly FoodExchange[] = []
+): ValidationError | null {
+  for (const [foodType, count] of Object.entries(foodToSpend)) {
+    if (count !== undefined && count < 0) {
+      return {
+        code: "NEGATIVE_FOOD",
+        message: `Cannot spend negative amount of ${foodType}`,
+      };
+    }
+  }
+
+  const spentFromSupply: FoodByType = { ...foodToSpend };
+  const paidTowardCost: FoodByType = { ...foodToSpend };
+
+  for (const exchange of foodExchanges) {
+    const given = Object.values(exchange.give);
+    if (
+      given.some((count) => count !== undefined && count < 0) ||
+      sumFood(exchange.give) !== FOOD_EXCHANGE_RATE
+    ) {
+      return {
+        code: "INVALID_FOOD_EXCHANGE",
+        message: `Each food exchange must give exactly ${FOOD_EXCHANGE_RATE} food, but one gives ${sumFood(exchange.give)}`,
+      };
+    }
+    if (exchange.receive === "WILD") {
+      return {
+        code: "INVALID_FOOD_EXCHANGE",
+        message: "A food exchange must receive a specific food type, not WILD",
+      };
+    }
+    addFood(spentFromSupply, exchange.give);
+    addFood(paidTowardCost, { [exchange.receive]: 1 });
+  }
+
+  // The supply must hold every token being spent or exchanged
+  for (const [foodType, count] of Object.entries(spentFromSupply)) {
+    const available = supply[foodType as FoodType] ?? 0;
+    if (count && count > available) {
+      return {
+        code: "INSUFFICIENT_FOOD",
+        message: `Cannot spend ${count} ${foodType}; only ${available} in supply`,
+      };
+    }
+  }
+
+  if (!paymentMatchesCost(card, paidTowardCost)) {
+    return {
+      code: "INVALID_FOOD_PAYMENT",
+      message: `Food payment ${formatFood(paidTowardCost)} does not match the ${card.foodCostMode} cost ${formatFood(card.foodCost)} of "${card.name}"`,
+    };
+  }
+
+  return null;
+}
+
+function paymentMatchesCost(card: BirdCard, payment: FoodByType): boolean {
+  const totalPaid = sumFood(payment);
+
+  if (card.foodCostMode === "NONE") {
+    return totalPaid === 0;
+  }
+
+  if (card.foodCostMode === "AND") {
+    // Every specific cost is paid, and the rest goes to WILD
+    for (const [foodType, required] of getSpecificCosts(card)) {
+      if ((payment[foodType] ?? 0) < required) {
+        return false;
+      }
+    }
+    return totalPaid === sumFood(card.foodCost);
+  }
+
+  if (card.foodCostMode === "OR") {
+    // Exactly one of the options is paid
+    const wildRequired = card.foodCost.WILD ?? 0;
+    if (wildRequired > 0 && totalPaid === wildRequired) {
+      return true;
+    }
+    return getSpecificCosts(card).some(
+      ([foodType, required]) =>
+        totalPaid === required && payment[foodType] === required
+    );
+  }
+
+  return false;
+}
+
+function formatFood(food: FoodByType): string {
+  const parts = Object.entries(food)
+    .filter(([, count]) => count)
+    .map(([foodType, count]) => `${count} ${foodType}`);
+  return parts.length > 0 ? parts.join(", ") : "nothing";
+}
@@ -1,8 +1,11 @@
 import { describe, it, expect, vi } from "vitest";
-import { GameEngine } from "./GameEngine.js";
+import { GameEngine, type GameResult, type GameStep } from "./GameEngine.js";
 import { DataRegistry } from "../data/DataRegistry.js";
-import type { PlayerAgent } from "../agents/PlayerAgent.js";
+import type { GameForker, PlayerAgent } from "../agents/PlayerAgent.js";
+import { SmartRandomAgent } from "../agents/SmartRandomAgent.js";
 import type {
+  DecisionChoice,
+  DecisionPrompt,
   StartingHandPrompt,
   StartingHandChoice,
   TurnActionPrompt,
@@ -17,8 +20,11 @@ import type {
   DiscardEggsChoice,
   DiscardFoodChoice,
 } from "../types/prompts.js";
-import type { FoodType, DieFace } from "../types/core.js";
+import type { FoodType, DieFace, PlayerId } from "../types/core.js";
 import type { Event } from "../types/events.js";
+import type { Effect } from "../types/effects.js";
+import { GameState, type GameStateSnapshot } from "./GameState.js";
+import type { PlayerState } from "./PlayerState.js";
 
 /**
  * Creates a mock agent that makes deterministic choices for testing.
@@ -233,6 +239,22 @@ function createMockAgent(playerId: string): PlayerAgent {
   };
 }
 
+/**
+ * Answers a prompt with a mock agent from outside the engine, for driving
+ * games with start()/submit().
+ */
+function answer(prompt: DecisionPrompt): Promise<DecisionChoice> {
+  const agent = createMockAgent(prompt.playerId);
+  switch (prompt.kind) {
+    case "startingHand":
+      return agent.chooseStartingHand(prompt);
+    case "turnAction":
+      return agent.chooseTurnAction(prompt);
+    default:
+      return agent.chooseOption(prompt);
+  }
+}
+
 describe("GameEngine", () => {
   describe("setupGame()", () => {
     it("produces identical GameState with same seed", () => {
@@ -481,8 +503,8 @@ describe("GameEngine", () => {
       expect(result.scores).toHaveProperty("p2");
 
       // Should have a winner
-      expect(result.winnerId).toBeDefined();
-      expect(["p1", "p2"]).toContain(result.winnerId);
+      expect(result.winnerIds.length).toBeGreaterThan(0);
+      expect(["p1", "p2"]).toEqual(expect.arrayContaining(result.winnerIds));
 
       // Total turns should be (8+7+6+5) * 2 players = 52 turns
       expect(result.totalTurns).toBe(52);
@@ -508,7 +530,7 @@ describe("GameEngine", () => {
       const result1 = await engine1.playGame();
       const result2 = await engine2.playGame();
 
-      expect(result1.winnerId).toBe(result2.winnerId);
+      expect(result1.winnerIds).toEqual(result2.winnerIds);
       expect(result1.scores).toEqual(result2.scores);
       expect(result1.totalTurns).toBe(result2.totalTurns);
     });
@@ -550,6 +572,49 @@ describe("GameEngine", () => {
       expect(somethingDiffers).toBe(true);
     });
 
+    // Agents holding resources for the game (e.g. a subprocess) release them
+    it("tells every agent the result when the game ends", async () => {
+      const ended: unknown[] = [];
+      const agents = [createMockAgent("p1"), createMockAgent("p2")].map(
+        (agent) => ({
+          ...agent,
+          onGameEnd: async (result: GameResult | null) => {
+            ended.push(result);
+          },
+        })
+      );
+      const engine = new GameEngine({
+        agents,
+        seed: 12345,
+        registry: new DataRegistry(),
+      });
+
+      const result = await engine.playGame();
+
+      expect(ended).toEqual([result, result]);
+    });
+
+    it("tells every agent when the game fails", async () => {
+      const ended: unknown[] = [];
+      const failing = {
+        ...createMockAgent("p1"),
+        chooseStartingHand: async () => {
+          throw new Error("agent crashed");
+        },
+        onGameEnd: async (result: GameResult | null) => {
+          ended.push(result);
+        },
+      };
+      const engine = new GameEngine({
+        agents: [failing, createMockAgent("p2")],
+        seed: 12345,
+        registry: new DataRegistry(),
+      });
+
+      await expect(engine.playGame()).rejects.toThrow("agent crashed");
+      expect(ended).toEqual([null]);
+    });
+
     it("handles starting hand selection correctly", async () => {
       const registry = new DataRegistry();
       const config = {
@@ -600,6 +665,155 @@ describe("GameEngine", () => {
       }
     });
 
+    it("reports score breakdowns on the result and GAME_ENDED event", async () => {
+      const registry = new DataRegistry();
+      const engine = new GameEngine({
+        agents: [createMockAgent("p1"), createMockAgent("p2")],
+        seed: 12345,
+        registry,
+      });
+      const result = await engine.playGame();
+
+      for (const playerId of ["p1", "p2"]) {
+        expect(result.scoreBreakdowns[playerId].total).toBe(
+          result.scores[playerId]
+        );
+      }
+
+      const gameEnded = engine
+        .getEventHistory()
+        .find((e) => e.type === "GAME_ENDED");
+      expect(gameEnded).toMatchObject({
+        scoreBreakdowns: result.scoreBreakdowns,
+      });
+    });
+
+    it("scores the end-of-round goal before each ROUND_ENDED event", async () => {
+      const registry = new DataRegistry();
+      const engine = new GameEngine({
+        agents: [createMockAgent("p1"), createMockAgent("p2")],
+        seed: 12345,
+        registry,
+      });
+      await engine.playGame();
+
+      const state = engine.getGameState();
+      const events = engine.getEventHistory();
+      const goalEvents = events.filter((e) => e.type === "ROUND_GOAL_SCORED");
+
+      expect(goalEvents).toHaveLength(4);
+      goalEvents.forEach((event, index) => {
+        if (event.type !== "ROUND_GOAL_SCORED") return;
+        expect(event.round).toBe(index + 1);
+        expect(event.goalId).toBe(state.roundGoals[index]);
+        expect(Object.keys(event.points).sort()).toEqual(["p1", "p2"]);
+
+        // Goal scoring happens right before the round ends
+        const next = events[events.indexOf(event) + 1];
+        expect(next).toEqual({ type: "ROUND_ENDED", round: index + 1 });
+      });
+      expect(state.roundGoalResults).toHaveLength(4);
+    });
+
+    it("rotates the first player each round", async () => {
+      const registry = new DataRegistry();
+      const engine = new GameEngine({
+        agents: [
+          createMockAgent("p1"),
+          createMockAgent("p2"),
+          createMockAgent("p3"),
+        ],
+        seed: 12345,
+        registry,
+      });
+      await engine.playGame();
+
+      const events = engine.getEventHistory();
+      const firstTurnByRound: string[] = [];
+      events.forEach((event, index) => {
+        if (event.type !== "ROUND_STARTED") return;
+        const firstTurn = events
+          .slice(index)
+          .find((e) => e.type === "TURN_STARTED");
+        if (firstTurn?.type === "TURN_STARTED") {
+          firstTurnByRound.push(firstTurn.playerId);
+        }
+      });
+
+      expect(firstTurnByRound).toEqual(["p1", "p2", "p3", "p1"]);
+    });
+
+    it("discards and refills the bird tray at the end of each round", async () => {
+      const registry = new DataRegistry();
+      const engine = new GameEngine({
+        agents: [createMockAgent("p1"), createMockAgent("p2")],
+        seed: 12345,
+        registry,
+      });
+      const effects: Effect[] = [];
+      engine.addObserver({ onEffectApplied: (effect) => effects.push(effect) });
+
+      await engine.playGame();
+
+      const clears = effects.filter((e) => e.type === "CLEAR_BIRD_TRAY");
+      expect(clears).toHaveLength(4);
+      for (const clear of clears) {
+        if (clear.type !== "CLEAR_BIRD_TRAY") continue;
+        expect(clear.discardedCards).toHaveLength(3);
+        // The tray is refilled right after it is cleared
+        expect(effects[effects.indexOf(clear) + 1].type).toBe("REFILL_BIRD_TRAY");
+      }
+    });
+
+    it("scores round goals per item when using the blue goal board", async () => {
+      const registry = new DataRegistry();
+      const engine = new GameEngine({
+        agents: [createMockAgent("p1"), createMockAgent("p2")],
+        seed: 12345,
+        registry,
+        goalBoardSide: "blue",
+      });
+      await engine.playGame();
+
+      const results = engine.getGameState().roundGoalResults;
+      expect(results).toHaveLength(4);
+      for (const result of results) {
+        for (const [playerId, count] of Object.entries(result.counts)) {
+          expect(result.points[playerId]).toBe(Math.min(count, 5));
+        }
+      }
+    });
+
+    it("includes end-of-round goal points in final scores", () => {
+      const registry = new DataRegistry();
+      const engine = new GameEngine({
+        agents: [createMockAgent("p1"), createMockAgent("p2")],
+        seed: 12345,
+        registry,
+      });
+      const state = engine.getGameState();
+      state.players[0].bonusCards = [];
+      state.players[1].bonusCards = [];
+      state.roundGoalResults = [
+        {
+          round: 1,
+          goalId: "birds_in_forest",
+          counts: { p1: 2, p2: 1 },
+          points: { p1: 4, p2: 1 },
+        },
+        {
+          round: 2,
+          goalId: "birds_in_wetland",
+          counts: { p1: 0, p2: 3 },
+          points: { p1: 0, p2: 5 },
+        },
+      ];
+
+      const scores = engine.calculateFinalScores();
+
+      expect(scores).toEqual({ p1: 4, p2: 6 });
+    });
+
     it("supports games with 3-5 players", async () => {
       const registry = new DataRegistry();
 
@@ -624,6 +838,556 @@ describe("GameEngine", () => {
     });
   });
 
+  describe("fromSnapshot() / resumeGame()", () => {
+    // Play a full game, snapshotting the state when the given event fires
+    async function playAndSnapshot(
+      seed: number,
+      shouldSnapshot: (event: Event, count: number) => boolean
+    ) {
+      const registry = new DataRegistry();
+      const engine = new GameEngine({
+        agents: ["p1", "p2", "p3"].map(createMockAgent),
+        seed,
+        registry,
+      });
+      let snapshot: string | undefined;
+      let count = 0;
+      engine.addObserver({
+        onEventProcessing: (event) => {
+          if (snapshot === undefined && shouldSnapshot(event, ++count)) {
+            snapshot = JSON.stringify(engine.getGameState());
+          }
+        },
+      });
+      const result = await engine.playGame();
+      return { registry, result, snapshot: JSON.parse(snapshot!) };
+    }
+
+    function resume(registry: DataRegistry, snapshot: GameStateSnapshot) {
+      return GameEngine.fromSnapshot({
+        agents: ["p1", "p2", "p3"].map(createMockAgent),
+        registry,
+        snapshot,
+      });
+    }
+
+    it("restores the saved state", async () => {
+      const { registry, snapshot } = await playAndSnapshot(
+        11,
+        (event, count) => event.type === "TURN_ENDED" && count > 40
+      );
+
+      const engine = resume(registry, snapshot);
+
+      expect(engine.getGameState().toJSON()).toEqual(snapshot);
+    });
+
+    it("finishes a game resumed mid-round exactly as if uninterrupted", async () => {
+      let turnsEnded = 0;
+      const { registry, result, snapshot } = await playAndSnapshot(
+        21,
+        (event) => event.type === "TURN_ENDED" && ++turnsEnded === 10
+      );
+      expect(snapshot.round).toBe(1);
+
+      const engine = resume(registry, snapshot);
+      const resumed = await engine.resumeGame();
+
+      expect(resumed).toEqual(result);
+      const events = engine.getEventHistory();
+      expect(events[0]).toMatchObject({ type: "TURN_STARTED", turnNumber: 11 });
+    });
+
+    it("starts the next round when resumed after a round ended", async () => {
+      const { registry, result, snapshot } = await playAndSnapshot(
+        31,
+        (event) => event.type === "ROUND_ENDED" && event.round === 2
+      );
+
+      const engine = resume(registry, snapshot);
+      const resumed = await engine.resumeGame();
+
+      expect(resumed).toEqual(result);
+      expect(engine.getEventHistory()[0]).toEqual({
+        type: "ROUND_STARTED",
+        round: 3,
+      });
+    });
+
+    it("rebuilds a pending end-of-turn continuation from its descriptor", async () => {
+      const registry = new DataRegistry();
+      const engine = new GameEngine({
+        agents: ["p1", "p2", "p3"].map(createMockAgent),
+        seed: 41,
+        registry,
+      });
+      const state = engine.getGameState();
+      state.players[1].board.setSlot("WETLAND", 0, {
+        id: "p2_black_tern",
+        card: registry.getBirdById("black_tern"),
+        eggs: 0,
+        cachedFood: {},
+        tuckedCards: [],
+      });
+      const hand = registry.getAllBirds().slice(0, 3);
+      state.players[1].hand = [...hand];
+      // As left by Black Tern's power partway through p2's turn
+      state.endOfTurnContinuations.push({
+        playerId: "p2",
+        continuation: function* () {},
+        descriptor: {
+          handlerId: "discardCardsAtEndOfTurn",
+          birdInstanceId: "p2_black_tern",
+          params: { discardCount: 1 },
+        },
+      });
+      const snapshot = JSON.parse(JSON.stringify(state));
+
+      const restored = resume(registry, snapshot);
+      // The continuation is due when p2's next turn ends
+      let turnEnd:
+        | { pending: number; hand: string[]; discards: string[] }
+        | undefined;
+      restored.addObserver({
+        onEventProcessing: (event) => {
+          if (
+            turnEnd === undefined &&
+            event.type === "TURN_ENDED" &&
+            event.playerId === "p2"
+          ) {
+            const restoredState = restored.getGameState();
+            turnEnd = {
+              pending: restoredState.endOfTurnContinuations.length,
+              hand: restoredState.players[1].hand.map((c) => c.id),
+              discards: restoredState.birdCardSupply
+                .getDiscardCards()
+                .map((c) => c.id),
+            };
+          }
+        },
+      });
+      await restored.resumeGame();
+
+      // The mock agent only gains food, and discards the first card in hand
+      expect(turnEnd!.pending).toBe(0);
+      expect(turnEnd!.hand).toEqual(hand.slice(1).map((c) => c.id));
+      expect(turnEnd!.discards).toContain(hand[0].id);
+    });
+  });
+
+  describe("start() / submit()", () => {
+    function createEngine(seed: number) {
+      return new GameEngine({
+        agents: ["p1", "p2"].map(createMockAgent),
+        seed,
+        registry: new DataRegistry(),
+      });
+    }
+
+    it("returns every player's starting hand prompt first", async () => {
+      const engine = createEngine(5);
+
+      const step = await engine.start();
+
+      expect(step).toMatchObject({
+        kind: "decision",
+        prompt: { kind: "startingHand", playerId: "p1" },
+      });
+      expect(engine.getPendingPrompts().map((p) => p.playerId)).toEqual([
+        "p1",
+        "p2",
+      ]);
+    });
+
+    it("plays the same game as playGame() when stepped", async () => {
+      const expected = await createEngine(17).playGame();
+
+      const engine = createEngine(17);
+      let step = await engine.start();
+      let decisions = 0;
+      while (step.kind === "decision") {
+        step = await engine.submit(await answer(step.prompt));
+        decisions++;
+      }
+
+      expect(step.result).toEqual(expected);
+      expect(decisions).toBeGreaterThan(2);
+      expect(engine.getPendingPrompts()).toEqual([]);
+    });
+
+    it("reprompts with previousError after an invalid choice", async () => {
+      const engine = createEngine(23);
+      let step = await engine.start();
+      while (
+        step.kind === "decision" &&
+        step.prompt.kind !== "selectFoodFromFeeder"
+      ) {
+        step = await engine.submit(await answer(step.prompt));
+      }
+      expect(step.kind).toBe("decision");
+      const prompt = (step as { prompt: DecisionPrompt }).prompt;
+
+      const reprompt = await engine.submit({
+        promptId: prompt.promptId,
+        kind: "selectFoodFromFeeder",
+        diceOrReroll: [{ die: "NONEXISTENT_DIE" as DieFace }],
+      });
+
+      expect(reprompt).toMatchObject({
+        kind: "decision",
+        prompt: {
+          promptId: prompt.promptId,
+          kind: "selectFoodFromFeeder",
+          previousError: { code: expect.any(String) },
+        },
+      });
+    });
+
+    it("forfeits a player after repeated invalid choices", async () => {
+      const engine = createEngine(23);
+      let step = await engine.start();
+      while (step.kind === "decision") {
+        const { prompt } = step;
+        step = await engine.submit(
+          prompt.playerId === "p1" && prompt.kind === "selectFoodFromFeeder"
+            ? {
+                promptId: prompt.promptId,
+                kind: "selectFoodFromFeeder",
+                diceOrReroll: [{ die: "NONEXISTENT_DIE" as DieFace }],
+              }
+            : await answer(prompt)
+        );
+      }
+
+      expect(step.result.forfeitedPlayers).toEqual(["p1"]);
+      expect(step.result.winnerIds).toEqual(["p2"]);
+    });
+
+    it("rejects a choice for a prompt that is not pending", async () => {
+      const engine = createEngine(5);
+      await engine.start();
+
+      await expect(
+        engine.submit({
+          promptId: "prompt_999",
+          kind: "turnAction",
+          action: "GAIN_FOOD",
+          takeBonus: false,
+        })
+      ).rejects.toThrow(
+        'Choice is for prompt "prompt_999", but the pending prompt is "prompt_1"'
+      );
+    });
+
+    it("rejects submit() before start() and a second start()", async () => {
+      const engine = createEngine(5);
+      const choice: TurnActionChoice = {
+        promptId: "prompt_1",
+        kind: "turnAction",
+        action: "GAIN_FOOD",
+        takeBonus: false,
+      };
+
+      await expect(engine.submit(choice)).rejects.toThrow(
+        "Game has not been started: call start() or resume()"
+      );
+      await engine.start();
+      await expect(engine.start()).rejects.toThrow(
+        "Game has already been started"
+      );
+    });
+
+    it("propagates errors thrown by agents from playGame()", async () => {
+      const failing = createMockAgent("p2");
+      failing.chooseTurnAction = async () => {
+        throw new Error("agent crashed");
+      };
+      const engine = new GameEngine({
+        agents: [createMockAgent("p1"), failing],
+        seed: 5,
+        registry: new DataRegistry(),
+      });
+
+      await expect(engine.playGame()).rejects.toThrow("agent crashed");
+    });
+  });
+
+  describe("fork()", () => {
+    const registry = new DataRegistry();
+    const mockAgents = () => ["p1", "p2"].map(createMockAgent);
+
+    // Like the mock agent, but draws cards whenever it can
+    function createDrawingAgent(playerId: string): PlayerAgent {
+      const agent = createMockAgent(playerId);
+      return {
+        ...agent,
+        async chooseTurnAction(prompt) {
+          return prompt.eligibleActions.includes("DRAW_CARDS")
+            ? {
+                promptId: prompt.promptId,
+                kind: "turnAction",
+                action: "DRAW_CARDS",
+                takeBonus: false,
+              }
+            : agent.chooseTurnAction(prompt);
+        },
+      };
+    }
+
+    // Step a game until the turn action prompt of the given turn
+    async function stepToTurn(engine: GameEngine, turn: number) {
+      let step = await engine.start();
+      while (
+        step.kind === "decision" &&
+        !(step.prompt.kind === "turnAction" &&
+          engine.getGameState().turn === turn)
+      ) {
+        step = await engine.submit(await answer(step.prompt));
+      }
+      return step;
+    }
+
+    async function finish(engine: GameEngine, step: GameStep) {
+      while (step.kind === "decision") {
+        step = await engine.submit(await answer(step.prompt));
+      }
+      return step.result;
+    }
+
+    it("continues from a turn action prompt exactly like the original", async () => {
+      const expected = await new GameEngine({
+        agents: mockAgents(),
+        seed: 41,
+        registry,
+      }).playGame();
+
+      const engine = new GameEngine({ agents: mockAgents(), seed: 41, registry });
+      await stepToTurn(engine, 9);
+      const fork = await engine.fork(mockAgents());
+
+      expect(fork.getPendingPrompts()).toEqual(engine.getPendingPrompts());
+      expect(fork.getGameState().toJSON()).toEqual(
+        engine.getGameState().toJSON()
+      );
+      expect(await fork.finishGame()).toEqual(expected);
+    });
+
+    it("forks in the middle of a turn by replaying the turn so far", async () => {
+      const expected = await new GameEngine({
+        agents: mockAgents(),
+        seed: 41,
+        registry,
+      }).playGame();
+
+      const engine = new GameEngine({ agents: mockAgents(), seed: 41, registry });
+      let step = await stepToTurn(engine, 6);
+      while (
+        step.kind === "decision" &&
+        step.prompt.kind !== "selectFoodFromFeeder"
+      ) {
+        step = await engine.submit(await answer(step.prompt));
+      }
+      const fork = await engine.fork(mockAgents());
+
+      expect(fork.getPendingPrompts()).toEqual(engine.getPendingPrompts());
+      expect(fork.getGameState().toJSON()).toEqual(
+        engine.getGameState().toJSON()
+      );
+      expect(await fork.finishGame()).toEqual(expected);
+    });
+
+    it("plays forks independently of each other and the original", async () => {
+      const expected = await new GameEngine({
+        agents: mockAgents(),
+        seed: 43,
+        registry,
+      }).playGame();
+
+      const engine = new GameEngine({ agents: mockAgents(), seed: 43, registry });
+      const step = await stepToTurn(engine, 5);
+      const before = engine.getGameState().toJSON();
+
+      const same = await engine.fork(mockAgents());
+      const drawing = await engine.fork(["p1", "p2"].map(createDrawingAgent));
+      const sameResult = await same.finishGame();
+      await drawing.finishGame();
+
+      expect(engine.getGameState().toJSON()).toEqual(before);
+      expect(sameResult).toEqual(expected);
+      const handSize = (fork: GameEngine) =>
+        fork.getGameState().players[0].hand.length;
+      expect(handSize(drawing)).toBeGreaterThan(handSize(same));
+      expect(await finish(engine, step)).toEqual(expected);
+    });
+
+    it("forks a game that has not started", async () => {
+      const engine = new GameEngine({ agents: mockAgents(), seed: 47, registry });
+      const fork = await engine.fork(mockAgents());
+
+      expect(fork.getPendingPrompts().map((p) => p.kind)).toEqual([
+        "startingHand",
+        "startingHand",
+      ]);
+      expect(await fork.finishGame()).toEqual(await engine.playGame());
+    });
+
+    it("forks during starting hand selection", async () => {
+      const expected = await new GameEngine({
+        agents: mockAgents(),
+        seed: 47,
+        registry,
+      }).playGame();
+
+      const engine = new GameEngine({ agents: mockAgents(), seed: 47, registry });
+      const step = await engine.start();
+      if (step.kind !== "decision") throw new Error("expected a prompt");
+      await engine.submit(await answer(step.prompt));
+      const fork = await engine.fork(mockAgents());
+
+      expect(fork.getPendingPrompts()).toEqual(engine.getPendingPrompts());
+      expect(fork.getPendingPrompts()[0].playerId).toBe("p2");
+      expect(await fork.finishGame()).toEqual(expected);
+    });
+
+    it("re-randomizes hidden information for the viewer", async () => {
+      const engine = new GameEngine({ agents: mockAgents(), seed: 53, registry });
+      await stepToTurn(engine, 3);
+      const original = engine.getGameState();
+
+      const fork = await engine.fork(mockAgents(), {
+        hiddenInformation: { viewerId: "p1", seed: 7 },
+      });
+      const state = fork.getGameState();
+
+      expect(fork.getPendingPrompts()).toEqual(engine.getPendingPrompts());
+      expect(state.players[0].hand).toEqual(original.players[0].hand);
+      expect(state.players[0].board.toRecord()).toEqual(
+        original.players[0].board.toRecord()
+      );
+      expect(state.players[1].hand).toHaveLength(
+        original.players[1].hand.length
+      );
+      expect(state.birdCardSupply.getDeckCards()).not.toEqual(
+        original.birdCardSupply.getDeckCards()
+      );
+      expect(state.rng!.seed).toBe(7);
+
+      const result = await fork.finishGame();
+      expect(result.roundsPlayed).toBe(4);
+    });
+
+    it("keeps the fallback agent's choices and policy in a fork", async () => {
+      const agents = ["p1", "p2"].map(
+        (playerId, index) => new SmartRandomAgent(playerId, 10 + index)
+      );
+      const fallbackChoices = vi.fn();
+      const engine = new GameEngine({
+        agents,
+        seed: 10,
+        registry,
+        onInvalidChoice: "fallback",
+        maxAttempts: 1,
+        createFallbackAgent: (playerId) => {
+          const fallback = new SmartRandomAgent(playerId, 99);
+          return {
+            playerId,
+            chooseStartingHand: (prompt) => fallback.chooseStartingHand(prompt),
+            chooseTurnAction: (prompt) => fallback.chooseTurnAction(prompt),
+            chooseOption: (prompt) => {
+              fallbackChoices();
+              return fallback.chooseOption(prompt);
+            },
+          };
+        },
+      });
+      // Pick a die that isn't there on p1's first food choice after turn 2,
+      // which the fallback agent then makes mid-turn
+      let step = await engine.start();
+      let turn = 0;
+      while (step.kind === "decision") {
+        const { prompt } = step;
+        turn = engine.getGameState().turn;
+        if (
+          prompt.kind === "selectFoodFromFeeder" &&
+          prompt.playerId === "p1" &&
+          turn > 2
+        ) {
+          step = await engine.submit({
+            promptId: prompt.promptId,
+            kind: "selectFoodFromFeeder",
+            diceOrReroll: [{ die: "NONEXISTENT_DIE" as DieFace }],
+          });
+          break;
+        }
+        const agent = agents[prompt.playerId === "p1" ? 0 : 1];
+        step = await engine.submit(
+          prompt.kind === "startingHand"
+            ? await agent.chooseStartingHand(prompt)
+            : prompt.kind === "turnAction"
+              ? await agent.chooseTurnAction(prompt)
+              : await agent.chooseOption(prompt)
+        );
+      }
+      expect(fallbackChoices).toHaveBeenCalledTimes(1);
+      // Still p1's turn, so the fork replays it
+      expect(step.kind).toBe("decision");
+      expect(engine.getGameState().turn).toBe(turn);
+
+      const fork = await engine.fork(mockAgents());
+
+      expect(fallbackChoices).toHaveBeenCalledTimes(1);
+      expect(fork.getPendingPrompts()).toEqual(engine.getPendingPrompts());
+      expect(fork.getGameState().toJSON()).toEqual(
+        engine.getGameState().toJSON()
+      );
+    });
+
+    it("only keeps replay points in playGame() for agents that fork", async () => {
+      const clone = vi.spyOn(GameState.prototype, "clone");
+      try {
+        await new GameEngine({ agents: mockAgents(), seed: 61, registry }).playGame();
+        expect(clone).not.toHaveBeenCalled();
+
+        const forking: PlayerAgent = {
+          ...createMockAgent("p1"),
+          attachForker: () => {},
+        };
+        await new GameEngine({
+          agents: [forking, createMockAgent("p2")],
+          seed: 61,
+          registry,
+        }).playGame();
+        expect(clone).toHaveBeenCalled();
+      } finally {
+        clone.mockRestore();
+      }
+    });
+
+    it("gives agents a forker for their own point of view", async () => {
+      let forker: GameForker | undefined;
+      const p1: PlayerAgent = {
+        ...createMockAgent("p1"),
+        attachForker: (fork) => {
+          forker = fork;
+        },
+      };
+      const engine = new GameEngine({
+        agents: [p1, createMockAgent("p2")],
+        seed: 59,
+        registry,
+      });
+      await stepToTurn(engine, 2);
+
+      const fork = await forker!((playerId) => createMockAgent(playerId), 3);
+
+      expect(fork.getPendingPrompts()).toEqual(engine.getPendingPrompts());
+      expect(fork.getGameState().players[0].hand).toEqual(
+        engine.getGameState().players[0].hand
+      );
+      expect(fork.getGameState().rng!.seed).toBe(3);
+    });
+  });
+
   describe("scoring methods", () => {
     function createEngineWithPlayers(playerCount: number) {
       const registry = new DataRegistry();
@@ -770,6 +1534,156 @@ describe("GameEngine", () => {
         const scores = engine.calculateFinalScores();
         expect(scores["p1"]).toBe(15);
       });
+
+    describe("calculateScoreBreakdown()", () => {
+      it("itemises each score pad category", () => {
+        const engine = createEngineWithPlayers(2);
+        const state = engine.getGameState();
+        const player = state.players[0];
+
+        player.bonusCards = [];
+        player.board.setSlot(
+          "FOREST",
+          0,
+          createBirdInstance("acorn_woodpecker", 2, { SEED: 3 }, ["card1"])
+        );
+        player.board.setSlot("WETLAND", 0, createBirdInstance("acorn_woodpecker", 1));
+        state.roundGoalResults.push({
+          round: 1,
+          goalId: "birds_in_forest",
+          counts: { p1: 1, p2: 0 },
+          points: { p1: 4, p2: 0 },
+        });
+
+        expect(engine.calculateScoreBreakdown(player)).toEqual({
+          birdVictoryPoints: 10,
+          bonusCards: [],
+          roundGoals: 4,
+          eggs: 3,
+          cachedFood: 3,
+          tuckedCards: 1,
+          total: 21,
+        });
+      });
+
+      it("lists each bonus card's points individually", () => {
+        const engine = createEngineWithPlayers(2);
+        const state = engine.getGameState();
+        const registry = new DataRegistry();
+        const player = state.players[0];
+
+        const cavityBirds = registry
+          .getAllBirds()
+          .filter((b) => b.bonusCards.includes("nest_box_builder"));
+        for (let i = 0; i < 4; i++) {
+          player.board.setSlot("FOREST", i, createBirdInstance(cavityBirds[i].id));
+        }
+        player.bonusCards = [
+          registry.getBonusCardById("nest_box_builder")!,
+          registry.getBonusCardById("bird_counter")!,
+        ];
+
+        const breakdown = engine.calculateScoreBreakdown(player);
+
+        expect(breakdown.bonusCards).toEqual([
+          {
+            bonusCardId: "nest_box_builder",
+            points: engine.calculateBonusCardScore(player, player.bonusCards[0]),
+          },
+          {
+            bonusCardId: "bird_counter",
+            points: engine.calculateBonusCardScore(player, player.bonusCards[1]),
+          },
+        ]);
+        expect(breakdown.bonusCards[0].points).toBe(4);
+      });
+
+      it("totals match calculateFinalScores()", () => {
+        const engine = createEngineWithPlayers(2);
+        const state = engine.getGameState();
+        state.players[1].board.setSlot("GRASSLAND", 0, createBirdInstance("acorn_woodpecker", 2));
+
+        const breakdowns = engine.calculateScoreBreakdowns();
+        const scores = engine.calculateFinalScores();
+
+        expect(breakdowns["p1"].total).toBe(scores["p1"]);
+        expect(breakdowns["p2"].total).toBe(scores["p2"]);
+      });
+    });
+
+    // Winners are decided when the game is scored, so these play out the
+    // final scoring of a game restored after its last round: empty boards
+    // and no bonus cards, so each player scores only the round goal points
+    // given here
+    describe("winners and tiebreak", () => {
+      async function scoreGame(
+        points: Record<PlayerId, number>,
+        setUp: (players: PlayerState[]) => void = () => {}
+      ) {
+        const engine = createEngineWithPlayers(Object.keys(points).length);
+        const state = engine.getGameState();
+        for (const player of state.players) {
+          player.bonusCards = [];
+          player.food = {};
+        }
+        setUp(state.players);
+        state.round = 4;
+        state.roundGoalResults.push({
+          round: 4,
+          goalId: state.roundGoals[3],
+          counts: {},
+          points,
+        });
+
+        return GameEngine.fromSnapshot({
+          agents: state.players.map((p) => createMockAgent(p.id)),
+          registry: new DataRegistry(),
+          snapshot: JSON.parse(JSON.stringify(state)),
+        }).resumeGame();
+      }
+
+      it("declares the single highest scorer without a tiebreak", async () => {
+        const result = await scoreGame({ p1: 30, p2: 42, p3: 35 });
+
+        expect(result.winnerIds).toEqual(["p2"]);
+        expect(result).not.toHaveProperty("tiebreak");
+      });
+
+      it("breaks a score tie by most unused food", async () => {
+        const result = await scoreGame({ p1: 40, p2: 40, p3: 35 }, (players) => {
+          players[0].food = { SEED: 1 };
+          players[1].food = { FISH: 2, RODENT: 1 };
+          players[2].food = { SEED: 5 };
+        });
+
+        expect(result.winnerIds).toEqual(["p2"]);
+        expect(result.tiebreak).toEqual({
+          tiedPlayerIds: ["p1", "p2"],
+          unusedFood: { p1: 1, p2: 3 },
+        });
+      });
+
+      it("shares the victory when still tied on unused food", async () => {
+        const result = await scoreGame({ p1: 40, p2: 40, p3: 40 }, (players) => {
+          players[0].food = { SEED: 2 };
+          players[1].food = { FRUIT: 1 };
+          players[2].food = { FISH: 1, RODENT: 1 };
+        });
+
+        expect(result.winnerIds).toEqual(["p1", "p3"]);
+        expect(result.tiebreak?.tiedPlayerIds).toEqual(["p1", "p2", "p3"]);
+      });
+
+      it("ignores forfeited players", async () => {
+        const result = await scoreGame({ p1: 50, p2: 10 }, (players) => {
+          players[0].forfeited = true;
+        });
+
+        expect(result.winnerIds).toEqual(["p2"]);
+        expect(result.forfeitedPlayers).toEqual(["p1"]);
+        expect(result).not.toHaveProperty("tiebreak");
+      });
+    });
     });
 
     describe("calculateBonusCardScore()", () => {
@@ -2363,6 +3277,38 @@ describe("GameEngine", () => {
       });
     });
 
+    describe("applyClearBirdTray()", () => {
+      it("discards the tray and records the discarded cards", () => {
+        const { engine, state } = createTestEngine();
+        const trayIds = state.birdCardSupply.getTray().map((c) => c!.id);
+
+        const effect: Parameters<typeof engine.applyClearBirdTray>[0] = {
+          type: "CLEAR_BIRD_TRAY",
+        };
+        engine.applyClearBirdTray(effect);
+
+        expect(effect.discardedCards).toEqual(trayIds);
+        expect(state.birdCardSupply.getTray()).toEqual([null, null, null]);
+      });
+    });
+
+    describe("applyRotateFirstPlayer()", () => {
+      it("passes the first-player token clockwise and wraps around", () => {
+        const { engine, state } = createTestEngine();
+        expect(state.firstPlayerIndex).toBe(0);
+
+        const effect: Parameters<typeof engine.applyRotateFirstPlayer>[0] = {
+          type: "ROTATE_FIRST_PLAYER",
+        };
+        engine.applyRotateFirstPlayer(effect);
+        expect(state.firstPlayerIndex).toBe(1);
+        expect(effect.newFirstPlayerId).toBe("p2");
+
+        engine.applyRotateFirstPlayer({ type: "ROTATE_FIRST_PLAYER" });
+        expect(state.firstPlayerIndex).toBe(0);
+      });
+    });
+
     describe("applyRemoveCardsFromTray()", () => {
       it("removes cards from the tray", () => {
         const { engine, state } = createTestEngine();
@@ -3036,7 +3982,7 @@ describe("GameEngine", () => {
       expect(result.forfeitedPlayers).toContain("p1");
 
       // p2 should be the winner (not the forfeiting player)
-      expect(result.winnerId).toBe("p2");
+      expect(result.winnerIds).toEqual(["p2"]);
     });
 
     it("emits PLAYER_FORFEITED event when player forfeits", async () => {
@@ -3102,7 +4048,7 @@ describe("GameEngine", () => {
       expect(result.roundsPlayed).toBe(4);
 
       // Winner should be one of the non-forfeiting players
-      expect(["p2", "p3"]).toContain(result.winnerId);
+      expect(["p2", "p3"]).toEqual(expect.arrayContaining(result.winnerIds));
 
       // Both remaining players should have scores
       expect(result.scores).toHaveProperty("p2");
@@ -3152,8 +4098,202 @@ describe("GameEngine", () => {
       const result = await engine.playGame();
 
       // Winner must not be the forfeiting player
-      expect(result.winnerId).not.toBe("p1");
-      expect(result.winnerId).toBe("p2");
+      expect(result.winnerIds).not.toContain("p1");
+      expect(result.winnerIds).toEqual(["p2"]);
+    });
+
+    it("lets the fallback agent answer after repeated invalid choices", async () => {
+      const invalidChoices = vi.fn();
+      const forfeiting = createForfeitingAgent("p1");
+      const engine = new GameEngine({
+        agents: [
+          {
+            ...forfeiting,
+            chooseOption: (prompt) => {
+              invalidChoices();
+              return forfeiting.chooseOption(prompt);
+            },
+          },
+          createMockAgent("p2"),
+        ],
+        seed: 12345,
+        registry: new DataRegistry(),
+        onInvalidChoice: "fallback",
+        createFallbackAgent: createMockAgent,
+        maxAttempts: 2,
+      });
+
+      const result = await engine.playGame();
+
+      expect(result.forfeitedPlayers).toBeUndefined();
+      expect(result.roundsPlayed).toBe(4);
+      const substitutions = engine
+        .getEventHistory()
+        .filter((e: Event) => e.type === "AGENT_SUBSTITUTED");
+      expect(substitutions[0]).toMatchObject({
+        playerId: "p1",
+        reason: "invalidChoices",
+      });
+      expect(result.substitutions).toEqual({ p1: substitutions.length });
+      // Two invalid choices on each prompt before the fallback agent answers
+      expect(invalidChoices).toHaveBeenCalledTimes(2 * substitutions.length);
+    });
+
+    it("needs a fallback agent for the fallback policy", () => {
+      expect(
+        () =>
+          new GameEngine({
+            agents: [createMockAgent("p1"), createMockAgent("p2")],
+            seed: 12345,
+            registry: new DataRegistry(),
+            onInvalidChoice: "fallback",
+          })
+      ).toThrow('The "fallback" invalid choice policy needs a fallback agent');
+    });
+  });
+
+  describe("time budgets", () => {
+    const registry = new DataRegistry();
+
+    /** An agent that never answers prompts of the given kind */
+    function createHungAgent(
+      playerId: string,
+      kind: "startingHand" | "turnAction"
+    ): PlayerAgent {
+      const hang = () => new Promise<never>(() => {});
+      const agent = createMockAgent(playerId);
+      return kind === "startingHand"
+        ? { ...agent, chooseStartingHand: hang }
+        : { ...agent, chooseTurnAction: hang };
+    }
+
+    it("records how long each agent takes only when asked to", async () => {
+      const play = (recordTimings: boolean) =>
+        new GameEngine({
+          agents: [createMockAgent("p1"), createMockAgent("p2")],
+          seed: 12345,
+          registry,
+          recordTimings,
+        }).playGame();
+
+      const result = await play(true);
+
+      expect(Object.keys(result.timings!)).toEqual(["p1", "p2"]);
+      for (const timing of Object.values(result.timings!)) {
+        // One starting hand plus at least one decision per turn
+        expect(timing.decisions).toBeGreaterThan(result.totalTurns / 2);
+        expect(timing.totalMs).toBeGreaterThanOrEqual(timing.maxMs);
+        expect(timing.timeouts).toBe(0);
+      }
+      expect((await play(false)).timings).toBeUndefined();
+    });
+
+    it("forfeits a player who runs out of time", async () => {
+      const engine = new GameEngine({
+        agents: [createHungAgent("p1", "turnAction"), createMockAgent("p2")],
+        seed: 12345,
+        registry,
+        timeBudget: { perDecisionMs: 20 },
+      });
+
+      const result = await engine.playGame();
+
+      expect(result.forfeitedPlayers).toEqual(["p1"]);
+      expect(result.winnerIds).toEqual(["p2"]);
+      expect(result.timings!.p1.timeouts).toBe(1);
+      expect(engine.getEventHistory()).toContainEqual(
+        expect.objectContaining({
+          type: "PLAYER_FORFEITED",
+          playerId: "p1",
+          reason: "No choice within 20ms",
+        })
+      );
+    });
+
+    it("forfeits a player who runs out of time choosing a starting hand", async () => {
+      const result = await new GameEngine({
+        agents: [
+          createHungAgent("p1", "startingHand"),
+          createMockAgent("p2"),
+          createMockAgent("p3"),
+        ],
+        seed: 12345,
+        registry,
+        timeBudget: { perDecisionMs: 20 },
+      }).playGame();
+
+      expect(result.forfeitedPlayers).toEqual(["p1"]);
+      expect(result.roundsPlayed).toBe(4);
+      expect(result.timings!.p1).toMatchObject({ decisions: 1, timeouts: 1 });
+    });
+
+    it("lets the fallback agent answer for a player who runs out of time", async () => {
+      const fallbackFor: string[] = [];
+      const engine = new GameEngine({
+        agents: [createHungAgent("p1", "turnAction"), createMockAgent("p2")],
+        seed: 12345,
+        registry,
+        timeBudget: { perDecisionMs: 20, onTimeout: "fallback" },
+        createFallbackAgent: (playerId) => {
+          fallbackFor.push(playerId);
+          return createMockAgent(playerId);
+        },
+      });
+
+      const result = await engine.playGame();
+
+      expect(result.forfeitedPlayers).toBeUndefined();
+      expect(result.roundsPlayed).toBe(4);
+      // Every turn of p1's timed out, and one fallback agent answered them all
+      expect(result.timings!.p1.timeouts).toBe(26);
+      expect(result.substitutions).toEqual({ p1: 26 });
+      expect(fallbackFor).toEqual(["p1"]);
+      expect(engine.getEventHistory()).toContainEqual(
+        expect.objectContaining({
+          type: "AGENT_SUBSTITUTED",
+          reason: "timeout",
+          message: "No choice within 20ms",
+        })
+      );
+    });
+
+    // Once the game budget is spent the agent is no longer asked at all
+    it("stops asking an agent that has spent its game budget", async () => {
+      const slow = createMockAgent("p1");
+      const slowAgent: PlayerAgent = {
+        ...slow,
+        chooseTurnAction: async (prompt) => {
+          await new Promise((resolve) => setTimeout(resolve, 30));
+          return slow.chooseTurnAction(prompt);
+        },
+      };
+
+      const result = await new GameEngine({
+        agents: [slowAgent, createMockAgent("p2")],
+        seed: 12345,
+        registry,
+        timeBudget: { perGameMs: 100, onTimeout: "fallback" },
+        createFallbackAgent: createMockAgent,
+      }).playGame();
+
+      // A full game asks p1 for over 50 decisions (at least 2 per turn)
+      const timing = result.timings!.p1;
+      expect(timing.totalMs).toBeLessThan(250);
+      expect(timing.decisions).toBeLessThan(20);
+      expect(timing.timeouts).toBeGreaterThan(30);
+      expect(result.forfeitedPlayers).toBeUndefined();
+    });
+
+    it("needs a fallback agent for the fallback policy", () => {
+      expect(
+        () =>
+          new GameEngine({
+            agents: [createMockAgent("p1"), createMockAgent("p2")],
+            seed: 12345,
+            registry,
+            timeBudget: { perDecisionMs: 20, onTimeout: "fallback" },
+          })
+      ).toThrow('The "fallback" timeout policy needs a fallback agent');
     });
   });
 });
@@ -12,11 +12,30 @@ import {
 import type { HandlerType } from "../sim/HandlerCoverageTracker.js";
 import { buildPlayerView } from "./ViewBuilder.js";
 import type { PlayerAgent } from "../agents/PlayerAgent.js";
-import { GameState, DeferredContinuationEntry } from "./GameState.js";
-export { GameState, DeferredContinuationEntry } from "./GameState.js";
+import { DecisionQueue, type GameStep } from "./DecisionQueue.js";
+export type { GameStep } from "./DecisionQueue.js";
+import {
+  AgentClock,
+  type AgentTimeBudget,
+  type AgentTiming,
+  type FallbackAgentFactory,
+} from "./AgentClock.js";
+export type {
+  AgentTimeBudget,
+  AgentTiming,
+  FallbackAgentFactory,
+  TimeoutPolicy,
+} from "./AgentClock.js";
+import {
+  GameState,
+  DeferredContinuationEntry,
+  type GameStateSnapshot,
+} from "./GameState.js";
+export { GameState, type DeferredContinuationEntry } from "./GameState.js";
 import { PlayerState } from "./PlayerState.js";
 import { PlayerBoard } from "./PlayerBoard.js";
-import { AgentForfeitError } from "./errors.js";
+import { AgentForfeitError, AgentTimeoutError } from "./errors.js";
+import { scoreRoundGoal } from "./RoundGoalScorer.js";
 import type {
   BirdCard,
   BirdInstance,
@@ -25,32 +44,44 @@ import type {
   DieFace,
   FoodByType,
   FoodType,
+  GameTiebreak,
+  GoalBoardSide,
   Habitat,
   PlayerId,
   RoundGoalId,
+  ScoreBreakdown,
 } from "../types/core.js";
 import type {
   Event,
   HabitatActivatedEvent,
   PinkPowerTriggerEvent,
   BirdPlayedEvent,
+  SubstitutionReason,
 } from "../types/events.js";
 import type { Effect } from "../types/effects.js";
 import type {
   ActionExecutionContext,
+  DeferredContinuationDescriptor,
   PowerYield,
   PowerReceive,
 } from "../types/power.js";
 import type {
+  DecisionChoice,
+  DecisionPrompt,
+  OptionChoice,
+  OptionPrompt,
   PromptContext,
   PromptId,
   RewardsByAction,
+  StartingHandChoice,
   StartingHandPrompt,
+  TurnActionChoice,
   TurnActionKind,
   TurnActionPrompt,
   Resource,
+  ValidationError,
 } from "../types/prompts.js";
-import type { GameObserver } from "./GameObserver.js";
+import type { DecisionOutcome, GameObserver } from "./GameObserver.js";
 
 const HABITATS: Habitat[] = ["FOREST", "GRASSLAND", "WETLAND"];
 const HABITAT_SIZE = 5;
@@ -59,24 +90,83 @@ const INITIAL_BONUS_CARDS_DEALT = 2;
 const INITIAL_TURNS_PER_ROUND = 8;
 const ROUND_GOALS_COUNT = 4;
 const TOTAL_ROUNDS = 4;
-const TURNS_BY_ROUND = [8, 7, 6, 5];
+
+/**
+ * Turns (action cubes) each player takes per round, indexed by round - 1.
+ */
+export const TURNS_BY_ROUND: readonly number[] = [8, 7, 6, 5];
 
 /**
  * Result of a completed game.
  */
 export interface GameResult {
-  winnerId: PlayerId;
+  /**
+   * Players sharing the victory. Usually one player; more than one only when
+   * players remain tied after the unused-food tiebreaker.
+   */
+  winnerIds: PlayerId[];
+  /** How a tie for the highest score was broken (only present if there was one) */
+  tiebreak?: GameTiebreak;
   scores: Record<PlayerId, number>;
+  /** Itemised score sheet for each player; totals match scores */
+  scoreBreakdowns: Record<PlayerId, ScoreBreakdown>;
   roundsPlayed: number;
   totalTurns: number;
   /** Players who forfeited during the game (if any) */
   forfeitedPlayers?: PlayerId[];
+  /**
+   * How long each player's agent spent deciding (only present if timings were
+   * recorded, see GameEngineConfig.recordTimings). A resumed game counts only
+   * the decisions made since it was resumed.
+   */
+  timings?: Record<PlayerId, AgentTiming>;
+  /**
+   * Prompts each player's fallback agent answered in their place (only
+   * present if there were any, see AgentSubstitutedEvent)
+   */
+  substitutions?: Record<PlayerId, number>;
+}
+
+/**
+ * What happens when a player keeps making invalid choices on a prompt:
+ * - "forfeit": the player forfeits (AgentForfeitError)
+ * - "fallback": the player's fallback agent answers the prompt instead
+ */
+export type InvalidChoicePolicy = "forfeit" | "fallback";
+
+/**
+ * How the engine times agents and what it does when they run out of time or
+ * keep making invalid choices. Shared by every way of creating an engine.
+ */
+export interface AgentPolicyConfig {
+  /**
+   * Optional limits on how long agents may take to decide. Agents that run
+   * out of time forfeit, or are stood in for by the fallback agent.
+   */
+  timeBudget?: AgentTimeBudget;
+  /**
+   * Record how long each player's agent takes to decide in GameResult.timings.
+   * Always on when a timeBudget is set.
+   */
+  recordTimings?: boolean;
+  /**
+   * Creates the agent that answers for a player whose agent ran out of time
+   * or kept making invalid choices (see timeBudget and onInvalidChoice).
+   */
+  createFallbackAgent?: FallbackAgentFactory;
+  /**
+   * What happens when a player makes maxAttempts invalid choices on a prompt:
+   * they forfeit (the default), or their fallback agent answers it instead.
+   */
+  onInvalidChoice?: InvalidChoicePolicy;
+  /** Invalid choices allowed on one prompt (default 3) */
+  maxAttempts?: number;
 }
 
 /**
  * Configuration for creating a GameEngine instance.
  */
-export interface GameEngineConfig {
+export interface GameEngineConfig extends AgentPolicyConfig {
   agents: PlayerAgent[];
   seed: number;
   registry: DataRegistry;
@@ -85,13 +175,18 @@ export interface GameEngineConfig {
    * Used by the Simulator for coverage tracking.
    */
   onHandlerInvoked?: (handlerId: string, type: HandlerType) => void;
+  /**
+   * Which side of the goal board to score end-of-round goals with.
+   * Defaults to "green" (competitive ranking).
+   */
+  goalBoardSide?: GoalBoardSide;
 }
 
 /**
  * Configuration for creating a GameEngine from a pre-built GameState.
  * Used by the ScenarioRunner for integration testing.
  */
-export interface GameEngineFromStateConfig {
+export interface GameEngineFromStateConfig extends AgentPolicyConfig {
   agents: PlayerAgent[];
   seed: number;
   registry: DataRegistry;
@@ -101,21 +196,190 @@ export interface GameEngineFromStateConfig {
    * Used by the Simulator for coverage tracking.
    */
   onHandlerInvoked?: (handlerId: string, type: HandlerType) => void;
+  /**
+   * Which side of the goal board to score end-of-round goals with.
+   * Defaults to "green" (competitive ranking).
+   */
+  goalBoardSide?: GoalBoardSide;
+}
+
+/**
+ * Configuration for creating a GameEngine from a saved GameStateSnapshot.
+ * The seed is taken from the snapshot's Rng state.
+ */
+export interface GameEngineFromSnapshotConfig extends AgentPolicyConfig {
+  agents: PlayerAgent[];
+  registry: DataRegistry;
+  snapshot: GameStateSnapshot;
+  /**
+   * Optional callback invoked when a handler is successfully executed.
+   * Used by the Simulator for coverage tracking.
+   */
+  onHandlerInvoked?: (handlerId: string, type: HandlerType) => void;
+  /**
+   * Which side of the goal board to score end-of-round goals with.
+   * Defaults to "green" (competitive ranking).
+   */
+  goalBoardSide?: GoalBoardSide;
+}
+
+/**
+ * Where forks of a game in progress replay from: the state at the start of
+ * the current turn (or of starting hand selection) and every choice
+ * submitted since.
+ */
+interface ForkCheckpoint {
+  state: GameState;
+  promptCounter: number;
+  /** Whether the fork must call start() (starting hands) rather than resume() */
+  beforeStartingHands: boolean;
+  choices: DecisionChoice[];
+  /**
+   * Choices fallback agents made for players out of invalid choices, in
+   * order. The fork reuses them rather than asking its own fallback agents.
+   */
+  substitutions: OptionChoice[];
+}
+
+/**
+ * Options for GameEngine.fork().
+ */
+export interface GameEngineForkOptions {
+  /**
+   * Re-randomize what this player cannot see (see
+   * GameState.randomizeHiddenInformation) once the fork has reached the
+   * original's decision point, and give the fork a fresh Rng seeded with
+   * `seed`, so its dice rolls and reshuffles don't reveal the real game's
+   * either. Without this the fork knows everything the original does,
+   * including its future random sequence.
+   */
+  hiddenInformation?: { viewerId: PlayerId; seed: number };
+}
+
+/**
+ * Check that a fallback agent is configured for every policy that needs one.
+ * @throws Error naming the policy that lacks a fallback agent
+ */
+function checkFallbackPolicies(config: AgentPolicyConfig): void {
+  if (config.createFallbackAgent) {
+    return;
+  }
+  const policies = [
+    config.timeBudget?.onTimeout === "fallback" && "timeout",
+    config.onInvalidChoice === "fallback" && "invalid choice",
+  ];
+  for (const policy of policies) {
+    if (policy) {
+      throw new Error(
+        `The "fallback" ${policy} policy needs a fallback agent (createFallbackAgent)`
+      );
+    }
+  }
+}
+
+/**
+ * Copy just the agent policy settings out of an engine config.
+ */
+function pickAgentPolicy(config: AgentPolicyConfig): AgentPolicyConfig {
+  const {
+    timeBudget,
+    recordTimings,
+    createFallbackAgent,
+    onInvalidChoice,
+    maxAttempts,
+  } = config;
+  return {
+    timeBudget,
+    recordTimings,
+    createFallbackAgent,
+    onInvalidChoice,
+    maxAttempts,
+  };
+}
+
+/**
+ * Call the agent method that answers a prompt of the given kind.
+ */
+function callAgent(
+  agent: PlayerAgent,
+  prompt: DecisionPrompt
+): Promise<DecisionChoice> {
+  switch (prompt.kind) {
+    case "startingHand":
+      return agent.chooseStartingHand(prompt);
+    case "turnAction":
+      return agent.chooseTurnAction(prompt);
+    default:
+      return agent.chooseOption(prompt);
+  }
+}
+
+/**
+ * Get each player's final score from their score sheet.
+ */
+function scoreTotals(
+  breakdowns: Record<PlayerId, ScoreBreakdown>
+): Record<PlayerId, number> {
+  const scores: Record<PlayerId, number> = {};
+  for (const [playerId, breakdown] of Object.entries(breakdowns)) {
+    scores[playerId] = breakdown.total;
+  }
+  return scores;
 }
 
 /**
  * The GameEngine is the authoritative owner of the game state.
  * It implements base-game rules, validates actions, and applies effects.
+ *
+ * A game can be driven in two ways:
+ * - playGame()/resumeGame() ask the configured PlayerAgents for every decision.
+ * - start()/resume() and submit() hand each prompt to the caller instead, so an
+ *   outside loop (a UI, a trainer, a server) can pause between decisions.
+ *   Agents are only consulted if finishGame() is called.
+ * The agent-driven methods are a thin loop over the stepping ones, and any
+ * started game can be fork()ed for lookahead.
  */
 export class GameEngine {
   private readonly agents: PlayerAgent[];
   private readonly registry: DataRegistry;
   private readonly rng: Rng;
   private readonly seed: number;
+  private readonly goalBoardSide: GoalBoardSide;
   private readonly actionProcessor: ActionProcessor;
+  /** Times agent decisions; null unless timings or a time budget are wanted */
+  private readonly clock: AgentClock | null;
+  /** Agent policy settings the engine was created with, passed on to forks */
+  private readonly agentPolicy: AgentPolicyConfig;
+  private readonly onInvalidChoice: InvalidChoicePolicy;
+  private readonly createFallbackAgent?: FallbackAgentFactory;
+  /** Each player's fallback agent, created the first time it is needed */
+  private readonly fallbackAgents = new Map<PlayerId, PlayerAgent>();
+  /**
+   * Substitutions a fork replays from the original's checkpoint, used up
+   * before its own fallback agents are asked anything
+   */
+  private replayedSubstitutions: OptionChoice[] = [];
   private gameState: GameState;
   private promptCounter = 0;
 
+  /**
+   * Pending decisions of the game started with start()/resume(); null until
+   * then. While set, every prompt is parked here instead of going to an agent.
+   */
+  private decisions: DecisionQueue | null = null;
+
+  /**
+   * Whether to keep replay points for fork(): always when the caller steps
+   * the game, but only for agents that fork (see PlayerAgent.attachForker)
+   * when the engine asks the agents itself.
+   */
+  private forkable = false;
+
+  /**
+   * Replay point for fork() while starting hands or a turn are in progress.
+   */
+  private checkpoint: ForkCheckpoint | null = null;
+
   /**
    * History of all events that have occurred during the game.
    * Used for observability, debugging, and testing.
@@ -131,10 +395,14 @@ export class GameEngine {
     this.agents = config.agents;
     this.registry = config.registry;
     this.seed = config.seed;
+    this.goalBoardSide = config.goalBoardSide ?? "green";
     this.rng = new Rng(config.seed);
-    this.actionProcessor = new ActionProcessor({
-      onHandlerInvoked: config.onHandlerInvoked,
-    });
+    checkFallbackPolicies(config);
+    this.agentPolicy = pickAgentPolicy(config);
+    this.onInvalidChoice = config.onInvalidChoice ?? "forfeit";
+    this.createFallbackAgent = config.createFallbackAgent;
+    this.actionProcessor = this.createActionProcessor(config);
+    this.clock = this.createAgentClock(config);
     this.gameState = this.setupGame();
   }
 
@@ -152,22 +420,109 @@ export class GameEngine {
     engineRecord.agents = config.agents;
     engineRecord.registry = config.registry;
     engineRecord.seed = config.seed;
-    engineRecord.rng = new Rng(config.seed);
-    engineRecord.actionProcessor = new ActionProcessor({
-      onHandlerInvoked: config.onHandlerInvoked,
-    });
+    engineRecord.goalBoardSide = config.goalBoardSide ?? "green";
+    engineRecord.rng = config.gameState.rng ?? new Rng(config.seed);
+    checkFallbackPolicies(config);
+    engineRecord.agentPolicy = pickAgentPolicy(config);
+    engineRecord.onInvalidChoice = config.onInvalidChoice ?? "forfeit";
+    engineRecord.createFallbackAgent = config.createFallbackAgent;
+    engineRecord.fallbackAgents = new Map();
+    engineRecord.replayedSubstitutions = [];
+    engineRecord.actionProcessor = engine.createActionProcessor(config);
+    engineRecord.clock = engine.createAgentClock(config);
     engineRecord.gameState = config.gameState;
     engineRecord.promptCounter = 0;
+    engineRecord.decisions = null;
+    engineRecord.forkable = false;
+    engineRecord.checkpoint = null;
     engineRecord.eventHistory = [];
     engineRecord.observers = [];
 
     return engine;
   }
 
+  /**
+   * Create a GameEngine from a snapshot produced by GameState.toJSON().
+   * Call resumeGame() to play the rest of the game.
+   */
+  static fromSnapshot(config: GameEngineFromSnapshotConfig): GameEngine {
+    const { snapshot, ...rest } = config;
+    return GameEngine.fromState({
+      ...rest,
+      seed: snapshot.rng.seed,
+      gameState: GameState.fromJSON(snapshot, config.registry),
+    });
+  }
+
   getGameState(): GameState {
     return this.gameState;
   }
 
+  /**
+   * Copy this engine so the copy can play on from the same point without
+   * touching the original. Used by search-based agents for lookahead.
+   *
+   * The fork comes back started (see start()) and paused at the same pending
+   * prompts as the original, or at the next prompt if the original is between
+   * turns (e.g. forked from a TURN_ENDED observer). Since generators cannot be
+   * copied, a fork taken mid-turn is rebuilt by replaying the turn's choices
+   * from its start. Continue the fork with submit() or finishGame().
+   * The fork keeps the original's agent policy settings (time budget,
+   * invalid choice policy and fallback agents). Observers and event history
+   * are not copied, and the fork does not report handler coverage.
+   * A game played with playGame()/resumeGame() keeps what a mid-turn fork
+   * needs only if one of its agents has attachForker.
+   * @param agents - Agents for the fork, one per player in seat order
+   * @throws Error if replaying the current turn does not reach the original's
+   *   pending prompts
+   */
+  async fork(
+    agents: PlayerAgent[],
+    options: GameEngineForkOptions = {}
+  ): Promise<GameEngine> {
+    // Read everything from the original before the first await
+    const checkpoint = this.checkpoint;
+    const choices = [...(checkpoint?.choices ?? [])];
+    const expectedPrompts = this.getPendingPrompts().map((p) => p.promptId);
+    const fromStart = checkpoint
+      ? checkpoint.beforeStartingHands
+      : !this.decisions;
+
+    const fork = GameEngine.fromState({
+      ...this.agentPolicy,
+      agents,
+      seed: this.seed,
+      registry: this.registry,
+      gameState: (checkpoint?.state ?? this.gameState).clone(),
+      goalBoardSide: this.goalBoardSide,
+    });
+    // Number the fork's prompts exactly as the original did
+    fork.promptCounter = checkpoint?.promptCounter ?? this.promptCounter;
+    fork.replayedSubstitutions = [...(checkpoint?.substitutions ?? [])];
+
+    await (fromStart ? fork.start() : fork.resume());
+    for (const choice of choices) {
+      await fork.submit(choice);
+    }
+    if (checkpoint) {
+      const forkPrompts = fork.getPendingPrompts().map((p) => p.promptId);
+      if (forkPrompts.join() !== expectedPrompts.join()) {
+        throw new Error(
+          `Fork diverged from the original game: expected pending prompts [${expectedPrompts.join(", ")}], got [${forkPrompts.join(", ")}]`
+        );
+      }
+    }
+
+    const { hiddenInformation } = options;
+    if (hiddenInformation) {
+      fork.gameState.randomizeHiddenInformation(
+        hiddenInformation.viewerId,
+        new Rng(hiddenInformation.seed)
+      );
+    }
+    return fork;
+  }
+
   /**
    * Get the history of all events that have occurred during the game.
    * Useful for debugging, testing, and observability.
@@ -202,6 +557,15 @@ export class GameEngine {
     }
   }
 
+  /**
+   * Notify all observers of a settled decision.
+   */
+  private notifyDecisionMade(decision: DecisionOutcome): void {
+    for (const observer of this.observers) {
+      observer.onDecisionMade?.(decision);
+    }
+  }
+
   /**
    * Notify all observers of an effect.
    */
@@ -280,17 +644,305 @@ export class GameEngine {
       roundGoals,
       round: 1,
       turn: 1,
+      rng: this.rng,
     });
   }
 
   /**
-   * Run a complete game from start to finish.
+   * Run a complete game from start to finish, asking the agents for every
+   * decision.
    */
   async playGame(): Promise<GameResult> {
+    return this.notifyGameEnd(async () => {
+      await this.beginStepping(() => this.runGame(), this.hasForkingAgent());
+      return this.finishGame();
+    });
+  }
+
+  /**
+   * Play the rest of a game restored with fromSnapshot(), asking the agents
+   * for every decision. See resume() for where play picks up.
+   */
+  async resumeGame(): Promise<GameResult> {
+    return this.notifyGameEnd(async () => {
+      await this.beginStepping(
+        () => this.runResumedGame(),
+        this.hasForkingAgent()
+      );
+      return this.finishGame();
+    });
+  }
+
+  /**
+   * Play a game and tell every agent it is over (see PlayerAgent.onGameEnd),
+   * whether it finished or failed.
+   */
+  private async notifyGameEnd(
+    play: () => Promise<GameResult>
+  ): Promise<GameResult> {
+    let result: GameResult | null = null;
+    try {
+      result = await play();
+      return result;
+    } finally {
+      await Promise.all(this.agents.map((agent) => agent.onGameEnd?.(result)));
+    }
+  }
+
+  /**
+   * Start a new game in stepping mode.
+   * @returns The first pending prompt (starting hands are pending for all
+   *   players at once, in player order)
+   * @throws Error if the game was already started
+   */
+  async start(): Promise<GameStep> {
+    return this.beginStepping(() => this.runGame(), true);
+  }
+
+  /**
+   * Continue a game restored with fromSnapshot() in stepping mode.
+   *
+   * The snapshot must have been taken between turns (e.g. from a TURN_ENDED
+   * or ROUND_ENDED observer) after starting hands were chosen. Play resumes
+   * with the next player due a turn in the snapshot's round, or with the
+   * following round if the snapshot's round has already been scored.
+   * @returns The first pending prompt, or the result if the game is already over
+   * @throws Error if the game was already started
+   */
+  async resume(): Promise<GameStep> {
+    return this.beginStepping(() => this.runResumedGame(), true);
+  }
+
+  /**
+   * Answer the oldest pending prompt and run the game until the next prompt
+   * or the end of the game.
+   *
+   * Choices are validated exactly as agent choices are: an invalid option
+   * choice comes back as the same prompt with previousError set, and after
+   * repeated invalid choices the player forfeits (or the fallback agent
+   * answers, see GameEngineConfig.onInvalidChoice).
+   * @throws Error if the game has not been started, no prompt is pending,
+   *   or the choice is for a different prompt
+   */
+  async submit(choice: DecisionChoice): Promise<GameStep> {
+    const decisions = this.requireStepping();
+    this.resolveDecision(decisions, choice);
+    return decisions.next();
+  }
+
+  /**
+   * Get every prompt currently waiting for a choice, oldest first.
+   * Empty unless the game was started with start()/resume().
+   */
+  getPendingPrompts(): DecisionPrompt[] {
+    return this.decisions?.getPendingPrompts() ?? [];
+  }
+
+  /**
+   * @param forkable - Whether to keep the replay points fork() needs to fork
+   *   the game mid-turn
+   */
+  private async beginStepping(
+    run: () => Promise<GameResult>,
+    forkable: boolean
+  ): Promise<GameStep> {
+    if (this.decisions) {
+      throw new Error("Game has already been started");
+    }
+    const decisions = new DecisionQueue();
+    this.decisions = decisions;
+    this.forkable = forkable;
+    for (const agent of this.agents) {
+      agent.attachForker?.((createAgent, seed) =>
+        this.fork(
+          this.gameState.players.map((p) => createAgent(p.id)),
+          { hiddenInformation: { viewerId: agent.playerId, seed } }
+        )
+      );
+    }
+    decisions.track(run());
+    return decisions.next();
+  }
+
+  private requireStepping(): DecisionQueue {
+    if (!this.decisions) {
+      throw new Error("Game has not been started: call start() or resume()");
+    }
+    return this.decisions;
+  }
+
+  /**
+   * Answer a choice, note it on the checkpoint for replay by fork() and
+   * report it to observers.
+   */
+  private resolveDecision(
+    decisions: DecisionQueue,
+    choice: DecisionChoice
+  ): void {
+    const prompt = decisions.resolve(choice);
+    this.checkpoint?.choices.push(choice);
+    this.notifyDecisionMade({ prompt, choice });
+  }
+
+  /**
+   * Take a replay point for fork(). Only stepped games with an Rng (i.e. not
+   * hand-built test states) can be forked, and cloning the state every turn
+   * is only worth it if something may fork (see forkable).
+   */
+  private createCheckpoint(beforeStartingHands: boolean): ForkCheckpoint | null {
+    if (!this.forkable || !this.decisions || !this.gameState.rng) {
+      return null;
+    }
+    return {
+      state: this.gameState.clone(),
+      promptCounter: this.promptCounter,
+      beforeStartingHands,
+      choices: [],
+      substitutions: [],
+    };
+  }
+
+  /**
+   * Whether any of the agents forks the game (see PlayerAgent.attachForker).
+   */
+  private hasForkingAgent(): boolean {
+    return this.agents.some((agent) => agent.attachForker);
+  }
+
+  /**
+   * Play a started game (or a fork) to the end by putting each pending
+   * prompt to its player's configured agent. Prompts pending together are
+   * put to their agents concurrently; an agent that throws fails its prompt
+   * inside the engine, just as if the engine had called the agent itself.
+   * @throws Error if the game has not been started
+   */
+  async finishGame(): Promise<GameResult> {
+    const decisions = this.requireStepping();
+    let step = await decisions.next();
+    while (step.kind === "decision") {
+      const prompts = decisions.getPendingPrompts();
+      const answers = await Promise.allSettled(
+        prompts.map((prompt) => this.askAgent(prompt))
+      );
+      for (let i = 0; i < answers.length; i++) {
+        const answer = answers[i];
+        if (answer.status === "fulfilled") {
+          this.resolveDecision(decisions, answer.value);
+        } else {
+          decisions.reject(prompts[i].promptId, answer.reason);
+          if (answer.reason instanceof AgentTimeoutError) {
+            this.notifyDecisionMade({
+              prompt: prompts[i],
+              timeout: answer.reason,
+            });
+          }
+        }
+      }
+      step = await decisions.next();
+    }
+    return step.result;
+  }
+
+  /**
+   * Create the ActionProcessor, which comes back to the engine when a player
+   * runs out of attempts on a prompt.
+   */
+  private createActionProcessor(
+    config: Pick<GameEngineConfig, "onHandlerInvoked" | "maxAttempts">
+  ): ActionProcessor {
+    return new ActionProcessor({
+      onHandlerInvoked: config.onHandlerInvoked,
+      maxAttempts: config.maxAttempts,
+      substituteChoice: (prompt, lastError) =>
+        this.substituteChoice(prompt, lastError),
+    });
+  }
+
+  /**
+   * Create the clock for the agents, or null if the engine neither records
+   * timings nor has a time budget.
+   */
+  private createAgentClock(
+    config: Pick<GameEngineConfig, "timeBudget" | "recordTimings">
+  ): AgentClock | null {
+    if (!config.timeBudget && !config.recordTimings) {
+      return null;
+    }
+    return new AgentClock(config.timeBudget, (prompt, message) =>
+      this.substituteAgent(prompt, "timeout", message)
+    );
+  }
+
+  /**
+   * Log that a player's fallback agent is answering a prompt in their place,
+   * and get that agent.
+   */
+  private async substituteAgent(
+    prompt: DecisionPrompt,
+    reason: SubstitutionReason,
+    message: string
+  ): Promise<PlayerAgent> {
+    await this.processEvent({
+      type: "AGENT_SUBSTITUTED",
+      playerId: prompt.playerId,
+      promptId: prompt.promptId,
+      reason,
+      message,
+    });
+    let agent = this.fallbackAgents.get(prompt.playerId);
+    if (!agent) {
+      agent = this.createFallbackAgent!(prompt.playerId);
+      this.fallbackAgents.set(prompt.playerId, agent);
+    }
+    return agent;
+  }
+
+  /**
+   * Have the fallback agent answer a prompt the player kept making invalid
+   * choices on, if the invalid choice policy allows it. A fork replaying the
+   * original's turn gets the original fallback agent's choice instead.
+   * @returns The fallback agent's choice, or null if the player forfeits
+   */
+  private async substituteChoice(
+    prompt: OptionPrompt,
+    lastError: ValidationError
+  ): Promise<OptionChoice | null> {
+    if (this.onInvalidChoice !== "fallback") {
+      return null;
+    }
+    const agent = await this.substituteAgent(
+      prompt,
+      "invalidChoices",
+      lastError.message
+    );
+    const choice =
+      this.replayedSubstitutions.shift() ?? (await agent.chooseOption(prompt));
+    this.checkpoint?.substitutions.push(choice);
+    this.notifyDecisionMade({ prompt, choice });
+    return choice;
+  }
+
+  /**
+   * Put a prompt to the configured agent of the prompted player, on the
+   * clock if there is one.
+   */
+  private askAgent(prompt: DecisionPrompt): Promise<DecisionChoice> {
+    const agent = this.agents[this.getPlayerIndex(prompt.playerId)];
+    return this.clock
+      ? this.clock.decide(agent, prompt, (timed) => callAgent(timed, prompt))
+      : callAgent(agent, prompt);
+  }
+
+  /**
+   * Run a complete game from start to finish.
+   */
+  private async runGame(): Promise<GameResult> {
     const forfeitedPlayers: PlayerId[] = [];
 
     // 1. Starting hand selection (simultaneous)
-    await this.handleStartingHandSelection();
+    this.checkpoint = this.createCheckpoint(true);
+    const forfeits = await this.handleStartingHandSelection();
+    this.checkpoint = null;
 
     // 2. Emit GameStartedEvent
     await this.processEvent({
@@ -299,12 +951,56 @@ export class GameEngine {
       seed: this.seed,
     });
 
-    // 3. Run 4 rounds (with forfeit handling)
+    // Players who forfeited while choosing their starting hand
+    let shouldContinue = true;
+    for (const forfeit of forfeits) {
+      shouldContinue = await this.handleForfeit(forfeit, forfeitedPlayers);
+    }
+
+    // 3. Run 4 rounds, then score
+    return this.playRounds(
+      shouldContinue ? 1 : TOTAL_ROUNDS + 1,
+      forfeitedPlayers
+    );
+  }
+
+  /**
+   * Run the rest of a game restored with fromSnapshot().
+   */
+  private async runResumedGame(): Promise<GameResult> {
+    const state = this.gameState;
+    const forfeitedPlayers = state.players
+      .filter((p) => p.forfeited)
+      .map((p) => p.id);
+
+    if (this.getActivePlayerCount() <= 1) {
+      return this.playRounds(TOTAL_ROUNDS + 1, forfeitedPlayers);
+    }
+
+    const roundScored = state.roundGoalResults.some(
+      (r) => r.round === state.round
+    );
+    return roundScored
+      ? this.playRounds(state.round + 1, forfeitedPlayers)
+      : this.playRounds(state.round, forfeitedPlayers, true);
+  }
+
+  /**
+   * Run rounds from firstRound through the final round, then score the game.
+   * @param resumeFirstRound - Continue firstRound in progress rather than starting it
+   */
+  private async playRounds(
+    firstRound: number,
+    forfeitedPlayers: PlayerId[],
+    resumeFirstRound = false
+  ): Promise<GameResult> {
+    // Run the remaining rounds (with forfeit handling)
     try {
-      for (let round = 1; round <= TOTAL_ROUNDS; round++) {
+      for (let round = firstRound; round <= TOTAL_ROUNDS; round++) {
         const shouldContinue = await this.runRoundWithForfeitHandling(
           round,
-          forfeitedPlayers
+          forfeitedPlayers,
+          resumeFirstRound && round === firstRound
         );
         if (!shouldContinue) {
           break; // Game ended due to forfeit (only 1 player remaining)
@@ -320,23 +1016,33 @@ export class GameEngine {
       await this.handleForfeit(error, forfeitedPlayers);
     }
 
-    // 4. Calculate final scores
-    const scores = this.calculateFinalScores();
-    const winnerId = this.determineWinner(scores);
+    // Calculate final scores
+    const scoreBreakdowns = this.calculateScoreBreakdowns();
+    const scores = scoreTotals(scoreBreakdowns);
+    const { winnerIds, tiebreak } = this.determineWinners(scores);
+    const substitutions = this.countSubstitutions();
 
-    // 5. Emit GameEndedEvent
+    // Emit GameEndedEvent
     await this.processEvent({
       type: "GAME_ENDED",
       finalScores: scores,
-      winnerId,
+      scoreBreakdowns,
+      winnerIds,
+      ...(tiebreak && { tiebreak }),
     });
 
     return {
-      winnerId,
+      winnerIds,
+      ...(tiebreak && { tiebreak }),
       scores,
+      scoreBreakdowns,
       roundsPlayed: this.gameState.round,
       totalTurns: this.gameState.turn - 1,
       ...(forfeitedPlayers.length > 0 && { forfeitedPlayers }),
+      ...(this.clock && {
+        timings: this.clock.getTimings(this.gameState.players.map((p) => p.id)),
+      }),
+      ...(substitutions && { substitutions }),
     };
   }
 
@@ -386,6 +1092,20 @@ export class GameEngine {
     return remainingCount > 1;
   }
 
+  /**
+   * Count the prompts each player's fallback agent answered for them.
+   * @returns The counts, or null if no agent was stood in for
+   */
+  private countSubstitutions(): Record<PlayerId, number> | null {
+    const counts: Record<PlayerId, number> = {};
+    for (const event of this.eventHistory) {
+      if (event.type === "AGENT_SUBSTITUTED") {
+        counts[event.playerId] = (counts[event.playerId] ?? 0) + 1;
+      }
+    }
+    return Object.keys(counts).length > 0 ? counts : null;
+  }
+
   /**
    * Get the count of players who haven't forfeited.
    */
@@ -395,26 +1115,33 @@ export class GameEngine {
 
   /**
    * Run a round with forfeit handling.
+   * @param resume - Continue a round already in progress: keep each player's
+   *   turns remaining, skip ROUND_STARTED, and start with the next player due
    * @returns true if the game should continue, false if only 1 player remains
    */
   private async runRoundWithForfeitHandling(
     round: number,
-    forfeitedPlayers: PlayerId[]
+    forfeitedPlayers: PlayerId[],
+    resume = false
   ): Promise<boolean> {
-    this.gameState.round = round;
-
-    // Set turns remaining for all non-forfeited players based on round
-    const turnsThisRound = TURNS_BY_ROUND[round - 1];
-    for (const player of this.gameState.players) {
-      if (!player.forfeited) {
-        player.turnsRemaining = turnsThisRound;
+    if (!resume) {
+      this.gameState.round = round;
+
+      // Set turns remaining for all non-forfeited players based on round
+      const turnsThisRound = TURNS_BY_ROUND[round - 1];
+      for (const player of this.gameState.players) {
+        if (!player.forfeited) {
+          player.turnsRemaining = turnsThisRound;
+        }
       }
-    }
 
-    await this.processEvent({ type: "ROUND_STARTED", round });
+      await this.processEvent({ type: "ROUND_STARTED", round });
+    }
 
-    // Round-robin turns until all players exhausted
-    let currentPlayerIndex = 0;
+    // Round-robin turns until all players exhausted, starting with the first player
+    let currentPlayerIndex = resume
+      ? this.findNextPlayerIndexInRound()
+      : this.gameState.firstPlayerIndex;
     while (this.anyActivePlayerHasTurns()) {
       // Find next active player with turns remaining
       let attempts = 0;
@@ -440,7 +1167,7 @@ export class GameEngine {
             );
             if (!shouldContinue) {
               // Only 1 player remaining, end the game
-              await this.processEvent({ type: "ROUND_ENDED", round });
+              await this.endRound(round);
               return false;
             }
             // Continue with next player
@@ -454,10 +1181,70 @@ export class GameEngine {
         (currentPlayerIndex + 1) % this.gameState.players.length;
     }
 
-    await this.processEvent({ type: "ROUND_ENDED", round });
+    await this.endRound(round);
     return true;
   }
 
+  /**
+   * Find the player due the next turn in a round already in progress.
+   * Turns go round-robin from the first player, so the next player is the
+   * first one, in turn order, who has not yet taken as many turns as the rest.
+   */
+  private findNextPlayerIndexInRound(): number {
+    const { players, firstPlayerIndex } = this.gameState;
+    const maxTurnsRemaining = Math.max(
+      0,
+      ...players.filter((p) => !p.forfeited).map((p) => p.turnsRemaining)
+    );
+    for (let i = 0; i < players.length; i++) {
+      const index = (firstPlayerIndex + i) % players.length;
+      const player = players[index];
+      if (!player.forfeited && player.turnsRemaining === maxTurnsRemaining) {
+        return index;
+      }
+    }
+    return firstPlayerIndex;
+  }
+
+  /**
+   * Run the end-of-round procedure:
+   * 1. Score the round's goal
+   * 2. Discard the bird tray and refill it from the deck
+   * 3. Pass the first-player token clockwise
+   * Then emit ROUND_ENDED.
+   */
+  private async endRound(round: number): Promise<void> {
+    await this.scoreRoundGoalForRound(round);
+    await this.applyEffect({ type: "CLEAR_BIRD_TRAY" });
+    await this.applyEffect({
+      type: "REFILL_BIRD_TRAY",
+      discardedCards: [],
+      newCards: [],
+    });
+    await this.applyEffect({ type: "ROTATE_FIRST_PLAYER" });
+    await this.processEvent({ type: "ROUND_ENDED", round });
+  }
+
+  /**
+   * Score the end-of-round goal for a round, record the result on the game state,
+   * and emit ROUND_GOAL_SCORED.
+   */
+  private async scoreRoundGoalForRound(round: number): Promise<void> {
+    const goalId = this.gameState.roundGoals[round - 1];
+    if (!goalId) return;
+
+    const result = scoreRoundGoal(
+      goalId,
+      round,
+      this.gameState.players,
+      this.registry.getRoundGoalScoring(round),
+      this.goalBoardSide
+    );
+    this.gameState.roundGoalResults.push(result);
+
+    await this.processEvent({ type: "ROUND_GOAL_SCORED", ...result });
+  }
+
   /**
    * Check if any active (non-forfeited) player has turns remaining.
    */
@@ -469,8 +1256,11 @@ export class GameEngine {
 
   /**
    * Handle simultaneous starting hand selection for all players.
+   * A player who forfeits (e.g. by running out of time) keeps their whole
+   * starting hand; their forfeit is returned for the caller to handle.
+   * @returns The forfeits, in player order
    */
-  private async handleStartingHandSelection(): Promise<void> {
+  private async handleStartingHandSelection(): Promise<AgentForfeitError[]> {
     // Build prompts for all players
     const prompts: StartingHandPrompt[] = this.gameState.players.map(
       (player) => {
@@ -490,16 +1280,29 @@ export class GameEngine {
     );
 
     // Get choices simultaneously from all agents
-    const choices = await Promise.all(
-      this.agents.map((agent, index) =>
-        agent.chooseStartingHand(prompts[index])
+    const answers = await Promise.allSettled(
+      prompts.map((prompt) =>
+        this.getAgentForPlayer(prompt.playerId).chooseStartingHand(prompt)
       )
     );
+    const forfeits: AgentForfeitError[] = [];
+    for (const answer of answers) {
+      if (answer.status === "rejected") {
+        if (!(answer.reason instanceof AgentForfeitError)) {
+          throw answer.reason;
+        }
+        forfeits.push(answer.reason);
+      }
+    }
 
     // Process each player's choice
     for (let i = 0; i < this.gameState.players.length; i++) {
       const player = this.gameState.players[i];
-      const choice = choices[i];
+      const answer = answers[i];
+      if (answer.status === "rejected") {
+        continue;
+      }
+      const choice = answer.value;
 
       // Keep selected birds, discard rest to supply
       const keptBirds: BirdCard[] = [];
@@ -535,6 +1338,7 @@ export class GameEngine {
         }
       }
     }
+    return forfeits;
   }
 
   /**
@@ -543,7 +1347,8 @@ export class GameEngine {
   private async runTurn(playerIndex: number): Promise<void> {
     this.gameState.activePlayerIndex = playerIndex;
     const player = this.gameState.players[playerIndex];
-    const agent = this.agents[playerIndex];
+    const agent = this.getAgentForPlayer(player.id);
+    this.checkpoint = this.createCheckpoint(false);
 
     await this.processEvent({
       type: "TURN_STARTED",
@@ -585,30 +1390,38 @@ export class GameEngine {
         buildPlayerView(this.gameState, playerId),
       buildPromptContext: () => this.createPromptContext(),
       applyEffect: (effect: Effect) => this.applyEffect(effect),
-      deferContinuation: (playerId: PlayerId, continuation) => {
-        this.gameState.endOfTurnContinuations.push({ playerId, continuation });
+      deferContinuation: (playerId: PlayerId, continuation, descriptor) => {
+        this.gameState.endOfTurnContinuations.push({
+          playerId,
+          continuation,
+          descriptor,
+        });
       },
     };
 
-    // Execute the chosen action (effects applied immediately, events collected)
-    const result = await this.actionProcessor.executeTurnAction(
-      choice.action,
-      ctx,
-      choice.takeBonus,
-      execCtx
-    );
+    try {
+      // Execute the chosen action (effects applied immediately, events collected)
+      const result = await this.actionProcessor.executeTurnAction(
+        choice.action,
+        ctx,
+        choice.takeBonus,
+        execCtx
+      );
 
-    // Process events from the turn action (handles brown powers, pink powers, etc.)
-    for (const event of result.events) {
-      await this.processEvent(event);
-    }
+      // Process events from the turn action (handles brown powers, pink powers, etc.)
+      for (const event of result.events) {
+        await this.processEvent(event);
+      }
 
-    // Resolve end-of-turn continuations (e.g., delayed discards)
-    await this.resolveEndOfTurnContinuations(player.id);
+      // Resolve end-of-turn continuations (e.g., delayed discards)
+      await this.resolveEndOfTurnContinuations(player.id);
 
-    // Decrement turns and increment global turn counter
-    player.turnsRemaining--;
-    this.gameState.turn++;
+      // Decrement turns and increment global turn counter
+      player.turnsRemaining--;
+      this.gameState.turn++;
+    } finally {
+      this.checkpoint = null;
+    }
 
     await this.processEvent({ type: "TURN_ENDED", playerId: player.id });
   }
@@ -633,7 +1446,15 @@ export class GameEngine {
 
     // Execute each continuation using ActionProcessor
     const execCtx = this.createActionExecutionContext();
-    for (const { continuation } of playerConts) {
+    for (const entry of playerConts) {
+      // Entries restored from a snapshot only carry their descriptor
+      const continuation =
+        entry.continuation ??
+        this.actionProcessor.restoreContinuation(
+          entry.descriptor!,
+          playerId,
+          execCtx
+        );
       await this.actionProcessor.executeContinuation(
         continuation,
         playerId,
@@ -790,22 +1611,49 @@ export class GameEngine {
       applyEffect: (effect: Effect) => this.applyEffect(effect),
       deferContinuation: (
         playerId: PlayerId,
-        continuation: () => Generator<PowerYield, void, PowerReceive>
+        continuation: () => Generator<PowerYield, void, PowerReceive>,
+        descriptor?: DeferredContinuationDescriptor
       ) => {
-        this.gameState.endOfTurnContinuations.push({ playerId, continuation });
+        this.gameState.endOfTurnContinuations.push({
+          playerId,
+          continuation,
+          descriptor,
+        });
       },
     };
   }
 
   /**
-   * Get the agent for a specific player.
+   * Get the agent to ask for a specific player's decisions.
+   * In stepping mode this parks prompts for submit() instead.
    */
   private getAgentForPlayer(playerId: PlayerId): PlayerAgent {
+    if (this.decisions) {
+      return this.decisions.agentFor(playerId);
+    }
+    const agent = this.agents[this.getPlayerIndex(playerId)];
+    if (!this.clock) {
+      return agent;
+    }
+    return {
+      playerId,
+      chooseStartingHand: (prompt) =>
+        this.askAgent(prompt) as Promise<StartingHandChoice>,
+      chooseTurnAction: (prompt) =>
+        this.askAgent(prompt) as Promise<TurnActionChoice>,
+      chooseOption: (prompt) => this.askAgent(prompt) as Promise<OptionChoice>,
+    };
+  }
+
+  /**
+   * Get a player's seat index, which is also the index of their agent.
+   */
+  private getPlayerIndex(playerId: PlayerId): number {
     const index = this.gameState.players.findIndex((p) => p.id === playerId);
     if (index === -1) {
       throw new Error(`No agent found for player: ${playerId}`);
     }
-    return this.agents[index];
+    return index;
   }
 
   /**
@@ -876,6 +1724,14 @@ export class GameEngine {
         this.applyRefillBirdTray(effect);
         break;
 
+      case "CLEAR_BIRD_TRAY":
+        this.applyClearBirdTray(effect);
+        break;
+
+      case "ROTATE_FIRST_PLAYER":
+        this.applyRotateFirstPlayer(effect);
+        break;
+
       case "REMOVE_CARDS_FROM_TRAY":
         this.applyRemoveCardsFromTray(effect);
         break;
@@ -1263,6 +2119,18 @@ export class GameEngine {
     effect.discardedCards = [];
   }
 
+  applyClearBirdTray(effect: Effect & { type: "CLEAR_BIRD_TRAY" }): void {
+    const discarded = this.gameState.birdCardSupply.clearTray();
+    effect.discardedCards = discarded.map((c) => c.id);
+  }
+
+  applyRotateFirstPlayer(effect: Effect & { type: "ROTATE_FIRST_PLAYER" }): void {
+    this.gameState.firstPlayerIndex =
+      (this.gameState.firstPlayerIndex + 1) % this.gameState.players.length;
+    effect.newFirstPlayerId =
+      this.gameState.players[this.gameState.firstPlayerIndex].id;
+  }
+
   applyRemoveCardsFromTray(
     effect: Effect & { type: "REMOVE_CARDS_FROM_TRAY" }
   ): void {
@@ -1434,33 +2302,66 @@ export class GameEngine {
    * Calculate final scores for all players.
    */
   calculateFinalScores(): Record<PlayerId, number> {
-    const scores: Record<PlayerId, number> = {};
+    return scoreTotals(this.calculateScoreBreakdowns());
+  }
 
+  /**
+   * Calculate an itemised score sheet for every player.
+   */
+  calculateScoreBreakdowns(): Record<PlayerId, ScoreBreakdown> {
+    const breakdowns: Record<PlayerId, ScoreBreakdown> = {};
     for (const player of this.gameState.players) {
-      let score = 0;
-
-      // Bird VP
-      for (const bird of player.board.getAllBirds()) {
-        score += bird.card.victoryPoints;
-        // Eggs on birds
-        score += bird.eggs;
-        // Cached food on birds
-        for (const count of Object.values(bird.cachedFood)) {
-          score += count ?? 0;
-        }
-        // Tucked cards
-        score += bird.tuckedCards.length;
-      }
+      breakdowns[player.id] = this.calculateScoreBreakdown(player);
+    }
+    return breakdowns;
+  }
 
-      // Bonus card VP (simplified - just count qualifying birds)
-      for (const bonusCard of player.bonusCards) {
-        score += this.calculateBonusCardScore(player, bonusCard);
+  /**
+   * Calculate a player's score sheet using the categories of the official
+   * score pad.
+   */
+  calculateScoreBreakdown(player: PlayerState): ScoreBreakdown {
+    let birdVictoryPoints = 0;
+    let eggs = 0;
+    let cachedFood = 0;
+    let tuckedCards = 0;
+
+    for (const bird of player.board.getAllBirds()) {
+      birdVictoryPoints += bird.card.victoryPoints;
+      eggs += bird.eggs;
+      for (const count of Object.values(bird.cachedFood)) {
+        cachedFood += count ?? 0;
       }
+      tuckedCards += bird.tuckedCards.length;
+    }
 
-      scores[player.id] = score;
+    const bonusCards = player.bonusCards.map((bonusCard) => ({
+      bonusCardId: bonusCard.id,
+      points: this.calculateBonusCardScore(player, bonusCard),
+    }));
+
+    let roundGoals = 0;
+    for (const result of this.gameState.roundGoalResults) {
+      roundGoals += result.points[player.id] ?? 0;
     }
 
-    return scores;
+    const total =
+      birdVictoryPoints +
+      bonusCards.reduce((sum, card) => sum + card.points, 0) +
+      roundGoals +
+      eggs +
+      cachedFood +
+      tuckedCards;
+
+    return {
+      birdVictoryPoints,
+      bonusCards,
+      roundGoals,
+      eggs,
+      cachedFood,
+      tuckedCards,
+      total,
+    };
   }
 
   /**
@@ -1550,22 +2451,45 @@ export class GameEngine {
       .filter((bird) => bird.card.bonusCards.includes(bonusCardId)).length;
   }
 
-  private determineWinner(scores: Record<PlayerId, number>): PlayerId {
-    // Find the first non-forfeited player as default winner
+  /**
+   * Determine the winner(s) among non-forfeited players.
+   * Ties for the highest score are broken by most unused food tokens in the
+   * player's supply; players still tied share the victory.
+   */
+  private determineWinners(scores: Record<PlayerId, number>): {
+    winnerIds: PlayerId[];
+    tiebreak?: GameTiebreak;
+  } {
+    // Only consider non-forfeited players for winning (fall back to everyone
+    // if all players forfeited)
     const activePlayers = this.gameState.players.filter((p) => !p.forfeited);
-    let winnerId = activePlayers[0]?.id ?? this.gameState.players[0].id;
-    let highScore = scores[winnerId] ?? 0;
-
-    // Only consider non-forfeited players for winning
-    for (const player of activePlayers) {
-      const score = scores[player.id] ?? 0;
-      if (score > highScore) {
-        highScore = score;
-        winnerId = player.id;
-      }
+    const candidates =
+      activePlayers.length > 0 ? activePlayers : this.gameState.players;
+
+    const highScore = Math.max(...candidates.map((p) => scores[p.id] ?? 0));
+    const tied = candidates.filter((p) => (scores[p.id] ?? 0) === highScore);
+    if (tied.length === 1) {
+      return { winnerIds: [tied[0].id] };
+    }
+
+    const unusedFood: Record<PlayerId, number> = {};
+    for (const player of tied) {
+      unusedFood[player.id] = Object.values(player.food).reduce(
+        (sum, count) => sum + (count ?? 0),
+        0
+      );
     }
+    const mostFood = Math.max(...Object.values(unusedFood));
 
-    return winnerId;
+    return {
+      winnerIds: tied
+        .filter((p) => unusedFood[p.id] === mostFood)
+        .map((p) => p.id),
+      tiebreak: {
+        tiedPlayerIds: tied.map((p) => p.id),
+        unusedFood,
+      },
+    };
   }
 
   private generatePromptId(): PromptId {
@@ -4,6 +4,7 @@
  * Observers can subscribe to the GameEngine to receive notifications about:
  * - Events: Semantic game moments (bird played, round started, etc.)
  * - Effects: State mutations (food gained, eggs laid, cards drawn, etc.)
+ * - Decisions: The choice the engine went on with for each prompt
  *
  * This is useful for:
  * - Rendering/UI updates
@@ -14,6 +15,16 @@
 
 import type { Event } from "../types/events.js";
 import type { Effect } from "../types/effects.js";
+import type { DecisionChoice, DecisionPrompt } from "../types/prompts.js";
+import type { AgentTimeoutError } from "./errors.js";
+
+/**
+ * How a prompt was settled: with a choice (which may be invalid, leading to
+ * a reprompt), or by the player running out of time and forfeiting.
+ */
+export type DecisionOutcome =
+  | { prompt: DecisionPrompt; choice: DecisionChoice }
+  | { prompt: DecisionPrompt; timeout: AgentTimeoutError };
 
 /**
  * Observer interface for receiving game state change notifications.
@@ -31,4 +42,12 @@ export interface GameObserver {
    * Effects are state mutations like GAIN_FOOD, LAY_EGGS, etc.
    */
   onEffectApplied?(effect: Effect): void;
+
+  /**
+   * Called once a prompt has been settled, after any time budget and
+   * fallback agent have had their say: a fallback agent's choice is reported
+   * in place of the late or invalid ones it replaced. Decisions are reported
+   * in the order the engine acts on them.
+   */
+  onDecisionMade?(decision: DecisionOutcome): void;
 }
@@ -0,0 +1,308 @@
+import { describe, it, expect } from "vitest";
+import {
+  GameState,
+  GAME_STATE_SNAPSHOT_VERSION,
+  type GameStateSnapshot,
+} from "./GameState.js";
+import { GameEngine } from "./GameEngine.js";
+import { DataRegistry } from "../data/DataRegistry.js";
+import type { PlayerAgent } from "../agents/PlayerAgent.js";
+import { Rng } from "../util/Rng.js";
+
+const registry = new DataRegistry();
+
+// setupGame() only reads each agent's playerId
+function createGameState(seed: number): GameState {
+  const agents = ["p1", "p2", "p3"].map(
+    (playerId) => ({ playerId }) as PlayerAgent
+  );
+  return new GameEngine({ agents, seed, registry }).getGameState();
+}
+
+function roundTrip(state: GameState): GameState {
+  const snapshot = JSON.parse(JSON.stringify(state)) as GameStateSnapshot;
+  return GameState.fromJSON(snapshot, registry);
+}
+
+describe("GameState", () => {
+  describe("toJSON() / fromJSON()", () => {
+    it("round-trips a freshly set up game", () => {
+      const state = createGameState(42);
+      const snapshot = state.toJSON();
+
+      expect(snapshot.version).toBe(GAME_STATE_SNAPSHOT_VERSION);
+      expect(roundTrip(state).toJSON()).toEqual(snapshot);
+    });
+
+    it("preserves players, decks, tray, and birdfeeder", () => {
+      const state = createGameState(7);
+      const restored = roundTrip(state);
+
+      expect(restored.players.map((p) => p.id)).toEqual(["p1", "p2", "p3"]);
+      expect(restored.players[1].hand).toEqual(state.players[1].hand);
+      expect(restored.players[1].bonusCards).toEqual(
+        state.players[1].bonusCards
+      );
+      expect(restored.birdfeeder.getDiceInFeeder()).toEqual(
+        state.birdfeeder.getDiceInFeeder()
+      );
+      expect(restored.birdCardSupply.getTray()).toEqual(
+        state.birdCardSupply.getTray()
+      );
+      expect(restored.birdCardSupply.getDeckCards()).toEqual(
+        state.birdCardSupply.getDeckCards()
+      );
+      expect(restored.bonusCardDeck.getDeckItems()).toEqual(
+        state.bonusCardDeck.getDeckItems()
+      );
+      expect(restored.roundGoals).toEqual(state.roundGoals);
+    });
+
+    it("continues the same random sequence after restore", () => {
+      const state = createGameState(99);
+      // Put cards in the discard pile so drawing past the deck reshuffles
+      state.birdCardSupply.discardCards(state.players[0].hand);
+      const restored = roundTrip(state);
+
+      const deckSize = state.birdCardSupply.getDeckSize();
+      expect(restored.birdCardSupply.drawFromDeck(deckSize + 2)).toEqual(
+        state.birdCardSupply.drawFromDeck(deckSize + 2)
+      );
+
+      restored.birdfeeder.rollAll();
+      state.birdfeeder.rollAll();
+      expect(restored.birdfeeder.getDiceInFeeder()).toEqual(
+        state.birdfeeder.getDiceInFeeder()
+      );
+    });
+
+    it("round-trips boards, resources, and progress", () => {
+      const state = createGameState(3);
+      const player = state.players[0];
+      const [card] = player.hand;
+      player.hand = player.hand.slice(1);
+      player.board.setSlot("WETLAND", 0, {
+        id: "p1_wetland_0",
+        card,
+        eggs: 2,
+        cachedFood: { FISH: 1 },
+        tuckedCards: ["american_coot"],
+      });
+      player.food = { SEED: 3 };
+      player.turnsRemaining = 5;
+      state.players[2].forfeited = true;
+      state.activePlayerIndex = 1;
+      state.firstPlayerIndex = 2;
+      state.round = 2;
+      state.turn = 12;
+      state.roundGoalResults.push({
+        round: 1,
+        goalId: state.roundGoals[0],
+        counts: { p1: 1, p2: 0 },
+        points: { p1: 4, p2: 0 },
+      });
+
+      const restored = roundTrip(state);
+
+      expect(restored.players[0].board.getSlot("WETLAND", 0)).toEqual({
+        id: "p1_wetland_0",
+        card,
+        eggs: 2,
+        cachedFood: { FISH: 1 },
+        tuckedCards: ["american_coot"],
+      });
+      expect(restored.findBirdOwner("p1_wetland_0")?.id).toBe("p1");
+      expect(restored.players[0].food).toEqual({ SEED: 3 });
+      expect(restored.players[0].turnsRemaining).toBe(5);
+      expect(restored.players[2].forfeited).toBe(true);
+      expect(restored.activePlayerIndex).toBe(1);
+      expect(restored.firstPlayerIndex).toBe(2);
+      expect(restored.round).toBe(2);
+      expect(restored.turn).toBe(12);
+      expect(restored.roundGoalResults).toEqual(state.roundGoalResults);
+    });
+
+    it("round-trips pending end-of-turn continuations by descriptor", () => {
+      const state = createGameState(5);
+      const descriptor = {
+        handlerId: "discardCardsAtEndOfTurn",
+        birdInstanceId: "p2_wetland_0",
+        params: { discardCount: 1 },
+      };
+      state.endOfTurnContinuations.push({
+        playerId: "p2",
+        continuation: function* () {},
+        descriptor,
+      });
+
+      const restored = roundTrip(state);
+
+      expect(restored.endOfTurnContinuations).toEqual([
+        { playerId: "p2", descriptor },
+      ]);
+    });
+
+    it("throws for a continuation without a descriptor", () => {
+      const state = createGameState(5);
+      state.endOfTurnContinuations.push({
+        playerId: "p1",
+        continuation: function* () {},
+      });
+
+      expect(() => state.toJSON()).toThrow(
+        "Cannot serialize end-of-turn continuation for p1: no descriptor"
+      );
+    });
+
+    it("throws for a state without an Rng", () => {
+      const state = createGameState(5);
+      state.rng = undefined;
+
+      expect(() => state.toJSON()).toThrow(
+        "Cannot serialize a GameState without an Rng"
+      );
+    });
+
+    it("throws for an unsupported snapshot version", () => {
+      const snapshot = { ...createGameState(5).toJSON(), version: 999 };
+
+      expect(() => GameState.fromJSON(snapshot, registry)).toThrow(
+        "Unsupported game state snapshot version: 999"
+      );
+    });
+  });
+
+  describe("clone()", () => {
+    it("copies the complete state", () => {
+      const state = createGameState(13);
+
+      expect(state.clone().toJSON()).toEqual(state.toJSON());
+    });
+
+    it("lets the copy change without affecting the original", () => {
+      const state = createGameState(13);
+      const [card] = state.players[0].hand;
+      state.players[0].board.setSlot("FOREST", 0, {
+        id: "p1_forest_0",
+        card,
+        eggs: 1,
+        cachedFood: {},
+        tuckedCards: [],
+      });
+      const before = state.toJSON();
+
+      const copy = state.clone();
+      const bird = copy.findBirdInstance("p1_forest_0")!;
+      bird.eggs = 3;
+      bird.cachedFood.SEED = 1;
+      bird.tuckedCards.push("mallard");
+      copy.players[0].food.FISH = 9;
+      copy.players[1].hand.pop();
+      copy.birdCardSupply.drawFromDeck(5);
+      copy.birdCardSupply.clearTray();
+      copy.bonusCardDeck.draw(1);
+      copy.birdfeeder.rollAll();
+
+      expect(state.toJSON()).toEqual(before);
+    });
+
+    it("continues the same random sequence as the original", () => {
+      const state = createGameState(8);
+      const copy = state.clone();
+
+      state.birdfeeder.rollAll();
+      copy.birdfeeder.rollAll();
+
+      expect(copy.birdfeeder.getDiceInFeeder()).toEqual(
+        state.birdfeeder.getDiceInFeeder()
+      );
+    });
+
+    it("uses the given Rng for the copy", () => {
+      const state = createGameState(8);
+      const copy = state.clone(new Rng(1234));
+
+      expect(copy.rng!.seed).toBe(1234);
+      expect(copy.toJSON().rng).toEqual(new Rng(1234).getState());
+    });
+
+    it("drops live continuations but keeps their descriptors", () => {
+      const state = createGameState(5);
+      const descriptor = {
+        handlerId: "discardCardsAtEndOfTurn",
+        birdInstanceId: "p2_wetland_0",
+        params: { discardCount: 1 },
+      };
+      state.endOfTurnContinuations.push({
+        playerId: "p2",
+        continuation: function* () {},
+        descriptor,
+      });
+
+      expect(state.clone().endOfTurnContinuations).toEqual([
+        { playerId: "p2", descriptor },
+      ]);
+    });
+  });
+
+  describe("randomizeHiddenInformation()", () => {
+    const ids = (cards: readonly { id: string }[]) =>
+      cards.map((c) => c.id).sort();
+
+    it("redeals opponents' hands and the decks but keeps public information", () => {
+      const state = createGameState(21);
+      const copy = state.clone(new Rng(5));
+
+      copy.randomizeHiddenInformation("p1");
+
+      const [viewer, ...opponents] = state.players;
+      expect(copy.players[0].hand).toEqual(viewer.hand);
+      expect(copy.players[0].bonusCards).toEqual(viewer.bonusCards);
+      opponents.forEach((opponent, i) => {
+        const copied = copy.players[i + 1];
+        expect(copied.hand).toHaveLength(opponent.hand.length);
+        expect(copied.bonusCards).toHaveLength(opponent.bonusCards.length);
+        expect(copied.food).toEqual(opponent.food);
+      });
+      expect(copy.players[1].hand).not.toEqual(opponents[0].hand);
+      expect(copy.birdCardSupply.getDeckCards()).not.toEqual(
+        state.birdCardSupply.getDeckCards()
+      );
+      expect(copy.birdCardSupply.getTray()).toEqual(
+        state.birdCardSupply.getTray()
+      );
+      expect(copy.birdfeeder.getDiceInFeeder()).toEqual(
+        state.birdfeeder.getDiceInFeeder()
+      );
+    });
+
+    it("keeps the same cards in play", () => {
+      const state = createGameState(21);
+      const copy = state.clone();
+
+      copy.randomizeHiddenInformation("p2");
+
+      const hidden = (s: GameState) => [
+        ...s.birdCardSupply.getDeckCards(),
+        ...s.players.filter((p) => p.id !== "p2").flatMap((p) => p.hand),
+      ];
+      const hiddenBonus = (s: GameState) => [
+        ...s.bonusCardDeck.getDeckItems(),
+        ...s.players.filter((p) => p.id !== "p2").flatMap((p) => p.bonusCards),
+      ];
+      expect(ids(hidden(copy))).toEqual(ids(hidden(state)));
+      expect(ids(hiddenBonus(copy))).toEqual(ids(hiddenBonus(state)));
+      expect(copy.birdCardSupply.getDiscardCards()).toEqual(
+        state.birdCardSupply.getDiscardCards()
+      );
+    });
+
+    it("throws for an unknown viewer", () => {
+      const state = createGameState(21).clone();
+
+      expect(() => state.randomizeHiddenInformation("p9")).toThrow(
+        "Player not found: p9"
+      );
+    });
+  });
+});
@@ -7,24 +7,108 @@
  */
 
 import type {
+  BirdCard,
+  BirdCardId,
   BirdInstance,
   BirdInstanceId,
   BonusCard,
+  BonusCardId,
+  DieFace,
+  FoodByType,
+  Habitat,
   PlayerId,
   RoundGoalId,
+  RoundGoalResult,
 } from "../types/core.js";
-import type { PowerYield, PowerReceive } from "../types/power.js";
-import type { Birdfeeder } from "./Birdfeeder.js";
-import type { BirdCardSupply } from "./BirdCardSupply.js";
-import type { DiscardableDeck } from "./DiscardableDeck.js";
+import type {
+  DeferredContinuationDescriptor,
+  PowerYield,
+  PowerReceive,
+} from "../types/power.js";
+import type { DataRegistry } from "../data/DataRegistry.js";
+import { Rng, type RngState } from "../util/Rng.js";
+import { Birdfeeder } from "./Birdfeeder.js";
+import { BirdCardSupply } from "./BirdCardSupply.js";
+import { DiscardableDeck } from "./DiscardableDeck.js";
+import { PlayerBoard } from "./PlayerBoard.js";
 import { PlayerState } from "./PlayerState.js";
 
+const HABITATS: Habitat[] = ["FOREST", "GRASSLAND", "WETLAND"];
+
+/**
+ * Version of the GameStateSnapshot format produced by GameState.toJSON().
+ */
+export const GAME_STATE_SNAPSHOT_VERSION = 1;
+
+/**
+ * Serialized bird on a player's board. Cards are referenced by ID.
+ */
+export interface BirdInstanceSnapshot {
+  id: BirdInstanceId;
+  cardId: BirdCardId;
+  cachedFood: FoodByType;
+  tuckedCards: BirdCardId[];
+  eggs: number;
+}
+
+/**
+ * Serialized player state. Cards are referenced by ID.
+ */
+export interface PlayerStateSnapshot {
+  id: PlayerId;
+  hand: BirdCardId[];
+  bonusCards: BonusCardId[];
+  food: FoodByType;
+  turnsRemaining: number;
+  forfeited: boolean;
+  board: Record<Habitat, Array<BirdInstanceSnapshot | null>>;
+}
+
+/**
+ * Serialized end-of-turn continuation.
+ */
+export interface DeferredContinuationSnapshot {
+  playerId: PlayerId;
+  descriptor: DeferredContinuationDescriptor;
+}
+
+/**
+ * Plain-JSON form of a GameState, produced by toJSON() and consumed by
+ * fromJSON(). Card decks keep their exact order, and the Rng state is
+ * included so a restored game continues with the same random sequence.
+ */
+export interface GameStateSnapshot {
+  version: number;
+  rng: RngState;
+  players: PlayerStateSnapshot[];
+  activePlayerIndex: number;
+  firstPlayerIndex: number;
+  birdfeeder: DieFace[];
+  birdCardSupply: {
+    deck: BirdCardId[];
+    discard: BirdCardId[];
+    tray: Array<BirdCardId | null>;
+  };
+  bonusCardDeck: {
+    deck: BonusCardId[];
+    discard: BonusCardId[];
+  };
+  roundGoals: RoundGoalId[];
+  round: number;
+  turn: number;
+  endOfTurnContinuations: DeferredContinuationSnapshot[];
+  roundGoalResults: RoundGoalResult[];
+}
+
 /**
  * Entry in the end-of-turn continuation queue.
  */
 export interface DeferredContinuationEntry {
   playerId: PlayerId;
-  continuation: () => Generator<PowerYield, void, PowerReceive>;
+  /** Live continuation; absent for entries restored from a snapshot */
+  continuation?: () => Generator<PowerYield, void, PowerReceive>;
+  /** Serializable form of the continuation, required for snapshots */
+  descriptor?: DeferredContinuationDescriptor;
 }
 
 /**
@@ -33,6 +117,7 @@ export interface DeferredContinuationEntry {
 export interface GameStateInit {
   players: PlayerState[];
   activePlayerIndex: number;
+  firstPlayerIndex?: number;
   birdfeeder: Birdfeeder;
   birdCardSupply: BirdCardSupply;
   bonusCardDeck: DiscardableDeck<BonusCard>;
@@ -40,6 +125,8 @@ export interface GameStateInit {
   round: number;
   turn: number;
   endOfTurnContinuations?: DeferredContinuationEntry[];
+  roundGoalResults?: RoundGoalResult[];
+  rng?: Rng;
 }
 
 /**
@@ -49,6 +136,12 @@ export interface GameStateInit {
 export class GameState {
   players: PlayerState[];
   activePlayerIndex: number;
+
+  /**
+   * Index of the player holding the first-player token.
+   * This player takes the first turn of the round; the token passes clockwise at round end.
+   */
+  firstPlayerIndex: number;
   birdfeeder: Birdfeeder;
   birdCardSupply: BirdCardSupply;
   bonusCardDeck: DiscardableDeck<BonusCard>;
@@ -62,9 +155,21 @@ export class GameState {
    */
   endOfTurnContinuations: DeferredContinuationEntry[];
 
+  /**
+   * Results of each end-of-round goal scored so far, in round order.
+   */
+  roundGoalResults: RoundGoalResult[];
+
+  /**
+   * The Rng shared by the birdfeeder and card decks.
+   * Required for toJSON(); hand-built states used in tests may omit it.
+   */
+  rng?: Rng;
+
   constructor(init: GameStateInit) {
     this.players = init.players;
     this.activePlayerIndex = init.activePlayerIndex;
+    this.firstPlayerIndex = init.firstPlayerIndex ?? 0;
     this.birdfeeder = init.birdfeeder;
     this.birdCardSupply = init.birdCardSupply;
     this.bonusCardDeck = init.bonusCardDeck;
@@ -72,6 +177,295 @@ export class GameState {
     this.round = init.round;
     this.turn = init.turn;
     this.endOfTurnContinuations = init.endOfTurnContinuations ?? [];
+    this.roundGoalResults = init.roundGoalResults ?? [];
+    this.rng = init.rng;
+  }
+
+  /**
+   * Restore a GameState from a snapshot produced by toJSON().
+   * Cards are looked up in the registry by ID, and the birdfeeder and decks
+   * share a single Rng restored from the snapshot.
+   * @throws Error if the snapshot version is unsupported or a card is unknown
+   */
+  static fromJSON(snapshot: GameStateSnapshot, registry: DataRegistry): GameState {
+    if (snapshot.version !== GAME_STATE_SNAPSHOT_VERSION) {
+      throw new Error(
+        `Unsupported game state snapshot version: ${snapshot.version} (expected ${GAME_STATE_SNAPSHOT_VERSION})`
+      );
+    }
+
+    const rng = Rng.fromState(snapshot.rng);
+    const bird = (id: BirdCardId): BirdCard => registry.getBirdById(id);
+    const bonusCard = (id: BonusCardId): BonusCard =>
+      registry.getBonusCardById(id);
+
+    const players = snapshot.players.map((p) => {
+      const slots = {} as Record<Habitat, Array<BirdInstance | null>>;
+      for (const habitat of HABITATS) {
+        slots[habitat] = p.board[habitat].map((b) =>
+          b
+            ? {
+                id: b.id,
+                card: bird(b.cardId),
+                cachedFood: { ...b.cachedFood },
+                tuckedCards: [...b.tuckedCards],
+                eggs: b.eggs,
+              }
+            : null
+        );
+      }
+      const player = PlayerState.from(p.id, {
+        hand: p.hand.map(bird),
+        bonusCards: p.bonusCards.map(bonusCard),
+        food: { ...p.food },
+        turnsRemaining: p.turnsRemaining,
+        board: PlayerBoard.from(slots),
+      });
+      player.forfeited = p.forfeited;
+      return player;
+    });
+
+    return new GameState({
+      players,
+      activePlayerIndex: snapshot.activePlayerIndex,
+      firstPlayerIndex: snapshot.firstPlayerIndex,
+      birdfeeder: Birdfeeder.withDice(snapshot.birdfeeder, rng),
+      birdCardSupply: BirdCardSupply.fromPiles(
+        {
+          deck: snapshot.birdCardSupply.deck.map(bird),
+          discard: snapshot.birdCardSupply.discard.map(bird),
+          tray: snapshot.birdCardSupply.tray.map((id) => (id ? bird(id) : null)),
+        },
+        rng
+      ),
+      bonusCardDeck: DiscardableDeck.fromPiles(
+        snapshot.bonusCardDeck.deck.map(bonusCard),
+        snapshot.bonusCardDeck.discard.map(bonusCard),
+        rng
+      ),
+      roundGoals: [...snapshot.roundGoals],
+      round: snapshot.round,
+      turn: snapshot.turn,
+      endOfTurnContinuations: snapshot.endOfTurnContinuations.map((c) => ({
+        playerId: c.playerId,
+        descriptor: structuredClone(c.descriptor),
+      })),
+      roundGoalResults: structuredClone(snapshot.roundGoalResults),
+      rng,
+    });
+  }
+
+  /**
+   * Serialize this state to a plain-JSON snapshot.
+   * Also called by JSON.stringify().
+   * @throws Error if the state has no Rng or a pending continuation has no
+   * descriptor (i.e. it cannot be rebuilt after restore)
+   */
+  toJSON(): GameStateSnapshot {
+    if (!this.rng) {
+      throw new Error("Cannot serialize a GameState without an Rng");
+    }
+
+    const continuations = this.endOfTurnContinuations.map((entry) => {
+      if (!entry.descriptor) {
+        throw new Error(
+          `Cannot serialize end-of-turn continuation for ${entry.playerId}: no descriptor`
+        );
+      }
+      return {
+        playerId: entry.playerId,
+        descriptor: structuredClone(entry.descriptor),
+      };
+    });
+
+    return {
+      version: GAME_STATE_SNAPSHOT_VERSION,
+      rng: this.rng.getState(),
+      players: this.players.map((player) => {
+        const board = {} as PlayerStateSnapshot["board"];
+        for (const habitat of HABITATS) {
+          board[habitat] = player.board.getHabitat(habitat).map((b) =>
+            b
+              ? {
+                  id: b.id,
+                  cardId: b.card.id,
+                  cachedFood: { ...b.cachedFood },
+                  tuckedCards: [...b.tuckedCards],
+                  eggs: b.eggs,
+                }
+              : null
+          );
+        }
+        return {
+          id: player.id,
+          hand: player.hand.map((c) => c.id),
+          bonusCards: player.bonusCards.map((c) => c.id),
+          food: { ...player.food },
+          turnsRemaining: player.turnsRemaining,
+          forfeited: player.forfeited,
+          board,
+        };
+      }),
+      activePlayerIndex: this.activePlayerIndex,
+      firstPlayerIndex: this.firstPlayerIndex,
+      birdfeeder: [...this.birdfeeder.getDiceInFeeder()],
+      birdCardSupply: {
+        deck: this.birdCardSupply.getDeckCards().map((c) => c.id),
+        discard: this.birdCardSupply.getDiscardCards().map((c) => c.id),
+        tray: this.birdCardSupply.getTray().map((c) => c?.id ?? null),
+      },
+      bonusCardDeck: {
+        deck: this.bonusCardDeck.getDeckItems().map((c) => c.id),
+        discard: this.bonusCardDeck.getDiscardItems().map((c) => c.id),
+      },
+      roundGoals: [...this.roundGoals],
+      round: this.round,
+      turn: this.turn,
+      endOfTurnContinuations: continuations,
+      roundGoalResults: structuredClone(this.roundGoalResults),
+    };
+  }
+
+  /**
+   * Copy this state so the copy can be played on without affecting it.
+   *
+   * Everything mutable is copied (players, boards, bird instances, decks,
+   * birdfeeder); cards are immutable and shared. Pending end-of-turn
+   * continuations are copied by descriptor only, since a live continuation
+   * is bound to the engine that created it.
+   * @param rng - Rng for the copy's birdfeeder and decks. Defaults to a copy
+   *   of this state's Rng, so the copy continues the same random sequence.
+   * @throws Error if the state has no Rng or a pending continuation has no
+   * descriptor
+   */
+  clone(rng?: Rng): GameState {
+    if (!this.rng) {
+      throw new Error("Cannot clone a GameState without an Rng");
+    }
+    const copyRng = rng ?? this.rng.clone();
+
+    const players = this.players.map((p) => {
+      const slots = p.board.toRecord();
+      for (const habitat of HABITATS) {
+        slots[habitat] = slots[habitat].map((b) =>
+          b
+            ? {
+                ...b,
+                cachedFood: { ...b.cachedFood },
+                tuckedCards: [...b.tuckedCards],
+              }
+            : null
+        );
+      }
+      const player = PlayerState.from(p.id, {
+        hand: [...p.hand],
+        bonusCards: [...p.bonusCards],
+        food: { ...p.food },
+        turnsRemaining: p.turnsRemaining,
+        board: PlayerBoard.from(slots),
+      });
+      player.forfeited = p.forfeited;
+      return player;
+    });
+
+    const continuations = this.endOfTurnContinuations.map((entry) => {
+      if (!entry.descriptor) {
+        throw new Error(
+          `Cannot clone end-of-turn continuation for ${entry.playerId}: no descriptor`
+        );
+      }
+      return {
+        playerId: entry.playerId,
+        descriptor: structuredClone(entry.descriptor),
+      };
+    });
+
+    return new GameState({
+      players,
+      activePlayerIndex: this.activePlayerIndex,
+      firstPlayerIndex: this.firstPlayerIndex,
+      birdfeeder: Birdfeeder.withDice(
+        this.birdfeeder.getDiceInFeeder(),
+        copyRng
+      ),
+      birdCardSupply: BirdCardSupply.fromPiles(
+        {
+          deck: this.birdCardSupply.getDeckCards(),
+          discard: this.birdCardSupply.getDiscardCards(),
+          tray: this.birdCardSupply.getTray(),
+        },
+        copyRng
+      ),
+      bonusCardDeck: DiscardableDeck.fromPiles(
+        this.bonusCardDeck.getDeckItems(),
+        this.bonusCardDeck.getDiscardItems(),
+        copyRng
+      ),
+      roundGoals: [...this.roundGoals],
+      round: this.round,
+      turn: this.turn,
+      endOfTurnContinuations: continuations,
+      roundGoalResults: structuredClone(this.roundGoalResults),
+      rng: copyRng,
+    });
+  }
+
+  /**
+   * Shuffle everything the viewer cannot see, so a search over this state
+   * cannot peek at it. Call on a clone, never on the engine's own state.
+   *
+   * The bird deck and the opponents' hands are pooled, shuffled, and dealt
+   * back out (each opponent keeps their hand size); the bonus card deck and
+   * the opponents' bonus cards are redealt the same way. Boards, food, the
+   * tray, the birdfeeder, and discard piles are public and left alone.
+   * @param rng - New Rng for this state, used for the redeal and for every
+   *   later roll and reshuffle, so the real game's future is hidden too.
+   *   Defaults to this state's current Rng.
+   * @throws Error if the state has no Rng or the viewer is not a player
+   */
+  randomizeHiddenInformation(viewerId: PlayerId, rng = this.rng): void {
+    if (!rng) {
+      throw new Error("Cannot randomize a GameState without an Rng");
+    }
+    this.findPlayer(viewerId);
+    const opponents = this.players.filter((p) => p.id !== viewerId);
+
+    const birds = rng.shuffle([
+      ...this.birdCardSupply.getDeckCards(),
+      ...opponents.flatMap((p) => p.hand),
+    ]);
+    for (const opponent of opponents) {
+      opponent.hand = birds.splice(0, opponent.hand.length);
+    }
+    this.birdCardSupply = BirdCardSupply.fromPiles(
+      {
+        deck: birds,
+        discard: this.birdCardSupply.getDiscardCards(),
+        tray: this.birdCardSupply.getTray(),
+      },
+      rng
+    );
+
+    const bonusCards = rng.shuffle([
+      ...this.bonusCardDeck.getDeckItems(),
+      ...opponents.flatMap((p) => p.bonusCards),
+    ]);
+    for (const opponent of opponents) {
+      opponent.bonusCards = bonusCards.splice(0, opponent.bonusCards.length);
+    }
+    this.bonusCardDeck = DiscardableDeck.fromPiles(
+      bonusCards,
+      this.bonusCardDeck.getDiscardItems(),
+      rng
+    );
+
+    if (rng !== this.rng) {
+      this.birdfeeder = Birdfeeder.withDice(
+        this.birdfeeder.getDiceInFeeder(),
+        rng
+      );
+      this.rng = rng;
+    }
   }
 
   /**
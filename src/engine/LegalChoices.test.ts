@@ -0,0 +1,387 @@
+import { describe, it, expect } from "vitest";
+import {
+  choiceKey,
+  enumerateLegalChoices,
+  listLegalChoices,
+} from "./LegalChoices.js";
+import { validateChoice } from "./ChoiceValidators.js";
+import { GameEngine, type GameStep } from "./GameEngine.js";
+import type { GameState } from "./GameState.js";
+import { DataRegistry } from "../data/DataRegistry.js";
+import { SmartRandomAgent } from "../agents/SmartRandomAgent.js";
+import type { PlayerAgent } from "../agents/PlayerAgent.js";
+import type { DieFace, DieSelection, FoodType, Habitat } from "../types/core.js";
+import type {
+  DecisionChoice,
+  DecisionPrompt,
+  DrawCardsPrompt,
+  PlaceEggsPrompt,
+  SelectFoodFromFeederPrompt,
+  TurnActionKind,
+} from "../types/prompts.js";
+
+const registry = new DataRegistry();
+
+const FOOD_TYPES: FoodType[] = ["INVERTEBRATE", "SEED", "FISH", "FRUIT", "RODENT"];
+const HABITATS: Habitat[] = ["FOREST", "GRASSLAND", "WETLAND"];
+const ACTIONS: TurnActionKind[] = ["PLAY_BIRD", "GAIN_FOOD", "LAY_EGGS", "DRAW_CARDS"];
+
+/** Enumerations longer than this are only checked in part */
+const MAX_CHOICES = 5000;
+/** Choices per prompt whose neighbors are checked against the validator */
+const CHOICES_TO_PERTURB = 25;
+
+function ask(agent: PlayerAgent, prompt: DecisionPrompt): Promise<DecisionChoice> {
+  switch (prompt.kind) {
+    case "startingHand":
+      return agent.chooseStartingHand(prompt);
+    case "turnAction":
+      return agent.chooseTurnAction(prompt);
+    default:
+      return agent.chooseOption(prompt);
+  }
+}
+
+function bump<K extends string>(
+  counts: Partial<Record<K, number>>,
+  key: K,
+  delta: number
+): Partial<Record<K, number>> {
+  return { ...counts, [key]: (counts[key] ?? 0) + delta };
+}
+
+/**
+ * Every change of one count up or down, for the given keys and those
+ * already counted.
+ */
+function bumpedCounts<K extends string>(
+  counts: Partial<Record<K, number>>,
+  keys: readonly K[]
+): Partial<Record<K, number>>[] {
+  const allKeys = [...new Set([...keys, ...(Object.keys(counts) as K[])])];
+  return allKeys.flatMap((key) => [bump(counts, key, 1), bump(counts, key, -1)]);
+}
+
+/**
+ * Every change of one id: each one removed, and each candidate added.
+ */
+function changedIds(ids: readonly string[], candidates: readonly string[]): string[][] {
+  return [
+    ...ids.map((_, i) => ids.filter((__, j) => j !== i)),
+    ...[...candidates, "unknown"].map((id) => [...ids, id]),
+  ];
+}
+
+/**
+ * Choices that differ from a valid one in a single detail, some of them
+ * valid and most not.
+ */
+function neighbors(
+  choice: DecisionChoice,
+  prompt: DecisionPrompt,
+  state: GameState
+): DecisionChoice[] {
+  const player = state.findPlayer(prompt.playerId);
+  switch (choice.kind) {
+    case "startingHand": {
+      if (prompt.kind !== "startingHand") return [];
+      const toggle = <T>(set: Set<T>, item: T) => {
+        const toggled = new Set(set);
+        if (!toggled.delete(item)) toggled.add(item);
+        return toggled;
+      };
+      return [
+        ...[...prompt.eligibleBirds.map((b) => b.id), "unknown"].map((id) => ({
+          ...choice,
+          birds: toggle(choice.birds, id),
+        })),
+        ...FOOD_TYPES.map((food) => ({
+          ...choice,
+          foodToDiscard: toggle(choice.foodToDiscard, food),
+        })),
+        ...[...prompt.eligibleBonusCards.map((c) => c.id), "unknown"].map(
+          (bonusCard) => ({ ...choice, bonusCard })
+        ),
+      ];
+    }
+    case "turnAction":
+      return ACTIONS.flatMap((action) => [
+        { ...choice, action, takeBonus: false },
+        { ...choice, action, takeBonus: true },
+      ]);
+    case "activatePower":
+      return [{ ...choice, activate: !choice.activate }];
+    case "selectFoodFromFeeder": {
+      if (prompt.kind !== "selectFoodFromFeeder") return [];
+      const taken = choice.diceOrReroll === "reroll" ? [] : choice.diceOrReroll;
+      return [
+        { ...choice, diceOrReroll: "reroll" },
+        ...taken.map((_, i) => ({
+          ...choice,
+          diceOrReroll: taken.filter((__, j) => j !== i),
+        })),
+        ...([
+          ...(Object.keys(prompt.availableDice) as DieFace[]).map((die) => ({ die })),
+          { die: "SEED_INVERTEBRATE" },
+          { die: "SEED_INVERTEBRATE", asFoodType: "SEED" },
+          { die: "SEED_INVERTEBRATE", asFoodType: "INVERTEBRATE" },
+        ] as DieSelection[]).map((selection) => ({
+          ...choice,
+          diceOrReroll: [...taken, selection],
+        })),
+      ];
+    }
+    case "selectFoodFromSupply":
+      return bumpedCounts(choice.food, FOOD_TYPES).map((food) => ({ ...choice, food }));
+    case "discardFood":
+      return bumpedCounts(choice.food, FOOD_TYPES).map((food) => ({ ...choice, food }));
+    case "selectFoodDestination":
+      return (["PLAYER_SUPPLY", "CACHE_ON_SOURCE_BIRD"] as const).map(
+        (destination) => ({ ...choice, destination })
+      );
+    case "discardEggs": {
+      const birds = Object.keys(player.board.getEggsOnBirds());
+      return bumpedCounts(choice.sources, [...birds, "unknown"]).map((sources) => ({
+        ...choice,
+        sources,
+      }));
+    }
+    case "placeEggs": {
+      const birds = player.board.getAllBirds().map((b) => b.id);
+      return bumpedCounts(choice.placements, [...birds, "unknown"]).map(
+        (placements) => ({ ...choice, placements })
+      );
+    }
+    case "selectCards":
+    case "selectBonusCards": {
+      if (prompt.kind !== "selectCards" && prompt.kind !== "selectBonusCards") return [];
+      const candidates = prompt.eligibleCards.map((c) => c.id);
+      return changedIds(choice.cards, [...candidates, ...choice.cards.slice(0, 1)]).map(
+        (cards) => ({ ...choice, cards })
+      );
+    }
+    case "drawCards": {
+      if (prompt.kind !== "drawCards") return [];
+      const candidates = prompt.trayCards.map((c) => c.id);
+      return [
+        ...changedIds(choice.trayCards, candidates).map((trayCards) => ({
+          ...choice,
+          trayCards,
+        })),
+        { ...choice, numDeckCards: choice.numDeckCards + 1 },
+        { ...choice, numDeckCards: choice.numDeckCards - 1 },
+      ];
+    }
+    case "selectPlayer":
+      return [...state.players.map((p) => p.id), "unknown"].map((p) => ({
+        ...choice,
+        player: p,
+      }));
+    case "repeatPower":
+      return [...player.board.getAllBirds().map((b) => b.id), "unknown"].map(
+        (bird) => ({ ...choice, bird })
+      );
+    case "playBird": {
+      if (prompt.kind !== "playBird") return [];
+      const birds = Object.keys(player.board.getEggsOnBirds());
+      const exchanges = choice.foodExchanges ?? [];
+      return [
+        ...[...prompt.eligibleBirds.map((b) => b.id), "unknown"].map((bird) => ({
+          ...choice,
+          bird,
+        })),
+        ...HABITATS.map((habitat) => ({ ...choice, habitat })),
+        ...bumpedCounts(choice.foodToSpend, FOOD_TYPES).map((foodToSpend) => ({
+          ...choice,
+          foodToSpend,
+        })),
+        ...bumpedCounts(choice.eggsToSpend, [...birds, "unknown"]).map(
+          (eggsToSpend) => ({ ...choice, eggsToSpend })
+        ),
+        ...exchanges.map((_, i) => ({
+          ...choice,
+          foodExchanges: exchanges.filter((__, j) => j !== i),
+        })),
+        ...FOOD_TYPES.map((receive) => ({
+          ...choice,
+          foodExchanges: [...exchanges, { give: { SEED: 1, FISH: 1 }, receive }],
+        })),
+      ];
+    }
+    case "selectHabitat":
+      return HABITATS.map((habitat) => ({ ...choice, habitat }));
+  }
+}
+
+/**
+ * Check the enumeration for a prompt against the validator, including the
+ * choice an agent actually made.
+ */
+function checkAgainstValidator(
+  prompt: DecisionPrompt,
+  state: GameState,
+  agentChoice: DecisionChoice
+) {
+  const choices = listLegalChoices(prompt, state, MAX_CHOICES);
+  const keys = new Set(choices.map(choiceKey));
+  expect(keys.size).toBe(choices.length);
+
+  for (const choice of choices) {
+    expect(choice.promptId).toBe(prompt.promptId);
+    expect(validateChoice(prompt, choice, state)).toBeNull();
+  }
+  // Only a complete enumeration says what is outside it
+  if (choices.length === MAX_CHOICES) return;
+
+  const samples = [agentChoice, ...choices.slice(0, CHOICES_TO_PERTURB)];
+  for (const sample of samples) {
+    for (const candidate of [sample, ...neighbors(sample, prompt, state)]) {
+      const valid = validateChoice(prompt, candidate, state) === null;
+      expect({ candidate, valid: keys.has(choiceKey(candidate)) }).toEqual({
+        candidate,
+        valid,
+      });
+    }
+  }
+}
+
+/**
+ * Play a game with SmartRandomAgents, checking every prompt on the way.
+ * @returns The kinds of prompt checked
+ */
+async function checkGame(seed: number, players: number): Promise<Set<string>> {
+  const agents = Array.from(
+    { length: players },
+    (_, i) => new SmartRandomAgent(`p${i + 1}`, seed + i)
+  );
+  const engine = new GameEngine({ agents, seed, registry });
+  const kinds = new Set<string>();
+  let step: GameStep = await engine.start();
+  while (step.kind === "decision") {
+    const { prompt } = step;
+    const agent = agents.find((a) => a.playerId === prompt.playerId)!;
+    const choice = await ask(agent, prompt);
+    checkAgainstValidator(prompt, engine.getGameState(), choice);
+    kinds.add(prompt.kind);
+    step = await engine.submit(choice);
+  }
+  return kinds;
+}
+
+/**
+ * Start a game and return its state with p1's starting hand prompt, to
+ * build other prompts from.
+ */
+async function startGame() {
+  const engine = new GameEngine({
+    agents: [new SmartRandomAgent("p1", 1), new SmartRandomAgent("p2", 2)],
+    seed: 1,
+    registry,
+  });
+  const step = await engine.start();
+  if (step.kind !== "decision") throw new Error("expected a decision");
+  const { view, context } = step.prompt;
+  return {
+    state: engine.getGameState(),
+    base: { promptId: "prompt_x", playerId: "p1", view, context },
+  };
+}
+
+describe("enumerateLegalChoices()", () => {
+  it("matches the validators on every prompt of seeded games", async () => {
+    const kinds = new Set<string>();
+    for (const [seed, players] of [
+      [1, 2],
+      [2, 3],
+      [3, 2],
+    ]) {
+      for (const kind of await checkGame(seed, players)) {
+        kinds.add(kind);
+      }
+    }
+
+    for (const kind of [
+      "startingHand",
+      "turnAction",
+      "playBird",
+      "selectFoodFromFeeder",
+      "placeEggs",
+      "drawCards",
+      "activatePower",
+    ]) {
+      expect(kinds).toContain(kind);
+    }
+  }, 120_000);
+
+  it("enumerates every way to place eggs", async () => {
+    const { state, base } = await startGame();
+    const prompt: PlaceEggsPrompt = {
+      ...base,
+      kind: "placeEggs",
+      count: 2,
+      remainingCapacitiesByEligibleBird: { a: 2, b: 1, c: 0 },
+    };
+
+    expect([...enumerateLegalChoices(prompt, state)].map((c) => c.placements)).toEqual([
+      { a: 2 },
+      { a: 1, b: 1 },
+    ]);
+  });
+
+  it("takes SEED_INVERTEBRATE dice as either food", async () => {
+    const { state, base } = await startGame();
+    const prompt: SelectFoodFromFeederPrompt = {
+      ...base,
+      kind: "selectFoodFromFeeder",
+      availableDice: { SEED_INVERTEBRATE: 1, FISH: 1 },
+    };
+
+    const choices = [...enumerateLegalChoices(prompt, state)];
+
+    // No reroll, since the dice differ
+    expect(choices.map((c) => choiceKey(c)).sort()).toEqual(
+      ([
+        [{ die: "SEED_INVERTEBRATE", asFoodType: "SEED" }],
+        [{ die: "SEED_INVERTEBRATE", asFoodType: "INVERTEBRATE" }],
+        [{ die: "FISH" }],
+        [{ die: "SEED_INVERTEBRATE", asFoodType: "SEED" }, { die: "FISH" }],
+        [{ die: "SEED_INVERTEBRATE", asFoodType: "INVERTEBRATE" }, { die: "FISH" }],
+      ] as DieSelection[][])
+        .map((diceOrReroll) =>
+          choiceKey({ promptId: "x", kind: "selectFoodFromFeeder", diceOrReroll })
+        )
+        .sort()
+    );
+  });
+
+  it("is lazy, and lists a bounded number of choices on request", async () => {
+    const { state, base } = await startGame();
+    const prompt: DrawCardsPrompt = {
+      ...base,
+      kind: "drawCards",
+      remaining: 3,
+      trayCards: registry.getAllBirds().slice(0, 3),
+    };
+
+    // 1-3 cards from the deck, then 0-2 more with each tray card, and so on
+    expect(listLegalChoices(prompt, state)).toHaveLength(3 + 3 * 3 + 3 * 2 + 1);
+    expect(listLegalChoices(prompt, state, 2)).toEqual([
+      { promptId: "prompt_x", kind: "drawCards", trayCards: [], numDeckCards: 1 },
+      { promptId: "prompt_x", kind: "drawCards", trayCards: [], numDeckCards: 2 },
+    ]);
+  });
+});
+
+describe("choiceKey()", () => {
+  it("ignores the promptId, zero counts and the order of cards", () => {
+    expect(
+      choiceKey({ promptId: "a", kind: "placeEggs", placements: { x: 1, y: 0, z: 2 } })
+    ).toBe(choiceKey({ promptId: "b", kind: "placeEggs", placements: { z: 2, x: 1 } }));
+    expect(
+      choiceKey({ promptId: "a", kind: "selectCards", cards: ["x", "y"] })
+    ).toBe(choiceKey({ promptId: "a", kind: "selectCards", cards: ["y", "x"] }));
+    expect(
+      choiceKey({ promptId: "a", kind: "selectCards", cards: ["x", "x"] })
+    ).not.toBe(choiceKey({ promptId: "a", kind: "selectCards", cards: ["x"] }));
+  });
+});
@@ -0,0 +1,598 @@
+/**
+ * LegalChoices - Every valid answer to a prompt.
+ *
+ * Agents that search or sample over their options can get them here instead
+ * of re-deriving the rules from each prompt. The choices are exactly those
+ * the validators in ChoiceValidators.ts accept: each one enumerated passes
+ * validateChoice(), and any choice validateChoice() accepts has the same
+ * choiceKey() as one of them.
+ *
+ * Egg placements, birdfeeder dice and food payments multiply quickly, so
+ * choices are produced lazily; stop iterating once you have enough, or use
+ * listLegalChoices() with a limit.
+ */
+
+import type { GameState } from "./GameState.js";
+import type {
+  DecisionChoice,
+  DecisionPrompt,
+  FoodExchange,
+  PlayBirdChoice,
+  PlayBirdPrompt,
+  SelectFoodFromFeederChoice,
+  SelectFoodFromFeederPrompt,
+} from "../types/prompts.js";
+import type {
+  BirdCard,
+  DieFace,
+  DieSelection,
+  FoodByType,
+  FoodType,
+} from "../types/core.js";
+import { FOOD_EXCHANGE_RATE } from "./FoodPayment.js";
+
+/**
+ * The choice type answering a prompt type.
+ */
+export type ChoiceFor<P extends DecisionPrompt> = Extract<
+  DecisionChoice,
+  { kind: P["kind"] }
+>;
+
+/**
+ * Yields every valid choice for a prompt of one kind.
+ */
+type ChoiceEnumerator<K extends DecisionChoice["kind"]> = (
+  prompt: Extract<DecisionPrompt, { kind: K }>,
+  state: GameState
+) => Generator<Extract<DecisionChoice, { kind: K }>>;
+
+/** Food types a token can be (WILD only appears in costs) */
+const FOOD_TYPES: FoodType[] = ["INVERTEBRATE", "SEED", "FISH", "FRUIT", "RODENT"];
+
+type Counts = Partial<Record<string, number>>;
+
+/**
+ * Get the entries of a count map that have a positive count.
+ */
+function positiveEntries(counts: Counts): Array<[string, number]> {
+  return Object.entries(counts).filter(
+    (entry): entry is [string, number] => (entry[1] ?? 0) > 0
+  );
+}
+
+function unique<T>(items: readonly T[]): T[] {
+  return [...new Set(items)];
+}
+
+function repeat<T>(times: number, create: () => T): T[] {
+  return Array.from({ length: times }, create);
+}
+
+/**
+ * Yield every way to choose `size` of the items, keeping their order.
+ */
+function* combinations<T>(
+  items: readonly T[],
+  size: number,
+  start = 0
+): Generator<T[]> {
+  if (size === 0) {
+    yield [];
+    return;
+  }
+  for (let i = start; i <= items.length - size; i++) {
+    for (const rest of combinations(items, size - 1, i + 1)) {
+      yield [items[i], ...rest];
+    }
+  }
+}
+
+/**
+ * Yield every way to split `total` among the keys without exceeding any
+ * key's capacity. Keys given 0 are left out of each split.
+ */
+function* distributions<K extends string>(
+  total: number,
+  capacities: ReadonlyArray<readonly [K, number]>,
+  index = 0
+): Generator<Partial<Record<K, number>>> {
+  if (index === capacities.length) {
+    if (total === 0) {
+      yield {};
+    }
+    return;
+  }
+  const [key, capacity] = capacities[index];
+  let laterCapacity = 0;
+  for (let i = index + 1; i < capacities.length; i++) {
+    laterCapacity += capacities[i][1];
+  }
+  for (let count = Math.min(total, capacity); count >= 0; count--) {
+    // Whatever this key doesn't take must fit in the keys after it
+    if (total - count > laterCapacity) break;
+    for (const rest of distributions(total - count, capacities, index + 1)) {
+      yield count > 0 ? ({ [key]: count, ...rest } as Partial<Record<K, number>>) : rest;
+    }
+  }
+}
+
+/** Every way to split a food cost of `total` among the food types */
+function anyFood(total: number): Generator<FoodByType> {
+  return distributions(
+    total,
+    FOOD_TYPES.map((foodType) => [foodType, Infinity] as const)
+  );
+}
+
+/** The food tokens one 2-for-1 exchange can give up */
+const EXCHANGE_GIVES: FoodByType[] = [...anyFood(FOOD_EXCHANGE_RATE)];
+
+function addFood(a: FoodByType, b: FoodByType): FoodByType {
+  const sum: FoodByType = { ...a };
+  for (const [foodType, count] of positiveEntries(b)) {
+    sum[foodType as FoodType] = (sum[foodType as FoodType] ?? 0) + count;
+  }
+  return sum;
+}
+
+/**
+ * Subtract b from a, or return null if a doesn't hold all of b.
+ */
+function subtractFood(a: FoodByType, b: FoodByType): FoodByType | null {
+  const difference: FoodByType = { ...a };
+  for (const [foodType, count] of positiveEntries(b)) {
+    const left = (a[foodType as FoodType] ?? 0) - count;
+    if (left < 0) return null;
+    difference[foodType as FoodType] = left;
+  }
+  return difference;
+}
+
+/**
+ * Yield each amount of food that pays a bird's cost exactly (see
+ * validateFoodPayment()), whether paid directly or by exchange.
+ */
+function* exactFoodPayments(card: BirdCard): Generator<FoodByType> {
+  const specificCosts = positiveEntries(card.foodCost).filter(
+    ([foodType]) => foodType !== "WILD"
+  );
+  const wildRequired = card.foodCost.WILD ?? 0;
+
+  if (card.foodCostMode === "NONE") {
+    yield {};
+  } else if (card.foodCostMode === "AND") {
+    const specific = Object.fromEntries(specificCosts) as FoodByType;
+    for (const wild of anyFood(wildRequired)) {
+      yield addFood(specific, wild);
+    }
+  } else if (card.foodCostMode === "OR") {
+    const seen = new Set<string>();
+    const options = [
+      ...specificCosts.map(([foodType, count]) => ({ [foodType]: count })),
+      ...(wildRequired > 0 ? anyFood(wildRequired) : []),
+    ];
+    for (const option of options) {
+      const key = JSON.stringify(sortedCounts(option));
+      if (!seen.has(key)) {
+        seen.add(key);
+        yield option;
+      }
+    }
+  }
+}
+
+/**
+ * Yield the ways to give up food from `left` for each food in `receives`,
+ * one exchange per food. Repeated receive types get their gives in a fixed
+ * order, so the same set of exchanges is only yielded once.
+ */
+function* exchangesFor(
+  receives: readonly FoodType[],
+  left: FoodByType,
+  index = 0,
+  firstGive = 0
+): Generator<FoodExchange[]> {
+  if (index === receives.length) {
+    yield [];
+    return;
+  }
+  const sameAsPrevious = index > 0 && receives[index] === receives[index - 1];
+  for (let g = sameAsPrevious ? firstGive : 0; g < EXCHANGE_GIVES.length; g++) {
+    const give = EXCHANGE_GIVES[g];
+    const rest = subtractFood(left, give);
+    if (!rest) continue;
+    for (const later of exchangesFor(receives, rest, index + 1, g)) {
+      yield [{ give: { ...give }, receive: receives[index] }, ...later];
+    }
+  }
+}
+
+/**
+ * Yield every food payment for a bird that validateFoodPayment() accepts:
+ * each exact payment, split every way between food paid directly and food
+ * received from exchanges.
+ */
+function* foodPayments(
+  card: BirdCard,
+  supply: FoodByType
+): Generator<{ foodToSpend: FoodByType; foodExchanges: FoodExchange[] }> {
+  for (const payment of exactFoodPayments(card)) {
+    for (const foodToSpend of distributionsWithin(payment, supply)) {
+      const left = subtractFood(supply, foodToSpend)!;
+      const receives = FOOD_TYPES.flatMap((foodType) =>
+        repeat(
+          (payment[foodType] ?? 0) - (foodToSpend[foodType] ?? 0),
+          () => foodType
+        )
+      );
+      for (const foodExchanges of exchangesFor(receives, left)) {
+        yield { foodToSpend, foodExchanges };
+      }
+    }
+  }
+}
+
+/**
+ * Yield every part of `food` that `supply` holds, most food first.
+ */
+function* distributionsWithin(
+  food: FoodByType,
+  supply: FoodByType,
+  index = 0
+): Generator<FoodByType> {
+  if (index === FOOD_TYPES.length) {
+    yield {};
+    return;
+  }
+  const foodType = FOOD_TYPES[index];
+  const most = Math.min(food[foodType] ?? 0, supply[foodType] ?? 0);
+  for (let count = most; count >= 0; count--) {
+    for (const rest of distributionsWithin(food, supply, index + 1)) {
+      yield count > 0 ? { [foodType]: count, ...rest } : rest;
+    }
+  }
+}
+
+/**
+ * Yield every selection of dice from the birdfeeder, taking each
+ * SEED_INVERTEBRATE die as either food. Includes the empty selection.
+ */
+function* diceSelections(
+  dice: ReadonlyArray<[DieFace, number]>,
+  index = 0
+): Generator<DieSelection[]> {
+  if (index === dice.length) {
+    yield [];
+    return;
+  }
+  const [die, available] = dice[index];
+  for (const rest of diceSelections(dice, index + 1)) {
+    for (let count = 0; count <= available; count++) {
+      if (die !== "SEED_INVERTEBRATE") {
+        yield [...repeat(count, () => ({ die })), ...rest];
+        continue;
+      }
+      for (let seeds = count; seeds >= 0; seeds--) {
+        yield [
+          ...repeat(seeds, (): DieSelection => ({ die, asFoodType: "SEED" })),
+          ...repeat(count - seeds, (): DieSelection => ({
+            die,
+            asFoodType: "INVERTEBRATE",
+          })),
+          ...rest,
+        ];
+      }
+    }
+  }
+}
+
+function* selectFoodFromFeederChoices(
+  prompt: SelectFoodFromFeederPrompt
+): Generator<SelectFoodFromFeederChoice> {
+  const base = { promptId: prompt.promptId, kind: "selectFoodFromFeeder" as const };
+  // Mirrors the validator, which only sees the dice on offer
+  if (Object.keys(prompt.availableDice).length <= 1) {
+    yield { ...base, diceOrReroll: "reroll" };
+  }
+  const dice = positiveEntries(prompt.availableDice) as Array<[DieFace, number]>;
+  for (const selection of diceSelections(dice)) {
+    if (selection.length > 0) {
+      yield { ...base, diceOrReroll: selection };
+    }
+  }
+}
+
+function* playBirdChoices(
+  prompt: PlayBirdPrompt,
+  state: GameState
+): Generator<PlayBirdChoice> {
+  const player = state.findPlayer(prompt.playerId);
+  const eggsOnBirds = Object.entries(player.board.getEggsOnBirds());
+  const seen = new Set<string>();
+  for (const bird of prompt.eligibleBirds) {
+    if (seen.has(bird.id)) continue;
+    seen.add(bird.id);
+    for (const habitat of unique(bird.habitats)) {
+      const eggCost = prompt.eggCostByEligibleHabitat[habitat];
+      if (eggCost === undefined) continue;
+      for (const { foodToSpend, foodExchanges } of foodPayments(bird, player.food)) {
+        for (const eggsToSpend of distributions(eggCost, eggsOnBirds)) {
+          yield {
+            promptId: prompt.promptId,
+            kind: "playBird",
+            bird: bird.id,
+            habitat,
+            foodToSpend,
+            ...(foodExchanges.length > 0 && { foodExchanges }),
+            eggsToSpend,
+          };
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Enumerators for every prompt kind.
+ */
+const enumerators: { [K in DecisionChoice["kind"]]: ChoiceEnumerator<K> } = {
+  *startingHand(prompt, state) {
+    const food = state.findPlayer(prompt.playerId).food;
+    const foodTypes = FOOD_TYPES.filter((foodType) => (food[foodType] ?? 0) > 0);
+    const birds = unique(prompt.eligibleBirds.map((b) => b.id));
+    const bonusCards = unique(prompt.eligibleBonusCards.map((c) => c.id));
+    // 1 food is discarded per bird kept
+    for (let kept = 0; kept <= Math.min(birds.length, foodTypes.length); kept++) {
+      for (const keptBirds of combinations(birds, kept)) {
+        for (const bonusCard of bonusCards) {
+          for (const discarded of combinations(foodTypes, kept)) {
+            yield {
+              promptId: prompt.promptId,
+              kind: "startingHand",
+              birds: new Set(keptBirds),
+              bonusCard,
+              foodToDiscard: new Set(discarded),
+            };
+          }
+        }
+      }
+    }
+  },
+
+  *turnAction(prompt) {
+    for (const action of unique(prompt.eligibleActions)) {
+      const base = { promptId: prompt.promptId, kind: "turnAction" as const, action };
+      yield { ...base, takeBonus: false };
+      if (prompt.rewardsByAction[action]?.bonus) {
+        yield { ...base, takeBonus: true };
+      }
+    }
+  },
+
+  *activatePower(prompt) {
+    for (const activate of [true, false]) {
+      yield { promptId: prompt.promptId, kind: "activatePower", activate };
+    }
+  },
+
+  selectFoodFromFeeder: selectFoodFromFeederChoices,
+
+  *selectFoodFromSupply(prompt) {
+    const foods = unique(prompt.allowedFoods).map((f) => [f, Infinity] as const);
+    for (const food of distributions(prompt.count, foods)) {
+      yield { promptId: prompt.promptId, kind: "selectFoodFromSupply", food };
+    }
+  },
+
+  *selectFoodDestination(prompt) {
+    for (const destination of unique(prompt.destinationOptions)) {
+      yield { promptId: prompt.promptId, kind: "selectFoodDestination", destination };
+    }
+  },
+
+  *discardEggs(prompt) {
+    const birds = positiveEntries(prompt.eggsByEligibleBird);
+    for (const sources of distributions(prompt.count, birds)) {
+      yield { promptId: prompt.promptId, kind: "discardEggs", sources };
+    }
+  },
+
+  *placeEggs(prompt) {
+    const birds = positiveEntries(prompt.remainingCapacitiesByEligibleBird);
+    for (const placements of distributions(prompt.count, birds)) {
+      yield { promptId: prompt.promptId, kind: "placeEggs", placements };
+    }
+  },
+
+  *selectCards(prompt) {
+    if (prompt.count < 0) return;
+    const cards = unique(prompt.eligibleCards.map((c) => c.id));
+    for (const selected of combinations(cards, prompt.count)) {
+      yield { promptId: prompt.promptId, kind: "selectCards", cards: selected };
+    }
+  },
+
+  *drawCards(prompt) {
+    if (prompt.remaining < 0) return;
+    const trayIds = unique(prompt.trayCards.map((c) => c.id));
+    const fewest = prompt.remaining > 0 ? 1 : 0;
+    for (let fromTray = 0; fromTray <= Math.min(trayIds.length, prompt.remaining); fromTray++) {
+      for (const trayCards of combinations(trayIds, fromTray)) {
+        for (
+          let numDeckCards = Math.max(0, fewest - fromTray);
+          numDeckCards <= prompt.remaining - fromTray;
+          numDeckCards++
+        ) {
+          yield { promptId: prompt.promptId, kind: "drawCards", trayCards, numDeckCards };
+        }
+      }
+    }
+  },
+
+  *selectBonusCards(prompt) {
+    if (prompt.count < 0) return;
+    const cards = unique(prompt.eligibleCards.map((c) => c.id));
+    for (const selected of combinations(cards, prompt.count)) {
+      yield { promptId: prompt.promptId, kind: "selectBonusCards", cards: selected };
+    }
+  },
+
+  *selectPlayer(prompt) {
+    for (const player of unique(prompt.eligiblePlayers)) {
+      yield { promptId: prompt.promptId, kind: "selectPlayer", player };
+    }
+  },
+
+  *repeatPower(prompt) {
+    for (const bird of unique(prompt.eligibleBirds)) {
+      yield { promptId: prompt.promptId, kind: "repeatPower", bird };
+    }
+  },
+
+  playBird: playBirdChoices,
+
+  *discardFood(prompt, state) {
+    const food = state.findPlayer(prompt.playerId).food;
+    const specific: FoodByType = {};
+    let wild = 0;
+    for (const [foodType, count] of positiveEntries(prompt.foodCost)) {
+      if (foodType === "WILD") {
+        wild += count;
+      } else {
+        specific[foodType as FoodType] = count;
+      }
+    }
+    // WILD is paid from whatever is left after the specific food
+    const left = subtractFood(food, specific);
+    if (!left) return;
+    const capacities = FOOD_TYPES.map((f) => [f, left[f] ?? 0] as const);
+    for (const wildFood of distributions(wild, capacities)) {
+      yield {
+        promptId: prompt.promptId,
+        kind: "discardFood",
+        food: addFood(specific, wildFood),
+      };
+    }
+  },
+
+  *selectHabitat(prompt) {
+    for (const habitat of unique(prompt.eligibleHabitats)) {
+      yield { promptId: prompt.promptId, kind: "selectHabitat", habitat };
+    }
+  },
+};
+
+/**
+ * Enumerate every valid choice for a prompt, lazily.
+ *
+ * Order-insensitive parts of a choice (cards picked, dice taken, exchanges
+ * made) come in one fixed order, so no two choices yielded have the same
+ * choiceKey().
+ * @param state - The game state the prompt was asked in
+ * @throws Error if the prompt's player is not in the game
+ */
+export function enumerateLegalChoices<P extends DecisionPrompt>(
+  prompt: P,
+  state: GameState
+): Iterable<ChoiceFor<P>> {
+  const enumerate = enumerators[prompt.kind] as unknown as (
+    prompt: P,
+    state: GameState
+  ) => Iterable<ChoiceFor<P>>;
+  return enumerate(prompt, state);
+}
+
+/**
+ * Get up to `limit` valid choices for a prompt, in the order
+ * enumerateLegalChoices() yields them.
+ */
+export function listLegalChoices<P extends DecisionPrompt>(
+  prompt: P,
+  state: GameState,
+  limit = Infinity
+): ChoiceFor<P>[] {
+  const choices: ChoiceFor<P>[] = [];
+  if (limit <= 0) return choices;
+  for (const choice of enumerateLegalChoices(prompt, state)) {
+    choices.push(choice);
+    if (choices.length >= limit) break;
+  }
+  return choices;
+}
+
+function sortedCounts(counts: Counts): Counts {
+  return Object.fromEntries(
+    Object.entries(counts)
+      .filter(([, count]) => count)
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+/**
+ * Get a key identifying what a choice does, ignoring its promptId and how
+ * it is written down: zero counts, the order of cards, dice and exchanges,
+ * and a food type given for a die that isn't SEED_INVERTEBRATE. Choices with
+ * the same key are equally valid and have the same effect.
+ */
+export function choiceKey(choice: DecisionChoice): string {
+  return JSON.stringify(describeChoice(choice));
+}
+
+function describeChoice(choice: DecisionChoice): unknown[] {
+  switch (choice.kind) {
+    case "startingHand":
+      return [
+        choice.kind,
+        [...choice.birds].sort(),
+        choice.bonusCard,
+        [...choice.foodToDiscard].sort(),
+      ];
+    case "turnAction":
+      return [choice.kind, choice.action, choice.takeBonus];
+    case "activatePower":
+      return [choice.kind, choice.activate];
+    case "selectFoodFromFeeder":
+      return [
+        choice.kind,
+        choice.diceOrReroll === "reroll"
+          ? "reroll"
+          : choice.diceOrReroll
+              .map(({ die, asFoodType }) =>
+                die === "SEED_INVERTEBRATE" ? `${die}:${asFoodType}` : die
+              )
+              .sort(),
+      ];
+    case "selectFoodFromSupply":
+    case "discardFood":
+      return [choice.kind, sortedCounts(choice.food)];
+    case "selectFoodDestination":
+      return [choice.kind, choice.destination];
+    case "discardEggs":
+      return [choice.kind, sortedCounts(choice.sources)];
+    case "placeEggs":
+      return [choice.kind, sortedCounts(choice.placements)];
+    case "selectCards":
+    case "selectBonusCards":
+      return [choice.kind, [...choice.cards].sort()];
+    case "drawCards":
+      return [choice.kind, [...choice.trayCards].sort(), choice.numDeckCards];
+    case "selectPlayer":
+      return [choice.kind, choice.player];
+    case "repeatPower":
+      return [choice.kind, choice.bird];
+    case "playBird":
+      return [
+        choice.kind,
+        choice.bird,
+        choice.habitat,
+        sortedCounts(choice.foodToSpend),
+        (choice.foodExchanges ?? [])
+          .map(({ give, receive }) => `${JSON.stringify(sortedCounts(give))}>${receive}`)
+          .sort(),
+        sortedCounts(choice.eggsToSpend),
+      ];
+    case "selectHabitat":
+      return [choice.kind, choice.habitat];
+  }
+}
@@ -148,6 +148,31 @@ describe("PlayerState", () => {
     });
   });
 
+  describe("canAffordBirdFood()", () => {
+    const fishBird = createMockBirdCard({
+      foodCost: { FISH: 1 },
+      foodCostMode: "AND",
+    });
+
+    it("returns true when the cost can be paid directly", () => {
+      const player = PlayerState.from("p1", { food: { FISH: 1 } });
+      expect(player.canAffordBirdFood(fishBird)).toBe(true);
+      expect(player.getRequiredFoodExchanges(fishBird)).toBe(0);
+    });
+
+    it("allows exchanging 2 food for 1 of a needed type", () => {
+      const player = PlayerState.from("p1", { food: { SEED: 1, FRUIT: 1 } });
+      expect(player.canAffordBirdFood(fishBird)).toBe(true);
+      expect(player.getRequiredFoodExchanges(fishBird)).toBe(1);
+    });
+
+    it("returns false when exchanges can't cover the cost", () => {
+      const player = PlayerState.from("p1", { food: { SEED: 1 } });
+      expect(player.canAffordBirdFood(fishBird)).toBe(false);
+      expect(player.getRequiredFoodExchanges(fishBird)).toBeNull();
+    });
+  });
+
   describe("mutability", () => {
     it("allows modifying hand", () => {
       const player = PlayerState.create("p1");
@@ -15,6 +15,7 @@ import type {
   PlayerBoardConfig,
 } from "../types/core.js";
 import { PlayerBoard } from "./PlayerBoard.js";
+import { getRequiredFoodExchanges } from "./FoodPayment.js";
 
 const HABITATS: Habitat[] = ["FOREST", "GRASSLAND", "WETLAND"];
 
@@ -136,56 +137,19 @@ export class PlayerState {
   }
 
   /**
-   * Check if the player can afford a bird's food cost.
-   * WILD in food cost means "any food type" - not a real food type players can have.
+   * Check if the player can afford a bird's food cost, allowing 2-for-1
+   * food exchanges.
    */
-  private canAffordBirdFood(card: BirdCard): boolean {
-    if (card.foodCostMode === "NONE") {
-      return true;
-    }
-
-    if (card.foodCostMode === "AND") {
-      // Must have all food types (WILD can be paid with any food)
-      let wildRequired = card.foodCost.WILD ?? 0;
-      let totalAvailable = this.getTotalFood();
-
-      for (const [foodType, required] of Object.entries(card.foodCost)) {
-        if (required && required > 0 && foodType !== "WILD") {
-          const available = this.food[foodType as FoodType] ?? 0;
-          if (available < required) {
-            return false;
-          }
-          // Track food used for specific costs (not available for WILD)
-          totalAvailable -= Math.min(available, required);
-        }
-      }
-      // Check if we have enough remaining food for WILD costs
-      return totalAvailable >= wildRequired;
-    }
-
-    if (card.foodCostMode === "OR") {
-      // Must have at least one of the required food types (or any food if WILD)
-      const totalRequired = Object.values(card.foodCost).reduce(
-        (sum, v) => sum + (v ?? 0),
-        0
-      );
-      if (totalRequired === 0) return true;
-
-      // If WILD is in the cost, any food works
-      if (card.foodCost.WILD && card.foodCost.WILD > 0) {
-        return this.getTotalFood() >= 1;
-      }
-
-      let totalAvailable = 0;
-      for (const [foodType, required] of Object.entries(card.foodCost)) {
-        if (required && required > 0) {
-          totalAvailable += this.food[foodType as FoodType] ?? 0;
-        }
-      }
-      return totalAvailable >= 1;
-    }
+  canAffordBirdFood(card: BirdCard): boolean {
+    return this.getRequiredFoodExchanges(card) !== null;
+  }
 
-    return false;
+  /**
+   * Get the minimum number of 2-for-1 food exchanges needed to pay a bird's
+   * food cost from this player's supply, or null if it can't be paid at all.
+   */
+  getRequiredFoodExchanges(card: BirdCard): number | null {
+    return getRequiredFoodExchanges(card, this.food);
   }
 
   /**
@@ -0,0 +1,230 @@
+import { describe, it, expect } from "vitest";
+import {
+  ROUND_GOAL_COUNTERS,
+  countRoundGoal,
+  rankRoundGoalCounts,
+  scoreRoundGoal,
+  scoreRoundGoalCountsPerItem,
+} from "./RoundGoalScorer.js";
+import { PlayerBoard } from "./PlayerBoard.js";
+import { PlayerState } from "./PlayerState.js";
+import { DataRegistry } from "../data/DataRegistry.js";
+import type {
+  BirdCard,
+  BirdInstance,
+  Habitat,
+  NestType,
+  RoundGoalScoring,
+} from "../types/core.js";
+
+// Helper to create a mock bird card
+function createMockBirdCard(overrides: Partial<BirdCard> = {}): BirdCard {
+  return {
+    id: "test_bird",
+    name: "Test Bird",
+    scientificName: "Testus birdus",
+    habitats: ["FOREST", "GRASSLAND", "WETLAND"],
+    power: null,
+    victoryPoints: 3,
+    nestType: "BOWL",
+    eggCapacity: 6,
+    foodCost: {},
+    foodCostMode: "NONE",
+    wingspanCentimeters: 30,
+    bonusCards: [],
+    flavorText: "",
+    countries: [],
+    categorization: null,
+    ...overrides,
+  };
+}
+
+// Helper to place a bird with the given nest type and eggs on a board
+function placeBird(
+  board: PlayerBoard,
+  habitat: Habitat,
+  column: number,
+  nestType: NestType,
+  eggs: number
+): BirdInstance {
+  const bird: BirdInstance = {
+    id: `${habitat}_${column}`,
+    card: createMockBirdCard({ nestType }),
+    cachedFood: {},
+    tuckedCards: [],
+    eggs,
+  };
+  board.setSlot(habitat, column, bird);
+  return bird;
+}
+
+const ROUND_2_SCORING: RoundGoalScoring = {
+  round: 2,
+  scoring: { "1st": 5, "2nd": 2, "3rd": 1, "4th": 0 },
+};
+
+describe("RoundGoalScorer", () => {
+  describe("ROUND_GOAL_COUNTERS", () => {
+    it("has a counter for every goal in the registry", () => {
+      const registry = new DataRegistry();
+      for (const goalId of registry.getAllRoundGoalIds()) {
+        expect(ROUND_GOAL_COUNTERS[goalId]).toBeDefined();
+      }
+    });
+  });
+
+  describe("countRoundGoal()", () => {
+    function createBoard(): PlayerBoard {
+      const board = PlayerBoard.empty();
+      placeBird(board, "FOREST", 0, "BOWL", 2);
+      placeBird(board, "FOREST", 1, "CAVITY", 0);
+      placeBird(board, "GRASSLAND", 0, "WILD", 3);
+      placeBird(board, "WETLAND", 0, "PLATFORM", 1);
+      placeBird(board, "WETLAND", 1, "GROUND", 4);
+      return board;
+    }
+
+    it("counts birds in a habitat", () => {
+      const board = createBoard();
+      expect(countRoundGoal("birds_in_forest", board)).toBe(2);
+      expect(countRoundGoal("birds_in_grassland", board)).toBe(1);
+      expect(countRoundGoal("birds_in_wetland", board)).toBe(2);
+    });
+
+    it("counts eggs in a habitat", () => {
+      const board = createBoard();
+      expect(countRoundGoal("eggs_in_forest", board)).toBe(2);
+      expect(countRoundGoal("eggs_in_grassland", board)).toBe(3);
+      expect(countRoundGoal("eggs_in_wetland", board)).toBe(5);
+    });
+
+    it("counts eggs in a nest type, with star nests matching every type", () => {
+      const board = createBoard();
+      expect(countRoundGoal("eggs_in_bowl_nests", board)).toBe(5);
+      expect(countRoundGoal("eggs_in_cavity_nests", board)).toBe(3);
+      expect(countRoundGoal("eggs_in_platform_nests", board)).toBe(4);
+      expect(countRoundGoal("eggs_in_ground_nests", board)).toBe(7);
+    });
+
+    it("counts birds of a nest type that have at least one egg", () => {
+      const board = createBoard();
+      expect(countRoundGoal("bowl_nesting_birds_with_eggs", board)).toBe(2);
+      // The cavity bird has no eggs; only the star nest counts
+      expect(countRoundGoal("cavity_nesting_birds_with_eggs", board)).toBe(1);
+      expect(countRoundGoal("platform_nesting_birds_with_eggs", board)).toBe(2);
+      expect(countRoundGoal("ground_nesting_birds_with_eggs", board)).toBe(2);
+    });
+
+    it("counts total birds played", () => {
+      expect(countRoundGoal("total_birds_played", createBoard())).toBe(5);
+    });
+
+    it("counts egg sets as the smallest habitat egg total", () => {
+      expect(countRoundGoal("egg_sets_across_habitats", createBoard())).toBe(2);
+      expect(
+        countRoundGoal("egg_sets_across_habitats", PlayerBoard.empty())
+      ).toBe(0);
+    });
+
+    it("throws for an unknown goal", () => {
+      expect(() => countRoundGoal("unknown_goal", PlayerBoard.empty())).toThrow(
+        "No counter registered for round goal: unknown_goal"
+      );
+    });
+  });
+
+  describe("rankRoundGoalCounts()", () => {
+    it("awards placement points in count order", () => {
+      const points = rankRoundGoalCounts(
+        { p1: 1, p2: 4, p3: 2 },
+        ROUND_2_SCORING
+      );
+      expect(points).toEqual({ p2: 5, p3: 2, p1: 1 });
+    });
+
+    it("splits tied places and rounds down", () => {
+      const points = rankRoundGoalCounts(
+        { p1: 3, p2: 3, p3: 1 },
+        ROUND_2_SCORING
+      );
+      // (5 + 2) / 2 = 3.5 -> 3, then p3 takes 3rd place
+      expect(points).toEqual({ p1: 3, p2: 3, p3: 1 });
+    });
+
+    it("splits a tie for second across second and third place", () => {
+      const points = rankRoundGoalCounts(
+        { p1: 5, p2: 2, p3: 2, p4: 1 },
+        ROUND_2_SCORING
+      );
+      // (2 + 1) / 2 = 1.5 -> 1, then p4 takes 4th place
+      expect(points).toEqual({ p1: 5, p2: 1, p3: 1, p4: 0 });
+    });
+
+    it("gives nothing to places beyond 4th", () => {
+      const points = rankRoundGoalCounts(
+        { p1: 5, p2: 4, p3: 3, p4: 2, p5: 1 },
+        ROUND_2_SCORING
+      );
+      expect(points.p5).toBe(0);
+    });
+
+    it("gives nothing to players without any matching items", () => {
+      const points = rankRoundGoalCounts({ p1: 0, p2: 0 }, ROUND_2_SCORING);
+      expect(points).toEqual({ p1: 0, p2: 0 });
+    });
+  });
+
+  describe("scoreRoundGoalCountsPerItem()", () => {
+    it("awards 1 point per item, capped at 5", () => {
+      const points = scoreRoundGoalCountsPerItem({ p1: 0, p2: 3, p3: 8 });
+      expect(points).toEqual({ p1: 0, p2: 3, p3: 5 });
+    });
+  });
+
+  describe("scoreRoundGoal()", () => {
+    it("counts and ranks every non-forfeited player", () => {
+      const p1 = PlayerState.create("p1");
+      const p2 = PlayerState.create("p2");
+      const p3 = PlayerState.create("p3");
+      placeBird(p1.board, "FOREST", 0, "BOWL", 0);
+      placeBird(p2.board, "FOREST", 0, "BOWL", 0);
+      placeBird(p2.board, "FOREST", 1, "BOWL", 0);
+      placeBird(p3.board, "FOREST", 0, "BOWL", 0);
+      placeBird(p3.board, "FOREST", 1, "BOWL", 0);
+      placeBird(p3.board, "FOREST", 2, "BOWL", 0);
+      p3.forfeited = true;
+
+      const result = scoreRoundGoal(
+        "birds_in_forest",
+        2,
+        [p1, p2, p3],
+        ROUND_2_SCORING
+      );
+
+      expect(result).toEqual({
+        round: 2,
+        goalId: "birds_in_forest",
+        counts: { p1: 1, p2: 2 },
+        points: { p1: 2, p2: 5 },
+      });
+    });
+
+    it("scores per item on the blue side", () => {
+      const p1 = PlayerState.create("p1");
+      const p2 = PlayerState.create("p2");
+      placeBird(p1.board, "FOREST", 0, "BOWL", 0);
+      placeBird(p2.board, "FOREST", 0, "BOWL", 0);
+      placeBird(p2.board, "FOREST", 1, "BOWL", 0);
+
+      const result = scoreRoundGoal(
+        "birds_in_forest",
+        2,
+        [p1, p2],
+        ROUND_2_SCORING,
+        "blue"
+      );
+
+      expect(result.points).toEqual({ p1: 1, p2: 2 });
+    });
+  });
+});
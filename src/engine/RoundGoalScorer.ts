@@ -0,0 +1,179 @@
+/**
+ * RoundGoalScorer - Evaluates end-of-round goals.
+ *
+ * Counts how many matching items each player has for a round goal and converts
+ * the counts into points for the side of the goal board in use
+ * (see rules/base_game/11_end_of_round.md).
+ */
+
+import type {
+  GoalBoardSide,
+  Habitat,
+  NestType,
+  PlayerId,
+  RoundGoalId,
+  RoundGoalPlacement,
+  RoundGoalResult,
+  RoundGoalScoring,
+} from "../types/core.js";
+import type { PlayerBoard } from "./PlayerBoard.js";
+import type { PlayerState } from "./PlayerState.js";
+
+const HABITATS: Habitat[] = ["FOREST", "GRASSLAND", "WETLAND"];
+const PLACEMENTS: RoundGoalPlacement[] = ["1st", "2nd", "3rd", "4th"];
+const MAX_PER_ITEM_POINTS = 5;
+
+/**
+ * Counts the items a player has toward a specific round goal.
+ */
+export type RoundGoalCounter = (board: PlayerBoard) => number;
+
+function countEggsInHabitat(board: PlayerBoard, habitat: Habitat): number {
+  return board
+    .getBirdsInHabitat(habitat)
+    .reduce((sum, bird) => sum + bird.eggs, 0);
+}
+
+/**
+ * Star (WILD) nests count toward every nest type.
+ */
+function countEggsInNestType(board: PlayerBoard, nestType: NestType): number {
+  return board
+    .getBirdsWithNestType(nestType)
+    .reduce((sum, bird) => sum + bird.eggs, 0);
+}
+
+function countNestTypeBirdsWithEggs(
+  board: PlayerBoard,
+  nestType: NestType
+): number {
+  return board.getBirdsWithNestType(nestType).filter((bird) => bird.eggs > 0)
+    .length;
+}
+
+/**
+ * Counters for every goal in round_goals.json, keyed by goal ID.
+ */
+export const ROUND_GOAL_COUNTERS: Readonly<Record<RoundGoalId, RoundGoalCounter>> = {
+  birds_in_forest: (board) => board.countBirdsInHabitat("FOREST"),
+  birds_in_grassland: (board) => board.countBirdsInHabitat("GRASSLAND"),
+  birds_in_wetland: (board) => board.countBirdsInHabitat("WETLAND"),
+  eggs_in_forest: (board) => countEggsInHabitat(board, "FOREST"),
+  eggs_in_grassland: (board) => countEggsInHabitat(board, "GRASSLAND"),
+  eggs_in_wetland: (board) => countEggsInHabitat(board, "WETLAND"),
+  eggs_in_bowl_nests: (board) => countEggsInNestType(board, "BOWL"),
+  eggs_in_cavity_nests: (board) => countEggsInNestType(board, "CAVITY"),
+  eggs_in_ground_nests: (board) => countEggsInNestType(board, "GROUND"),
+  eggs_in_platform_nests: (board) => countEggsInNestType(board, "PLATFORM"),
+  bowl_nesting_birds_with_eggs: (board) =>
+    countNestTypeBirdsWithEggs(board, "BOWL"),
+  cavity_nesting_birds_with_eggs: (board) =>
+    countNestTypeBirdsWithEggs(board, "CAVITY"),
+  ground_nesting_birds_with_eggs: (board) =>
+    countNestTypeBirdsWithEggs(board, "GROUND"),
+  platform_nesting_birds_with_eggs: (board) =>
+    countNestTypeBirdsWithEggs(board, "PLATFORM"),
+  total_birds_played: (board) => board.getAllBirds().length,
+  egg_sets_across_habitats: (board) =>
+    Math.min(...HABITATS.map((habitat) => countEggsInHabitat(board, habitat))),
+};
+
+/**
+ * Count a player's items toward a round goal.
+ * @throws Error if the goal ID is unknown
+ */
+export function countRoundGoal(goalId: RoundGoalId, board: PlayerBoard): number {
+  const counter = ROUND_GOAL_COUNTERS[goalId];
+  if (!counter) {
+    throw new Error(`No counter registered for round goal: ${goalId}`);
+  }
+  return counter(board);
+}
+
+/**
+ * Rank players by count and award placement points (green side).
+ *
+ * Tied players add together the points for the places they occupy and split
+ * them evenly, rounded down; the next player takes the following open place.
+ * Places beyond 4th score nothing, and a player needs at least 1 matching
+ * item to place at all.
+ */
+export function rankRoundGoalCounts(
+  counts: Record<PlayerId, number>,
+  scoring: RoundGoalScoring
+): Record<PlayerId, number> {
+  const points: Record<PlayerId, number> = {};
+  const ranked = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+
+  let placeIndex = 0;
+  let i = 0;
+  while (i < ranked.length) {
+    const count = ranked[i][1];
+    const tied = ranked.filter(([, c]) => c === count).map(([id]) => id);
+
+    if (count < 1) {
+      for (const playerId of tied) {
+        points[playerId] = 0;
+      }
+    } else {
+      let pooled = 0;
+      for (let p = placeIndex; p < placeIndex + tied.length; p++) {
+        const placement = PLACEMENTS[p];
+        pooled += placement ? scoring.scoring[placement] : 0;
+      }
+      const share = Math.floor(pooled / tied.length);
+      for (const playerId of tied) {
+        points[playerId] = share;
+      }
+    }
+
+    placeIndex += tied.length;
+    i += tied.length;
+  }
+
+  return points;
+}
+
+/**
+ * Award 1 point per matching item, up to 5 (blue side).
+ * Players without any matching items score nothing.
+ */
+export function scoreRoundGoalCountsPerItem(
+  counts: Record<PlayerId, number>
+): Record<PlayerId, number> {
+  const points: Record<PlayerId, number> = {};
+  for (const [playerId, count] of Object.entries(counts)) {
+    points[playerId] = Math.max(0, Math.min(count, MAX_PER_ITEM_POINTS));
+  }
+  return points;
+}
+
+/**
+ * Score a round goal for the given players.
+ * Forfeited players are excluded from both counting and ranking.
+ * The placement scoring table is only used on the green side.
+ */
+export function scoreRoundGoal(
+  goalId: RoundGoalId,
+  round: number,
+  players: readonly PlayerState[],
+  scoring: RoundGoalScoring,
+  side: GoalBoardSide = "green"
+): RoundGoalResult {
+  const counts: Record<PlayerId, number> = {};
+  for (const player of players) {
+    if (!player.forfeited) {
+      counts[player.id] = countRoundGoal(goalId, player.board);
+    }
+  }
+
+  return {
+    round,
+    goalId,
+    counts,
+    points:
+      side === "blue"
+        ? scoreRoundGoalCountsPerItem(counts)
+        : rankRoundGoalCounts(counts, scoring),
+  };
+}
@@ -70,6 +70,7 @@ export function buildPlayerView(state: GameState, playerId: PlayerId): PlayerVie
     birdfeeder: birdfeederDice,
     birdTray,
     deckSize: state.birdCardSupply.getDeckSize(),
+    roundGoals: [...state.roundGoals],
     opponents,
   };
 }
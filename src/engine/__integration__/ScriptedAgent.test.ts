@@ -38,6 +38,7 @@ function createMinimalView(playerId: string): PlayerView {
     birdfeeder: [],
     birdTray: [],
     deckSize: 100,
+    roundGoals: [],
     opponents: [],
   };
 }
@@ -7,6 +7,7 @@
  * - Wild food cost payment options
  * - Bird placement in correct habitat slot
  * - Verify BIRD_PLAYED event emission
+ * - 2-for-1 food exchange for missing food
  */
 
 import { describe, it } from "vitest";
@@ -708,4 +709,65 @@ describe("playBirdHandler", () => {
       ],
     });
   });
+
+  /**
+   * Tests paying for a bird with the 2-for-1 food exchange.
+   * hooded_warbler costs 2 INVERTEBRATE; Alice has only 1, so she exchanges
+   * 1 SEED + 1 FISH for the second INVERTEBRATE.
+   */
+  it("plays bird using a 2-for-1 food exchange", async () => {
+    const scenario: ScenarioConfig = {
+      name: "Bird play with food exchange",
+      description: "Player exchanges 2 food for a missing INVERTEBRATE",
+      targetHandlers: ["playBirdHandler"],
+
+      players: [
+        {
+          id: "alice",
+          hand: ["hooded_warbler"],
+          bonusCards: [],
+          food: { INVERTEBRATE: 1, SEED: 1, FISH: 1, FRUIT: 1 },
+          board: { FOREST: [], GRASSLAND: [], WETLAND: [] },
+        },
+        {
+          id: "bob",
+          hand: [],
+          bonusCards: [],
+          food: { SEED: 1 },
+          board: { FOREST: [], GRASSLAND: [], WETLAND: [] },
+        },
+      ],
+
+      turns: [
+        {
+          player: "alice",
+          label: "Alice plays hooded_warbler with an exchange",
+          choices: [
+            { kind: "turnAction", action: "PLAY_BIRD", takeBonus: false },
+            {
+              kind: "playBird",
+              bird: "hooded_warbler",
+              habitat: "FOREST",
+              foodToSpend: { INVERTEBRATE: 1 },
+              foodExchanges: [
+                { give: { SEED: 1, FISH: 1 }, receive: "INVERTEBRATE" },
+              ],
+              eggsToSpend: {},
+            },
+          ],
+        },
+      ],
+
+      birdfeeder: ["SEED", "INVERTEBRATE", "FISH", "FRUIT", "RODENT"],
+      turnsToRun: 1,
+    };
+
+    await runScenario(scenario, {
+      assertions: [
+        // Only the exchanged and directly paid food is spent
+        playerHasFood("alice", { INVERTEBRATE: 0, SEED: 0, FISH: 0, FRUIT: 1 }),
+        birdExistsOnBoard("alice", "alice_hooded_warbler"),
+      ],
+    });
+  });
 });
@@ -102,8 +102,8 @@ describe("gainAllFoodTypeFromFeeder handler (white power)", () => {
           id: "alice",
           hand: ["northern_flicker"],
           bonusCards: [],
-          // Northern Flicker costs WILD: 2 - pay with any 2 food
-          food: { SEED: 2 },
+          // Northern Flicker costs 1 INVERTEBRATE, SEED or FRUIT
+          food: { SEED: 1 },
           board: { FOREST: [], GRASSLAND: [], WETLAND: [] },
         },
         {
@@ -125,7 +125,7 @@ describe("gainAllFoodTypeFromFeeder handler (white power)", () => {
               kind: "playBird",
               bird: "northern_flicker",
               habitat: "FOREST",
-              foodToSpend: { SEED: 2 },
+              foodToSpend: { SEED: 1 },
               eggsToSpend: {},
             },
             // WHEN_PLAYED power triggers automatically
@@ -149,7 +149,7 @@ describe("gainAllFoodTypeFromFeeder handler (white power)", () => {
       assertions: [
         handlerWasInvoked("gainAllFoodTypeFromFeeder"),
         birdExistsOnBoard("alice", "alice_northern_flicker"),
-        // Alice paid 2 SEED, gained 3 INVERTEBRATE (2 regular + 1 dual)
+        // Alice paid 1 SEED, gained 3 INVERTEBRATE (2 regular + 1 dual)
         playerHasFood("alice", { INVERTEBRATE: 3, SEED: 0 }),
       ],
     });
@@ -7,7 +7,8 @@ import type { ValidationError } from "../types/prompts.js";
 
 /**
  * Thrown when an agent repeatedly makes invalid choices and exhausts retries.
- * After 3 failed attempts on the same prompt, the agent forfeits the game.
+ * After 3 failed attempts on the same prompt (see ActionProcessorOptions.maxAttempts),
+ * the agent forfeits the game.
  */
 export class AgentForfeitError extends Error {
   constructor(
@@ -15,7 +16,7 @@ export class AgentForfeitError extends Error {
     public readonly playerId: PlayerId,
     /** The prompt ID that caused the forfeit */
     public readonly promptId: string,
-    /** Number of failed attempts (always 3) */
+    /** Number of failed attempts (maxAttempts, or 1 for a timeout) */
     public readonly attempts: number,
     /** The validation error from the last failed attempt */
     public readonly lastError: ValidationError
@@ -26,3 +27,27 @@ export class AgentForfeitError extends Error {
     this.name = "AgentForfeitError";
   }
 }
+
+/**
+ * Thrown when an agent runs out of time under the "forfeit" timeout policy
+ * (see AgentTimeBudget). It is an AgentForfeitError, so the engine handles it
+ * like any other forfeit.
+ */
+export class AgentTimeoutError extends AgentForfeitError {
+  constructor(
+    playerId: PlayerId,
+    promptId: string,
+    /** How long the agent was given, in milliseconds (0 if its game budget was already spent) */
+    public readonly limitMs: number
+  ) {
+    super(playerId, promptId, 1, {
+      code: "TIMEOUT",
+      message:
+        limitMs > 0
+          ? `No choice within ${Math.round(limitMs)}ms`
+          : "Game time budget already spent",
+    });
+    this.message = `Agent "${playerId}" forfeited after running out of time on prompt "${promptId}": ${this.lastError.message}`;
+    this.name = "AgentTimeoutError";
+  }
+}
@@ -1,6 +1,111 @@
 #!/usr/bin/env node
 
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
 import { Command } from "commander";
+import { GameEngine } from "./engine/GameEngine.js";
+import type { GameObserver } from "./engine/GameObserver.js";
+import { DataRegistry } from "./data/DataRegistry.js";
+import { HumanCliAgent } from "./agents/HumanCliAgent.js";
+import { AgentRegistry, parseAgentSpec } from "./agents/AgentRegistry.js";
+import { loadAgentModule } from "./agents/AgentModuleLoader.js";
+import type { PlayerAgent } from "./agents/PlayerAgent.js";
+import type { GoalBoardSide, PlayerId } from "./types/core.js";
+import { Tournament, type TournamentStanding } from "./sim/Tournament.js";
+import {
+  parseRatingTable,
+  serializeRatingTable,
+  type RatingTable,
+} from "./sim/Ratings.js";
+
+// Ensure the built-in agents are registered
+import "./agents/SmartRandomAgent.js";
+import "./agents/MctsAgent.js";
+import "./agents/HeuristicAgent.js";
+import "./agents/SubprocessAgent.js";
+
+const HUMAN_PLAYER_ID: PlayerId = "player1";
+const GOAL_BOARD_SIDES: GoalBoardSide[] = ["green", "blue"];
+
+/**
+ * Narrate what the other players do, since the human only sees their own
+ * prompts.
+ */
+function createNarrator(registry: DataRegistry): GameObserver {
+  const say = (text: string) => console.log(text);
+  return {
+    onEventProcessing(event) {
+      switch (event.type) {
+        case "ROUND_STARTED":
+          say(`\n######## Round ${event.round} ########`);
+          break;
+        case "HABITAT_ACTIVATED":
+          if (event.playerId !== HUMAN_PLAYER_ID) {
+            say(`${event.playerId} activates their ${event.habitat}`);
+          }
+          break;
+        case "BIRD_PLAYED":
+          if (event.playerId !== HUMAN_PLAYER_ID) {
+            const bird = registry.getBirdById(event.birdCardId);
+            say(`${event.playerId} plays ${bird.name} in their ${event.habitat}`);
+          }
+          break;
+        case "ROUND_GOAL_SCORED":
+          say(
+            `Round ${event.round} goal (${event.goalId}): ` +
+              Object.entries(event.points)
+                .map(([player, points]) => `${player} +${points}`)
+                .join(", ")
+          );
+          break;
+        case "PLAYER_FORFEITED":
+          say(`${event.playerId} forfeits: ${event.reason}`);
+          break;
+        case "GAME_ENDED":
+          say("\nFinal scores:");
+          for (const [player, score] of Object.entries(event.finalScores)) {
+            say(`  ${player}: ${score}`);
+          }
+          say(`Winner: ${event.winnerIds.join(" & ")}`);
+          break;
+      }
+    },
+  };
+}
+
+/**
+ * Print the league table, best agent first.
+ */
+function printStandings(standings: TournamentStanding[]): void {
+  const rows = standings.map((standing) => {
+    const { rating, record } = standing;
+    const winRate = record
+      ? `${(record.winRate * 100).toFixed(1)}% ` +
+        `[${(record.winRateInterval.lower * 100).toFixed(1)}-` +
+        `${(record.winRateInterval.upper * 100).toFixed(1)}%]`
+      : "-";
+    return [
+      `${standing.rank}`,
+      standing.agent,
+      `${rating.mu.toFixed(1)} ± ${(3 * rating.sigma).toFixed(1)}`,
+      standing.conservativeRating.toFixed(1),
+      rating.elo.toFixed(0),
+      `${rating.games}`,
+      winRate,
+    ];
+  });
+  const header = ["#", "Agent", "Skill (μ ± 3σ)", "Rating", "Elo", "Games", "Win rate [95% CI]"];
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+  const format = (row: string[]) =>
+    "  " + row.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd();
+
+  console.log(format(header));
+  console.log(format(widths.map((width) => "-".repeat(width))));
+  for (const row of rows) {
+    console.log(format(row));
+  }
+}
 
 const program = new Command();
 
@@ -18,4 +123,159 @@ program
     console.log("(Simulation not yet implemented)");
   });
 
-program.parse();
+program
+  .command("play")
+  .description("Play a game in the terminal against agents")
+  .option("-p, --players <number>", "Number of players, including you (2-5)", "2")
+  .option(
+    "--opponent <spec>",
+    "Agent for every opponent, as Type or Type:option=value,...",
+    "SmartRandomAgent"
+  )
+  .option("-s, --seed <seed>", "Seed for the game (random if omitted)")
+  .option("--goal-board <side>", "Goal board side for round goals (green|blue)", "green")
+  .action(async (options) => {
+    const numPlayers = parseInt(options.players, 10);
+    if (isNaN(numPlayers) || numPlayers < 2 || numPlayers > 5) {
+      console.error("Error: --players must be between 2 and 5");
+      process.exit(1);
+    }
+    const seed = options.seed
+      ? parseInt(options.seed, 10)
+      : Math.floor(Math.random() * 2 ** 31);
+    if (isNaN(seed)) {
+      console.error("Error: --seed must be a valid integer");
+      process.exit(1);
+    }
+    const goalBoardSide = options.goalBoard as GoalBoardSide;
+    if (!GOAL_BOARD_SIDES.includes(goalBoardSide)) {
+      console.error(`Error: --goal-board must be one of: ${GOAL_BOARD_SIDES.join(", ")}`);
+      process.exit(1);
+    }
+
+    const agents: PlayerAgent[] = [new HumanCliAgent(HUMAN_PLAYER_ID)];
+    try {
+      const spec = parseAgentSpec(options.opponent);
+      const agentOptions = AgentRegistry.parseOptions(spec.name, spec.options);
+      for (let i = 2; i <= numPlayers; i++) {
+        agents.push(
+          AgentRegistry.create(spec.name, `player${i}`, seed + i, agentOptions)
+        );
+      }
+    } catch (error) {
+      console.error(`Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+
+    console.log(`Playing as ${HUMAN_PLAYER_ID} against ${options.opponent} (seed ${seed}).`);
+    console.log("Type ? at any question for help.");
+
+    const registry = new DataRegistry();
+    const engine = new GameEngine({ agents, seed, registry, goalBoardSide });
+    engine.addObserver(createNarrator(registry));
+    await engine.playGame();
+  });
+
+program
+  .command("tournament")
+  .description("Play a round-robin tournament between agents and rate them")
+  .argument("<specs...>", "Agents to enter, each as Type or Type:option=value,...")
+  .option("-p, --players <number>", "Players in each match (2-5)", "2")
+  .option("-n, --games <number>", "Seeds each match is played on, once per seat rotation", "10")
+  .option("-s, --seed <seed>", "Base seed for the seeds (random if omitted)")
+  .option("--goal-board <side>", "Goal board side for round goals (green|blue)", "green")
+  .option("--workers <number>", "Worker threads to spread each match across", "1")
+  .option(
+    "--agent-module <path>",
+    "Register the agents exported by an ES module (repeatable)",
+    (value: string, previous: string[]) => [...previous, value],
+    []
+  )
+  .option("--ratings <file>", "Rating file to continue from and save to")
+  .action(async (specs: string[], options) => {
+    const playersPerMatch = parseInt(options.players, 10);
+    const gamesPerMatch = parseInt(options.games, 10);
+    const workers = parseInt(options.workers, 10);
+    const baseSeed = options.seed ? parseInt(options.seed, 10) : undefined;
+    const goalBoardSide = options.goalBoard as GoalBoardSide;
+    if (isNaN(gamesPerMatch) || gamesPerMatch < 1) {
+      console.error("Error: --games must be a positive integer");
+      process.exit(1);
+    }
+    if (isNaN(playersPerMatch) || playersPerMatch < 2 || playersPerMatch > 5) {
+      console.error("Error: --players must be between 2 and 5");
+      process.exit(1);
+    }
+    if (isNaN(workers) || workers < 1) {
+      console.error("Error: --workers must be a positive integer");
+      process.exit(1);
+    }
+    if (baseSeed !== undefined && isNaN(baseSeed)) {
+      console.error("Error: --seed must be a valid integer");
+      process.exit(1);
+    }
+    if (!GOAL_BOARD_SIDES.includes(goalBoardSide)) {
+      console.error(`Error: --goal-board must be one of: ${GOAL_BOARD_SIDES.join(", ")}`);
+      process.exit(1);
+    }
+
+    let tournament: Tournament;
+    let ratings: RatingTable | undefined;
+    try {
+      for (const path of options.agentModule as string[]) {
+        await loadAgentModule(path);
+      }
+      if (options.ratings && existsSync(options.ratings)) {
+        ratings = parseRatingTable(readFileSync(options.ratings, "utf8"));
+      }
+      tournament = new Tournament({
+        entrants: specs,
+        playersPerMatch,
+        gamesPerMatch,
+        baseSeed,
+        goalBoardSide,
+        workers,
+        agentModules: options.agentModule,
+        ratings,
+      });
+    } catch (error) {
+      console.error(`Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+
+    const schedule = tournament.getSchedule();
+    console.log(
+      `Tournament: ${specs.length} agents, ${schedule.length} match(es) of ` +
+        `${playersPerMatch} players, ${gamesPerMatch} seed(s) per match`
+    );
+    if (ratings) {
+      console.log(`Continuing from ${Object.keys(ratings.agents).length} rated agent(s) in ${options.ratings}`);
+    }
+    console.log("");
+
+    const result = await tournament.run((match, totalMatches) => {
+      const { successCount, errorCount } = match.summary;
+      const failed = errorCount > 0 ? `, ${errorCount} failed` : "";
+      console.log(
+        `  Match ${match.index + 1}/${totalMatches}: ${match.entrants.join(" vs ")} ` +
+          `(${successCount} games${failed})`
+      );
+    });
+
+    console.log("");
+    printStandings(result.standings);
+
+    if (options.ratings) {
+      writeFileSync(options.ratings, serializeRatingTable(result.ratings));
+      console.log("");
+      console.log(`Ratings saved to ${options.ratings}`);
+    }
+    if (result.errorCount > 0) {
+      process.exit(1);
+    }
+  });
+
+program.parseAsync().catch((error) => {
+  console.error("Fatal error:", error.message);
+  process.exit(1);
+});
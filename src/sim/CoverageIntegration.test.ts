@@ -141,7 +141,7 @@ describe("Coverage Callback Integration", () => {
     const result = await engine.playGame();
 
     expect(result).toBeDefined();
-    expect(result.winnerId).toBeDefined();
+    expect(result.winnerIds.length).toBeGreaterThan(0);
   }, 30000);
 
   // Verifies GameEngine.fromState also supports the callback
@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import {
+  GAME_RECORD_VERSION,
+  GameRecorder,
+  parseGameRecord,
+  parseGameRecords,
+  serializeGameRecord,
+  type GameRecord,
+} from "./GameRecord.js";
+import { Simulator } from "./Simulator.js";
+import { AgentTimeoutError } from "../engine/errors.js";
+import type {
+  StartingHandPrompt,
+  TurnActionPrompt,
+} from "../types/prompts.js";
+
+// Ensure SmartRandomAgent is registered
+import "../agents/SmartRandomAgent.js";
+
+async function recordGame(seed: number): Promise<GameRecord> {
+  const simulator = new Simulator({
+    numGames: 1,
+    numPlayers: 2,
+    agentTypes: ["SmartRandomAgent", "SmartRandomAgent"],
+    seeds: [seed],
+    trackCoverage: false,
+    recordGames: true,
+  });
+  const summary = await simulator.run();
+  return summary.games[0].record!;
+}
+
+describe("GameRecord", () => {
+  describe("GameRecorder", () => {
+    it("records each decision as the engine reports it", () => {
+      const recorder = new GameRecorder(7, { playerIds: ["p1"] });
+      const startingHand = {
+        promptId: "prompt_1",
+        playerId: "p1",
+        kind: "startingHand",
+      } as StartingHandPrompt;
+      const turnAction = {
+        promptId: "prompt_2",
+        playerId: "p1",
+        kind: "turnAction",
+      } as TurnActionPrompt;
+
+      recorder.onDecisionMade({
+        prompt: startingHand,
+        choice: {
+          promptId: "prompt_1",
+          kind: "startingHand",
+          birds: new Set(),
+          bonusCard: "anatomist",
+          foodToDiscard: new Set(),
+        },
+      });
+      recorder.onDecisionMade({
+        prompt: turnAction,
+        timeout: new AgentTimeoutError("p1", "prompt_2", 250),
+      });
+
+      const { header, decisions } = recorder.getRecord();
+      expect(header).toEqual({
+        type: "header",
+        version: GAME_RECORD_VERSION,
+        seed: 7,
+        config: { playerIds: ["p1"] },
+      });
+      expect(
+        decisions.map((d) => [d.index, d.method, d.prompt.promptId])
+      ).toEqual([
+        [0, "chooseStartingHand", "prompt_1"],
+        [1, "chooseTurnAction", "prompt_2"],
+      ]);
+      expect(decisions[0].choice).toMatchObject({
+        birds: [],
+        foodToDiscard: [],
+      });
+      expect(decisions[1]).toMatchObject({ choice: null, timeoutMs: 250 });
+    });
+  });
+
+  describe("serializeGameRecord() / parseGameRecords()", () => {
+    it("round-trips a recorded game through JSON lines", async () => {
+      const record = await recordGame(42);
+      const text = serializeGameRecord(record);
+
+      expect(text.split("\n")[0]).toContain('"type":"header"');
+      expect(text.trimEnd().split("\n")).toHaveLength(
+        record.decisions.length + 2
+      );
+      expect(parseGameRecord(text)).toEqual(JSON.parse(JSON.stringify(record)));
+    });
+
+    it("parses several records from one file", async () => {
+      const first = await recordGame(1);
+      const second = await recordGame(2);
+
+      const records = parseGameRecords(
+        serializeGameRecord(first) + "\n" + serializeGameRecord(second)
+      );
+
+      expect(records.map((r) => r.header.seed)).toEqual([1, 2]);
+      expect(() =>
+        parseGameRecord(serializeGameRecord(first) + serializeGameRecord(second))
+      ).toThrow("Expected 1 game record, found 2");
+    });
+
+    it("rejects malformed input", () => {
+      const header = JSON.stringify({
+        type: "header",
+        version: GAME_RECORD_VERSION,
+        seed: 1,
+        config: { playerIds: ["p1"] },
+      });
+
+      expect(() => parseGameRecords('{"type":"result"}')).toThrow(
+        "Game record line 1 appears before any header line"
+      );
+      expect(() => parseGameRecords(`${header}\nnot json`)).toThrow(
+        "Invalid JSON on game record line 2"
+      );
+      const futureHeader = header.replace(
+        `"version":${GAME_RECORD_VERSION}`,
+        '"version":99'
+      );
+      expect(() => parseGameRecords(futureHeader)).toThrow("Unsupported game record version on line 1: 99");
+      expect(() => parseGameRecords(`${header}\n{"type":"bogus"}`)).toThrow(
+        "Unknown game record line type on line 2: bogus"
+      );
+    });
+  });
+});
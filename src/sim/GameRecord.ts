@@ -0,0 +1,254 @@
+/**
+ * GameRecord - Deterministic record of a complete game.
+ *
+ * A game record stores the seed, the game configuration, and every
+ * prompt/choice pair in the order the engine acted on them. Since the engine
+ * is deterministic for a given seed and choice sequence, replaying the
+ * recorded choices with ReplayAgent (see replayGame) reproduces the game
+ * exactly, even if the original agents were non-deterministic, ran out of
+ * process, or were stood in for by fallback agents.
+ *
+ * Records are stored as JSON lines: one "header" line, one "decision" line per
+ * prompt, and an optional "result" line. A file may hold several records
+ * back to back; each starts with its own header.
+ */
+
+import type {
+  GameResult,
+  InvalidChoicePolicy,
+} from "../engine/GameEngine.js";
+import type { AgentTimeBudget } from "../engine/AgentClock.js";
+import type {
+  DecisionOutcome,
+  GameObserver,
+} from "../engine/GameObserver.js";
+import type { GoalBoardSide, PlayerId } from "../types/core.js";
+import type { DecisionPrompt } from "../types/prompts.js";
+import {
+  choiceToWire,
+  promptToWire,
+  type WireChoice,
+  type WirePrompt,
+} from "../util/WireCodec.js";
+
+/**
+ * Version of the game record format written by GameRecorder.
+ * Decisions use the wire format of WIRE_FORMAT_VERSION 1.
+ */
+export const GAME_RECORD_VERSION = 1;
+
+/**
+ * PlayerAgent method that answers a recorded prompt.
+ */
+export type AgentDecisionMethod =
+  | "chooseStartingHand"
+  | "chooseTurnAction"
+  | "chooseOption";
+
+/**
+ * Game configuration needed to rebuild the engine for replay.
+ */
+export interface GameRecordConfig {
+  /** Player IDs in seat order */
+  playerIds: PlayerId[];
+  /** Agent specs in seat order (informational) */
+  agentTypes?: string[];
+  /** Side of the goal board used for round goals (default "green") */
+  goalBoardSide?: GoalBoardSide;
+  /** Invalid choices allowed on one prompt (see GameEngineConfig.maxAttempts) */
+  maxAttempts?: number;
+  /** What happened after maxAttempts invalid choices (see GameEngineConfig.onInvalidChoice) */
+  onInvalidChoice?: InvalidChoicePolicy;
+  /** Limits on how long agents could take to decide (see GameEngineConfig.timeBudget) */
+  timeBudget?: AgentTimeBudget;
+}
+
+/**
+ * First line of a record.
+ */
+export interface GameRecordHeader {
+  type: "header";
+  version: number;
+  seed: number;
+  config: GameRecordConfig;
+}
+
+/**
+ * A single prompt and the choice the engine went on with, including invalid
+ * choices that led to a reprompt and choices a fallback agent made for the
+ * player. Both are stored in WireCodec form.
+ */
+export interface GameRecordDecision {
+  type: "decision";
+  /** Position in the game's decision sequence, starting at 0 */
+  index: number;
+  playerId: PlayerId;
+  method: AgentDecisionMethod;
+  prompt: WirePrompt;
+  /** null if the player ran out of time and forfeited */
+  choice: WireChoice | null;
+  /** How long the player was given, if they ran out of time and forfeited */
+  timeoutMs?: number;
+}
+
+/**
+ * Optional last line of a record.
+ */
+export interface GameRecordResultLine {
+  type: "result";
+  result: GameResult;
+}
+
+/**
+ * A parsed game record.
+ */
+export interface GameRecord {
+  header: GameRecordHeader;
+  decisions: GameRecordDecision[];
+  result?: GameResult;
+}
+
+/**
+ * Records every decision of a game.
+ *
+ * Add the recorder as an observer of the GameEngine before the game starts.
+ * The engine reports each decision once any time budget and fallback agent
+ * have settled it, in the order it acts on them, which is also the order
+ * ReplayAgent expects them back.
+ */
+export class GameRecorder implements GameObserver {
+  private readonly header: GameRecordHeader;
+  private readonly decisions: GameRecordDecision[] = [];
+  private result?: GameResult;
+
+  constructor(seed: number, config: GameRecordConfig) {
+    this.header = {
+      type: "header",
+      version: GAME_RECORD_VERSION,
+      seed,
+      config,
+    };
+  }
+
+  onDecisionMade(decision: DecisionOutcome): void {
+    const { prompt } = decision;
+    this.decisions.push({
+      type: "decision",
+      index: this.decisions.length,
+      playerId: prompt.playerId,
+      method: decisionMethod(prompt),
+      prompt: promptToWire(prompt),
+      ...("choice" in decision
+        ? { choice: choiceToWire(decision.choice) }
+        : { choice: null, timeoutMs: decision.timeout.limitMs }),
+    });
+  }
+
+  /**
+   * Record the game's final result.
+   */
+  setResult(result: GameResult): void {
+    this.result = result;
+  }
+
+  /**
+   * Get the record collected so far.
+   */
+  getRecord(): GameRecord {
+    return {
+      header: this.header,
+      decisions: [...this.decisions],
+      ...(this.result && { result: this.result }),
+    };
+  }
+}
+
+/**
+ * Get the PlayerAgent method that answers a prompt.
+ */
+function decisionMethod(prompt: DecisionPrompt): AgentDecisionMethod {
+  switch (prompt.kind) {
+    case "startingHand":
+      return "chooseStartingHand";
+    case "turnAction":
+      return "chooseTurnAction";
+    default:
+      return "chooseOption";
+  }
+}
+
+/**
+ * Serialize a game record as JSON lines (newline-terminated).
+ */
+export function serializeGameRecord(record: GameRecord): string {
+  const lines: object[] = [record.header, ...record.decisions];
+  if (record.result) {
+    const resultLine: GameRecordResultLine = {
+      type: "result",
+      result: record.result,
+    };
+    lines.push(resultLine);
+  }
+  return lines.map((line) => JSON.stringify(line)).join("\n") + "\n";
+}
+
+/**
+ * Parse one or more game records from JSON lines.
+ * Blank lines are ignored.
+ * @throws Error if a line is malformed, out of place, or from an unsupported version
+ */
+export function parseGameRecords(text: string): GameRecord[] {
+  const records: GameRecord[] = [];
+  let current: GameRecord | null = null;
+
+  const lines = text.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const lineText = lines[i].trim();
+    if (lineText === "") continue;
+
+    let line: GameRecordHeader | GameRecordDecision | GameRecordResultLine;
+    try {
+      line = JSON.parse(lineText);
+    } catch (error) {
+      throw new Error(
+        `Invalid JSON on game record line ${i + 1}: ${(error as Error).message}`
+      );
+    }
+
+    if (line.type === "header") {
+      if (line.version !== GAME_RECORD_VERSION) {
+        throw new Error(
+          `Unsupported game record version on line ${i + 1}: ${line.version} (expected ${GAME_RECORD_VERSION})`
+        );
+      }
+      current = { header: line, decisions: [] };
+      records.push(current);
+    } else if (!current) {
+      throw new Error(
+        `Game record line ${i + 1} appears before any header line`
+      );
+    } else if (line.type === "decision") {
+      current.decisions.push(line);
+    } else if (line.type === "result") {
+      current.result = line.result;
+    } else {
+      throw new Error(
+        `Unknown game record line type on line ${i + 1}: ${(line as { type: unknown }).type}`
+      );
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Parse a single game record from JSON lines.
+ * @throws Error if the text does not contain exactly one record
+ */
+export function parseGameRecord(text: string): GameRecord {
+  const records = parseGameRecords(text);
+  if (records.length !== 1) {
+    throw new Error(`Expected 1 game record, found ${records.length}`);
+  }
+  return records[0];
+}
@@ -62,6 +62,25 @@ export class HandlerCoverageTracker {
     }
   }
 
+  /**
+   * Get the invocation count of every handler recorded so far, including
+   * those never invoked.
+   */
+  getInvocationCounts(): Record<string, number> {
+    return Object.fromEntries(this.invocationCounts);
+  }
+
+  /**
+   * Add invocation counts recorded by another tracker, e.g. one on a
+   * simulation worker thread (see getInvocationCounts()).
+   */
+  addInvocationCounts(counts: Record<string, number>): void {
+    for (const [handlerId, count] of Object.entries(counts)) {
+      const currentCount = this.invocationCounts.get(handlerId) ?? 0;
+      this.invocationCounts.set(handlerId, currentCount + count);
+    }
+  }
+
   /**
    * Get all handler invocations with their counts.
    */
@@ -0,0 +1,159 @@
+import { describe, it, expect } from "vitest";
+import {
+  ELO_K_FACTOR,
+  INITIAL_ELO,
+  INITIAL_MU,
+  INITIAL_SIGMA,
+  conservativeRating,
+  createRatingTable,
+  parseRatingTable,
+  ratingFor,
+  serializeRatingTable,
+  updateRatings,
+} from "./Ratings.js";
+
+describe("Ratings", () => {
+  describe("ratingFor", () => {
+    it("adds new agents at the initial ratings", () => {
+      const table = createRatingTable();
+      expect(ratingFor(table, "A")).toEqual({
+        elo: INITIAL_ELO,
+        mu: INITIAL_MU,
+        sigma: INITIAL_SIGMA,
+        games: 0,
+        winShare: 0,
+      });
+      expect(Object.keys(table.agents)).toEqual(["A"]);
+      expect(conservativeRating(table.agents.A)).toBeCloseTo(0);
+    });
+  });
+
+  describe("updateRatings", () => {
+    it("moves the winner up and the loser down by the same Elo", () => {
+      const table = createRatingTable();
+      updateRatings(table, [
+        { agent: "A", rank: 1 },
+        { agent: "B", rank: 2 },
+      ]);
+      const { A, B } = table.agents;
+      expect(A.elo).toBeCloseTo(INITIAL_ELO + ELO_K_FACTOR / 2);
+      expect(B.elo).toBeCloseTo(INITIAL_ELO - ELO_K_FACTOR / 2);
+      expect(A.mu).toBeGreaterThan(INITIAL_MU);
+      expect(B.mu).toBeLessThan(INITIAL_MU);
+      expect(A.mu - INITIAL_MU).toBeCloseTo(INITIAL_MU - B.mu);
+      expect(A.sigma).toBeLessThan(INITIAL_SIGMA);
+      expect(B.sigma).toBeLessThan(INITIAL_SIGMA);
+      expect(A).toMatchObject({ games: 1, winShare: 1 });
+      expect(B).toMatchObject({ games: 1, winShare: 0 });
+    });
+
+    it("leaves equal agents' skill unchanged on a tie but still shrinks sigma", () => {
+      const table = createRatingTable();
+      updateRatings(table, [
+        { agent: "A", rank: 1 },
+        { agent: "B", rank: 1 },
+      ]);
+      const { A, B } = table.agents;
+      expect(A.elo).toBeCloseTo(INITIAL_ELO);
+      expect(A.mu).toBeCloseTo(INITIAL_MU);
+      expect(A.sigma).toBeLessThan(INITIAL_SIGMA);
+      expect(A.winShare).toBe(0.5);
+      expect(B.winShare).toBe(0.5);
+    });
+
+    it("orders agents by finishing rank in multiplayer games", () => {
+      const table = createRatingTable();
+      updateRatings(table, [
+        { agent: "C", rank: 3 },
+        { agent: "A", rank: 1 },
+        { agent: "B", rank: 2 },
+      ]);
+      const { A, B, C } = table.agents;
+      expect(A.mu).toBeGreaterThan(B.mu);
+      expect(B.mu).toBeCloseTo(INITIAL_MU);
+      expect(B.mu).toBeGreaterThan(C.mu);
+      expect(A.elo).toBeGreaterThan(B.elo);
+      expect(B.elo).toBeGreaterThan(C.elo);
+      // Elo is zero-sum
+      expect(A.elo + B.elo + C.elo).toBeCloseTo(3 * INITIAL_ELO);
+    });
+
+    it("moves ratings less for an expected result than an upset", () => {
+      const table = createRatingTable();
+      for (let i = 0; i < 5; i++) {
+        updateRatings(table, [
+          { agent: "Strong", rank: 1 },
+          { agent: "Weak", rank: 2 },
+        ]);
+      }
+      const before = { ...table.agents.Strong };
+      updateRatings(table, [
+        { agent: "Strong", rank: 1 },
+        { agent: "Weak", rank: 2 },
+      ]);
+      const expectedGain = table.agents.Strong.elo - before.elo;
+      updateRatings(table, [
+        { agent: "Strong", rank: 2 },
+        { agent: "Weak", rank: 1 },
+      ]);
+      const upsetLoss = table.agents.Strong.elo - before.elo - expectedGain;
+      expect(expectedGain).toBeGreaterThan(0);
+      expect(-upsetLoss).toBeGreaterThan(expectedGain);
+      expect(table.agents.Strong.sigma).toBeLessThan(before.sigma);
+    });
+
+    it("rejects games with fewer than 2 agents", () => {
+      expect(() =>
+        updateRatings(createRatingTable(), [{ agent: "A", rank: 1 }])
+      ).toThrow("A rated game needs at least 2 agents");
+    });
+
+    it("rejects an agent rated twice in one game", () => {
+      expect(() =>
+        updateRatings(createRatingTable(), [
+          { agent: "A", rank: 1 },
+          { agent: "A", rank: 2 },
+        ])
+      ).toThrow("An agent can only be rated once per game: A, A");
+    });
+  });
+
+  describe("serializeRatingTable / parseRatingTable", () => {
+    it("round-trips a table with agents sorted by label", () => {
+      const table = createRatingTable();
+      updateRatings(table, [
+        { agent: "Zed", rank: 1 },
+        { agent: "Alpha", rank: 2 },
+      ]);
+      const text = serializeRatingTable(table);
+      expect(Object.keys(JSON.parse(text).agents)).toEqual(["Alpha", "Zed"]);
+      expect(parseRatingTable(text)).toEqual(table);
+    });
+
+    it("rejects invalid JSON", () => {
+      expect(() => parseRatingTable("{")).toThrow("Invalid rating table:");
+    });
+
+    it("rejects unsupported versions", () => {
+      expect(() => parseRatingTable('{"version": 99, "agents": {}}')).toThrow(
+        "Unsupported rating table version 99 (expected 1)"
+      );
+    });
+
+    it("rejects tables without agents", () => {
+      expect(() => parseRatingTable('{"version": 1}')).toThrow(
+        "Invalid rating table: missing agents"
+      );
+    });
+
+    it("rejects agents with missing or invalid fields", () => {
+      const text = JSON.stringify({
+        version: 1,
+        agents: { A: { elo: 1500, mu: "25", sigma: 8, games: 0, winShare: 0 } },
+      });
+      expect(() => parseRatingTable(text)).toThrow(
+        'Invalid rating table: agent "A" has no valid mu'
+      );
+    });
+  });
+});
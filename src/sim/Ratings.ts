@@ -0,0 +1,188 @@
+/**
+ * Ratings - Elo and TrueSkill-style skill ratings for agents.
+ *
+ * A rating table maps agent labels (agent specs such as
+ * "HeuristicAgent:eggWeight=2") to two ratings that are updated after every
+ * game from the players' finishing ranks:
+ *
+ * - Elo, extended to multiplayer games by treating a game as a round of
+ *   head-to-head results between every pair of players
+ * - A TrueSkill-style Bayesian rating (mu, sigma), using the Bradley-Terry
+ *   update of Weng and Lin, "A Bayesian Approximation Method for Online
+ *   Ranking" (2011), which handles any number of players per game and
+ *   shrinks sigma as evidence accumulates
+ *
+ * Tables are stored as JSON (see serializeRatingTable()) so a league can be
+ * extended with new agents later.
+ */
+
+/**
+ * Version of the rating table format written by serializeRatingTable().
+ */
+export const RATING_TABLE_VERSION = 1;
+
+export const INITIAL_ELO = 1500;
+/** Largest Elo change from a single game */
+export const ELO_K_FACTOR = 32;
+export const INITIAL_MU = 25;
+export const INITIAL_SIGMA = INITIAL_MU / 3;
+/** How much an agent's performance varies from game to game (TrueSkill's beta) */
+const BETA = INITIAL_SIGMA / 2;
+/** Floor on how much a single game can shrink sigma */
+const KAPPA = 0.0001;
+
+/**
+ * An agent's ratings and record.
+ */
+export interface AgentRating {
+  elo: number;
+  /** Estimated skill */
+  mu: number;
+  /** Uncertainty of the skill estimate */
+  sigma: number;
+  /** Games rated */
+  games: number;
+  /** Win credit: 1 per outright win plus 1/n per win shared by n players */
+  winShare: number;
+}
+
+/**
+ * Ratings of every agent that has played, by agent label.
+ */
+export interface RatingTable {
+  version: number;
+  agents: Record<string, AgentRating>;
+}
+
+/**
+ * An agent's finishing position in a game. Lower ranks are better; agents
+ * that tied share a rank.
+ */
+export interface GameRanking {
+  agent: string;
+  rank: number;
+}
+
+export function createRatingTable(): RatingTable {
+  return { version: RATING_TABLE_VERSION, agents: {} };
+}
+
+/**
+ * Get an agent's rating, adding a new agent at the initial ratings.
+ */
+export function ratingFor(table: RatingTable, agent: string): AgentRating {
+  return (table.agents[agent] ??= {
+    elo: INITIAL_ELO,
+    mu: INITIAL_MU,
+    sigma: INITIAL_SIGMA,
+    games: 0,
+    winShare: 0,
+  });
+}
+
+/**
+ * A lower bound on skill: the skill the agent very likely has at least
+ * (mu - 3 sigma). Ranks proven agents above lucky newcomers.
+ */
+export function conservativeRating(rating: AgentRating): number {
+  return rating.mu - 3 * rating.sigma;
+}
+
+/**
+ * Update the table with the result of one game. Every agent is rated against
+ * every other, so each must appear only once.
+ * @throws Error if fewer than 2 agents played or an agent appears twice
+ */
+export function updateRatings(
+  table: RatingTable,
+  rankings: readonly GameRanking[]
+): void {
+  if (rankings.length < 2) {
+    throw new Error("A rated game needs at least 2 agents");
+  }
+  if (new Set(rankings.map(({ agent }) => agent)).size !== rankings.length) {
+    throw new Error(
+      `An agent can only be rated once per game: ${rankings.map(({ agent }) => agent).join(", ")}`
+    );
+  }
+
+  const ratings = rankings.map(({ agent }) => ratingFor(table, agent));
+  // Both updates use the ratings from before the game
+  const before = ratings.map((rating) => ({ ...rating }));
+  const bestRank = Math.min(...rankings.map(({ rank }) => rank));
+  const winners = rankings.filter(({ rank }) => rank === bestRank).length;
+  const eloK = ELO_K_FACTOR / (rankings.length - 1);
+
+  rankings.forEach(({ rank }, i) => {
+    const self = before[i];
+    const rating = ratings[i];
+    let eloChange = 0;
+    let muChange = 0;
+    let varianceShrink = 0;
+
+    rankings.forEach(({ rank: otherRank }, q) => {
+      if (q === i) return;
+      const other = before[q];
+      const actual = rank < otherRank ? 1 : rank === otherRank ? 0.5 : 0;
+
+      const expectedElo = 1 / (1 + 10 ** ((other.elo - self.elo) / 400));
+      eloChange += eloK * (actual - expectedElo);
+
+      const c = Math.sqrt(self.sigma ** 2 + other.sigma ** 2 + 2 * BETA ** 2);
+      const expected = 1 / (1 + Math.exp((other.mu - self.mu) / c));
+      muChange += (self.sigma ** 2 / c) * (actual - expected);
+      varianceShrink +=
+        (self.sigma / c) * (self.sigma / c) ** 2 * expected * (1 - expected);
+    });
+
+    rating.elo = self.elo + eloChange;
+    rating.mu = self.mu + muChange;
+    rating.sigma = self.sigma * Math.sqrt(Math.max(1 - varianceShrink, KAPPA));
+    rating.games++;
+    if (rank === bestRank) {
+      rating.winShare += 1 / winners;
+    }
+  });
+}
+
+/**
+ * Serialize a rating table as JSON, agents sorted by label.
+ */
+export function serializeRatingTable(table: RatingTable): string {
+  const agents = Object.fromEntries(
+    Object.entries(table.agents).sort(([a], [b]) => a.localeCompare(b))
+  );
+  return JSON.stringify({ ...table, agents }, null, 2) + "\n";
+}
+
+/**
+ * Parse a rating table written by serializeRatingTable().
+ * @throws Error if the text is not a rating table of a supported version
+ */
+export function parseRatingTable(text: string): RatingTable {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid rating table: ${(error as Error).message}`);
+  }
+  const table = parsed as Partial<RatingTable> | null;
+  if (table?.version !== RATING_TABLE_VERSION) {
+    throw new Error(
+      `Unsupported rating table version ${table?.version} (expected ${RATING_TABLE_VERSION})`
+    );
+  }
+  if (typeof table.agents !== "object" || table.agents === null) {
+    throw new Error("Invalid rating table: missing agents");
+  }
+  for (const [agent, rating] of Object.entries(table.agents)) {
+    const fields = ["elo", "mu", "sigma", "games", "winShare"] as const;
+    const invalid = fields.find(
+      (field) => typeof rating?.[field] !== "number" || !isFinite(rating[field])
+    );
+    if (invalid) {
+      throw new Error(`Invalid rating table: agent "${agent}" has no valid ${invalid}`);
+    }
+  }
+  return table as RatingTable;
+}
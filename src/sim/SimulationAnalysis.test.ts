@@ -0,0 +1,190 @@
+import { describe, it, expect } from "vitest";
+import {
+  analyzeSimulation,
+  gamesToDetect,
+  wilsonInterval,
+} from "./SimulationAnalysis.js";
+import type { GameSimulationResult, SimulationSummary } from "./Simulator.js";
+
+function createGame(
+  agentTypes: Record<string, string>,
+  scores: Record<string, number>
+): GameSimulationResult {
+  const best = Math.max(...Object.values(scores));
+  return {
+    seed: 1,
+    agentTypes,
+    durationMs: 1,
+    result: {
+      winnerIds: Object.keys(scores).filter((id) => scores[id] === best),
+      scores,
+      scoreBreakdowns: {},
+      roundsPlayed: 4,
+      totalTurns: 52,
+    },
+  };
+}
+
+function createSummary(games: GameSimulationResult[]): SimulationSummary {
+  return {
+    games,
+    failures: [],
+    totalDurationMs: 0,
+    successCount: games.length,
+    errorCount: 0,
+    seeds: games.map((game) => game.seed),
+    wins: {},
+    agentTypeWins: {},
+    substitutions: {},
+  };
+}
+
+const HEAD_TO_HEAD = { player1: "Strong", player2: "Weak" };
+
+describe("wilsonInterval()", () => {
+  it("matches the textbook interval", () => {
+    const { lower, upper } = wilsonInterval(50, 100);
+    expect(lower).toBeCloseTo(0.4038, 4);
+    expect(upper).toBeCloseTo(0.5962, 4);
+  });
+
+  // Unlike the normal approximation, it stays inside [0, 1] at the extremes
+  it("stays within 0 and 1", () => {
+    expect(wilsonInterval(0, 10).lower).toBe(0);
+    expect(wilsonInterval(10, 10).upper).toBe(1);
+    expect(wilsonInterval(10, 10).lower).toBeCloseTo(0.7225, 4);
+    expect(wilsonInterval(0, 0)).toEqual({ lower: 0, upper: 1 });
+  });
+
+  it("widens with the confidence level", () => {
+    const at90 = wilsonInterval(30, 60, 0.9);
+    const at99 = wilsonInterval(30, 60, 0.99);
+    expect(at99.upper - at99.lower).toBeGreaterThan(at90.upper - at90.lower);
+  });
+});
+
+describe("gamesToDetect()", () => {
+  it("sizes a one-sample test of the win rate", () => {
+    expect(gamesToDetect(0.05)).toBe(783);
+    expect(gamesToDetect(0.1)).toBe(194);
+    expect(gamesToDetect(0.05, { power: 0.9 })).toBeGreaterThan(783);
+    expect(gamesToDetect(0.05, { baseline: 0.25 })).toBeLessThan(783);
+  });
+
+  it("rejects effect sizes out of range", () => {
+    expect(() => gamesToDetect(0)).toThrow("effectSize must be positive");
+    expect(() => gamesToDetect(0.6)).toThrow("effectSize must be positive");
+    expect(() => gamesToDetect(0.1, { baseline: 1 })).toThrow(
+      "baseline must be between 0 and 1"
+    );
+  });
+});
+
+describe("analyzeSimulation()", () => {
+  it("reports win rates, scores and margins per agent type", () => {
+    const summary = createSummary([
+      createGame(HEAD_TO_HEAD, { player1: 60, player2: 50 }),
+      createGame(HEAD_TO_HEAD, { player1: 70, player2: 40 }),
+      createGame(HEAD_TO_HEAD, { player1: 45, player2: 45 }),
+      createGame(HEAD_TO_HEAD, { player1: 30, player2: 50 }),
+    ]);
+
+    const analysis = analyzeSimulation(summary);
+
+    expect(analysis.confidenceLevel).toBe(0.95);
+    expect(analysis.agents.map((agent) => agent.agentType)).toEqual([
+      "Strong",
+      "Weak",
+    ]);
+    const [strong, weak] = analysis.agents;
+    expect(strong).toMatchObject({
+      seats: 4,
+      winShare: 2.5,
+      winRate: 0.625,
+      scores: { mean: 51.25, median: 52.5 },
+      meanMargin: 5,
+    });
+    expect(strong.scores.stdDev).toBeCloseTo(17.5, 10);
+    expect(strong.winRateInterval).toEqual(wilsonInterval(2.5, 4));
+    expect(weak).toMatchObject({ winShare: 1.5, meanMargin: -5 });
+
+    expect(analysis.comparisons).toEqual([
+      {
+        agentTypes: ["Strong", "Weak"],
+        games: 4,
+        firstAhead: 2,
+        secondAhead: 1,
+        ties: 1,
+        meanScoreDifference: 5,
+        pValue: 1,
+        significant: false,
+      },
+    ]);
+  });
+
+  it("finds a consistent winner significant", () => {
+    const summary = createSummary([
+      ...Array.from({ length: 9 }, () =>
+        createGame(HEAD_TO_HEAD, { player1: 60, player2: 50 })
+      ),
+      createGame(HEAD_TO_HEAD, { player1: 50, player2: 60 }),
+    ]);
+
+    const [comparison] = analyzeSimulation(summary).comparisons;
+
+    // 2 * P(X <= 1) for X ~ Binomial(10, 1/2)
+    expect(comparison.pValue).toBeCloseTo(22 / 1024, 10);
+    expect(comparison.significant).toBe(true);
+    expect(
+      analyzeSimulation(summary, { confidenceLevel: 0.99 }).comparisons[0]
+        .significant
+    ).toBe(false);
+  });
+
+  // Seats of the same type count separately, but are averaged head to head
+  it("handles agent types in several seats", () => {
+    const summary = createSummary([
+      createGame(
+        { player1: "Strong", player2: "Weak", player3: "Strong" },
+        { player1: 60, player2: 50, player3: 40 }
+      ),
+    ]);
+
+    const analysis = analyzeSimulation(summary);
+
+    const strong = analysis.agents.find((agent) => agent.agentType === "Strong")!;
+    expect(strong.seats).toBe(2);
+    expect(strong.winRate).toBe(0.5);
+    // 60 - 50 and 40 - 60
+    expect(strong.meanMargin).toBe(-5);
+    expect(analysis.comparisons[0]).toMatchObject({
+      games: 1,
+      firstAhead: 0,
+      secondAhead: 0,
+      ties: 1,
+      meanScoreDifference: 0,
+    });
+  });
+
+  it("leaves out agent types that never met", () => {
+    const summary = createSummary([
+      createGame({ player1: "A", player2: "B" }, { player1: 1, player2: 2 }),
+      createGame({ player1: "C", player2: "D" }, { player1: 1, player2: 2 }),
+    ]);
+
+    const pairs = analyzeSimulation(summary).comparisons.map(
+      (comparison) => comparison.agentTypes
+    );
+
+    expect(pairs).toEqual([
+      ["B", "A"],
+      ["D", "C"],
+    ]);
+  });
+
+  it("rejects confidence levels outside 0 to 1", () => {
+    expect(() =>
+      analyzeSimulation(createSummary([]), { confidenceLevel: 95 })
+    ).toThrow("confidenceLevel must be between 0 and 1, got 95");
+  });
+});
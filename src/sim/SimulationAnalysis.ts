@@ -0,0 +1,369 @@
+/**
+ * SimulationAnalysis - Statistics for comparing agents over a simulation run.
+ *
+ * Raw win counts don't say whether one agent is really stronger or just got
+ * luckier seeds. analyzeSimulation() groups every seat played by its agent
+ * spec (type and options, so variants of a type are kept apart) and reports each type's win rate with a Wilson confidence interval,
+ * its score distribution and its mean margin over the best opponent, then
+ * compares each pair of types head to head with a sign test. gamesToDetect()
+ * estimates how many games a run needs to tell apart win rates that differ
+ * by a given amount.
+ */
+
+import type { SimulationSummary } from "./Simulator.js";
+
+/**
+ * A two-sided confidence interval.
+ */
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Distribution of the scores of an agent type's seats.
+ */
+export interface ScoreStats {
+  mean: number;
+  median: number;
+  /** Sample standard deviation (0 for fewer than 2 scores) */
+  stdDev: number;
+}
+
+/**
+ * How an agent type fared over every seat it played.
+ */
+export interface AgentTypeStats {
+  /** Agent spec, so variants of a type are rated apart (see GameSimulationResult.agentTypes) */
+  agentType: string;
+  /**
+   * Seats the type played, over all games. A game with the type in several
+   * seats counts once per seat.
+   */
+  seats: number;
+  /** Win credit: 1 per outright win plus 1/n per win shared by n players */
+  winShare: number;
+  /** winShare / seats */
+  winRate: number;
+  /** Wilson score interval for winRate */
+  winRateInterval: ConfidenceInterval;
+  scores: ScoreStats;
+  /** Mean of each seat's score minus the best score among its opponents */
+  meanMargin: number;
+}
+
+/**
+ * Head-to-head comparison of two agent types over the games both played in.
+ * Where a type had several seats in a game, their scores are averaged.
+ */
+export interface AgentComparison {
+  agentTypes: [string, string];
+  /** Games in which both types played */
+  games: number;
+  /** Games in which the first type scored more than the second */
+  firstAhead: number;
+  /** Games in which the second type scored more than the first */
+  secondAhead: number;
+  /** Games in which they scored the same */
+  ties: number;
+  /** Mean of the first type's score minus the second's */
+  meanScoreDifference: number;
+  /**
+   * Two-sided p-value of a sign test of firstAhead against secondAhead (ties
+   * are left out): the chance of a split at least this uneven if the types
+   * were equally strong
+   */
+  pValue: number;
+  /** Whether pValue is below the analysis significance level */
+  significant: boolean;
+}
+
+/**
+ * Statistics for every agent type in a run.
+ */
+export interface SimulationAnalysis {
+  /** Confidence level of the win rate intervals, e.g. 0.95 */
+  confidenceLevel: number;
+  /** Significance level of the comparisons, i.e. 1 - confidenceLevel */
+  alpha: number;
+  /** Agent types in order of win rate, best first */
+  agents: AgentTypeStats[];
+  /** Every pair of agent types that met in at least one game */
+  comparisons: AgentComparison[];
+}
+
+export interface AnalysisOptions {
+  /** Confidence level of intervals and tests (default 0.95) */
+  confidenceLevel?: number;
+}
+
+export interface SampleSizeOptions {
+  /** Win rate the agent is compared against (default 0.5) */
+  baseline?: number;
+  /** Significance level of the two-sided test (default 0.05) */
+  alpha?: number;
+  /** Chance of detecting a real difference of the given size (default 0.8) */
+  power?: number;
+}
+
+const DEFAULT_CONFIDENCE_LEVEL = 0.95;
+const DEFAULT_POWER = 0.8;
+
+/**
+ * Compute win rate, score and margin statistics per agent type over the
+ * completed games of a run, and compare every pair of types.
+ * @throws Error if the confidence level is not between 0 and 1
+ */
+export function analyzeSimulation(
+  summary: SimulationSummary,
+  options: AnalysisOptions = {}
+): SimulationAnalysis {
+  const confidenceLevel = options.confidenceLevel ?? DEFAULT_CONFIDENCE_LEVEL;
+  if (!(confidenceLevel > 0 && confidenceLevel < 1)) {
+    throw new Error(
+      `confidenceLevel must be between 0 and 1, got ${confidenceLevel}`
+    );
+  }
+  const alpha = 1 - confidenceLevel;
+
+  const seatsByType = new Map<
+    string,
+    { winShare: number; scores: number[]; margins: number[] }
+  >();
+  for (const { agentTypes, result } of summary.games) {
+    const { scores, winnerIds } = result;
+    for (const [playerId, score] of Object.entries(scores)) {
+      const agentType = agentTypes[playerId];
+      let seats = seatsByType.get(agentType);
+      if (!seats) {
+        seats = { winShare: 0, scores: [], margins: [] };
+        seatsByType.set(agentType, seats);
+      }
+      const opponentScores = Object.entries(scores)
+        .filter(([opponentId]) => opponentId !== playerId)
+        .map(([, opponentScore]) => opponentScore);
+      seats.scores.push(score);
+      seats.margins.push(score - Math.max(...opponentScores));
+      if (winnerIds.includes(playerId)) {
+        seats.winShare += 1 / winnerIds.length;
+      }
+    }
+  }
+
+  const agents = [...seatsByType].map(
+    ([agentType, seats]): AgentTypeStats => ({
+      agentType,
+      seats: seats.scores.length,
+      winShare: seats.winShare,
+      winRate: seats.winShare / seats.scores.length,
+      winRateInterval: wilsonInterval(
+        seats.winShare,
+        seats.scores.length,
+        confidenceLevel
+      ),
+      scores: scoreStats(seats.scores),
+      meanMargin: mean(seats.margins),
+    })
+  );
+  agents.sort(
+    (a, b) => b.winRate - a.winRate || a.agentType.localeCompare(b.agentType)
+  );
+
+  const comparisons: AgentComparison[] = [];
+  for (let i = 0; i < agents.length; i++) {
+    for (let j = i + 1; j < agents.length; j++) {
+      const comparison = compareAgentTypes(
+        summary,
+        agents[i].agentType,
+        agents[j].agentType,
+        alpha
+      );
+      if (comparison.games > 0) {
+        comparisons.push(comparison);
+      }
+    }
+  }
+
+  return { confidenceLevel, alpha, agents, comparisons };
+}
+
+/**
+ * Wilson score interval for a binomial proportion. Successes may be
+ * fractional, e.g. shared wins.
+ * @returns [0, 1] if there were no trials
+ */
+export function wilsonInterval(
+  successes: number,
+  trials: number,
+  confidenceLevel = DEFAULT_CONFIDENCE_LEVEL
+): ConfidenceInterval {
+  if (trials === 0) {
+    return { lower: 0, upper: 1 };
+  }
+  const z = normalQuantile(1 - (1 - confidenceLevel) / 2);
+  const p = successes / trials;
+  const z2n = (z * z) / trials;
+  const center = (p + z2n / 2) / (1 + z2n);
+  const halfWidth =
+    (z * Math.sqrt((p * (1 - p)) / trials + z2n / (4 * trials))) / (1 + z2n);
+  return {
+    lower: Math.max(0, center - halfWidth),
+    upper: Math.min(1, center + halfWidth),
+  };
+}
+
+/**
+ * Number of seats an agent type must play for a one-sample test of its win
+ * rate against the baseline to detect a difference of effectSize, e.g. 0.05
+ * for five percentage points.
+ * @throws Error if the effect size, baseline, alpha or power is out of range
+ */
+export function gamesToDetect(
+  effectSize: number,
+  options: SampleSizeOptions = {}
+): number {
+  const {
+    baseline = 0.5,
+    alpha = 1 - DEFAULT_CONFIDENCE_LEVEL,
+    power = DEFAULT_POWER,
+  } = options;
+  if (!(baseline > 0 && baseline < 1)) {
+    throw new Error(`baseline must be between 0 and 1, got ${baseline}`);
+  }
+  const target = baseline + effectSize;
+  if (!(effectSize > 0 && target < 1)) {
+    throw new Error(
+      `effectSize must be positive and keep the win rate below 1, got ${effectSize}`
+    );
+  }
+  if (!(alpha > 0 && alpha < 1) || !(power > 0 && power < 1)) {
+    throw new Error("alpha and power must be between 0 and 1");
+  }
+  const zAlpha = normalQuantile(1 - alpha / 2);
+  const zPower = normalQuantile(power);
+  const n =
+    (zAlpha * Math.sqrt(baseline * (1 - baseline)) +
+      zPower * Math.sqrt(target * (1 - target))) /
+    effectSize;
+  return Math.ceil(n * n);
+}
+
+function compareAgentTypes(
+  summary: SimulationSummary,
+  first: string,
+  second: string,
+  alpha: number
+): AgentComparison {
+  const differences: number[] = [];
+  for (const { agentTypes, result } of summary.games) {
+    const meanScoreOf = (agentType: string) => {
+      const playerIds = Object.keys(result.scores).filter(
+        (playerId) => agentTypes[playerId] === agentType
+      );
+      return playerIds.length > 0
+        ? mean(playerIds.map((playerId) => result.scores[playerId]))
+        : null;
+    };
+    const firstScore = meanScoreOf(first);
+    const secondScore = meanScoreOf(second);
+    if (firstScore !== null && secondScore !== null) {
+      differences.push(firstScore - secondScore);
+    }
+  }
+
+  const firstAhead = differences.filter((d) => d > 0).length;
+  const secondAhead = differences.filter((d) => d < 0).length;
+  const pValue = signTest(firstAhead, secondAhead);
+  return {
+    agentTypes: [first, second],
+    games: differences.length,
+    firstAhead,
+    secondAhead,
+    ties: differences.length - firstAhead - secondAhead,
+    meanScoreDifference: differences.length > 0 ? mean(differences) : 0,
+    pValue,
+    significant: pValue < alpha,
+  };
+}
+
+/**
+ * Two-sided exact sign test: the chance of a split at least as uneven as
+ * a/b in a + b fair coin flips.
+ */
+function signTest(a: number, b: number): number {
+  const n = a + b;
+  if (n === 0) {
+    return 1;
+  }
+  // P(X <= min(a, b)) for X ~ Binomial(n, 1/2), summed in log space so
+  // large runs don't underflow
+  const k = Math.min(a, b);
+  let logTerm = -n * Math.LN2; // log P(X = 0)
+  let tail = Math.exp(logTerm);
+  for (let i = 1; i <= k; i++) {
+    logTerm += Math.log(n - i + 1) - Math.log(i);
+    tail += Math.exp(logTerm);
+  }
+  return Math.min(1, 2 * tail);
+}
+
+function mean(values: readonly number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function scoreStats(scores: readonly number[]): ScoreStats {
+  const sorted = [...scores].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median =
+    sorted.length % 2 === 1
+      ? sorted[middle]
+      : (sorted[middle - 1] + sorted[middle]) / 2;
+  const average = mean(scores);
+  const variance =
+    scores.length > 1
+      ? scores.reduce((sum, score) => sum + (score - average) ** 2, 0) /
+        (scores.length - 1)
+      : 0;
+  return { mean: average, median, stdDev: Math.sqrt(variance) };
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation,
+ * relative error below 1.2e-9).
+ */
+function normalQuantile(p: number): number {
+  const a = [
+    -3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2,
+    1.38357751867269e2, -3.066479806614716e1, 2.506628277459239,
+  ];
+  const b = [
+    -5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2,
+    6.680131188771972e1, -1.328068155288572e1,
+  ];
+  const c = [
+    -7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838,
+    -2.549732539343734, 4.374664141464968, 2.938163982698783,
+  ];
+  const d = [
+    7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996,
+    3.754408661907416,
+  ];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+    );
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  );
+}
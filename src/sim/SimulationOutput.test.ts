@@ -0,0 +1,187 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildSimulationOutput,
+  formatSimulationOutput,
+  type SimulationOutputLine,
+} from "./SimulationOutput.js";
+import { Simulator } from "./Simulator.js";
+import type {
+  GameSimulationResult,
+  SimulationSummary,
+  SimulatorConfig,
+} from "./Simulator.js";
+
+const config: SimulatorConfig = {
+  numGames: 3,
+  numPlayers: 2,
+  agentTypes: ["SmartRandomAgent", "HeuristicAgent"],
+  agentOptions: [{}, { eggWeight: 2 }],
+  trackCoverage: false,
+};
+
+function createGame(
+  seed: number,
+  scores: Record<string, number>,
+  winnerIds: string[]
+): GameSimulationResult {
+  return {
+    seed,
+    agentTypes: { player1: "SmartRandomAgent", player2: "HeuristicAgent" },
+    durationMs: 40,
+    result: {
+      winnerIds,
+      scores,
+      scoreBreakdowns: {},
+      roundsPlayed: 4,
+      totalTurns: 52,
+    },
+  };
+}
+
+// The second of three games failed
+const summary: SimulationSummary = {
+  games: [
+    createGame(11, { player1: 60, player2: 55 }, ["player1"]),
+    createGame(33, { player1: 48, player2: 48 }, ["player1", "player2"]),
+  ],
+  failures: [
+    {
+      index: 1,
+      seed: 22,
+      agentTypes: { player1: "SmartRandomAgent", player2: "HeuristicAgent" },
+      error: 'Agent "x", failed',
+    },
+  ],
+  totalDurationMs: 100,
+  successCount: 2,
+  errorCount: 1,
+  seeds: [11, 22, 33],
+  wins: {
+    player1: { outrightWins: 1, sharedWins: 1, winShare: 1.5 },
+    player2: { outrightWins: 0, sharedWins: 1, winShare: 0.5 },
+  },
+  agentTypeWins: {
+    SmartRandomAgent: { outrightWins: 1, sharedWins: 1, winShare: 1.5 },
+    HeuristicAgent: { outrightWins: 0, sharedWins: 1, winShare: 0.5 },
+  },
+  substitutions: {},
+};
+
+describe("buildSimulationOutput()", () => {
+  it("lists completed and failed games in seed order", () => {
+    const output = buildSimulationOutput(config, summary);
+
+    expect(output.config).toEqual({
+      numGames: 3,
+      numPlayers: 2,
+      seats: [
+        { playerId: "player1", agentType: "SmartRandomAgent", agentOptions: {} },
+        { playerId: "player2", agentType: "HeuristicAgent", agentOptions: { eggWeight: 2 } },
+      ],
+      rotateSeats: false,
+      goalBoardSide: "green",
+    });
+    expect(output.games.map((game) => [game.game, game.seed, game.error])).toEqual([
+      [1, 11, null],
+      [2, 22, 'Agent "x", failed'],
+      [3, 33, null],
+    ]);
+    expect(output.games[0]).toEqual({
+      game: 1,
+      seed: 11,
+      rotation: 0,
+      agentTypes: { player1: "SmartRandomAgent", player2: "HeuristicAgent" },
+      scores: { player1: 60, player2: 55 },
+      winnerIds: ["player1"],
+      totalTurns: 52,
+      durationMs: 40,
+      error: null,
+    });
+    expect(output.games[1]).toMatchObject({
+      scores: {},
+      winnerIds: [],
+      totalTurns: null,
+      durationMs: null,
+    });
+    expect(output.summary).toEqual({
+      totalDurationMs: 100,
+      successCount: 2,
+      errorCount: 1,
+      seeds: [11, 22, 33],
+      wins: summary.wins,
+      agentTypeWins: summary.agentTypeWins,
+      substitutions: {},
+    });
+  });
+
+  it("includes per-handler coverage counts", async () => {
+    const simulator = new Simulator({
+      numGames: 1,
+      numPlayers: 2,
+      agentTypes: ["SmartRandomAgent", "SmartRandomAgent"],
+      seeds: [5],
+      trackCoverage: true,
+    });
+    const simulated = await simulator.run();
+
+    const output = buildSimulationOutput(
+      { ...config, numGames: 1 },
+      simulated,
+      simulator.getCoverageTracker()
+    );
+
+    expect(output.summary.coverage).toEqual({
+      ...simulated.coverage,
+      invocations: simulator.getCoverageTracker()!.getCoverage(),
+    });
+    expect(output.summary.coverage!.invocations.length).toBe(
+      output.summary.coverage!.total
+    );
+  }, 30000);
+});
+
+describe("formatSimulationOutput()", () => {
+  const output = buildSimulationOutput(config, summary);
+
+  it("writes JSON that parses back to the output", () => {
+    expect(JSON.parse(formatSimulationOutput(output, "json"))).toEqual(output);
+  });
+
+  it("writes one JSON line per game, then the summary", () => {
+    const lines = formatSimulationOutput(output, "jsonl")
+      .trimEnd()
+      .split("\n")
+      .map((line) => JSON.parse(line) as SimulationOutputLine);
+
+    expect(lines.map((line) => line.type)).toEqual([
+      "game",
+      "game",
+      "game",
+      "summary",
+    ]);
+    expect(lines[1]).toEqual({ type: "game", ...output.games[1] });
+    expect(lines[3]).toEqual({
+      type: "summary",
+      version: output.version,
+      config: output.config,
+      summary: output.summary,
+    });
+  });
+
+  it("writes a CSV row per game, quoting where needed", () => {
+    expect(formatSimulationOutput(output, "csv")).toBe(
+      [
+        "game,seed,rotation,player1_agent,player1_score,player2_agent,player2_score,winners,total_turns,duration_ms,error",
+        "1,11,0,SmartRandomAgent,60,HeuristicAgent,55,player1,52,40,",
+        '2,22,0,SmartRandomAgent,,HeuristicAgent,,,,,"Agent ""x"", failed"',
+        "3,33,0,SmartRandomAgent,48,HeuristicAgent,48,player1;player2,52,40,",
+      ].join("\n") + "\n"
+    );
+  });
+
+  it("rejects unknown formats", () => {
+    expect(() =>
+      formatSimulationOutput(output, "xml" as "json")
+    ).toThrow('Unknown output format "xml"');
+  });
+});
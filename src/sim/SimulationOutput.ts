@@ -0,0 +1,317 @@
+/**
+ * SimulationOutput - Machine-readable results of a simulation run.
+ *
+ * The types in this module are the schema of the files written by
+ * `yarn sim --output <file>`, so tools that chart or analyse runs can import
+ * them rather than scrape the CLI's text. Three formats are supported:
+ *
+ * - "json": one SimulationOutput object
+ * - "jsonl": one GameOutputLine per game in seed order, then a single
+ *   SummaryOutputLine
+ * - "csv": one row per game (see formatCsv() for the columns); the
+ *   aggregate summary and coverage are only in the JSON formats
+ */
+
+import type { AgentTiming } from "../engine/GameEngine.js";
+import type { AgentOptions } from "../agents/AgentRegistry.js";
+import type { GoalBoardSide, PlayerId } from "../types/core.js";
+import type {
+  HandlerCoverageTracker,
+  HandlerInvocation,
+} from "./HandlerCoverageTracker.js";
+import type {
+  PlayerWinStats,
+  SimulationSummary,
+  SimulatorConfig,
+} from "./Simulator.js";
+
+/**
+ * Version of the output schema. Bumped whenever a field is removed or
+ * changes meaning; new fields may be added without a bump.
+ */
+export const SIMULATION_OUTPUT_VERSION = 1;
+
+export type SimulationOutputFormat = "json" | "jsonl" | "csv";
+
+export const SIMULATION_OUTPUT_FORMATS: SimulationOutputFormat[] = [
+  "json",
+  "jsonl",
+  "csv",
+];
+
+/**
+ * The seat a player sat in and the agent that played it.
+ */
+export interface SeatOutput {
+  playerId: PlayerId;
+  /** Registered agent type name */
+  agentType: string;
+  /** Options the agent was created with (empty if none were given) */
+  agentOptions: AgentOptions;
+}
+
+/**
+ * How the run was configured.
+ */
+export interface SimulationConfigOutput {
+  /** Seeds played (each played numPlayers times if rotateSeats is set) */
+  numGames: number;
+  numPlayers: number;
+  /** Seats in order, before any rotation */
+  seats: SeatOutput[];
+  /** Whether each seed was played once per rotation of the seats */
+  rotateSeats: boolean;
+  goalBoardSide: GoalBoardSide;
+}
+
+/**
+ * One game of the run, whether it completed or failed.
+ */
+export interface GameOutput {
+  /** Position of the game in the run, starting at 1 */
+  game: number;
+  seed: number;
+  /** Rotation of the agent lineup (0 unless rotateSeats is set) */
+  rotation: number;
+  /** Agent spec per player ID (see GameSimulationResult.agentTypes) */
+  agentTypes: Record<PlayerId, string>;
+  /** Final score per player ID (empty if the game failed) */
+  scores: Record<PlayerId, number>;
+  /**
+   * Players sharing the victory; more than one only if they stayed tied
+   * after the tiebreaker (empty if the game failed)
+   */
+  winnerIds: PlayerId[];
+  /** Turns played (null if the game failed) */
+  totalTurns: number | null;
+  /** Time taken to play the game, in milliseconds (null if the game failed) */
+  durationMs: number | null;
+  /** Message of the error that ended the game (null if it completed) */
+  error: string | null;
+}
+
+/**
+ * Handler coverage over the whole run.
+ */
+export interface CoverageOutput {
+  /** Handlers invoked at least once */
+  covered: number;
+  /** Handlers tracked */
+  total: number;
+  /** covered as a percentage of total */
+  percentage: number;
+  uncoveredHandlers: string[];
+  /** Invocation count of every tracked handler */
+  invocations: HandlerInvocation[];
+}
+
+/**
+ * Aggregate results of the run (see SimulationSummary).
+ */
+export interface SummaryOutput {
+  totalDurationMs: number;
+  successCount: number;
+  errorCount: number;
+  /** Seed of every game in order, including failed games */
+  seeds: number[];
+  /** Win tally per player ID */
+  wins: Record<PlayerId, PlayerWinStats>;
+  /** Win tally per agent type */
+  agentTypeWins: Record<string, PlayerWinStats>;
+  /** Agent timings per player ID (only present if timings were recorded) */
+  timings?: Record<PlayerId, AgentTiming>;
+  /** Prompts the fallback agent answered per player ID */
+  substitutions: Record<PlayerId, number>;
+  /** Only present if coverage was tracked */
+  coverage?: CoverageOutput;
+}
+
+/**
+ * Contents of a "json" output file.
+ */
+export interface SimulationOutput {
+  version: number;
+  config: SimulationConfigOutput;
+  games: GameOutput[];
+  summary: SummaryOutput;
+}
+
+/**
+ * A line of a "jsonl" output file for one game.
+ */
+export interface GameOutputLine extends GameOutput {
+  type: "game";
+}
+
+/**
+ * Last line of a "jsonl" output file.
+ */
+export interface SummaryOutputLine {
+  type: "summary";
+  version: number;
+  config: SimulationConfigOutput;
+  summary: SummaryOutput;
+}
+
+export type SimulationOutputLine = GameOutputLine | SummaryOutputLine;
+
+/**
+ * Collect a run's configuration, games and summary into output form.
+ * @param coverageTracker - The simulator's tracker, for per-handler counts
+ *   (only used if the summary has coverage)
+ */
+export function buildSimulationOutput(
+  config: SimulatorConfig,
+  summary: SimulationSummary,
+  coverageTracker?: HandlerCoverageTracker | null
+): SimulationOutput {
+  const seats: SeatOutput[] = config.agentTypes.map((agentType, index) => ({
+    playerId: `player${index + 1}` as PlayerId,
+    agentType,
+    agentOptions: config.agentOptions?.[index] ?? {},
+  }));
+
+  // Completed and failed games are listed separately, each in run order
+  const failures = new Map(
+    summary.failures.map((failure) => [failure.index, failure])
+  );
+  const completed = summary.games[Symbol.iterator]();
+  const numGames = summary.successCount + summary.errorCount;
+  const games = Array.from({ length: numGames }, (_, index): GameOutput => {
+    const failure = failures.get(index);
+    if (failure) {
+      return {
+        game: index + 1,
+        seed: failure.seed,
+        rotation: failure.rotation ?? 0,
+        agentTypes: failure.agentTypes,
+        scores: {},
+        winnerIds: [],
+        totalTurns: null,
+        durationMs: null,
+        error: failure.error,
+      };
+    }
+    const { seed, rotation, agentTypes, result, durationMs } =
+      completed.next().value!;
+    return {
+      game: index + 1,
+      seed,
+      rotation: rotation ?? 0,
+      agentTypes,
+      scores: result.scores,
+      winnerIds: result.winnerIds,
+      totalTurns: result.totalTurns,
+      durationMs,
+      error: null,
+    };
+  });
+
+  const { coverage } = summary;
+  return {
+    version: SIMULATION_OUTPUT_VERSION,
+    config: {
+      numGames: config.numGames,
+      numPlayers: config.numPlayers,
+      seats,
+      rotateSeats: config.rotateSeats ?? false,
+      goalBoardSide: config.goalBoardSide ?? "green",
+    },
+    games,
+    summary: {
+      totalDurationMs: summary.totalDurationMs,
+      successCount: summary.successCount,
+      errorCount: summary.errorCount,
+      seeds: summary.seeds,
+      wins: summary.wins,
+      agentTypeWins: summary.agentTypeWins,
+      ...(summary.timings && { timings: summary.timings }),
+      substitutions: summary.substitutions,
+      ...(coverage && {
+        coverage: {
+          ...coverage,
+          invocations: coverageTracker?.getCoverage() ?? [],
+        },
+      }),
+    },
+  };
+}
+
+/**
+ * Render output in the given format.
+ * @throws Error if the format is unknown
+ */
+export function formatSimulationOutput(
+  output: SimulationOutput,
+  format: SimulationOutputFormat
+): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(output, null, 2) + "\n";
+    case "jsonl":
+      return formatJsonLines(output);
+    case "csv":
+      return formatCsv(output);
+    default:
+      throw new Error(
+        `Unknown output format "${format}". Expected one of: ${SIMULATION_OUTPUT_FORMATS.join(", ")}`
+      );
+  }
+}
+
+function formatJsonLines(output: SimulationOutput): string {
+  const lines: SimulationOutputLine[] = [
+    ...output.games.map((game): GameOutputLine => ({ type: "game", ...game })),
+    {
+      type: "summary",
+      version: output.version,
+      config: output.config,
+      summary: output.summary,
+    },
+  ];
+  return lines.map((line) => JSON.stringify(line) + "\n").join("");
+}
+
+/**
+ * One row per game, with a header row. Columns: game, seed, rotation, then
+ * `<playerId>_agent` and `<playerId>_score` for each seat, then winners
+ * (player IDs joined with ";"), total_turns, duration_ms and error. Fields
+ * of failed games that have no value are left empty.
+ */
+function formatCsv(output: SimulationOutput): string {
+  const playerIds = output.config.seats.map((seat) => seat.playerId);
+  const header = [
+    "game",
+    "seed",
+    "rotation",
+    ...playerIds.flatMap((playerId) => [`${playerId}_agent`, `${playerId}_score`]),
+    "winners",
+    "total_turns",
+    "duration_ms",
+    "error",
+  ];
+  const rows = output.games.map((game) => [
+    game.game,
+    game.seed,
+    game.rotation,
+    ...playerIds.flatMap((playerId) => [
+      game.agentTypes[playerId],
+      game.scores[playerId],
+    ]),
+    game.winnerIds.join(";"),
+    game.totalTurns,
+    game.durationMs,
+    game.error,
+  ]);
+  return [header, ...rows]
+    .map((row) => row.map(csvField).join(",") + "\n")
+    .join("");
+}
+
+/**
+ * Quote a CSV field if it contains a delimiter, quote or line break.
+ */
+function csvField(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,82 @@
+/**
+ * SimulationWorker - Plays simulation games on a worker thread.
+ *
+ * Simulator.run() starts these workers when SimulatorConfig.workers is more
+ * than 1. Each worker loads the configured agent modules, builds its own
+ * Simulator (and with it its own DataRegistry and agents), then plays the
+ * games it is sent one at a time. Every game is decided by its seed and
+ * seating alone, so which worker plays it doesn't change the result; the
+ * Simulator puts the results back in order.
+ */
+
+import { parentPort, workerData } from "node:worker_threads";
+import {
+  Simulator,
+  type GameSimulationResult,
+  type SimulatorConfig,
+} from "./Simulator.js";
+import { loadAgentModule } from "../agents/AgentModuleLoader.js";
+
+/**
+ * Data each worker is started with.
+ */
+export interface SimulationWorkerData {
+  config: SimulatorConfig;
+}
+
+/**
+ * Messages the Simulator sends a worker.
+ */
+export type SimulationWorkerRequest =
+  /**
+   * Play the game with this seed and rotation of the agent lineup; index is
+   * its position in the run
+   */
+  | { type: "play"; index: number; seed: number; rotation: number }
+  /** No more games; report coverage counts */
+  | { type: "finish" };
+
+/**
+ * Messages a worker sends back to the Simulator.
+ */
+export type SimulationWorkerResponse =
+  | { type: "game"; index: number; game: GameSimulationResult }
+  /** The game threw; only its message crosses the thread boundary */
+  | { type: "error"; index: number; error: string }
+  /** Handler invocation counts over all the worker's games (if coverage is tracked) */
+  | { type: "finished"; coverage?: Record<string, number> };
+
+if (parentPort) {
+  const port = parentPort;
+  const { config } = workerData as SimulationWorkerData;
+
+  // Agents from --agent-module are only registered on the thread that loaded them
+  for (const path of config.agentModules ?? []) {
+    await loadAgentModule(path);
+  }
+  const simulator = new Simulator({ ...config, workers: 1 });
+
+  const respond = (response: SimulationWorkerResponse) =>
+    port.postMessage(response);
+
+  port.on("message", async (request: SimulationWorkerRequest) => {
+    if (request.type === "finish") {
+      respond({
+        type: "finished",
+        coverage: simulator.getCoverageTracker()?.getInvocationCounts(),
+      });
+      return;
+    }
+    const { index, seed, rotation } = request;
+    try {
+      const game = await simulator.runSingleGame(seed, rotation);
+      respond({ type: "game", index, game });
+    } catch (error) {
+      respond({
+        type: "error",
+        index,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+}
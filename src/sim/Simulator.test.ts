@@ -5,12 +5,37 @@
  * manages seeds for reproducibility, and tracks handler coverage.
  */
 
-import { describe, it, expect } from "vitest";
-import { Simulator, type SimulatorConfig } from "./Simulator.js";
+import { describe, it, expect, vi } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  Simulator,
+  tallyAgentTypeWins,
+  tallyTimings,
+  tallyWins,
+  type GameSimulationResult,
+  type SimulationSummary,
+  type SimulatorConfig,
+} from "./Simulator.js";
+import { analyzeSimulation } from "./SimulationAnalysis.js";
+import { AgentRegistry } from "../agents/AgentRegistry.js";
+import { loadAgentModule } from "../agents/AgentModuleLoader.js";
 
 // Ensure SmartRandomAgent is registered
 import "../agents/SmartRandomAgent.js";
 
+// An agent that never decides anything, for time budget tests
+AgentRegistry.register("HungTestAgent", "Never answers", (playerId) => {
+  const hang = () => new Promise<never>(() => {});
+  return {
+    playerId,
+    chooseStartingHand: hang,
+    chooseTurnAction: hang,
+    chooseOption: hang,
+  };
+});
+
 describe("Simulator", () => {
   // Verifies configuration validation catches invalid numGames
   it("rejects numGames < 1", () => {
@@ -74,6 +99,44 @@ describe("Simulator", () => {
     ).toThrow('Agent type "UnknownAgent" not found');
   });
 
+  // Verifies agentOptions length must match numPlayers
+  it("rejects mismatched agentOptions length", () => {
+    expect(
+      () =>
+        new Simulator({
+          numGames: 1,
+          numPlayers: 2,
+          agentTypes: ["SmartRandomAgent", "SmartRandomAgent"],
+          agentOptions: [{}],
+          trackCoverage: false,
+        })
+    ).toThrow("agentOptions length (1) must equal numPlayers (2)");
+  });
+
+  // Verifies each player's agent is created with its own options
+  it("passes agent options to the agent factories", async () => {
+    const simulator = new Simulator({
+      numGames: 1,
+      numPlayers: 2,
+      agentTypes: ["HeuristicAgent", "HeuristicAgent"],
+      agentOptions: [{}, { eggWeight: "heavy" }],
+      baseSeed: 12345,
+      trackCoverage: false,
+    });
+
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    try {
+      const summary = await simulator.run();
+
+      expect(summary.errorCount).toBe(1);
+      expect(String(consoleError.mock.calls[0][1])).toContain(
+        'Option "eggWeight" for agent "HeuristicAgent" must be a number'
+      );
+    } finally {
+      consoleError.mockRestore();
+    }
+  });
+
   // Verifies explicit seeds length must match numGames
   it("rejects mismatched explicit seeds length", () => {
     expect(
@@ -88,6 +151,89 @@ describe("Simulator", () => {
     ).toThrow("seeds length (2) must equal numGames (3)");
   });
 
+  // Verifies unknown goal board sides are rejected
+  it("rejects unknown goal board sides", () => {
+    expect(
+      () =>
+        new Simulator({
+          numGames: 1,
+          numPlayers: 2,
+          agentTypes: ["SmartRandomAgent", "SmartRandomAgent"],
+          trackCoverage: false,
+          goalBoardSide: "red" as never,
+        })
+    ).toThrow('goalBoardSide must be "green" or "blue", got "red"');
+  });
+
+  // Verifies invalid time budgets are rejected
+  it("rejects invalid time budgets", () => {
+    expect(
+      () =>
+        new Simulator({
+          numGames: 1,
+          numPlayers: 2,
+          agentTypes: ["SmartRandomAgent", "SmartRandomAgent"],
+          trackCoverage: false,
+          timeBudget: { perDecisionMs: 0 },
+        })
+    ).toThrow("Time budget perDecisionMs must be a positive number, got 0");
+  });
+
+  // Verifies the fallback agent and attempt settings are checked up front
+  it("rejects unknown fallback agents and invalid maxAttempts", () => {
+    const config: SimulatorConfig = {
+      numGames: 1,
+      numPlayers: 2,
+      agentTypes: ["SmartRandomAgent", "SmartRandomAgent"],
+      trackCoverage: false,
+    };
+
+    expect(
+      () => new Simulator({ ...config, fallbackAgentType: "NoSuchAgent" })
+    ).toThrow('Fallback agent type "NoSuchAgent" not found');
+    expect(() => new Simulator({ ...config, maxAttempts: 0 })).toThrow(
+      "maxAttempts must be a positive integer, got 0"
+    );
+  });
+
+  it("rejects invalid worker counts", () => {
+    const config: SimulatorConfig = {
+      numGames: 1,
+      numPlayers: 2,
+      agentTypes: ["SmartRandomAgent", "SmartRandomAgent"],
+      trackCoverage: false,
+    };
+
+    expect(() => new Simulator({ ...config, workers: 0 })).toThrow(
+      "workers must be a positive integer, got 0"
+    );
+    expect(() => new Simulator({ ...config, workers: 1.5 })).toThrow(
+      "workers must be a positive integer, got 1.5"
+    );
+  });
+
+  // Verifies a hung agent is stood in for and the game still finishes
+  it("lets a SmartRandomAgent answer for an agent out of time", async () => {
+    const simulator = new Simulator({
+      numGames: 1,
+      numPlayers: 2,
+      agentTypes: ["HungTestAgent", "SmartRandomAgent"],
+      baseSeed: 12345,
+      trackCoverage: false,
+      timeBudget: { perGameMs: 20, onTimeout: "fallback" },
+    });
+
+    const summary = await simulator.run();
+
+    expect(summary.successCount).toBe(1);
+    expect(summary.games[0].result.forfeitedPlayers).toBeUndefined();
+    expect(summary.timings!.player1.timeouts).toBeGreaterThan(26);
+    expect(summary.timings!.player2.timeouts).toBe(0);
+    expect(summary.substitutions).toEqual({
+      player1: summary.timings!.player1.timeouts,
+    });
+  }, 30000);
+
   // Verifies valid configuration is accepted
   it("accepts valid configuration", () => {
     const simulator = new Simulator({
@@ -118,7 +264,7 @@ describe("Simulator", () => {
     expect(summary.totalDurationMs).toBeGreaterThan(0);
 
     const game = summary.games[0];
-    expect(game.result.winnerId).toBeDefined();
+    expect(game.result.winnerIds.length).toBeGreaterThan(0);
     expect(Object.keys(game.result.scores).length).toBe(2);
     expect(game.durationMs).toBeGreaterThan(0);
   }, 30000);
@@ -184,8 +330,8 @@ describe("Simulator", () => {
     expect(summary1.seeds).toEqual(summary2.seeds);
 
     // Results should be identical
-    expect(summary1.games[0].result.winnerId).toBe(
-      summary2.games[0].result.winnerId
+    expect(summary1.games[0].result.winnerIds).toEqual(
+      summary2.games[0].result.winnerIds
     );
     expect(summary1.games[0].result.scores).toEqual(
       summary2.games[0].result.scores
@@ -334,11 +480,263 @@ describe("Simulator", () => {
     const replaySummary = await replaySimulator.run();
 
     // Replayed game should have same result as original
-    expect(replaySummary.games[0].result.winnerId).toBe(
-      summary.games[1].result.winnerId
+    expect(replaySummary.games[0].result.winnerIds).toEqual(
+      summary.games[1].result.winnerIds
     );
     expect(replaySummary.games[0].result.scores).toEqual(
       summary.games[1].result.scores
     );
   }, 120000);
+
+  // Worker threads play the same games, so only the timings may differ
+  it("produces the same summary with workers as serially", async () => {
+    const config: SimulatorConfig = {
+      numGames: 5,
+      numPlayers: 2,
+      agentTypes: ["SmartRandomAgent", "HeuristicAgent"],
+      baseSeed: 2024,
+      trackCoverage: true,
+    };
+    const withoutDurations = (summary: SimulationSummary) => ({
+      ...summary,
+      totalDurationMs: 0,
+      games: summary.games.map((game) => ({ ...game, durationMs: 0 })),
+    });
+
+    const serial = new Simulator(config);
+    const serialSummary = await serial.run();
+    expect(serialSummary.successCount).toBe(5);
+
+    for (const workers of [2, 3]) {
+      const parallel = new Simulator({ ...config, workers });
+      const summary = await parallel.run();
+
+      expect(withoutDurations(summary)).toEqual(withoutDurations(serialSummary));
+      expect(parallel.getCoverageTracker()!.getCoverage()).toEqual(
+        serial.getCoverageTracker()!.getCoverage()
+      );
+    }
+  }, 180000);
+
+  // Workers load agent modules themselves and report failed games in seed order
+  it("reports games that fail on a worker", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "wingsim-simulator-"));
+    const path = join(dir, "failingBot.mjs");
+    writeFileSync(
+      path,
+      `export class FailingBot {
+        constructor(playerId) { this.playerId = playerId; }
+        chooseStartingHand() { throw new Error("FailingBot gives up"); }
+        chooseTurnAction() { throw new Error("unused"); }
+        chooseOption() { throw new Error("unused"); }
+      }`
+    );
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    try {
+      await loadAgentModule(path);
+      const simulator = new Simulator({
+        numGames: 3,
+        numPlayers: 2,
+        agentTypes: ["SmartRandomAgent", "FailingBot"],
+        seeds: [7, 8, 9],
+        trackCoverage: false,
+        workers: 2,
+        agentModules: [path],
+      });
+
+      const summary = await simulator.run();
+
+      expect(summary.errorCount).toBe(3);
+      expect(summary.games).toEqual([]);
+      expect(summary.failures).toEqual(
+        [7, 8, 9].map((seed, index) => ({
+          index,
+          seed,
+          agentTypes: { player1: "SmartRandomAgent", player2: "FailingBot" },
+          error: expect.stringContaining("FailingBot gives up"),
+        }))
+      );
+      expect(errorSpy.mock.calls.map((call) => call[0])).toEqual([
+        "Game 1 (seed: 7) failed:",
+        "Game 2 (seed: 8) failed:",
+        "Game 3 (seed: 9) failed:",
+      ]);
+      expect(errorSpy.mock.calls[0][1]).toEqual(
+        expect.stringContaining("FailingBot gives up")
+      );
+    } finally {
+      errorSpy.mockRestore();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  }, 60000);
+
+  // A rotation seats the same agents as a run with the lineup rotated by hand
+  it("plays every seed once per rotation of the seats", async () => {
+    const config: SimulatorConfig = {
+      numGames: 2,
+      numPlayers: 2,
+      agentTypes: ["SmartRandomAgent", "HeuristicAgent"],
+      agentOptions: [{}, { eggWeight: 2 }],
+      seeds: [101, 202],
+      trackCoverage: false,
+    };
+    const withoutDuration = ({
+      durationMs: _durationMs,
+      rotation: _rotation,
+      ...game
+    }: GameSimulationResult) => game;
+
+    const summary = await new Simulator({ ...config, rotateSeats: true }).run();
+    const straight = await new Simulator(config).run();
+    const swapped = await new Simulator({
+      ...config,
+      agentTypes: ["HeuristicAgent", "SmartRandomAgent"],
+      agentOptions: [{ eggWeight: 2 }, {}],
+    }).run();
+
+    expect(summary.successCount).toBe(4);
+    expect(summary.seeds).toEqual([101, 202]);
+    expect(summary.games.map((game) => [game.seed, game.rotation])).toEqual([
+      [101, 0],
+      [101, 1],
+      [202, 0],
+      [202, 1],
+    ]);
+    expect(summary.games[1].agentTypes).toEqual({
+      player1: "HeuristicAgent:eggWeight=2",
+      player2: "SmartRandomAgent",
+    });
+    expect(summary.games.map(withoutDuration)).toEqual([
+      withoutDuration(straight.games[0]),
+      withoutDuration(swapped.games[0]),
+      withoutDuration(straight.games[1]),
+      withoutDuration(swapped.games[1]),
+    ]);
+    expect(summary.agentTypeWins).toEqual(tallyAgentTypeWins(summary.games));
+    const totalShare = Object.values(summary.agentTypeWins).reduce(
+      (sum, stats) => sum + stats.winShare,
+      0
+    );
+    expect(totalShare).toBeCloseTo(4, 10);
+  }, 60000);
+
+  // Variants of one agent type are tallied as different agents
+  it("keys agents by their spec, options included", async () => {
+    const summary = await new Simulator({
+      numGames: 1,
+      numPlayers: 2,
+      agentTypes: ["HeuristicAgent", "HeuristicAgent"],
+      agentOptions: [{}, { eggWeight: 2 }],
+      seeds: [303],
+      trackCoverage: false,
+      rotateSeats: true,
+    }).run();
+
+    expect(summary.games[0].agentTypes).toEqual({
+      player1: "HeuristicAgent",
+      player2: "HeuristicAgent:eggWeight=2",
+    });
+    const variants = ["HeuristicAgent", "HeuristicAgent:eggWeight=2"];
+    expect(Object.keys(summary.agentTypeWins).sort()).toEqual(variants);
+    expect(
+      analyzeSimulation(summary).agents.map((agent) => agent.agentType).sort()
+    ).toEqual(variants);
+  }, 60000);
+
+  // Verifies shared wins are counted for every winner and credited fractionally
+  it("tallies outright and shared wins", () => {
+    const game = (winnerIds: string[]): GameSimulationResult => ({
+      seed: 1,
+      agentTypes: {
+        player1: "SmartRandomAgent",
+        player2: "SmartRandomAgent",
+        player3: "SmartRandomAgent",
+      },
+      durationMs: 1,
+      result: {
+        winnerIds,
+        scores: { player1: 40, player2: 40, player3: 30 },
+        scoreBreakdowns: {},
+        roundsPlayed: 4,
+        totalTurns: 78,
+      },
+    });
+
+    const wins = tallyWins([
+      game(["player1"]),
+      game(["player1", "player2"]),
+      game(["player2"]),
+    ]);
+
+    expect(wins).toEqual({
+      player1: { outrightWins: 1, sharedWins: 1, winShare: 1.5 },
+      player2: { outrightWins: 1, sharedWins: 1, winShare: 1.5 },
+      player3: { outrightWins: 0, sharedWins: 0, winShare: 0 },
+    });
+  });
+
+  // Seats of the same agent type add up
+  it("tallies wins per agent type", () => {
+    const game = (winnerIds: string[]): GameSimulationResult => ({
+      seed: 1,
+      agentTypes: {
+        player1: "HeuristicAgent",
+        player2: "SmartRandomAgent",
+        player3: "HeuristicAgent",
+      },
+      durationMs: 1,
+      result: {
+        winnerIds,
+        scores: { player1: 40, player2: 40, player3: 30 },
+        scoreBreakdowns: {},
+        roundsPlayed: 4,
+        totalTurns: 78,
+      },
+    });
+
+    const wins = tallyAgentTypeWins([
+      game(["player1"]),
+      game(["player1", "player2"]),
+      game(["player3"]),
+    ]);
+
+    expect(wins).toEqual({
+      HeuristicAgent: { outrightWins: 2, sharedWins: 1, winShare: 2.5 },
+      SmartRandomAgent: { outrightWins: 0, sharedWins: 1, winShare: 0.5 },
+    });
+  });
+
+  // Verifies timings add up across games and games without timings are skipped
+  it("tallies agent timings", () => {
+    const game = (timings?: GameSimulationResult["result"]["timings"]) => ({
+      seed: 1,
+      agentTypes: { player1: "SmartRandomAgent", player2: "SmartRandomAgent" },
+      durationMs: 1,
+      result: {
+        winnerIds: ["player1"],
+        scores: { player1: 40, player2: 30 },
+        scoreBreakdowns: {},
+        roundsPlayed: 4,
+        totalTurns: 52,
+        ...(timings && { timings }),
+      },
+    });
+
+    const timings = tallyTimings([
+      game({
+        player1: { decisions: 10, totalMs: 50, maxMs: 20, timeouts: 1 },
+        player2: { decisions: 8, totalMs: 4, maxMs: 1, timeouts: 0 },
+      }),
+      game(),
+      game({
+        player1: { decisions: 12, totalMs: 30, maxMs: 10, timeouts: 0 },
+        player2: { decisions: 9, totalMs: 6, maxMs: 2, timeouts: 0 },
+      }),
+    ]);
+
+    expect(timings).toEqual({
+      player1: { decisions: 22, totalMs: 80, maxMs: 20, timeouts: 1 },
+      player2: { decisions: 17, totalMs: 10, maxMs: 2, timeouts: 0 },
+    });
+  });
 });
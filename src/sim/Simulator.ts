@@ -4,18 +4,46 @@
  * The Simulator runs complete games with configurable agents, tracks handler
  * coverage, and aggregates results across all games. It manages seed generation
  * for reproducibility and provides detailed statistics about game outcomes.
+ * Games can be spread across worker threads (see SimulationWorker.ts) without
+ * changing the summary.
+ *
+ * In duplicate mode (rotateSeats) every seed is played once per rotation of
+ * the agent lineup, so each agent plays each seat on the same deck and dice,
+ * which takes most of the luck of the deal out of comparing agents.
  */
 
-import { GameEngine, type GameResult } from "../engine/GameEngine.js";
+import { Worker } from "node:worker_threads";
+
+import {
+  GameEngine,
+  type AgentTimeBudget,
+  type AgentTiming,
+  type GameResult,
+  type InvalidChoicePolicy,
+} from "../engine/GameEngine.js";
+import { validateTimeBudget } from "../engine/AgentClock.js";
 import { DataRegistry } from "../data/DataRegistry.js";
-import { AgentRegistry } from "../agents/AgentRegistry.js";
+import {
+  AgentRegistry,
+  formatAgentSpec,
+  type AgentOptions,
+} from "../agents/AgentRegistry.js";
 import { HandlerCoverageTracker } from "./HandlerCoverageTracker.js";
+import { GameRecorder, type GameRecord } from "./GameRecord.js";
 import { Rng } from "../util/Rng.js";
-import type { PlayerId } from "../types/core.js";
+import type { GoalBoardSide, PlayerId } from "../types/core.js";
 import type { PlayerAgent } from "../agents/PlayerAgent.js";
+import type {
+  SimulationWorkerData,
+  SimulationWorkerRequest,
+  SimulationWorkerResponse,
+} from "./SimulationWorker.js";
 
-// Ensure SmartRandomAgent is registered (side effect import)
+// Ensure the built-in agents are registered (side effect imports)
 import "../agents/SmartRandomAgent.js";
+import "../agents/MctsAgent.js";
+import "../agents/HeuristicAgent.js";
+import "../agents/SubprocessAgent.js";
 
 /**
  * Configuration for the Simulator.
@@ -27,12 +55,54 @@ export interface SimulatorConfig {
   numPlayers: number;
   /** Agent type names for each player. Length must equal numPlayers. */
   agentTypes: string[];
+  /** Optional: options for each player's agent. Length must equal numPlayers if provided. */
+  agentOptions?: AgentOptions[];
   /** Optional: explicit seeds for each game. Length must equal numGames if provided. */
   seeds?: number[];
   /** Optional: base seed used to generate seeds if explicit seeds not provided */
   baseSeed?: number;
   /** Whether to track handler coverage */
   trackCoverage: boolean;
+  /** Optional: side of the goal board used for round goals (default "green") */
+  goalBoardSide?: GoalBoardSide;
+  /** Optional: record every prompt/choice pair so games can be replayed */
+  recordGames?: boolean;
+  /**
+   * Optional: limits on how long agents may take to decide. Under the
+   * "fallback" policy the fallback agent answers for an agent out of time.
+   */
+  timeBudget?: AgentTimeBudget;
+  /** Optional: record how long each agent takes to decide (always on with a timeBudget) */
+  recordTimings?: boolean;
+  /**
+   * Optional: whether a player who keeps making invalid choices forfeits
+   * (the default) or has the fallback agent answer for them
+   */
+  onInvalidChoice?: InvalidChoicePolicy;
+  /** Optional: invalid choices allowed on one prompt (default 3) */
+  maxAttempts?: number;
+  /** Optional: registered agent type that stands in for players (default "SmartRandomAgent") */
+  fallbackAgentType?: string;
+  /** Optional: options for the fallback agent */
+  fallbackAgentOptions?: AgentOptions;
+  /**
+   * Optional: worker threads to spread the games across (default 1, which
+   * plays every game on the calling thread). The summary is the same
+   * whatever the number of workers.
+   */
+  workers?: number;
+  /**
+   * Optional: play every seed once per rotation of the agent lineup, so each
+   * agent plays each seat (numPlayers games per seed). Rotation r seats
+   * agentTypes[(i + r) % numPlayers] as player i + 1.
+   */
+  rotateSeats?: boolean;
+  /**
+   * Optional: agent modules (see loadAgentModule()) each worker loads before
+   * creating agents. Needed when agentTypes or fallbackAgentType name agents
+   * registered from a module.
+   */
+  agentModules?: string[];
 }
 
 /**
@@ -41,26 +111,85 @@ export interface SimulatorConfig {
 export interface GameSimulationResult {
   /** The seed used for this game */
   seed: number;
+  /** Rotation of the agent lineup (only present if rotateSeats was enabled) */
+  rotation?: number;
+  /**
+   * Agent per player ID, as a spec with the agent's options (see
+   * formatAgentSpec()), so variants of one type are told apart
+   */
+  agentTypes: Record<PlayerId, string>;
   /** The game result including winner and scores */
   result: GameResult;
   /** Duration of the game in milliseconds */
   durationMs: number;
+  /** Full decision record (if recordGames was enabled) */
+  record?: GameRecord;
+}
+
+/**
+ * A game that failed to complete.
+ */
+export interface GameSimulationFailure {
+  /** Position of the game in the run, starting at 0 */
+  index: number;
+  /** The seed used for this game */
+  seed: number;
+  /** Rotation of the agent lineup (only present if rotateSeats was enabled) */
+  rotation?: number;
+  /** Agent spec per player ID (see GameSimulationResult.agentTypes) */
+  agentTypes: Record<PlayerId, string>;
+  /** Message of the error that ended the game */
+  error: string;
+}
+
+/**
+ * Win tally for a single player across all simulated games.
+ */
+export interface PlayerWinStats {
+  /** Games this player won alone */
+  outrightWins: number;
+  /** Games in which this player shared the victory after the tiebreaker */
+  sharedWins: number;
+  /**
+   * Fractional win credit: 1 per outright win plus 1/n per win shared by
+   * n players. Sums to the number of successful games across all players.
+   */
+  winShare: number;
 }
 
 /**
  * Summary of all game simulations.
  */
 export interface SimulationSummary {
-  /** Results from all games */
+  /** Results from all games that completed, in seed order */
   games: GameSimulationResult[];
+  /** Games that failed, in seed order */
+  failures: GameSimulationFailure[];
   /** Total duration of all simulations in milliseconds */
   totalDurationMs: number;
-  /** Number of games that completed successfully */
+  /**
+   * Number of games that completed successfully. With rotateSeats, each seed
+   * is played numPlayers times.
+   */
   successCount: number;
   /** Number of games that resulted in errors */
   errorCount: number;
   /** All seeds used (for replay) */
   seeds: number[];
+  /** Win tally per player ID, including players who never won */
+  wins: Record<PlayerId, PlayerWinStats>;
+  /**
+   * Win tally per agent spec, over every seat the agent played. An agent
+   * that shares a win with itself is credited once per seat.
+   */
+  agentTypeWins: Record<string, PlayerWinStats>;
+  /** Agent timings per player ID over all games (if timings were recorded) */
+  timings?: Record<PlayerId, AgentTiming>;
+  /**
+   * Prompts the fallback agent answered per player ID over all games, for
+   * players who were stood in for at least once
+   */
+  substitutions: Record<PlayerId, number>;
   /** Coverage statistics (if trackCoverage was enabled) */
   coverage?: {
     covered: number;
@@ -70,6 +199,109 @@ export interface SimulationSummary {
   };
 }
 
+/**
+ * Tally outright and shared wins per player across game results.
+ */
+export function tallyWins(
+  games: readonly GameSimulationResult[]
+): Record<PlayerId, PlayerWinStats> {
+  return tallyWinsBy(games, (_game, playerId) => playerId);
+}
+
+/**
+ * Tally outright and shared wins per agent spec across game results.
+ */
+export function tallyAgentTypeWins(
+  games: readonly GameSimulationResult[]
+): Record<string, PlayerWinStats> {
+  return tallyWinsBy(games, (game, playerId) => game.agentTypes[playerId]);
+}
+
+function tallyWinsBy(
+  games: readonly GameSimulationResult[],
+  keyOf: (game: GameSimulationResult, playerId: PlayerId) => string
+): Record<string, PlayerWinStats> {
+  const wins: Record<string, PlayerWinStats> = {};
+  const statsFor = (key: string): PlayerWinStats =>
+    (wins[key] ??= { outrightWins: 0, sharedWins: 0, winShare: 0 });
+
+  for (const game of games) {
+    for (const playerId of Object.keys(game.result.scores)) {
+      statsFor(keyOf(game, playerId));
+    }
+    const { winnerIds } = game.result;
+    for (const winnerId of winnerIds) {
+      const stats = statsFor(keyOf(game, winnerId));
+      if (winnerIds.length === 1) {
+        stats.outrightWins++;
+      } else {
+        stats.sharedWins++;
+      }
+      stats.winShare += 1 / winnerIds.length;
+    }
+  }
+
+  return wins;
+}
+
+/**
+ * Add up each player's agent timings across game results. Games without
+ * timings are skipped.
+ */
+export function tallyTimings(
+  games: readonly GameSimulationResult[]
+): Record<PlayerId, AgentTiming> {
+  const timings: Record<PlayerId, AgentTiming> = {};
+  for (const game of games) {
+    for (const [playerId, timing] of Object.entries(game.result.timings ?? {})) {
+      const total = (timings[playerId] ??= {
+        decisions: 0,
+        totalMs: 0,
+        maxMs: 0,
+        timeouts: 0,
+      });
+      total.decisions += timing.decisions;
+      total.totalMs += timing.totalMs;
+      total.maxMs = Math.max(total.maxMs, timing.maxMs);
+      total.timeouts += timing.timeouts;
+    }
+  }
+  return timings;
+}
+
+/**
+ * Add up the prompts each player's fallback agent answered across game results.
+ */
+export function tallySubstitutions(
+  games: readonly GameSimulationResult[]
+): Record<PlayerId, number> {
+  const substitutions: Record<PlayerId, number> = {};
+  for (const game of games) {
+    for (const [playerId, count] of Object.entries(game.result.substitutions ?? {})) {
+      substitutions[playerId] = (substitutions[playerId] ?? 0) + count;
+    }
+  }
+  return substitutions;
+}
+
+/**
+ * A game of a run: its seed and the rotation of the agent lineup.
+ */
+interface ScheduledGame {
+  seed: number;
+  rotation: number;
+}
+
+/**
+ * How one game of a run turned out.
+ */
+type GameOutcome = { game: GameSimulationResult } | { error: unknown };
+
+/**
+ * Agent that stands in for players unless configured otherwise.
+ */
+const DEFAULT_FALLBACK_AGENT = "SmartRandomAgent";
+
 /**
  * Magic constant for deriving agent seeds from game seed.
  * Used to create unique but deterministic seeds for each player.
@@ -112,6 +344,15 @@ export class Simulator {
       );
     }
 
+    if (
+      config.agentOptions &&
+      config.agentOptions.length !== config.numPlayers
+    ) {
+      throw new Error(
+        `agentOptions length (${config.agentOptions.length}) must equal numPlayers (${config.numPlayers})`
+      );
+    }
+
     // Validate all agent types are registered
     for (const agentType of config.agentTypes) {
       if (!AgentRegistry.has(agentType)) {
@@ -127,6 +368,47 @@ export class Simulator {
         `seeds length (${config.seeds.length}) must equal numGames (${config.numGames})`
       );
     }
+
+    if (
+      config.goalBoardSide !== undefined &&
+      config.goalBoardSide !== "green" &&
+      config.goalBoardSide !== "blue"
+    ) {
+      throw new Error(
+        `goalBoardSide must be "green" or "blue", got "${config.goalBoardSide}"`
+      );
+    }
+
+    if (config.timeBudget) {
+      validateTimeBudget(config.timeBudget);
+    }
+
+    if (
+      config.maxAttempts !== undefined &&
+      (!Number.isInteger(config.maxAttempts) || config.maxAttempts < 1)
+    ) {
+      throw new Error(
+        `maxAttempts must be a positive integer, got ${config.maxAttempts}`
+      );
+    }
+
+    if (
+      config.fallbackAgentType !== undefined &&
+      !AgentRegistry.has(config.fallbackAgentType)
+    ) {
+      throw new Error(
+        `Fallback agent type "${config.fallbackAgentType}" not found. Available: ${AgentRegistry.listNames().join(", ")}`
+      );
+    }
+
+    if (
+      config.workers !== undefined &&
+      (!Number.isInteger(config.workers) || config.workers < 1)
+    ) {
+      throw new Error(
+        `workers must be a positive integer, got ${config.workers}`
+      );
+    }
   }
 
   /**
@@ -172,41 +454,122 @@ export class Simulator {
   }
 
   /**
-   * Create agents for a game.
+   * List the games to play: each seed once, or once per rotation of the
+   * agent lineup with rotateSeats.
+   */
+  private scheduleGames(seeds: number[]): ScheduledGame[] {
+    const rotations = this.config.rotateSeats ? this.config.numPlayers : 1;
+    return seeds.flatMap((seed) =>
+      Array.from({ length: rotations }, (_, rotation) => ({ seed, rotation }))
+    );
+  }
+
+  /**
+   * Index into agentTypes of the agent seated at each player index.
+   */
+  private seatedAgentIndices(rotation: number): number[] {
+    const { numPlayers } = this.config;
+    return Array.from(
+      { length: numPlayers },
+      (_, index) => (index + rotation) % numPlayers
+    );
+  }
+
+  /**
+   * Agent spec per player ID for a rotation of the lineup.
+   */
+  private seatedAgentTypes(rotation: number): Record<PlayerId, string> {
+    return Object.fromEntries(
+      this.seatedAgentIndices(rotation).map((agentIndex, index) => [
+        `player${index + 1}`,
+        formatAgentSpec(
+          this.config.agentTypes[agentIndex],
+          this.config.agentOptions?.[agentIndex]
+        ),
+      ])
+    );
+  }
+
+  /**
+   * Create agents for a game. Agent seeds follow the seat, not the agent,
+   * so rotations of a seed differ only in who sits where.
    */
-  private createAgents(gameSeed: number): PlayerAgent[] {
-    return this.config.agentTypes.map((agentType, index) => {
+  private createAgents(gameSeed: number, rotation: number): PlayerAgent[] {
+    return this.seatedAgentIndices(rotation).map((agentIndex, index) => {
       const playerId = `player${index + 1}` as PlayerId;
       const agentSeed = this.generateAgentSeed(gameSeed, index);
-      return AgentRegistry.create(agentType, playerId, agentSeed);
+      return AgentRegistry.create(
+        this.config.agentTypes[agentIndex],
+        playerId,
+        agentSeed,
+        this.config.agentOptions?.[agentIndex]
+      );
     });
   }
 
   /**
-   * Run a single game simulation.
+   * Run a single game simulation. Simulation workers play their games
+   * through this.
+   * @param rotation - Rotation of the agent lineup (see rotateSeats)
    */
-  private async runSingleGame(seed: number): Promise<GameSimulationResult> {
+  async runSingleGame(
+    seed: number,
+    rotation = 0
+  ): Promise<GameSimulationResult> {
     const startTime = Date.now();
+    const agentTypes = this.seatedAgentTypes(rotation);
 
-    const agents = this.createAgents(seed);
+    const agents = this.createAgents(seed, rotation);
 
     const engine = new GameEngine({
       agents,
       seed,
       registry: this.registry,
+      goalBoardSide: this.config.goalBoardSide,
+      timeBudget: this.config.timeBudget,
+      recordTimings: this.config.recordTimings,
+      onInvalidChoice: this.config.onInvalidChoice,
+      maxAttempts: this.config.maxAttempts,
+      createFallbackAgent: (playerId) =>
+        AgentRegistry.create(
+          this.config.fallbackAgentType ?? DEFAULT_FALLBACK_AGENT,
+          playerId,
+          this.generateAgentSeed(
+            seed,
+            agents.findIndex((agent) => agent.playerId === playerId)
+          ),
+          this.config.fallbackAgentOptions
+        ),
       onHandlerInvoked: this.coverageTracker
         ? (handlerId, type) =>
             this.coverageTracker!.recordInvocation(handlerId, type)
         : undefined,
     });
+    const recorder = this.config.recordGames
+      ? new GameRecorder(seed, {
+          playerIds: Object.keys(agentTypes),
+          agentTypes: Object.values(agentTypes),
+          goalBoardSide: this.config.goalBoardSide,
+          maxAttempts: this.config.maxAttempts,
+          onInvalidChoice: this.config.onInvalidChoice,
+          timeBudget: this.config.timeBudget,
+        })
+      : null;
+    if (recorder) {
+      engine.addObserver(recorder);
+    }
 
     const result = await engine.playGame();
     const durationMs = Date.now() - startTime;
+    recorder?.setResult(result);
 
     return {
       seed,
+      ...(this.config.rotateSeats && { rotation }),
+      agentTypes,
       result,
       durationMs,
+      ...(recorder && { record: recorder.getRecord() }),
     };
   }
 
@@ -216,19 +579,37 @@ export class Simulator {
   async run(): Promise<SimulationSummary> {
     const totalStartTime = Date.now();
     const seeds = this.generateGameSeeds();
+    const scheduled = this.scheduleGames(seeds);
+    const numWorkers = Math.min(this.config.workers ?? 1, scheduled.length);
+    const outcomes =
+      numWorkers > 1
+        ? await this.runInWorkers(scheduled, numWorkers)
+        : await this.runSerially(scheduled);
     const games: GameSimulationResult[] = [];
+    const failures: GameSimulationFailure[] = [];
     let successCount = 0;
     let errorCount = 0;
 
-    for (let i = 0; i < this.config.numGames; i++) {
-      const seed = seeds[i];
-      try {
-        const result = await this.runSingleGame(seed);
-        games.push(result);
+    for (let i = 0; i < outcomes.length; i++) {
+      const outcome = outcomes[i];
+      if ("game" in outcome) {
+        games.push(outcome.game);
         successCount++;
-      } catch (error) {
+      } else {
         // Log error but continue with other games
-        console.error(`Game ${i + 1} (seed: ${seed}) failed:`, error);
+        const { seed, rotation } = scheduled[i];
+        const game = this.config.rotateSeats
+          ? `seed: ${seed}, rotation: ${rotation}`
+          : `seed: ${seed}`;
+        console.error(`Game ${i + 1} (${game}) failed:`, outcome.error);
+        const { error } = outcome;
+        failures.push({
+          index: i,
+          seed,
+          ...(this.config.rotateSeats && { rotation }),
+          agentTypes: this.seatedAgentTypes(rotation),
+          error: error instanceof Error ? error.message : String(error),
+        });
         errorCount++;
       }
     }
@@ -237,12 +618,20 @@ export class Simulator {
 
     const summary: SimulationSummary = {
       games,
+      failures,
       totalDurationMs,
       successCount,
       errorCount,
       seeds,
+      wins: tallyWins(games),
+      agentTypeWins: tallyAgentTypeWins(games),
+      substitutions: tallySubstitutions(games),
     };
 
+    if (this.config.timeBudget || this.config.recordTimings) {
+      summary.timings = tallyTimings(games);
+    }
+
     // Add coverage data if tracking was enabled
     if (this.coverageTracker) {
       summary.coverage = {
@@ -256,6 +645,90 @@ export class Simulator {
     return summary;
   }
 
+  /**
+   * Play every game on this thread, one after another.
+   */
+  private async runSerially(scheduled: ScheduledGame[]): Promise<GameOutcome[]> {
+    const outcomes: GameOutcome[] = [];
+    for (const { seed, rotation } of scheduled) {
+      try {
+        outcomes.push({ game: await this.runSingleGame(seed, rotation) });
+      } catch (error) {
+        outcomes.push({ error });
+      }
+    }
+    return outcomes;
+  }
+
+  /**
+   * Spread the games across worker threads, handing each worker its next
+   * game as soon as it finishes one. Outcomes come back in schedule order,
+   * and the workers' coverage counts are added to this simulator's tracker.
+   * @throws Error if a worker fails outside a game, e.g. loading an agent module
+   */
+  private async runInWorkers(
+    scheduled: ScheduledGame[],
+    numWorkers: number
+  ): Promise<GameOutcome[]> {
+    const outcomes: GameOutcome[] = new Array(scheduled.length);
+    const { script, eval: isEval } = workerScript();
+    const workerData: SimulationWorkerData = { config: this.config };
+    const workers: Worker[] = [];
+    let nextIndex = 0;
+
+    const runWorker = (worker: Worker) =>
+      new Promise<void>((resolve, reject) => {
+        const send = (request: SimulationWorkerRequest) =>
+          worker.postMessage(request);
+        const sendNext = () => {
+          if (nextIndex < scheduled.length) {
+            const index = nextIndex++;
+            send({ type: "play", index, ...scheduled[index] });
+          } else {
+            send({ type: "finish" });
+          }
+        };
+
+        worker.on("message", (response: SimulationWorkerResponse) => {
+          switch (response.type) {
+            case "game":
+              outcomes[response.index] = { game: response.game };
+              sendNext();
+              break;
+            case "error":
+              outcomes[response.index] = { error: response.error };
+              sendNext();
+              break;
+            case "finished":
+              if (response.coverage) {
+                this.coverageTracker?.addInvocationCounts(response.coverage);
+              }
+              resolve();
+              break;
+          }
+        });
+        worker.on("error", reject);
+        worker.on("exit", (code) =>
+          reject(new Error(`Simulation worker exited early with code ${code}`))
+        );
+        sendNext();
+      });
+
+    try {
+      const running: Promise<void>[] = [];
+      for (let i = 0; i < numWorkers; i++) {
+        const worker = new Worker(script, { workerData, eval: isEval });
+        workers.push(worker);
+        running.push(runWorker(worker));
+      }
+      await Promise.all(running);
+    } finally {
+      await Promise.all(workers.map((worker) => worker.terminate()));
+    }
+
+    return outcomes;
+  }
+
   /**
    * Get the coverage tracker (for generating detailed reports).
    * Returns null if coverage tracking is disabled.
@@ -264,3 +737,21 @@ export class Simulator {
     return this.coverageTracker;
   }
 }
+
+/**
+ * Locate the script simulation workers run. When this module is loaded from
+ * its TypeScript source (under tsx or vitest), the worker loads its source
+ * too, through tsx: workers don't pick up module hooks from --import.
+ */
+function workerScript(): { script: string | URL; eval: boolean } {
+  if (import.meta.url.endsWith(".ts")) {
+    const source = new URL("./SimulationWorker.ts", import.meta.url).href;
+    return {
+      script:
+        `import("tsx/esm/api").then(({ register }) => { register(); ` +
+        `return import(${JSON.stringify(source)}); });`,
+      eval: true,
+    };
+  }
+  return { script: new URL("./SimulationWorker.js", import.meta.url), eval: false };
+}
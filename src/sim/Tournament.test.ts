@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Tournament, type TournamentConfig } from "./Tournament.js";
+import { INITIAL_ELO, conservativeRating } from "./Ratings.js";
+import { Simulator, type SimulationSummary } from "./Simulator.js";
+
+// Ensure the agents are registered
+import "../agents/SmartRandomAgent.js";
+import "../agents/HeuristicAgent.js";
+
+function createConfig(overrides: Partial<TournamentConfig> = {}): TournamentConfig {
+  return {
+    entrants: ["SmartRandomAgent", "HeuristicAgent", "HeuristicAgent:eggWeight=2"],
+    playersPerMatch: 2,
+    gamesPerMatch: 1,
+    baseSeed: 42,
+    ...overrides,
+  };
+}
+
+describe("Tournament", () => {
+  describe("constructor", () => {
+    it("rejects match sizes outside 2-5", () => {
+      expect(() => new Tournament(createConfig({ playersPerMatch: 1 }))).toThrow(
+        "playersPerMatch must be between 2 and 5"
+      );
+      expect(() => new Tournament(createConfig({ playersPerMatch: 6 }))).toThrow(
+        "playersPerMatch must be between 2 and 5"
+      );
+    });
+
+    it("rejects fewer than 1 game per match", () => {
+      expect(() => new Tournament(createConfig({ gamesPerMatch: 0 }))).toThrow(
+        "gamesPerMatch must be at least 1"
+      );
+    });
+
+    it("rejects seeds that don't match gamesPerMatch", () => {
+      expect(() => new Tournament(createConfig({ seeds: [1, 2] }))).toThrow(
+        "seeds length (2) must equal gamesPerMatch (1)"
+      );
+    });
+
+    it("rejects fewer entrants than players per match", () => {
+      expect(() => new Tournament(createConfig({ playersPerMatch: 4 }))).toThrow(
+        "A tournament of 4-player matches needs at least 4 entrants, got 3"
+      );
+    });
+
+    it("rejects entrants listed twice, however their options are written", () => {
+      expect(
+        () =>
+          new Tournament(
+            createConfig({
+              entrants: ["HeuristicAgent:eggWeight=2", "HeuristicAgent:eggWeight=2.0"],
+            })
+          )
+      ).toThrow('Entrant "HeuristicAgent:eggWeight=2" is listed more than once');
+      expect(
+        () =>
+          new Tournament(
+            createConfig({
+              entrants: [
+                "HeuristicAgent:eggWeight=2,cardWeight=0",
+                "HeuristicAgent:cardWeight=0,eggWeight=2,pointWeight=1",
+              ],
+            })
+          )
+      ).toThrow('Entrant "HeuristicAgent:eggWeight=2,cardWeight=0" is listed more than once');
+      expect(
+        () => new Tournament(createConfig({ entrants: ["HeuristicAgent", "HeuristicAgent:eggWeight=1"] }))
+      ).toThrow('Entrant "HeuristicAgent" is listed more than once');
+    });
+
+    it("rejects unknown agents", () => {
+      expect(
+        () => new Tournament(createConfig({ entrants: ["SmartRandomAgent", "NoSuchAgent"] }))
+      ).toThrow();
+    });
+  });
+
+  describe("getSchedule", () => {
+    it("lists every combination of entrants once", () => {
+      const tournament = new Tournament(
+        createConfig({
+          entrants: ["SmartRandomAgent", "HeuristicAgent", "HeuristicAgent:eggWeight=2", "HeuristicAgent:eggWeight=3"],
+          playersPerMatch: 3,
+        })
+      );
+      expect(tournament.getSchedule()).toEqual([
+        ["SmartRandomAgent", "HeuristicAgent", "HeuristicAgent:eggWeight=2"],
+        ["SmartRandomAgent", "HeuristicAgent", "HeuristicAgent:eggWeight=3"],
+        ["SmartRandomAgent", "HeuristicAgent:eggWeight=2", "HeuristicAgent:eggWeight=3"],
+        ["HeuristicAgent", "HeuristicAgent:eggWeight=2", "HeuristicAgent:eggWeight=3"],
+      ]);
+    });
+  });
+
+  describe("run", () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("plays every match in every seat rotation and rates each game", async () => {
+      const config = createConfig();
+      const matches: string[][] = [];
+      const result = await new Tournament(config).run((match, totalMatches) => {
+        expect(totalMatches).toBe(3);
+        matches.push(match.entrants);
+      });
+
+      expect(matches).toEqual(new Tournament(config).getSchedule());
+      expect(result.matches).toBe(3);
+      // 3 matches x 1 seed x 2 rotations
+      expect(result.games).toBe(6);
+      expect(result.errorCount).toBe(0);
+
+      expect(result.standings.map((standing) => standing.rank)).toEqual([1, 2, 3]);
+      for (const standing of result.standings) {
+        expect(standing.record?.games).toBe(4);
+        expect(standing.rating.games).toBe(4);
+        expect(standing.record?.winShare).toBeCloseTo(standing.rating.winShare);
+        expect(standing.conservativeRating).toBe(conservativeRating(standing.rating));
+      }
+      const ratings = result.standings.map((standing) => standing.conservativeRating);
+      expect(ratings).toEqual([...ratings].sort((a, b) => b - a));
+      const totalWinShare = result.standings.reduce(
+        (sum, standing) => sum + standing.rating.winShare,
+        0
+      );
+      expect(totalWinShare).toBeCloseTo(6);
+    });
+
+    it("rates each player by seat, whatever order the scores are in", async () => {
+      const summary: SimulationSummary = {
+        games: [
+          {
+            seed: 7,
+            rotation: 1,
+            agentTypes: {},
+            durationMs: 1,
+            result: {
+              winnerIds: ["player1"],
+              scores: { player2: 40, player1: 50 },
+              scoreBreakdowns: {},
+              roundsPlayed: 4,
+              totalTurns: 52,
+            },
+          },
+        ],
+        failures: [],
+        totalDurationMs: 0,
+        successCount: 1,
+        errorCount: 0,
+        seeds: [7],
+        wins: {},
+        agentTypeWins: {},
+        substitutions: {},
+      };
+      vi.spyOn(Simulator.prototype, "run").mockResolvedValue(summary);
+
+      const result = await new Tournament(
+        createConfig({ entrants: ["SmartRandomAgent", "HeuristicAgent"] })
+      ).run();
+
+      // Rotation 1 seats HeuristicAgent as player1
+      const records = Object.fromEntries(
+        result.standings.map((standing) => [standing.agent, standing.record])
+      );
+      expect(records.HeuristicAgent).toMatchObject({ winShare: 1, meanScore: 50 });
+      expect(records.SmartRandomAgent).toMatchObject({ winShare: 0, meanScore: 40 });
+    });
+
+    it("continues from earlier ratings and adds new entrants", async () => {
+      const first = await new Tournament(
+        createConfig({ entrants: ["SmartRandomAgent", "HeuristicAgent"] })
+      ).run();
+      const previous = structuredClone(first.ratings);
+
+      const second = await new Tournament(
+        createConfig({
+          entrants: ["HeuristicAgent", "HeuristicAgent:eggWeight=2"],
+          ratings: first.ratings,
+        })
+      ).run();
+
+      // The ratings passed in are left untouched
+      expect(first.ratings).toEqual(previous);
+      expect(Object.keys(second.ratings.agents).sort()).toEqual([
+        "HeuristicAgent",
+        "HeuristicAgent:eggWeight=2",
+        "SmartRandomAgent",
+      ]);
+      expect(second.ratings.agents.HeuristicAgent.games).toBe(4);
+      expect(second.ratings.agents["HeuristicAgent:eggWeight=2"].games).toBe(2);
+      expect(second.ratings.agents.SmartRandomAgent).toEqual(
+        previous.agents.SmartRandomAgent
+      );
+
+      const absent = second.standings.find(
+        (standing) => standing.agent === "SmartRandomAgent"
+      );
+      expect(absent?.record).toBeNull();
+      expect(absent?.rating.elo).not.toBe(INITIAL_ELO);
+    });
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * Tournament - Round-robin league between agents.
+ *
+ * Every combination of playersPerMatch entrants plays a match: the same set
+ * of seeds, each played once per rotation of the seats (see
+ * SimulatorConfig.rotateSeats) so no entrant gains from its seat or deal.
+ * Entrants are agent specs, so variants of one agent type compete as
+ * separate entrants. After every game the finishing ranks update the Elo and
+ * TrueSkill-style ratings (see Ratings.ts), which can be carried over from
+ * earlier tournaments.
+ */
+
+import {
+  AgentRegistry,
+  parseAgentSpec,
+  type AgentOptions,
+} from "../agents/AgentRegistry.js";
+import {
+  Simulator,
+  type GameSimulationResult,
+  type SimulationSummary,
+} from "./Simulator.js";
+import {
+  conservativeRating,
+  createRatingTable,
+  updateRatings,
+  type AgentRating,
+  type GameRanking,
+  type RatingTable,
+} from "./Ratings.js";
+import {
+  wilsonInterval,
+  type ConfidenceInterval,
+} from "./SimulationAnalysis.js";
+import type { GoalBoardSide, PlayerId } from "../types/core.js";
+
+/**
+ * Configuration for a Tournament.
+ */
+export interface TournamentConfig {
+  /** Agent specs of the entrants, as Type or Type:option=value,... */
+  entrants: string[];
+  /** Players in each match (2-5) */
+  playersPerMatch: number;
+  /** Seeds each match is played on; each is played once per seat rotation */
+  gamesPerMatch: number;
+  /** Optional: explicit seeds. Length must equal gamesPerMatch if provided. */
+  seeds?: number[];
+  /** Optional: base seed the seeds are derived from (default Date.now()) */
+  baseSeed?: number;
+  /** Optional: side of the goal board used for round goals (default "green") */
+  goalBoardSide?: GoalBoardSide;
+  /** Optional: worker threads each match is spread across (see SimulatorConfig.workers) */
+  workers?: number;
+  /** Optional: agent modules the workers load (see SimulatorConfig.agentModules) */
+  agentModules?: string[];
+  /** Optional: ratings to continue from (default: everyone starts fresh) */
+  ratings?: RatingTable;
+}
+
+/**
+ * A match of the tournament once played.
+ */
+export interface TournamentMatch {
+  /** Position of the match in the schedule, starting at 0 */
+  index: number;
+  /** Entrants in their seat order before rotation */
+  entrants: string[];
+  summary: SimulationSummary;
+}
+
+/**
+ * How an entrant did in this tournament.
+ */
+export interface EntrantRecord {
+  /** Games completed */
+  games: number;
+  /** Win credit: 1 per outright win plus 1/n per win shared by n players */
+  winShare: number;
+  /** winShare / games */
+  winRate: number;
+  /** 95% Wilson score interval for winRate */
+  winRateInterval: ConfidenceInterval;
+  meanScore: number;
+}
+
+/**
+ * An agent's place in the league table.
+ */
+export interface TournamentStanding {
+  /** Position in the table, starting at 1 */
+  rank: number;
+  agent: string;
+  /** Ratings after the tournament, including earlier tournaments */
+  rating: AgentRating;
+  /** Conservative skill estimate the table is ordered by (mu - 3 sigma) */
+  conservativeRating: number;
+  /** Results in this tournament (null for rated agents that did not enter) */
+  record: EntrantRecord | null;
+}
+
+/**
+ * Results of a tournament.
+ */
+export interface TournamentResult {
+  matches: number;
+  /** Games completed, over all matches */
+  games: number;
+  /** Games that failed and were left unrated */
+  errorCount: number;
+  /** Every agent in the rating table, best first */
+  standings: TournamentStanding[];
+  /** The updated ratings, to pass to the next tournament */
+  ratings: RatingTable;
+}
+
+interface Entrant {
+  label: string;
+  agentType: string;
+  agentOptions: AgentOptions;
+}
+
+/**
+ * Round-robin tournament between agents, rated with Elo and TrueSkill-style
+ * ratings.
+ */
+export class Tournament {
+  private readonly config: TournamentConfig;
+  private readonly entrants: Entrant[];
+  private readonly baseSeed: number;
+
+  /**
+   * @throws Error if an entrant's spec is invalid or appears twice, there
+   *   are fewer entrants than players per match, or a count is out of range
+   */
+  constructor(config: TournamentConfig) {
+    if (
+      !Number.isInteger(config.playersPerMatch) ||
+      config.playersPerMatch < 2 ||
+      config.playersPerMatch > 5
+    ) {
+      throw new Error("playersPerMatch must be between 2 and 5");
+    }
+    if (!Number.isInteger(config.gamesPerMatch) || config.gamesPerMatch < 1) {
+      throw new Error("gamesPerMatch must be at least 1");
+    }
+    if (config.seeds && config.seeds.length !== config.gamesPerMatch) {
+      throw new Error(
+        `seeds length (${config.seeds.length}) must equal gamesPerMatch (${config.gamesPerMatch})`
+      );
+    }
+
+    this.entrants = config.entrants.map((spec) => {
+      const { name, options } = parseAgentSpec(spec);
+      const agentOptions = AgentRegistry.parseOptions(name, options);
+      return {
+        label: AgentRegistry.formatSpec(name, agentOptions),
+        agentType: name,
+        agentOptions,
+      };
+    });
+    const labels = this.entrants.map((entrant) => entrant.label);
+    const duplicate = labels.find((label, i) => labels.indexOf(label) !== i);
+    if (duplicate) {
+      throw new Error(`Entrant "${duplicate}" is listed more than once`);
+    }
+    if (this.entrants.length < config.playersPerMatch) {
+      throw new Error(
+        `A tournament of ${config.playersPerMatch}-player matches needs at least ` +
+          `${config.playersPerMatch} entrants, got ${this.entrants.length}`
+      );
+    }
+
+    this.config = config;
+    // Every match is played on the same seeds
+    this.baseSeed = config.baseSeed ?? Date.now();
+  }
+
+  /**
+   * Entrants of every match, in the order they are played.
+   */
+  getSchedule(): string[][] {
+    return combinations(this.entrants, this.config.playersPerMatch).map(
+      (match) => match.map((entrant) => entrant.label)
+    );
+  }
+
+  /**
+   * Play every match and rate the games in order.
+   * @param onMatch - Called after each match, e.g. to report progress
+   */
+  async run(
+    onMatch?: (match: TournamentMatch, totalMatches: number) => void
+  ): Promise<TournamentResult> {
+    const ratings = structuredClone(this.config.ratings ?? createRatingTable());
+    const scores = new Map<string, number[]>();
+    const winShares = new Map<string, number>();
+    const schedule = combinations(this.entrants, this.config.playersPerMatch);
+    let games = 0;
+    let errorCount = 0;
+
+    for (const [index, entrants] of schedule.entries()) {
+      const summary = await new Simulator({
+        numGames: this.config.gamesPerMatch,
+        numPlayers: entrants.length,
+        agentTypes: entrants.map((entrant) => entrant.agentType),
+        agentOptions: entrants.map((entrant) => entrant.agentOptions),
+        seeds: this.config.seeds,
+        baseSeed: this.baseSeed,
+        trackCoverage: false,
+        goalBoardSide: this.config.goalBoardSide,
+        rotateSeats: true,
+        workers: this.config.workers,
+        agentModules: this.config.agentModules,
+      }).run();
+
+      for (const game of summary.games) {
+        const rankings = rankGame(game, entrants);
+        updateRatings(ratings, rankings);
+        const winners = rankings.filter(({ rank }) => rank === 1).length;
+        for (const { agent, rank, score } of rankings) {
+          if (!scores.has(agent)) {
+            scores.set(agent, []);
+          }
+          scores.get(agent)!.push(score);
+          const share = rank === 1 ? 1 / winners : 0;
+          winShares.set(agent, (winShares.get(agent) ?? 0) + share);
+        }
+      }
+      games += summary.successCount;
+      errorCount += summary.errorCount;
+      onMatch?.(
+        { index, entrants: entrants.map((entrant) => entrant.label), summary },
+        schedule.length
+      );
+    }
+
+    const standings = Object.entries(ratings.agents)
+      .map(([agent, rating]) => {
+        const agentScores = scores.get(agent);
+        const winShare = winShares.get(agent) ?? 0;
+        const record: EntrantRecord | null = agentScores
+          ? {
+              games: agentScores.length,
+              winShare,
+              winRate: winShare / agentScores.length,
+              winRateInterval: wilsonInterval(winShare, agentScores.length),
+              meanScore:
+                agentScores.reduce((sum, score) => sum + score, 0) /
+                agentScores.length,
+            }
+          : null;
+        return {
+          rank: 0,
+          agent,
+          rating,
+          conservativeRating: conservativeRating(rating),
+          record,
+        };
+      })
+      .sort(
+        (a, b) =>
+          b.conservativeRating - a.conservativeRating ||
+          a.agent.localeCompare(b.agent)
+      )
+      .map((standing, i) => ({ ...standing, rank: i + 1 }));
+
+    return {
+      matches: schedule.length,
+      games,
+      errorCount,
+      standings,
+      ratings,
+    };
+  }
+}
+
+/**
+ * Rank the entrants of a game. Winners share rank 1 (the engine has already
+ * applied the tiebreaker); everyone else is ranked by score.
+ */
+function rankGame(
+  game: GameSimulationResult,
+  entrants: readonly Entrant[]
+): (GameRanking & { score: number })[] {
+  const { scores, winnerIds } = game.result;
+  const seats = Object.entries(scores).map(([playerId, score]) => ({
+    // Rotation r seats entrant (seat + r) % n as player seat + 1
+    agent:
+      entrants[(seatOf(playerId) + (game.rotation ?? 0)) % entrants.length]
+        .label,
+    winner: winnerIds.includes(playerId),
+    score,
+  }));
+  return seats.map((seat) => ({
+    agent: seat.agent,
+    score: seat.score,
+    rank: seat.winner
+      ? 1
+      : 1 +
+        seats.filter((other) => other.winner || other.score > seat.score)
+          .length,
+  }));
+}
+
+/**
+ * Get the seat of a Simulator player: "player<N>" sits in seat N - 1.
+ * @throws Error if the player ID is not of that form
+ */
+function seatOf(playerId: PlayerId): number {
+  const match = /^player(\d+)$/.exec(playerId);
+  if (!match) {
+    throw new Error(`Unexpected player ID "${playerId}"`);
+  }
+  return Number(match[1]) - 1;
+}
+
+/**
+ * Every way to choose k items, in lexicographic order of position.
+ */
+function combinations<T>(items: readonly T[], k: number): T[][] {
+  if (k === 0) {
+    return [[]];
+  }
+  return items.flatMap((item, i) =>
+    combinations(items.slice(i + 1), k - 1).map((rest) => [item, ...rest])
+  );
+}
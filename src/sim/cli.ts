@@ -9,17 +9,57 @@
  * Usage: yarn sim [options]
  */
 
+import { readFileSync, writeFileSync } from "node:fs";
 import { Command } from "commander";
-import { Simulator, type SimulatorConfig } from "./Simulator.js";
-import { AgentRegistry } from "../agents/AgentRegistry.js";
-
-// Ensure SmartRandomAgent is registered
+import {
+  Simulator,
+  type PlayerWinStats,
+  type SimulatorConfig,
+} from "./Simulator.js";
+import type {
+  AgentTimeBudget,
+  AgentTiming,
+  InvalidChoicePolicy,
+  TimeoutPolicy,
+} from "../engine/GameEngine.js";
+import {
+  AgentRegistry,
+  formatAgentSpec,
+  parseAgentSpec,
+  type AgentOptions,
+} from "../agents/AgentRegistry.js";
+import { loadAgentModule } from "../agents/AgentModuleLoader.js";
+import { replayGame } from "../agents/ReplayAgent.js";
+import { DataRegistry } from "../data/DataRegistry.js";
+import { parseGameRecords, serializeGameRecord } from "./GameRecord.js";
+import {
+  analyzeSimulation,
+  gamesToDetect,
+  type SimulationAnalysis,
+} from "./SimulationAnalysis.js";
+import {
+  buildSimulationOutput,
+  formatSimulationOutput,
+  SIMULATION_OUTPUT_FORMATS,
+  type SimulationOutputFormat,
+} from "./SimulationOutput.js";
+import type { GoalBoardSide } from "../types/core.js";
+
+// Ensure the built-in agents are registered
 import "../agents/SmartRandomAgent.js";
+import "../agents/MctsAgent.js";
+import "../agents/HeuristicAgent.js";
+import "../agents/SubprocessAgent.js";
 
 const VERSION = "0.1.0";
 const DEFAULT_NUM_GAMES = 10;
 const DEFAULT_NUM_PLAYERS = 2;
 const DEFAULT_AGENT = "SmartRandomAgent";
+const DEFAULT_GOAL_BOARD: GoalBoardSide = "green";
+const GOAL_BOARD_SIDES: GoalBoardSide[] = ["green", "blue"];
+const TIMEOUT_POLICIES: TimeoutPolicy[] = ["forfeit", "fallback"];
+const INVALID_CHOICE_POLICIES: InvalidChoicePolicy[] = ["forfeit", "fallback"];
+const DEFAULT_EFFECT_SIZE = 0.05;
 
 /**
  * Format milliseconds as human-readable duration.
@@ -45,20 +85,69 @@ function parseSeeds(value: string): number[] {
 }
 
 /**
- * Build agent types array from CLI options.
+ * Build the agents' time budget from --decision-timeout, --game-timeout and
+ * --on-timeout.
+ * @returns The budget, or undefined if neither time limit was given
+ * @throws Error if a time limit is not a positive number or the policy is unknown
+ */
+function buildTimeBudget(
+  options: Record<string, string | undefined>
+): AgentTimeBudget | undefined {
+  const parseLimit = (flag: string, value: string | undefined) => {
+    if (value === undefined) {
+      return undefined;
+    }
+    const ms = Number(value);
+    if (!(ms > 0)) {
+      throw new Error(`${flag} must be a positive number of milliseconds`);
+    }
+    return ms;
+  };
+  const perDecisionMs = parseLimit("--decision-timeout", options.decisionTimeout);
+  const perGameMs = parseLimit("--game-timeout", options.gameTimeout);
+  const onTimeout = options.onTimeout as TimeoutPolicy;
+  if (!TIMEOUT_POLICIES.includes(onTimeout)) {
+    throw new Error(`--on-timeout must be one of: ${TIMEOUT_POLICIES.join(", ")}`);
+  }
+  if (perDecisionMs === undefined && perGameMs === undefined) {
+    return undefined;
+  }
+  return { perDecisionMs, perGameMs, onTimeout };
+}
+
+/**
+ * Collect the values of a repeatable option.
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Build each player's agent type and options from the --playerN specs.
+ * @throws Error if a spec is malformed, names an unknown agent, or sets an
+ *   option the agent doesn't accept
  */
-function buildAgentTypes(
+function buildAgents(
   numPlayers: number,
   options: Record<string, string | undefined>
-): string[] {
+): { agentTypes: string[]; agentOptions: AgentOptions[] } {
   const agentTypes: string[] = [];
+  const agentOptions: AgentOptions[] = [];
 
   for (let i = 1; i <= numPlayers; i++) {
     const playerOption = options[`player${i}`] as string | undefined;
-    agentTypes.push(playerOption ?? DEFAULT_AGENT);
+    const spec = parseAgentSpec(playerOption ?? DEFAULT_AGENT);
+    if (!AgentRegistry.has(spec.name)) {
+      throw new Error(
+        `Agent type "${spec.name}" for player ${i} not found. ` +
+          `Available: ${AgentRegistry.listNames().join(", ")}`
+      );
+    }
+    agentTypes.push(spec.name);
+    agentOptions.push(AgentRegistry.parseOptions(spec.name, spec.options));
   }
 
-  return agentTypes;
+  return { agentTypes, agentOptions };
 }
 
 /**
@@ -68,8 +157,13 @@ function printConfig(
   numGames: number,
   numPlayers: number,
   agentTypes: string[],
+  agentOptions: AgentOptions[],
   baseSeed: number | undefined,
-  explicitSeeds: number[] | undefined
+  explicitSeeds: number[] | undefined,
+  goalBoardSide: GoalBoardSide,
+  timeBudget: AgentTimeBudget | undefined,
+  workers: number,
+  rotateSeats: boolean
 ): void {
   console.log("");
   console.log(`Wingspan Simulator v${VERSION}`);
@@ -78,7 +172,22 @@ function printConfig(
   console.log("Configuration:");
   console.log(`  Games: ${numGames}`);
   console.log(`  Players: ${numPlayers}`);
-  console.log(`  Agents: ${agentTypes.join(", ")}`);
+  const agents = agentTypes.map((type, i) => formatAgentSpec(type, agentOptions[i]));
+  console.log(`  Agents: ${agents.join(", ")}`);
+  console.log(`  Goal board: ${goalBoardSide}`);
+  if (rotateSeats) {
+    console.log(`  Seats: rotated (${numGames * numPlayers} games)`);
+  }
+  if (timeBudget) {
+    const limits = [
+      timeBudget.perDecisionMs !== undefined && `${timeBudget.perDecisionMs}ms per decision`,
+      timeBudget.perGameMs !== undefined && `${timeBudget.perGameMs}ms per game`,
+    ].filter(Boolean);
+    console.log(`  Time budget: ${limits.join(", ")} (on timeout: ${timeBudget.onTimeout})`);
+  }
+  if (workers > 1) {
+    console.log(`  Workers: ${workers}`);
+  }
 
   if (explicitSeeds) {
     console.log(`  Seeds: ${explicitSeeds.join(", ")} (explicit)`);
@@ -98,7 +207,8 @@ function printGameResult(
   gameIndex: number,
   totalGames: number,
   seed: number,
-  winnerId: string,
+  rotation: number | undefined,
+  winnerIds: string[],
   scores: Map<string, number>,
   durationMs: number
 ): void {
@@ -107,20 +217,111 @@ function printGameResult(
     .map(([_player, score]) => `${score}`)
     .join("-");
 
+  const outcome =
+    winnerIds.length === 1
+      ? `${winnerIds[0]} wins`
+      : `${winnerIds.join(" & ")} share the win`;
+
+  const game =
+    rotation === undefined ? `seed: ${seed}` : `seed: ${seed}, rotation: ${rotation}`;
   console.log(
-    `  Game ${gameIndex}/${totalGames} [seed: ${seed}] ${winnerId} wins (${scoreStrings}) in ${formatDuration(durationMs)}`
+    `  Game ${gameIndex}/${totalGames} [${game}] ${outcome} (${scoreStrings}) in ${formatDuration(durationMs)}`
   );
 }
 
 /**
- * Print simulation summary.
+ * Format a proportion as a percentage.
+ */
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Format a p-value, without rounding small ones to zero.
+ */
+function formatPValue(pValue: number): string {
+  return pValue < 0.0001 ? "p < 0.0001" : `p = ${pValue.toFixed(4)}`;
+}
+
+/**
+ * Print win rates and score statistics per agent type, head-to-head
+ * comparisons, and the games needed to detect a win rate difference of
+ * effectSize.
+ */
+function printAnalysis(
+  analysis: SimulationAnalysis,
+  effectSize: number,
+  gamesNeeded: number
+): void {
+  const confidence = `${Math.round(analysis.confidenceLevel * 100)}%`;
+  console.log(`  Agents (win rate with ${confidence} confidence interval):`);
+  for (const agent of analysis.agents) {
+    const { lower, upper } = agent.winRateInterval;
+    const { mean, median, stdDev } = agent.scores;
+    const margin =
+      agent.meanMargin >= 0
+        ? `+${agent.meanMargin.toFixed(1)}`
+        : agent.meanMargin.toFixed(1);
+    console.log(
+      `    ${agent.agentType}: ${formatPercent(agent.winRate)} ` +
+        `[${formatPercent(lower)}, ${formatPercent(upper)}] over ${agent.seats} seat(s); ` +
+        `score ${mean.toFixed(1)} mean, ${median} median, ${stdDev.toFixed(1)} sd; ` +
+        `margin ${margin}`
+    );
+  }
+
+  if (analysis.comparisons.length > 0) {
+    console.log("  Head to head (sign test):");
+    for (const comparison of analysis.comparisons) {
+      const [first, second] = comparison.agentTypes;
+      const verdict = comparison.significant ? "significant" : "not significant";
+      console.log(
+        `    ${first} vs ${second}: ${comparison.firstAhead}-${comparison.secondAhead} ` +
+          `(${comparison.ties} tied) over ${comparison.games} game(s), ` +
+          `${comparison.meanScoreDifference.toFixed(1)} points apart on average, ` +
+          `${formatPValue(comparison.pValue)} (${verdict})`
+      );
+    }
+  }
+
+  console.log(
+    `  Seats per agent to detect a ${formatPercent(effectSize)} win rate difference: ${gamesNeeded}`
+  );
+}
+
+/**
+ * Format win tallies, crediting shared wins fractionally so the distribution
+ * sums to the number of games rather than favoring whichever seat is listed
+ * first.
+ */
+function formatWinDistribution(wins: Record<string, PlayerWinStats>): string {
+  return Object.entries(wins)
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([player, stats]) => {
+      const share = Number.isInteger(stats.winShare)
+        ? `${stats.winShare}`
+        : stats.winShare.toFixed(2);
+      return stats.sharedWins > 0
+        ? `${player}: ${share} (${stats.sharedWins} shared)`
+        : `${player}: ${share}`;
+    })
+    .join(", ");
+}
+
+/**
+ * Print simulation summary. With rotated seats, wins are shown per agent
+ * type, then per seat.
  */
 function printSummary(
   totalDurationMs: number,
   successCount: number,
   totalGames: number,
-  winCounts: Map<string, number>,
-  seeds: number[]
+  wins: Record<string, PlayerWinStats>,
+  agentTypeWins: Record<string, PlayerWinStats> | null,
+  seeds: number[],
+  timings: Record<string, AgentTiming> | undefined,
+  substitutions: Record<string, number>,
+  analysis: { analysis: SimulationAnalysis; effectSize: number; gamesNeeded: number } | null
 ): void {
   console.log("");
   console.log("Summary");
@@ -128,11 +329,34 @@ function printSummary(
   console.log(`  Total time: ${formatDuration(totalDurationMs)}`);
   console.log(`  Successful: ${successCount}/${totalGames}`);
 
-  const winDistribution = Array.from(winCounts.entries())
-    .sort((a, b) => a[0].localeCompare(b[0]))
-    .map(([player, wins]) => `${player}: ${wins}`)
+  if (agentTypeWins) {
+    console.log(`  Win distribution: ${formatWinDistribution(agentTypeWins)}`);
+    console.log(`  Seat win distribution: ${formatWinDistribution(wins)}`);
+  } else {
+    console.log(`  Win distribution: ${formatWinDistribution(wins)}`);
+  }
+
+  if (analysis) {
+    printAnalysis(analysis.analysis, analysis.effectSize, analysis.gamesNeeded);
+  }
+
+  const substituted = Object.entries(substitutions)
+    .map(([player, count]) => `${player}: ${count}`)
     .join(", ");
-  console.log(`  Win distribution: ${winDistribution}`);
+  if (substituted) {
+    console.log(`  Fallback agent answered for: ${substituted}`);
+  }
+
+  if (timings) {
+    console.log("  Agent time:");
+    for (const [player, timing] of Object.entries(timings)) {
+      const mean = timing.decisions > 0 ? timing.totalMs / timing.decisions : 0;
+      console.log(
+        `    ${player}: ${mean.toFixed(1)}ms mean, ${timing.maxMs.toFixed(1)}ms max ` +
+          `over ${timing.decisions} decisions, ${timing.timeouts} timeout(s)`
+      );
+    }
+  }
 
   console.log("");
   console.log("Seeds used (for replay):");
@@ -154,12 +378,51 @@ function listAgents(): void {
     for (const agent of agents) {
       console.log(`  ${agent.name}`);
       console.log(`    ${agent.description}`);
+      if (agent.options.length > 0) {
+        console.log("    Options:");
+        for (const option of agent.options) {
+          console.log(
+            `      ${option.name} (${option.type}, default ${option.default}): ${option.description}`
+          );
+        }
+      }
     }
   }
 
   console.log("");
 }
 
+/**
+ * Replay every game record in a JSON lines file, stopping at the first
+ * divergence.
+ * @returns true if every game replayed exactly
+ */
+async function replayRecords(path: string): Promise<boolean> {
+  const records = parseGameRecords(readFileSync(path, "utf8"));
+  const registry = new DataRegistry();
+
+  console.log("");
+  console.log(`Replaying ${records.length} game(s) from ${path}...`);
+
+  for (let i = 0; i < records.length; i++) {
+    const { header } = records[i];
+    try {
+      const result = await replayGame(records[i], registry);
+      const scores = Object.values(result.scores).join("-");
+      console.log(
+        `  Game ${i + 1}/${records.length} [seed: ${header.seed}] replayed exactly (${scores})`
+      );
+    } catch (error) {
+      console.error(
+        `  Game ${i + 1}/${records.length} [seed: ${header.seed}] ${(error as Error).message}`
+      );
+      return false;
+    }
+  }
+
+  return true;
+}
+
 /**
  * Main CLI entry point.
  */
@@ -175,27 +438,85 @@ async function main(): Promise<void> {
     .option("-s, --seed <seed>", "Base seed for reproducibility")
     .option("--seeds <seeds>", "Explicit seeds for each game (comma-separated)")
     .option("--coverage", "Generate handler coverage report", false)
-    .option("--player1 <type>", "Agent type for player 1")
-    .option("--player2 <type>", "Agent type for player 2")
-    .option("--player3 <type>", "Agent type for player 3")
-    .option("--player4 <type>", "Agent type for player 4")
-    .option("--player5 <type>", "Agent type for player 5")
-    .option("--list-agents", "List available agent types", false);
+    .option("--goal-board <side>", "Goal board side for round goals (green|blue)", DEFAULT_GOAL_BOARD)
+    .option("--player1 <spec>", "Agent for player 1, as Type or Type:option=value,...")
+    .option("--player2 <spec>", "Agent for player 2, as Type or Type:option=value,...")
+    .option("--player3 <spec>", "Agent for player 3, as Type or Type:option=value,...")
+    .option("--player4 <spec>", "Agent for player 4, as Type or Type:option=value,...")
+    .option("--player5 <spec>", "Agent for player 5, as Type or Type:option=value,...")
+    .option(
+      "--agent-module <path>",
+      "Register the agents exported by an ES module (repeatable)",
+      collect,
+      []
+    )
+    .option("--decision-timeout <ms>", "Time limit for each agent decision, in milliseconds")
+    .option("--game-timeout <ms>", "Time limit for each agent's decisions over a game, in milliseconds")
+    .option(
+      "--on-timeout <policy>",
+      "When an agent runs out of time: forfeit, or let the fallback agent decide (forfeit|fallback)",
+      "forfeit"
+    )
+    .option(
+      "--on-invalid <policy>",
+      "When an agent keeps making invalid choices: forfeit, or let the fallback agent decide (forfeit|fallback)",
+      "forfeit"
+    )
+    .option("--max-attempts <n>", "Invalid choices allowed on one prompt", "3")
+    .option(
+      "--fallback-agent <spec>",
+      "Agent that stands in for players, as Type or Type:option=value,...",
+      DEFAULT_AGENT
+    )
+    .option("--timings", "Report how long each agent takes to decide", false)
+    .option(
+      "--rotate-seats",
+      "Play each seed once per rotation of the players' agents, so every agent plays every seat",
+      false
+    )
+    .option(
+      "--effect-size <d>",
+      "Win rate difference to size runs for in the summary, e.g. 0.05",
+      String(DEFAULT_EFFECT_SIZE)
+    )
+    .option("--workers <n>", "Worker threads to spread the games across", "1")
+    .option("--list-agents", "List available agent types", false)
+    .option("--output <file>", "Write per-game results and the summary to a file")
+    .option("--format <format>", "Format of the --output file (json|jsonl|csv)", "json")
+    .option("--record <file>", "Write a replayable game record (JSON lines) for every game")
+    .option("--replay <file>", "Replay game records from a file and check they reproduce exactly");
 
   program.parse(process.argv);
   const options = program.opts();
 
+  // Register agents from --agent-module before anything looks them up
+  for (const path of options.agentModule as string[]) {
+    try {
+      await loadAgentModule(path);
+    } catch (error) {
+      console.error(`Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  }
+
   // Handle --list-agents
   if (options.listAgents) {
     listAgents();
     process.exit(0);
   }
 
+  // Handle --replay
+  if (options.replay) {
+    const ok = await replayRecords(options.replay);
+    process.exit(ok ? 0 : 1);
+  }
+
   // Parse options
   const numPlayers = parseInt(options.players, 10);
   const baseSeed = options.seed ? parseInt(options.seed, 10) : undefined;
   const explicitSeeds = options.seeds ? parseSeeds(options.seeds) : undefined;
   const trackCoverage = options.coverage;
+  const goalBoardSide = options.goalBoard as GoalBoardSide;
 
   // Determine number of games - if explicit seeds provided, use their count
   const numGames = explicitSeeds
@@ -218,31 +539,98 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
-  // Build agent types for each player
-  const agentTypes = buildAgentTypes(numPlayers, options);
+  if (!GOAL_BOARD_SIDES.includes(goalBoardSide)) {
+    console.error(`Error: --goal-board must be one of: ${GOAL_BOARD_SIDES.join(", ")}`);
+    process.exit(1);
+  }
 
-  // Validate agent types
-  for (let i = 0; i < agentTypes.length; i++) {
-    if (!AgentRegistry.has(agentTypes[i])) {
-      console.error(
-        `Error: Agent type "${agentTypes[i]}" for player ${i + 1} not found. ` +
-          `Available: ${AgentRegistry.listNames().join(", ")}`
-      );
-      process.exit(1);
-    }
+  // Build agent types and options for each player
+  let agents: ReturnType<typeof buildAgents>;
+  try {
+    agents = buildAgents(numPlayers, options);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+  const { agentTypes, agentOptions } = agents;
+
+  let timeBudget: AgentTimeBudget | undefined;
+  let fallbackAgentType: string;
+  let fallbackAgentOptions: AgentOptions;
+  try {
+    timeBudget = buildTimeBudget(options);
+    const spec = parseAgentSpec(options.fallbackAgent);
+    fallbackAgentType = spec.name;
+    fallbackAgentOptions = AgentRegistry.parseOptions(spec.name, spec.options);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const onInvalidChoice = options.onInvalid as InvalidChoicePolicy;
+  if (!INVALID_CHOICE_POLICIES.includes(onInvalidChoice)) {
+    console.error(`Error: --on-invalid must be one of: ${INVALID_CHOICE_POLICIES.join(", ")}`);
+    process.exit(1);
+  }
+
+  const maxAttempts = parseInt(options.maxAttempts, 10);
+  if (isNaN(maxAttempts) || maxAttempts < 1) {
+    console.error("Error: --max-attempts must be a positive integer");
+    process.exit(1);
+  }
+
+  const workers = parseInt(options.workers, 10);
+  if (isNaN(workers) || workers < 1) {
+    console.error("Error: --workers must be a positive integer");
+    process.exit(1);
+  }
+
+  const effectSize = Number(options.effectSize);
+  if (!(effectSize > 0 && 1 / numPlayers + effectSize < 1)) {
+    console.error("Error: --effect-size must be a positive win rate difference");
+    process.exit(1);
+  }
+
+  const outputFormat = options.format as SimulationOutputFormat;
+  if (!SIMULATION_OUTPUT_FORMATS.includes(outputFormat)) {
+    console.error(`Error: --format must be one of: ${SIMULATION_OUTPUT_FORMATS.join(", ")}`);
+    process.exit(1);
   }
 
   // Print configuration
-  printConfig(numGames, numPlayers, agentTypes, baseSeed, explicitSeeds);
+  printConfig(
+    numGames,
+    numPlayers,
+    agentTypes,
+    agentOptions,
+    baseSeed,
+    explicitSeeds,
+    goalBoardSide,
+    timeBudget,
+    workers,
+    options.rotateSeats
+  );
 
   // Build simulator config
   const config: SimulatorConfig = {
     numGames,
     numPlayers,
     agentTypes,
+    agentOptions,
     baseSeed,
     seeds: explicitSeeds,
     trackCoverage,
+    goalBoardSide,
+    recordGames: options.record !== undefined,
+    timeBudget,
+    recordTimings: options.timings,
+    onInvalidChoice,
+    maxAttempts,
+    fallbackAgentType,
+    fallbackAgentOptions,
+    workers,
+    rotateSeats: options.rotateSeats,
+    agentModules: options.agentModule,
   };
 
   // Create and run simulator
@@ -251,16 +639,11 @@ async function main(): Promise<void> {
   console.log("Running simulations...");
 
   const summary = await simulator.run();
+  const totalGames = options.rotateSeats ? numGames * numPlayers : numGames;
 
   // Print per-game results
-  const winCounts = new Map<string, number>();
-
   for (let i = 0; i < summary.games.length; i++) {
     const game = summary.games[i];
-    const winnerId = game.result.winnerId;
-
-    // Track wins
-    winCounts.set(winnerId, (winCounts.get(winnerId) ?? 0) + 1);
 
     // Convert scores to Map for display
     const scoresMap = new Map<string, number>(
@@ -269,9 +652,10 @@ async function main(): Promise<void> {
 
     printGameResult(
       i + 1,
-      numGames,
+      totalGames,
       game.seed,
-      winnerId,
+      game.rotation,
+      game.result.winnerIds,
       scoresMap,
       game.durationMs
     );
@@ -281,11 +665,43 @@ async function main(): Promise<void> {
   printSummary(
     summary.totalDurationMs,
     summary.successCount,
-    numGames,
-    winCounts,
-    summary.seeds
+    totalGames,
+    summary.wins,
+    options.rotateSeats ? summary.agentTypeWins : null,
+    summary.seeds,
+    summary.timings,
+    summary.substitutions,
+    summary.successCount > 0
+      ? {
+          analysis: analyzeSimulation(summary),
+          effectSize,
+          gamesNeeded: gamesToDetect(effectSize, { baseline: 1 / numPlayers }),
+        }
+      : null
   );
 
+  // Write game records if enabled
+  if (options.record) {
+    const records = summary.games
+      .map((game) => (game.record ? serializeGameRecord(game.record) : ""))
+      .join("");
+    writeFileSync(options.record, records);
+    console.log("");
+    console.log(`Game records written to ${options.record}`);
+  }
+
+  // Write machine-readable results if requested
+  if (options.output) {
+    const output = buildSimulationOutput(
+      config,
+      summary,
+      simulator.getCoverageTracker()
+    );
+    writeFileSync(options.output, formatSimulationOutput(output, outputFormat));
+    console.log("");
+    console.log(`Results written to ${options.output} (${outputFormat})`);
+  }
+
   // Print coverage report if enabled
   if (trackCoverage) {
     const tracker = simulator.getCoverageTracker();
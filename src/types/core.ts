@@ -90,6 +90,76 @@ export interface RoundGoal {
   description: string;
 }
 
+/**
+ * Which side of the goal board is in use.
+ * - green: players are ranked against each other and score by placement
+ * - blue: each player scores 1 point per matching item, up to 5
+ */
+export type GoalBoardSide = "green" | "blue";
+
+/** Placement labels used by the green side of the goal board */
+export type RoundGoalPlacement = "1st" | "2nd" | "3rd" | "4th";
+
+/**
+ * Points awarded per placement for a single round (green side of the goal board).
+ * Loaded from round_goal_scoring.json.
+ */
+export interface RoundGoalScoring {
+  round: number;
+  scoring: Record<RoundGoalPlacement, number>;
+}
+
+/**
+ * Outcome of scoring one end-of-round goal.
+ */
+export interface RoundGoalResult {
+  round: number;
+  goalId: RoundGoalId;
+  /** How many matching items each scored player had */
+  counts: Record<PlayerId, number>;
+  /** Points awarded to each scored player */
+  points: Record<PlayerId, number>;
+}
+
+/**
+ * A single bonus card's contribution to a player's final score.
+ */
+export interface BonusCardScore {
+  bonusCardId: BonusCardId;
+  points: number;
+}
+
+/**
+ * A player's final score split into the categories of the official score pad.
+ */
+export interface ScoreBreakdown {
+  /** Printed victory points of every bird played */
+  birdVictoryPoints: number;
+  /** Each bonus card's points, in the order the player holds them */
+  bonusCards: BonusCardScore[];
+  /** Points from end-of-round goals */
+  roundGoals: number;
+  /** 1 point per egg on a bird */
+  eggs: number;
+  /** 1 point per food token cached on a bird */
+  cachedFood: number;
+  /** 1 point per card tucked behind a bird */
+  tuckedCards: number;
+  /** Sum of all categories */
+  total: number;
+}
+
+/**
+ * How a tie for the highest final score was broken.
+ * Ties are broken by most unused food tokens; players still tied share the win.
+ */
+export interface GameTiebreak {
+  /** Players who were tied for the highest score */
+  tiedPlayerIds: PlayerId[];
+  /** Unused food tokens in each tied player's supply */
+  unusedFood: Record<PlayerId, number>;
+}
+
 /**
  * A bird instance on a player's board.
  * Tracks the bird's runtime state including cached food, tucked cards, and eggs.
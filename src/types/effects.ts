@@ -55,7 +55,11 @@ export type Effect =
 
   // Bird Tray Effects
   | RemoveCardsFromTrayEffect
-  | RefillBirdTrayEffect;
+  | RefillBirdTrayEffect
+  | ClearBirdTrayEffect
+
+  // Round Lifecycle Effects
+  | RotateFirstPlayerEffect;
 
 interface EffectBase {
   effectId?: string;
@@ -213,6 +217,16 @@ export interface RemoveCardsFromTrayEffect extends EffectBase {
 }
 export interface RefillBirdTrayEffect extends EffectBase {
   type: "REFILL_BIRD_TRAY";
-  discardedCards: BirdInstanceId[];
-  newCards: BirdInstanceId[];
+  discardedCards: BirdCardId[];
+  newCards: BirdCardId[];
+}
+
+export interface ClearBirdTrayEffect extends EffectBase {
+  type: "CLEAR_BIRD_TRAY";
+  discardedCards?: BirdCardId[];
+}
+
+export interface RotateFirstPlayerEffect extends EffectBase {
+  type: "ROTATE_FIRST_PLAYER";
+  newFirstPlayerId?: PlayerId;
 }
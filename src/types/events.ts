@@ -21,6 +21,9 @@ import type {
   FoodType,
   FoodByType,
   DieFace,
+  GameTiebreak,
+  RoundGoalId,
+  ScoreBreakdown,
 } from "./core.ts";
 
 /**
@@ -36,10 +39,12 @@ export type Event = LifecycleEvent | ActionEvent | PinkPowerTriggerEvent;
 export type LifecycleEvent =
   | GameStartedEvent
   | RoundStartedEvent
+  | RoundGoalScoredEvent
   | RoundEndedEvent
   | TurnStartedEvent
   | TurnEndedEvent
   | PlayerForfeitedEvent
+  | AgentSubstitutedEvent
   | GameEndedEvent;
 
 /**
@@ -89,6 +94,19 @@ export interface RoundStartedEvent extends EventBase {
   round: number; // 1-4
 }
 
+/**
+ * Emitted when the end-of-round goal for a round has been scored.
+ */
+export interface RoundGoalScoredEvent extends EventBase {
+  type: "ROUND_GOAL_SCORED";
+  round: number; // 1-4
+  goalId: RoundGoalId;
+  /** How many matching items each scored player had */
+  counts: Record<PlayerId, number>;
+  /** Points awarded to each scored player */
+  points: Record<PlayerId, number>;
+}
+
 /**
  * Emitted at the end of each round (after end-of-round goal scoring).
  */
@@ -121,7 +139,12 @@ export interface TurnEndedEvent extends EventBase {
 export interface GameEndedEvent extends EventBase {
   type: "GAME_ENDED";
   finalScores: Record<PlayerId, number>;
-  winnerId: PlayerId;
+  /** Itemised score sheet for each player; totals match finalScores */
+  scoreBreakdowns: Record<PlayerId, ScoreBreakdown>;
+  /** Every player sharing the victory (more than one only if still tied after the tiebreaker) */
+  winnerIds: PlayerId[];
+  /** Present only when players were tied for the highest score */
+  tiebreak?: GameTiebreak;
 }
 
 /**
@@ -139,6 +162,29 @@ export interface PlayerForfeitedEvent extends EventBase {
   remainingPlayerCount: number;
 }
 
+/**
+ * Why a player's fallback agent answered a prompt in place of their own.
+ * - "invalidChoices": the agent made too many invalid choices on the prompt
+ * - "timeout": the agent ran out of time (see AgentTimeBudget)
+ */
+export type SubstitutionReason = "invalidChoices" | "timeout";
+
+/**
+ * Emitted when a player's fallback agent is about to answer a prompt in
+ * place of their own agent. The game continues as if the player's agent had
+ * made the fallback agent's choice.
+ */
+export interface AgentSubstitutedEvent extends EventBase {
+  type: "AGENT_SUBSTITUTED";
+  /** The player whose agent was stood in for */
+  playerId: PlayerId;
+  /** The prompt the fallback agent answers */
+  promptId: string;
+  reason: SubstitutionReason;
+  /** What went wrong (the last validation error, or the time limit missed) */
+  message: string;
+}
+
 /**
  * Emitted when a player activates a habitat row.
  * This is the primary trigger for brown "when activated" powers.
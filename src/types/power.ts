@@ -90,6 +90,22 @@ export function isPromptRequest(y: PowerYield): y is PromptRequest {
 export interface DeferredContinuation {
   type: "DEFER_TO_END_OF_TURN";
   continuation: () => Generator<PowerYield, void, PowerReceive>;
+  /** Serializable form of the continuation, used to restore saved games */
+  descriptor?: DeferredContinuationDescriptor;
+}
+
+/**
+ * Serializable description of a deferred continuation.
+ * Identifies a registered DeferredContinuationHandler and the bird whose power
+ * scheduled it, so the continuation can be rebuilt after a save/load.
+ */
+export interface DeferredContinuationDescriptor {
+  /** Key of the handler in the deferred continuation registry */
+  handlerId: string;
+  /** The bird whose power scheduled the continuation */
+  birdInstanceId: BirdInstanceId;
+  /** Handler-specific parameters (must be JSON-serializable) */
+  params: Record<string, unknown>;
 }
 
 /**
@@ -210,6 +226,24 @@ export type PowerHandler = (
  */
 export type PowerHandlerRegistry = Map<string, PowerHandler>;
 
+/**
+ * Handler for a deferred continuation. Receives the same PowerContext as the
+ * power that scheduled it, plus the params recorded in its descriptor.
+ */
+export type DeferredContinuationHandler = (
+  ctx: PowerContext,
+  params: Record<string, unknown>
+) => Generator<PowerYield, void, PowerReceive>;
+
+/**
+ * Registry of deferred continuation handlers by their ID.
+ * Maps DeferredContinuationDescriptor.handlerId to the handler function.
+ */
+export type DeferredContinuationHandlerRegistry = Map<
+  string,
+  DeferredContinuationHandler
+>;
+
 // ============================================================================
 // Power Activation Result - What executeSinglePower returns
 // ============================================================================
@@ -284,7 +318,8 @@ export interface ActionExecutionContext {
    */
   deferContinuation(
     playerId: PlayerId,
-    continuation: () => Generator<PowerYield, void, PowerReceive>
+    continuation: () => Generator<PowerYield, void, PowerReceive>,
+    descriptor?: DeferredContinuationDescriptor
   ): void;
 
   /**
@@ -17,6 +17,7 @@ import type {
   BirdInstance,
   FoodByType,
   FoodByDice,
+  RoundGoalId,
   DieSelection,
   DieFace,
   EggsByBird,
@@ -46,6 +47,8 @@ export interface PlayerView {
   birdfeeder: DieFace[];
   birdTray: BirdCard[];
   deckSize: number;
+  /** End-of-round goals in round order (the goal for round N is at index N - 1) */
+  roundGoals: RoundGoalId[];
 
   // Opponent boards (visible, but not their hands)
   opponents: Array<{
@@ -313,10 +316,23 @@ export interface RepeatPowerChoice extends DecisionChoiceBase {
 
 export interface PlayBirdPrompt extends DecisionPromptBase {
   kind: "playBird";
+  // includes birds that can only be afforded using 2-for-1 food exchanges
   eligibleBirds: BirdCard[];
   // will only include eligible habitats
   // (e.g. if a habitat is full, it won't be included here)
   eggCostByEligibleHabitat: EggCostByHabitat;
+  // minimum number of food exchanges needed for each eligible bird that
+  // can't be paid for directly (birds payable directly are omitted)
+  foodExchangesRequired?: Partial<Record<BirdCardId, number>>;
+}
+
+// 2-for-1 exchange made while paying for a bird: 2 food tokens from the
+// player's supply are paid as 1 food of a needed type
+export interface FoodExchange {
+  // exactly 2 food tokens from the player's supply
+  give: FoodByType;
+  // food type paid toward the bird's cost (cannot be WILD)
+  receive: FoodType;
 }
 
 export interface PlayBirdChoice extends DecisionChoiceBase {
@@ -324,8 +340,11 @@ export interface PlayBirdChoice extends DecisionChoiceBase {
   bird: BirdCardId;
   // must be one of the chosen bird's eligible habitats
   habitat: Habitat;
+  // food paid directly toward the cost; together with foodExchanges,
   // must match food cost for chosen bird
   foodToSpend: FoodByType;
+  // optional 2-for-1 exchanges used to pay for food the player lacks
+  foodExchanges?: FoodExchange[];
   // must match egg cost for the chosen habitat from eggCostByEligibleHabitat in PlayBirdPrompt
   eggsToSpend: EggsByBird;
 }
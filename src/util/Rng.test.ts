@@ -249,4 +249,44 @@ describe("Rng", () => {
       expect(rng.shuffle([1, 2, 3])).toHaveLength(3);
     });
   });
+
+  describe("clone()", () => {
+    it("continues the same sequence independently of the original", () => {
+      const rng = new Rng(77);
+      rng.shuffle([1, 2, 3]);
+      const copy = rng.clone();
+      const items = [1, 2, 3, 4, 5, 6, 7, 8];
+
+      const fromCopy = copy.shuffle(items);
+      expect(rng.shuffle(items)).toEqual(fromCopy);
+      // Advancing the copy further leaves the original's position alone
+      copy.shuffle(items);
+      expect(rng.getState()).not.toEqual(copy.getState());
+    });
+  });
+
+  describe("getState() / fromState()", () => {
+    it("restored rng continues the same sequence", () => {
+      const rng = new Rng(4242);
+      rng.shuffle([1, 2, 3, 4, 5]);
+
+      const restored = Rng.fromState(rng.getState());
+
+      expect(restored.seed).toBe(4242);
+      expect(restored.pickManyWithReplacement([1, 2, 3, 4, 5, 6], 10)).toEqual(
+        rng.pickManyWithReplacement([1, 2, 3, 4, 5, 6], 10)
+      );
+    });
+
+    it("state survives a JSON round trip", () => {
+      const rng = new Rng(7);
+      rng.pickMany(["a", "b", "c"], 2);
+
+      const restored = Rng.fromState(JSON.parse(JSON.stringify(rng.getState())));
+
+      expect(restored.shuffle(["a", "b", "c", "d"])).toEqual(
+        rng.shuffle(["a", "b", "c", "d"])
+      );
+    });
+  });
 });
@@ -1,5 +1,14 @@
 import prand, { RandomGenerator } from "pure-rand";
 
+/**
+ * Serializable snapshot of an Rng: the original seed plus the generator's
+ * internal state, so a restored Rng continues the exact same sequence.
+ */
+export interface RngState {
+  seed: number;
+  generator: number[];
+}
+
 export class Rng {
   public readonly seed: number;
   private gen: RandomGenerator;
@@ -9,6 +18,36 @@ export class Rng {
     this.gen = prand.xoroshiro128plus(this.seed);
   }
 
+  /**
+   * Restore an Rng from a snapshot taken with getState().
+   */
+  static fromState(state: RngState): Rng {
+    const rng = new Rng(state.seed);
+    rng.gen = prand.xoroshiro128plus.fromState(state.generator);
+    return rng;
+  }
+
+  /**
+   * Snapshot the generator's current position in its sequence.
+   */
+  getState(): RngState {
+    const generator = this.gen.getState?.();
+    if (!generator) {
+      throw new Error("Random generator does not support state snapshots");
+    }
+    return { seed: this.seed, generator: [...generator] };
+  }
+
+  /**
+   * Copy this Rng. The copy continues the same sequence independently.
+   */
+  clone(): Rng {
+    const rng = new Rng(this.seed);
+    // pure-rand generators are immutable, so the copy can share this one
+    rng.gen = this.gen;
+    return rng;
+  }
+
   /**
    * Returns a random integer in [minInclusive, maxExclusive).
    * @internal
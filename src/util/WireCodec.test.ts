@@ -0,0 +1,403 @@
+import { describe, it, expect } from "vitest";
+import {
+  DECISION_KINDS,
+  WIRE_FORMAT_VERSION,
+  choiceFromWire,
+  choiceToWire,
+  decodeChoice,
+  decodePrompt,
+  encodeChoice,
+  encodePrompt,
+} from "./WireCodec.js";
+import { DataRegistry } from "../data/DataRegistry.js";
+import type { BirdInstance } from "../types/core.js";
+import type {
+  DecisionChoice,
+  DecisionPrompt,
+  DecisionPromptBase,
+  OptionChoice,
+  OptionPrompt,
+  PlayerView,
+  StartingHandChoice,
+  StartingHandPrompt,
+  TurnActionChoice,
+  TurnActionPrompt,
+} from "../types/prompts.js";
+
+const registry = new DataRegistry();
+const coot = registry.getBirdById("american_coot");
+const mallard = registry.getBirdById("mallard");
+const [bonusCard, otherBonusCard] = registry.getAllBonusCards();
+
+const cootInstance: BirdInstance = {
+  id: "p1_WETLAND_0",
+  card: coot,
+  eggs: 1,
+  cachedFood: { SEED: 1 },
+  tuckedCards: ["mallard"],
+};
+
+const view: PlayerView = {
+  playerId: "p1",
+  hand: [mallard],
+  bonusCards: [bonusCard],
+  food: { SEED: 2, FISH: 1 },
+  board: {
+    FOREST: [null, null, null, null, null],
+    GRASSLAND: [null, null, null, null, null],
+    WETLAND: [cootInstance, null, null, null, null],
+  },
+  actionCubes: 7,
+  round: 1,
+  turn: 3,
+  activePlayerId: "p1",
+  birdfeeder: ["SEED", "SEED_INVERTEBRATE", "FISH"],
+  birdTray: [coot],
+  deckSize: 120,
+  roundGoals: [],
+  opponents: [
+    {
+      playerId: "p2",
+      board: {
+        FOREST: [null, null, null, null, null],
+        GRASSLAND: [null, null, null, null, null],
+        WETLAND: [null, null, null, null, null],
+      },
+      food: { INVERTEBRATE: 1, SEED: 0, FISH: 0, FRUIT: 2, RODENT: 0, WILD: 0 },
+      actionCubes: 8,
+      handSize: 4,
+    },
+  ],
+};
+
+function base(promptId: string): Omit<DecisionPromptBase, "kind"> {
+  return {
+    promptId,
+    playerId: "p1",
+    view,
+    context: {
+      round: 1,
+      activePlayerId: "p1",
+      trigger: {
+        type: "WHEN_ACTIVATED",
+        habitat: "WETLAND",
+        sourceBirdId: cootInstance.id,
+      },
+    },
+  };
+}
+
+/**
+ * One sample prompt and choice for every OptionPrompt kind.
+ * Typed as a Record so adding a prompt kind without a sample fails to compile.
+ */
+const OPTION_SAMPLES: {
+  [K in OptionPrompt["kind"]]: [
+    Extract<OptionPrompt, { kind: K }>,
+    Extract<OptionChoice, { kind: K }>,
+  ];
+} = {
+  activatePower: [
+    {
+      ...base("prompt_1"),
+      kind: "activatePower",
+      birdInstanceId: cootInstance.id,
+      power: coot.power!,
+    },
+    { promptId: "prompt_1", kind: "activatePower", activate: true },
+  ],
+  selectFoodFromFeeder: [
+    {
+      ...base("prompt_2"),
+      kind: "selectFoodFromFeeder",
+      availableDice: { SEED: 1, SEED_INVERTEBRATE: 1, FISH: 1 },
+    },
+    {
+      promptId: "prompt_2",
+      kind: "selectFoodFromFeeder",
+      diceOrReroll: [{ die: "SEED_INVERTEBRATE", asFoodType: "INVERTEBRATE" }],
+    },
+  ],
+  selectFoodFromSupply: [
+    {
+      ...base("prompt_3"),
+      kind: "selectFoodFromSupply",
+      count: 2,
+      allowedFoods: ["SEED", "FRUIT"],
+    },
+    { promptId: "prompt_3", kind: "selectFoodFromSupply", food: { SEED: 2 } },
+  ],
+  selectFoodDestination: [
+    {
+      ...base("prompt_4"),
+      kind: "selectFoodDestination",
+      sourceBirdId: cootInstance.id,
+      food: "SEED",
+      destinationOptions: ["PLAYER_SUPPLY", "CACHE_ON_SOURCE_BIRD"],
+    },
+    {
+      promptId: "prompt_4",
+      kind: "selectFoodDestination",
+      destination: "CACHE_ON_SOURCE_BIRD",
+    },
+  ],
+  discardEggs: [
+    {
+      ...base("prompt_5"),
+      kind: "discardEggs",
+      count: 1,
+      eggsByEligibleBird: { [cootInstance.id]: 1 },
+    },
+    {
+      promptId: "prompt_5",
+      kind: "discardEggs",
+      sources: { [cootInstance.id]: 1 },
+    },
+  ],
+  placeEggs: [
+    {
+      ...base("prompt_6"),
+      kind: "placeEggs",
+      count: 2,
+      remainingCapacitiesByEligibleBird: { [cootInstance.id]: 2 },
+    },
+    {
+      promptId: "prompt_6",
+      kind: "placeEggs",
+      placements: { [cootInstance.id]: 2 },
+    },
+  ],
+  selectCards: [
+    {
+      ...base("prompt_7"),
+      kind: "selectCards",
+      mode: "TUCK",
+      source: "HAND",
+      count: 1,
+      eligibleCards: [mallard],
+    },
+    { promptId: "prompt_7", kind: "selectCards", cards: [mallard.id] },
+  ],
+  drawCards: [
+    {
+      ...base("prompt_8"),
+      kind: "drawCards",
+      remaining: 2,
+      trayCards: [coot],
+    },
+    {
+      promptId: "prompt_8",
+      kind: "drawCards",
+      trayCards: [coot.id],
+      numDeckCards: 1,
+    },
+  ],
+  selectBonusCards: [
+    {
+      ...base("prompt_9"),
+      kind: "selectBonusCards",
+      count: 1,
+      eligibleCards: [bonusCard, otherBonusCard],
+    },
+    { promptId: "prompt_9", kind: "selectBonusCards", cards: [bonusCard.id] },
+  ],
+  selectPlayer: [
+    {
+      ...base("prompt_10"),
+      kind: "selectPlayer",
+      eligiblePlayers: ["p1", "p2"],
+    },
+    { promptId: "prompt_10", kind: "selectPlayer", player: "p2" },
+  ],
+  repeatPower: [
+    {
+      ...base("prompt_11"),
+      kind: "repeatPower",
+      eligibleBirds: [cootInstance.id],
+    },
+    { promptId: "prompt_11", kind: "repeatPower", bird: cootInstance.id },
+  ],
+  playBird: [
+    {
+      ...base("prompt_12"),
+      kind: "playBird",
+      eligibleBirds: [mallard],
+      eggCostByEligibleHabitat: { WETLAND: 1 },
+      foodExchangesRequired: { [mallard.id]: 1 },
+      previousError: { code: "INVALID_FOOD_PAYMENT", message: "Not enough" },
+    },
+    {
+      promptId: "prompt_12",
+      kind: "playBird",
+      bird: mallard.id,
+      habitat: "WETLAND",
+      foodToSpend: { SEED: 1 },
+      foodExchanges: [{ give: { SEED: 1, FISH: 1 }, receive: "SEED" }],
+      eggsToSpend: { [cootInstance.id]: 1 },
+    },
+  ],
+  discardFood: [
+    {
+      ...base("prompt_13"),
+      kind: "discardFood",
+      foodCost: { FISH: 1 },
+      tuckedCardsReward: 2,
+    },
+    { promptId: "prompt_13", kind: "discardFood", food: { FISH: 1 } },
+  ],
+  selectHabitat: [
+    {
+      ...base("prompt_14"),
+      kind: "selectHabitat",
+      eligibleHabitats: ["FOREST", "GRASSLAND"],
+    },
+    { promptId: "prompt_14", kind: "selectHabitat", habitat: "GRASSLAND" },
+  ],
+};
+
+const startingHandPrompt: StartingHandPrompt = {
+  ...base("prompt_0"),
+  kind: "startingHand",
+  eligibleBirds: [coot, mallard],
+  eligibleBonusCards: [bonusCard, otherBonusCard],
+};
+
+const startingHandChoice: StartingHandChoice = {
+  promptId: "prompt_0",
+  kind: "startingHand",
+  birds: new Set([coot.id, mallard.id]),
+  bonusCard: bonusCard.id,
+  foodToDiscard: new Set(["SEED", "FISH"]),
+};
+
+const turnActionPrompt: TurnActionPrompt = {
+  ...base("prompt_15"),
+  kind: "turnAction",
+  eligibleActions: ["GAIN_FOOD", "DRAW_CARDS"],
+  rewardsByAction: {
+    PLAY_BIRD: { reward: { type: "CARDS", count: 0 } },
+    GAIN_FOOD: {
+      reward: { type: "FOOD", count: 1 },
+      bonus: {
+        cost: { type: "CARDS", count: 1 },
+        reward: { type: "FOOD", count: 1 },
+      },
+    },
+    LAY_EGGS: { reward: { type: "EGGS", count: 2 } },
+    DRAW_CARDS: { reward: { type: "CARDS", count: 1 } },
+  },
+};
+
+const turnActionChoice: TurnActionChoice = {
+  promptId: "prompt_15",
+  kind: "turnAction",
+  action: "GAIN_FOOD",
+  takeBonus: true,
+};
+
+const ALL_SAMPLES: Array<[DecisionPrompt, DecisionChoice]> = [
+  [startingHandPrompt, startingHandChoice],
+  [turnActionPrompt, turnActionChoice],
+  ...Object.values(OPTION_SAMPLES),
+];
+
+/** Send a value through JSON, as if it crossed a process boundary */
+function overTheWire<T>(value: T): unknown {
+  return JSON.parse(JSON.stringify(value));
+}
+
+describe("WireCodec", () => {
+  it("has a sample for every decision kind", () => {
+    expect(ALL_SAMPLES.map(([prompt]) => prompt.kind).sort()).toEqual(
+      [...DECISION_KINDS].sort()
+    );
+  });
+
+  describe.each(
+    ALL_SAMPLES.map(([prompt, choice]) => [prompt.kind, prompt, choice])
+  )("%s", (_kind, prompt, choice) => {
+    it("round-trips the prompt through JSON", () => {
+      const message = overTheWire(encodePrompt(prompt as DecisionPrompt));
+      expect(decodePrompt(message)).toEqual(prompt);
+    });
+
+    it("round-trips the choice through JSON", () => {
+      const message = overTheWire(encodeChoice(choice as DecisionChoice));
+      expect(decodeChoice(message)).toEqual(choice);
+    });
+  });
+
+  describe("startingHand choices", () => {
+    it("encodes sets as arrays", () => {
+      expect(overTheWire(choiceToWire(startingHandChoice))).toEqual({
+        promptId: "prompt_0",
+        kind: "startingHand",
+        birds: [coot.id, mallard.id],
+        bonusCard: bonusCard.id,
+        foodToDiscard: ["SEED", "FISH"],
+      });
+    });
+
+    it("decodes arrays back to sets", () => {
+      const wire = overTheWire(choiceToWire(startingHandChoice));
+      const decoded = choiceFromWire(wire) as StartingHandChoice;
+      expect(decoded.birds).toBeInstanceOf(Set);
+      expect(decoded.foodToDiscard).toBeInstanceOf(Set);
+    });
+
+    it("rejects set fields that are not arrays", () => {
+      // What JSON.stringify makes of a Set
+      const broken = overTheWire(startingHandChoice);
+      expect(() => choiceFromWire(broken)).toThrow(
+        "Invalid startingHand choice on the wire: birds must be an array"
+      );
+    });
+  });
+
+  describe("validation", () => {
+    it("stamps messages with the wire format version", () => {
+      expect(encodeChoice(turnActionChoice).version).toBe(WIRE_FORMAT_VERSION);
+      expect(encodePrompt(turnActionPrompt).version).toBe(WIRE_FORMAT_VERSION);
+    });
+
+    it("rejects unsupported versions", () => {
+      const message = { ...encodeChoice(turnActionChoice), version: 99 };
+      expect(() => decodeChoice(message)).toThrow(
+        `Unsupported wire format version: 99 (expected ${WIRE_FORMAT_VERSION})`
+      );
+    });
+
+    it("rejects non-object messages", () => {
+      expect(() => decodePrompt("hello")).toThrow(
+        "Invalid prompt message on the wire: expected an object"
+      );
+    });
+
+    it("rejects unknown kinds", () => {
+      const message = {
+        version: WIRE_FORMAT_VERSION,
+        choice: { promptId: "prompt_1", kind: "flyAway" },
+      };
+      expect(() => decodeChoice(message)).toThrow(
+        'Invalid choice on the wire: unknown kind "flyAway"'
+      );
+    });
+
+    it("rejects decisions without a promptId", () => {
+      const message = {
+        version: WIRE_FORMAT_VERSION,
+        choice: { kind: "turnAction", action: "GAIN_FOOD", takeBonus: false },
+      };
+      expect(() => decodeChoice(message)).toThrow(
+        "Invalid turnAction choice on the wire: missing promptId"
+      );
+    });
+
+    it("rejects prompts without a playerId", () => {
+      const { playerId: _playerId, ...prompt } = turnActionPrompt;
+      expect(() =>
+        decodePrompt({ version: WIRE_FORMAT_VERSION, prompt })
+      ).toThrow("Invalid turnAction prompt on the wire: missing playerId");
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * WireCodec - Plain-JSON wire format for decision prompts and choices.
+ *
+ * In-process agents exchange DecisionPrompt/DecisionChoice objects directly,
+ * but some choice fields are Sets (e.g. StartingHandChoice.birds), which
+ * JSON.stringify silently turns into {}. Anything that crosses a process
+ * boundary (game records, out-of-process agents, scenario files) must go
+ * through this codec instead: encode to a versioned message that survives a
+ * JSON round trip, and decode (with validation) on the other side.
+ */
+
+import type { BirdCardId, FoodType } from "../types/core.js";
+import type {
+  DecisionChoice,
+  DecisionPrompt,
+  StartingHandChoice,
+} from "../types/prompts.js";
+
+/**
+ * Version of the wire format. Decoders reject messages from other versions.
+ */
+export const WIRE_FORMAT_VERSION = 1;
+
+/**
+ * Every prompt kind the engine can issue. Choices use the same kinds.
+ */
+export const DECISION_KINDS: readonly DecisionPrompt["kind"][] = [
+  "startingHand",
+  "turnAction",
+  "activatePower",
+  "selectFoodFromFeeder",
+  "selectFoodFromSupply",
+  "selectFoodDestination",
+  "discardEggs",
+  "placeEggs",
+  "selectCards",
+  "drawCards",
+  "selectBonusCards",
+  "selectPlayer",
+  "repeatPower",
+  "playBird",
+  "discardFood",
+  "selectHabitat",
+];
+
+/**
+ * Wire form of a StartingHandChoice: Sets become arrays.
+ */
+export interface WireStartingHandChoice
+  extends Omit<StartingHandChoice, "birds" | "foodToDiscard"> {
+  birds: BirdCardId[];
+  foodToDiscard: FoodType[];
+}
+
+/**
+ * Wire form of a prompt. Prompts are already plain data, so this is the
+ * prompt type itself; the alias marks values that went through the codec.
+ */
+export type WirePrompt = DecisionPrompt;
+
+/**
+ * Wire form of a choice.
+ */
+export type WireChoice =
+  | Exclude<DecisionChoice, StartingHandChoice>
+  | WireStartingHandChoice;
+
+/**
+ * Versioned envelope for a prompt on the wire.
+ */
+export interface WirePromptMessage {
+  version: number;
+  prompt: WirePrompt;
+}
+
+/**
+ * Versioned envelope for a choice on the wire.
+ */
+export interface WireChoiceMessage {
+  version: number;
+  choice: WireChoice;
+}
+
+/**
+ * Convert a prompt to its wire form.
+ */
+export function promptToWire(prompt: DecisionPrompt): WirePrompt {
+  return structuredClone(prompt);
+}
+
+/**
+ * Convert a wire prompt back to a DecisionPrompt.
+ * @throws Error if the value is not a prompt of a known kind
+ */
+export function promptFromWire(wire: unknown): DecisionPrompt {
+  const prompt = assertDecision(wire, "prompt");
+  if (typeof prompt.playerId !== "string") {
+    throw new Error(`Invalid ${prompt.kind} prompt on the wire: missing playerId`);
+  }
+  return structuredClone(prompt) as unknown as DecisionPrompt;
+}
+
+/**
+ * Convert a choice to its wire form.
+ */
+export function choiceToWire(choice: DecisionChoice): WireChoice {
+  if (choice.kind === "startingHand") {
+    return {
+      ...choice,
+      birds: [...choice.birds],
+      foodToDiscard: [...choice.foodToDiscard],
+    };
+  }
+  return structuredClone(choice);
+}
+
+/**
+ * Convert a wire choice back to a DecisionChoice.
+ * @throws Error if the value is not a choice of a known kind
+ */
+export function choiceFromWire(wire: unknown): DecisionChoice {
+  const choice = assertDecision(wire, "choice");
+  if (choice.kind === "startingHand") {
+    for (const field of ["birds", "foodToDiscard"] as const) {
+      if (!Array.isArray(choice[field])) {
+        throw new Error(
+          `Invalid startingHand choice on the wire: ${field} must be an array`
+        );
+      }
+    }
+    return {
+      ...(structuredClone(choice) as unknown as WireStartingHandChoice),
+      birds: new Set(choice.birds as BirdCardId[]),
+      foodToDiscard: new Set(choice.foodToDiscard as FoodType[]),
+    };
+  }
+  return structuredClone(choice) as unknown as DecisionChoice;
+}
+
+/**
+ * Wrap a prompt in a versioned wire message.
+ */
+export function encodePrompt(prompt: DecisionPrompt): WirePromptMessage {
+  return { version: WIRE_FORMAT_VERSION, prompt: promptToWire(prompt) };
+}
+
+/**
+ * Unwrap a versioned wire message into a DecisionPrompt.
+ * @throws Error if the message version is unsupported or the prompt is invalid
+ */
+export function decodePrompt(message: unknown): DecisionPrompt {
+  return promptFromWire(unwrap(message, "prompt"));
+}
+
+/**
+ * Wrap a choice in a versioned wire message.
+ */
+export function encodeChoice(choice: DecisionChoice): WireChoiceMessage {
+  return { version: WIRE_FORMAT_VERSION, choice: choiceToWire(choice) };
+}
+
+/**
+ * Unwrap a versioned wire message into a DecisionChoice.
+ * @throws Error if the message version is unsupported or the choice is invalid
+ */
+export function decodeChoice(message: unknown): DecisionChoice {
+  return choiceFromWire(unwrap(message, "choice"));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function unwrap(message: unknown, field: "prompt" | "choice"): unknown {
+  if (!isObject(message)) {
+    throw new Error(`Invalid ${field} message on the wire: expected an object`);
+  }
+  if (message.version !== WIRE_FORMAT_VERSION) {
+    throw new Error(
+      `Unsupported wire format version: ${String(message.version)} (expected ${WIRE_FORMAT_VERSION})`
+    );
+  }
+  return message[field];
+}
+
+function assertDecision(
+  value: unknown,
+  what: "prompt" | "choice"
+): Record<string, unknown> & { kind: DecisionPrompt["kind"] } {
+  if (!isObject(value)) {
+    throw new Error(`Invalid ${what} on the wire: expected an object`);
+  }
+  if (!DECISION_KINDS.includes(value.kind as DecisionPrompt["kind"])) {
+    throw new Error(
+      `Invalid ${what} on the wire: unknown kind "${String(value.kind)}"`
+    );
+  }
+  if (typeof value.promptId !== "string") {
+    throw new Error(
+      `Invalid ${value.kind} ${what} on the wire: missing promptId`
+    );
+  }
+  return value as Record<string, unknown> & { kind: DecisionPrompt["kind"] };
+}